@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
 import path from 'path';
 
 // Load environment variables from .env file
@@ -8,19 +9,139 @@ interface Config {
   port: number;
   logLevel: string;
   githubToken: string;
+  githubAppId: string;
+  githubAppPrivateKey: string;
+  githubAppInstallationId?: number;
+  githubAppHost: string;
+  gitlabToken: string;
+  giteaToken: string;
+  forgeHosts: Record<string, string>;
+  hostTokens: Record<string, string>;
+  hostApiUrls: Record<string, string>;
+  requestMaxRetries: number;
+  rateLimitMaxWaitSeconds: number;
+  // How long a forge API request may take before it is abandoned
+  requestTimeoutSeconds: number;
   developmentPath: string;
+  // Where plan versions and their approval history are kept
+  planStorePath: string;
+  defaultRepository: string;
+  // Where the codebase is analyzed: in the local clone, or through the forge API before cloning
+  codebaseAnalysis: 'local' | 'remote';
+  // Language model used for planning; planning falls back to keyword heuristics when unset
+  modelProvider: string;
+  modelName: string;
+  modelApiUrl: string;
+  modelApiKey: string;
+  modelMaxTokens: number;
+  modelTemperature: number;
+  modelTimeoutSeconds: number;
+  // Label rules and limits that decide whether an issue is worth resolving automatically
+  triageAllowLabels: string[];
+  triageDenyLabels: string[];
+  triageAllowedClasses: string[];
+  triageMaxScope: string;
+  // YAML or JSON file with plan templates offered to every repository
+  planTemplatesFile: string;
+  // Coding agent that implements plan steps in the development container
+  codingAgent: string;
+  codingAgentCommand: string;
+  codingAgentModel: string;
+  // How often, and for how long, failing tests are fed back to the coding agent
+  repairMaxIterations: number;
+  repairTimeBudgetSeconds: number;
+}
+
+/**
+ * Load the GitHub App private key from GITHUB_APP_PRIVATE_KEY or GITHUB_APP_PRIVATE_KEY_PATH
+ */
+function loadGitHubAppPrivateKey(): string {
+  if (process.env.GITHUB_APP_PRIVATE_KEY) {
+    // Allow single-line keys with escaped newlines, as most .env files require
+    return process.env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, '\n');
+  }
+
+  if (process.env.GITHUB_APP_PRIVATE_KEY_PATH) {
+    return fs.readFileSync(process.env.GITHUB_APP_PRIVATE_KEY_PATH, 'utf-8');
+  }
+
+  return '';
+}
+
+/**
+ * Parse a comma-separated list of host=value pairs
+ */
+function parseHostMap(value: string | undefined): Record<string, string> {
+  const map: Record<string, string> = {};
+
+  for (const pair of (value || '').split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) continue;
+    
+    const host = pair.substring(0, separator).trim().toLowerCase();
+    const hostValue = pair.substring(separator + 1).trim();
+    if (host && hostValue) {
+      map[host] = hostValue;
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Parse a comma-separated list into lowercase entries
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
 }
 
 const config: Config = {
   port: parseInt(process.env.PORT || '3000', 10),
   logLevel: process.env.LOG_LEVEL || 'info',
   githubToken: process.env.GITHUB_TOKEN || '',
-  developmentPath: process.env.DEVELOPMENT_PATH || path.join(__dirname, '../workspace')
+  githubAppId: process.env.GITHUB_APP_ID || '',
+  githubAppPrivateKey: loadGitHubAppPrivateKey(),
+  githubAppInstallationId: process.env.GITHUB_APP_INSTALLATION_ID
+    ? parseInt(process.env.GITHUB_APP_INSTALLATION_ID, 10)
+    : undefined,
+  githubAppHost: (process.env.GITHUB_APP_HOST || 'github.com').toLowerCase(),
+  gitlabToken: process.env.GITLAB_TOKEN || '',
+  giteaToken: process.env.GITEA_TOKEN || '',
+  forgeHosts: parseHostMap(process.env.FORGE_HOSTS),
+  hostTokens: parseHostMap(process.env.FORGE_HOST_TOKENS),
+  hostApiUrls: parseHostMap(process.env.FORGE_HOST_API_URLS),
+  requestMaxRetries: parseInt(process.env.REQUEST_MAX_RETRIES || '3', 10),
+  rateLimitMaxWaitSeconds: parseInt(process.env.RATE_LIMIT_MAX_WAIT || '60', 10),
+  requestTimeoutSeconds: parseInt(process.env.REQUEST_TIMEOUT || '60', 10),
+  developmentPath: process.env.DEVELOPMENT_PATH || path.join(__dirname, '../workspace'),
+  planStorePath: process.env.PLAN_STORE_PATH || path.join(__dirname, '../plans'),
+  defaultRepository: process.env.DEFAULT_REPOSITORY || '',
+  codebaseAnalysis: process.env.CODEBASE_ANALYSIS === 'remote' ? 'remote' : 'local',
+  modelProvider: (process.env.MODEL_PROVIDER || '').toLowerCase(),
+  modelName: process.env.MODEL_NAME || '',
+  modelApiUrl: process.env.MODEL_API_URL || '',
+  modelApiKey: process.env.MODEL_API_KEY || '',
+  modelMaxTokens: parseInt(process.env.MODEL_MAX_TOKENS || '4096', 10),
+  modelTemperature: parseFloat(process.env.MODEL_TEMPERATURE || '0.2'),
+  modelTimeoutSeconds: parseInt(process.env.MODEL_TIMEOUT || '300', 10),
+  triageAllowLabels: parseList(process.env.TRIAGE_ALLOW_LABELS),
+  triageDenyLabels: parseList(process.env.TRIAGE_DENY_LABELS ?? 'duplicate,invalid,wontfix,question,discussion'),
+  triageAllowedClasses: parseList(process.env.TRIAGE_ALLOWED_CLASSES || 'bug,feature,docs,chore'),
+  triageMaxScope: (process.env.TRIAGE_MAX_SCOPE || 'medium').toLowerCase(),
+  planTemplatesFile: process.env.PLAN_TEMPLATES_FILE || '',
+  codingAgent: (process.env.CODING_AGENT || 'codemcp').toLowerCase(),
+  codingAgentCommand: process.env.CODING_AGENT_COMMAND || '',
+  codingAgentModel: process.env.CODING_AGENT_MODEL || '',
+  repairMaxIterations: parseInt(process.env.REPAIR_MAX_ITERATIONS || '3', 10),
+  repairTimeBudgetSeconds: parseInt(process.env.REPAIR_TIME_BUDGET || '900', 10)
 };
 
 // Validate required configuration
-if (!config.githubToken) {
-  console.warn('Warning: GITHUB_TOKEN environment variable is not set');
+if (!config.githubToken && !(config.githubAppId && config.githubAppPrivateKey)) {
+  console.warn('Warning: neither GITHUB_TOKEN nor GITHUB_APP_ID/GITHUB_APP_PRIVATE_KEY is set');
 }
 
 export default config;
\ No newline at end of file
@@ -2,6 +2,10 @@ import { MCPServer } from '@modelcontextprotocol/typescript-sdk';
 import config from './config';
 import logger from './utils/logger';
 import { resolveGitHubIssueTool } from './tools/resolve-github-issue.tool';
+import { listPlansTool } from './tools/list-plans.tool';
+import { getPlanTool } from './tools/get-plan.tool';
+import { diffPlansTool } from './tools/diff-plans.tool';
+import { implementPlanTool } from './tools/implement-plan.tool';
 
 // Initialize the MCP server
 const server = new MCPServer({
@@ -12,6 +16,10 @@ const server = new MCPServer({
 
 // Register tools
 server.registerTool(resolveGitHubIssueTool);
+server.registerTool(listPlansTool);
+server.registerTool(getPlanTool);
+server.registerTool(diffPlansTool);
+server.registerTool(implementPlanTool);
 
 // Start the server
 async function startServer() {
@@ -0,0 +1,36 @@
+import { requireCommand, toAgentOutput } from '../utils/agent-command';
+import { AgentEnvironment, AgentOutput, AgentStepRequest, CodingAgent } from './coding-agent.service';
+
+/**
+ * Implements steps with aider, one non-interactive message per step.
+ *
+ * Aider's own commits are turned off so the changes land in the resolver's commit.
+ */
+export class AiderAgent implements CodingAgent {
+  readonly type = 'aider' as const;
+
+  constructor(private model?: string) {}
+
+  async prepare(environment: AgentEnvironment): Promise<void> {
+    await requireCommand(environment, ['aider', '--version'], 'aider');
+  }
+
+  async implementStep(environment: AgentEnvironment, request: AgentStepRequest): Promise<AgentOutput> {
+    const result = await environment.exec([
+      'aider',
+      '--yes-always',
+      '--no-auto-commits',
+      '--no-pretty',
+      '--no-stream',
+      ...(this.model ? ['--model', this.model] : []),
+      '--message',
+      request.prompt,
+      // Files given on the command line are added to the chat for editing; after "--" a path
+      // starting with a dash is never read as an option
+      '--',
+      ...request.targetFiles
+    ]);
+    
+    return toAgentOutput('aider', result);
+  }
+}
@@ -0,0 +1,63 @@
+import logger from '../utils/logger';
+import { HttpClient } from '../utils/http-client';
+import { CompletionRequest, ModelProvider, ModelSettings } from './model.service';
+
+const DEFAULT_API_URL = 'https://api.anthropic.com';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Completions through Anthropic's Messages API
+ */
+export class AnthropicModelProvider implements ModelProvider {
+  readonly type = 'anthropic' as const;
+  readonly model: string;
+  private client: HttpClient;
+
+  constructor(private settings: ModelSettings) {
+    this.model = settings.model;
+    this.client = new HttpClient(
+      (settings.apiUrl || DEFAULT_API_URL).replace(/\/+$/, ''),
+      {
+        'anthropic-version': ANTHROPIC_VERSION,
+        ...(settings.apiKey ? { 'x-api-key': settings.apiKey } : {})
+      }
+    );
+  }
+
+  /**
+   * Complete a conversation with the Messages API.
+   * There is no JSON mode; the prompt itself asks for JSON.
+   */
+  async complete(request: CompletionRequest): Promise<string> {
+    try {
+      logger.info('Requesting completion', { provider: this.type, model: this.model });
+      
+      const { data } = await this.client.request<any>('/v1/messages', {
+        method: 'POST',
+        timeoutMs: this.settings.timeoutSeconds * 1000,
+        body: {
+          model: this.model,
+          system: request.system,
+          messages: request.messages,
+          max_tokens: this.settings.maxTokens,
+          temperature: this.settings.temperature
+        }
+      });
+      
+      const content = (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+      
+      if (!content) {
+        throw new Error(`The response contained no text (stop reason: ${data.stop_reason || 'unknown'})`);
+      }
+      
+      return content;
+    } catch (error) {
+      logger.error('Failed to get completion', { provider: this.type, model: this.model, error });
+      throw new Error(`Failed to get completion: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
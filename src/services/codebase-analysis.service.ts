@@ -0,0 +1,856 @@
+import logger from '../utils/logger';
+import cache from '../utils/cache';
+import { RateLimitError } from '../utils/rate-limit';
+import { globToRegExp } from '../utils/glob';
+import {
+  parseCargoToml,
+  parseComposerJson,
+  parseDotnetProject,
+  parseGemfile,
+  parseGoMod,
+  parseGradleBuild,
+  parseGradleSettings,
+  parsePackageJson,
+  parsePackageJsonWorkspaces,
+  parsePipfile,
+  parsePnpmWorkspace,
+  parsePomXml,
+  parsePyprojectToml,
+  parseRequirementsTxt,
+  ParsedDependency,
+  ProjectCoordinates
+} from '../utils/manifest-parsers';
+import { FileContentLoader, FileStructure } from './forge.service';
+
+// Blobs larger than this are never downloaded for analysis
+const MAX_BLOB_SIZE = 1024 * 1024;
+
+// Upper bound on .NET project files parsed for a single solution
+const MAX_DOTNET_PROJECTS = 20;
+
+// Upper bound on workspace package manifests loaded to read package names
+const MAX_WORKSPACE_PACKAGES = 100;
+
+// Source file extensions counted towards language statistics
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.mts': 'TypeScript',
+  '.cts': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.rb': 'Ruby',
+  '.java': 'Java',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.php': 'PHP',
+  '.c': 'C',
+  '.h': 'C',
+  '.cpp': 'C++',
+  '.cc': 'C++',
+  '.hpp': 'C++',
+  '.cs': 'C#',
+  '.swift': 'Swift',
+  '.kt': 'Kotlin',
+  '.kts': 'Kotlin',
+  '.scala': 'Scala'
+};
+
+/**
+ * Build system used to install and test a project.
+ * Both yarn classic and berry report `yarn`; see the package manager for which.
+ */
+export type BuildSystem =
+  | 'npm'
+  | 'yarn'
+  | 'pnpm'
+  | 'pip'
+  | 'poetry'
+  | 'uv'
+  | 'pipenv'
+  | 'go'
+  | 'cargo'
+  | 'bundler'
+  | 'maven'
+  | 'gradle'
+  | 'composer'
+  | 'dotnet'
+  | 'unknown';
+
+export type PackageManagerName = Exclude<BuildSystem, 'yarn' | 'unknown'> | 'yarn-classic' | 'yarn-berry';
+
+export interface PackageManager {
+  name: PackageManagerName;
+  // Pinned version, e.g. from package.json's packageManager field
+  version?: string;
+  // Lockfile path relative to the repository root
+  lockfile?: string;
+}
+
+export interface Dependency extends ParsedDependency {
+  buildSystem: BuildSystem;
+}
+
+/**
+ * A project manifest found in the repository and what it declares
+ */
+export interface Ecosystem {
+  buildSystem: BuildSystem;
+  packageManager: PackageManager;
+  // Path of the manifest relative to the repository root
+  manifest: string;
+  languages: string[];
+  // Required runtime or toolchain version (engines.node, go directive, target framework, ...)
+  runtimeVersion?: string;
+  coordinates?: ProjectCoordinates;
+  dependencies: Dependency[];
+}
+
+/**
+ * A package or module of a monorepo (npm/yarn/pnpm workspace or Gradle multi-project build)
+ */
+export interface SubProject {
+  // Package name, or Gradle project path such as ":lib:core"
+  name: string;
+  // Directory relative to the repository root
+  path: string;
+  buildSystem: BuildSystem;
+  manifest?: string;
+}
+
+/**
+ * How much of the repository is written in a language
+ */
+export interface LanguageStats {
+  language: string;
+  files: number;
+  // Total size in bytes; 0 when the file sizes are unknown
+  bytes: number;
+  // Share of all recognized source, by bytes when sizes are known and by file count otherwise
+  percentage: number;
+}
+
+export interface CodebaseAnalysis {
+  fileStructure: FileStructure[];
+  // Build system of the primary ecosystem
+  buildSystem: BuildSystem;
+  packageManager?: PackageManager;
+  mainLanguage: string;
+  // Largest language first
+  languages: LanguageStats[];
+  ecosystems: Ecosystem[];
+  dependencies: Dependency[];
+  // Workspace packages and modules; empty for single-project repositories
+  subProjects: SubProject[];
+  commitSha?: string;
+  truncated?: boolean;
+  // Set when the analysis is partial, explaining why
+  incomplete?: string;
+}
+
+/**
+ * Entry of a recursive git tree listing, as returned by GitHub, GitLab and Gitea
+ */
+export interface TreeEntry {
+  path?: string;
+  type?: string;
+  sha?: string;
+  size?: number;
+}
+
+export class CodebaseAnalysisService {
+  /**
+   * Analyze a repository from its flat tree listing, loading file contents on demand
+   */
+  async analyze(entries: TreeEntry[], loadFileContent: FileContentLoader): Promise<CodebaseAnalysis> {
+    // Build file structure
+    const fileStructure = this.buildFileStructure(entries);
+    
+    // Detect languages, then every ecosystem with a manifest in the tree
+    const files = this.flattenFiles(fileStructure);
+    const languages = this.computeLanguageStats(files);
+    const mainLanguage = languages.length > 0 ? languages[0].language : 'Unknown';
+    const ecosystems = await this.detectEcosystems(files, loadFileContent);
+    const subProjects = await this.detectSubProjects(files, ecosystems, loadFileContent);
+    
+    // The primary ecosystem is the one matching the dominant language, e.g. a
+    // Python project that only has package.json for its docs tooling
+    const primary = ecosystems.find(ecosystem => ecosystem.languages.includes(mainLanguage)) || ecosystems[0];
+    
+    return {
+      fileStructure,
+      buildSystem: primary ? primary.buildSystem : 'unknown',
+      packageManager: primary?.packageManager,
+      mainLanguage,
+      languages,
+      ecosystems,
+      dependencies: ecosystems.flatMap(ecosystem => ecosystem.dependencies),
+      subProjects
+    };
+  }
+
+  /**
+   * Analysis result used when the repository could not be analyzed
+   */
+  emptyAnalysis(error?: unknown): CodebaseAnalysis {
+    return {
+      fileStructure: [],
+      buildSystem: 'unknown',
+      mainLanguage: 'unknown',
+      languages: [],
+      ecosystems: [],
+      dependencies: [],
+      subProjects: [],
+      incomplete: error === undefined ? undefined : this.describeFailure(error)
+    };
+  }
+
+  /**
+   * Explain why an analysis could not be completed
+   */
+  describeFailure(error: unknown): string {
+    if (error instanceof RateLimitError) {
+      return `Analysis incomplete due to rate limiting: ${error.message}`;
+    }
+    
+    return `Analysis failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  /**
+   * Get the content of a file through the shared blob cache, fetching it on first use
+   *
+   * @param host Forge host the file belongs to, e.g. github.com
+   */
+  async readBlob(file: FileStructure, host: string, fetchBlob: (sha: string) => Promise<string>): Promise<string | undefined> {
+    if (file.content !== undefined) {
+      return file.content;
+    }
+    
+    if (file.type !== 'file' || !file.sha) {
+      return undefined;
+    }
+    
+    if (file.size !== undefined && file.size > MAX_BLOB_SIZE) {
+      logger.debug('Skipping content of large file', { path: file.path, size: file.size });
+      return undefined;
+    }
+    
+    // Blob SHAs are content hashes, so cached contents are valid for any repo on the
+    // same host; keying by host keeps one server's cache from answering for another
+    const cacheKey = `blob:${host}/${file.sha}`;
+    let content = cache.getObject<string>(cacheKey);
+    
+    if (content === undefined) {
+      try {
+        content = await fetchBlob(file.sha);
+        cache.setObject(cacheKey, content);
+      } catch (error) {
+        logger.warn(`Failed to get content of file: ${file.path}`, { error });
+        return undefined;
+      }
+    }
+    
+    file.content = content;
+    return content;
+  }
+
+  /**
+   * Build a hierarchical file structure from flat git tree entries
+   */
+  private buildFileStructure(entries: TreeEntry[]): FileStructure[] {
+    const structure: FileStructure[] = [];
+    const directories = new Map<string, FileStructure>();
+    const nodes: FileStructure[] = [];
+    
+    for (const entry of entries) {
+      // Submodules are listed as commits and have no browsable content
+      if (!entry.path || (entry.type !== 'blob' && entry.type !== 'tree')) {
+        continue;
+      }
+      
+      const node: FileStructure = {
+        type: entry.type === 'tree' ? 'dir' : 'file',
+        path: entry.path,
+        name: entry.path.split('/').pop() || entry.path,
+        sha: entry.sha
+      };
+      
+      if (entry.type === 'tree') {
+        node.children = [];
+        directories.set(entry.path, node);
+      } else {
+        node.size = entry.size;
+      }
+      
+      nodes.push(node);
+    }
+    
+    for (const node of nodes) {
+      const separator = node.path.lastIndexOf('/');
+      
+      if (separator === -1) {
+        structure.push(node);
+        continue;
+      }
+      
+      const parent = directories.get(node.path.substring(0, separator));
+      if (parent && parent.children) {
+        parent.children.push(node);
+      }
+    }
+    
+    return structure;
+  }
+
+
+  /**
+   * Count files and bytes per language, largest first.
+   *
+   * Sizes are known for local workspaces and most forge trees; when they are
+   * not, languages are ranked by file count instead.
+   */
+  private computeLanguageStats(files: FileStructure[]): LanguageStats[] {
+    const totals = new Map<string, { files: number; bytes: number }>();
+    
+    for (const file of files) {
+      const separator = file.name.lastIndexOf('.');
+      const language = separator > 0 ? EXTENSION_LANGUAGES[file.name.substring(separator).toLowerCase()] : undefined;
+      
+      if (!language) {
+        continue;
+      }
+      
+      const total = totals.get(language) || { files: 0, bytes: 0 };
+      total.files += 1;
+      total.bytes += file.size || 0;
+      totals.set(language, total);
+    }
+    
+    const entries = Array.from(totals.entries());
+    const totalBytes = entries.reduce((sum, [, total]) => sum + total.bytes, 0);
+    const totalFiles = entries.reduce((sum, [, total]) => sum + total.files, 0);
+    
+    return entries
+      .map(([language, total]) => ({
+        language,
+        files: total.files,
+        bytes: total.bytes,
+        percentage: Math.round(
+          (totalBytes > 0 ? total.bytes / totalBytes : total.files / totalFiles) * 1000
+        ) / 10
+      }))
+      .sort((a, b) => b.bytes - a.bytes || b.files - a.files);
+  }
+
+  /**
+   * List every file in the structure
+   */
+  private flattenFiles(fileStructure: FileStructure[]): FileStructure[] {
+    const files: FileStructure[] = [];
+    
+    for (const item of fileStructure) {
+      if (item.type === 'file') {
+        files.push(item);
+      }
+      
+      if (item.children) {
+        files.push(...this.flattenFiles(item.children));
+      }
+    }
+    
+    return files;
+  }
+
+  /**
+   * Detect the ecosystems declared by manifests in the repository
+   */
+  private async detectEcosystems(files: FileStructure[], loadFileContent: FileContentLoader): Promise<Ecosystem[]> {
+    const detectors: Array<(files: FileStructure[], load: FileContentLoader) => Promise<Ecosystem | undefined>> = [
+      this.detectJavaScript,
+      this.detectPython,
+      this.detectGo,
+      this.detectCargo,
+      this.detectMaven,
+      this.detectGradle,
+      this.detectBundler,
+      this.detectComposer,
+      this.detectDotnet
+    ];
+    
+    const ecosystems: Ecosystem[] = [];
+    
+    for (const detect of detectors) {
+      try {
+        const ecosystem = await detect.call(this, files, loadFileContent);
+        if (ecosystem) {
+          ecosystems.push(ecosystem);
+        }
+      } catch (error) {
+        logger.warn('Failed to parse project manifest', { detector: detect.name, error });
+      }
+    }
+    
+    return ecosystems;
+  }
+
+  /**
+   * Detect npm, yarn (classic or berry) and pnpm projects.
+   *
+   * The packageManager field wins over lockfiles; a package.json without any
+   * lockfile is treated as npm.
+   */
+  private async detectJavaScript(files: FileStructure[], load: FileContentLoader): Promise<Ecosystem | undefined> {
+    const manifest = this.findManifest(files, name => name === 'package.json');
+    if (!manifest) return undefined;
+    
+    const { dependencies, manifest: packageJson } = parsePackageJson(await this.requireContent(manifest, load));
+    const directory = this.directoryOf(manifest);
+    
+    const pnpmLock = this.findSibling(files, directory, 'pnpm-lock.yaml');
+    const yarnLock = this.findSibling(files, directory, 'yarn.lock');
+    const npmLock = this.findSibling(files, directory, 'package-lock.json') ||
+      this.findSibling(files, directory, 'npm-shrinkwrap.json');
+    
+    // e.g. "pnpm@8.15.4" or "yarn@4.1.0+sha256.abc"
+    const [pinnedName, pinnedVersion] = typeof packageJson.packageManager === 'string'
+      ? packageJson.packageManager.split('+')[0].split('@')
+      : [];
+    
+    let packageManager: PackageManager;
+    
+    if (pinnedName === 'pnpm' || (!pinnedName && pnpmLock)) {
+      packageManager = { name: 'pnpm', version: pinnedVersion, lockfile: pnpmLock?.path };
+    } else if (pinnedName === 'yarn' || (!pinnedName && yarnLock)) {
+      const berry = pinnedVersion
+        ? parseInt(pinnedVersion, 10) >= 2
+        : Boolean(this.findSibling(files, directory, '.yarnrc.yml')) ||
+          Boolean(yarnLock && (await load(yarnLock))?.includes('__metadata:'));
+      
+      packageManager = { name: berry ? 'yarn-berry' : 'yarn-classic', version: pinnedVersion, lockfile: yarnLock?.path };
+    } else {
+      packageManager = { name: 'npm', version: pinnedName === 'npm' ? pinnedVersion : undefined, lockfile: npmLock?.path };
+    }
+    
+    const buildSystem: BuildSystem = packageManager.name === 'pnpm'
+      ? 'pnpm'
+      : packageManager.name === 'npm' ? 'npm' : 'yarn';
+    
+    return {
+      buildSystem,
+      packageManager,
+      manifest: manifest.path,
+      languages: ['JavaScript', 'TypeScript'],
+      runtimeVersion: packageJson.engines?.node,
+      coordinates: { name: packageJson.name, version: packageJson.version },
+      dependencies: this.withBuildSystem(dependencies, buildSystem)
+    };
+  }
+
+  /**
+   * Detect uv, Poetry, Pipenv and pip projects, in that order of preference
+   */
+  private async detectPython(files: FileStructure[], load: FileContentLoader): Promise<Ecosystem | undefined> {
+    const pyproject = this.findManifest(files, name => name === 'pyproject.toml');
+    const pipfile = this.findManifest(files, name => name === 'Pipfile');
+    const requirements = this.findManifest(files, name => name === 'requirements.txt');
+    const setupPy = this.findManifest(files, name => name === 'setup.py');
+    
+    const project = pyproject ? parsePyprojectToml(await this.requireContent(pyproject, load)) : undefined;
+    const poetryLock = pyproject && this.findSibling(files, this.directoryOf(pyproject), 'poetry.lock');
+    
+    // pyproject.toml alone does not show that uv manages a project; its lockfile does
+    const uvLock = pyproject && this.findSibling(files, this.directoryOf(pyproject), 'uv.lock');
+    if (pyproject && project && uvLock) {
+      return {
+        buildSystem: 'uv',
+        packageManager: { name: 'uv', lockfile: uvLock.path },
+        manifest: pyproject.path,
+        languages: ['Python'],
+        runtimeVersion: project.pythonVersion,
+        coordinates: project.coordinates,
+        dependencies: this.withBuildSystem(project.dependencies, 'uv')
+      };
+    }
+    
+    if (pyproject && project && (project.usesPoetry || poetryLock)) {
+      return {
+        buildSystem: 'poetry',
+        packageManager: { name: 'poetry', lockfile: poetryLock?.path },
+        manifest: pyproject.path,
+        languages: ['Python'],
+        runtimeVersion: project.pythonVersion,
+        coordinates: project.coordinates,
+        dependencies: this.withBuildSystem(project.dependencies, 'poetry')
+      };
+    }
+    
+    if (pipfile) {
+      const { dependencies, pythonVersion } = parsePipfile(await this.requireContent(pipfile, load));
+      const lockfile = this.findSibling(files, this.directoryOf(pipfile), 'Pipfile.lock');
+      
+      return {
+        buildSystem: 'pipenv',
+        packageManager: { name: 'pipenv', lockfile: lockfile?.path },
+        manifest: pipfile.path,
+        languages: ['Python'],
+        runtimeVersion: pythonVersion,
+        dependencies: this.withBuildSystem(dependencies, 'pipenv')
+      };
+    }
+    
+    const manifest = requirements || pyproject || setupPy;
+    if (!manifest) return undefined;
+    
+    const dependencies = [...(project?.dependencies || [])];
+    
+    if (requirements) {
+      dependencies.push(...parseRequirementsTxt(await this.requireContent(requirements, load)));
+      
+      const devRequirements = this.findSibling(files, this.directoryOf(requirements), 'requirements-dev.txt');
+      const devContent = devRequirements && await load(devRequirements);
+      if (devContent) {
+        dependencies.push(...parseRequirementsTxt(devContent, true));
+      }
+    }
+    
+    return {
+      buildSystem: 'pip',
+      packageManager: { name: 'pip' },
+      manifest: manifest.path,
+      languages: ['Python'],
+      runtimeVersion: project?.pythonVersion,
+      coordinates: project?.coordinates,
+      dependencies: this.withBuildSystem(dependencies, 'pip')
+    };
+  }
+
+  /**
+   * Detect Go modules
+   */
+  private async detectGo(files: FileStructure[], load: FileContentLoader): Promise<Ecosystem | undefined> {
+    const manifest = this.findManifest(files, name => name === 'go.mod');
+    if (!manifest) return undefined;
+    
+    const { dependencies, goVersion, module } = parseGoMod(await this.requireContent(manifest, load));
+    const lockfile = this.findSibling(files, this.directoryOf(manifest), 'go.sum');
+    
+    return {
+      buildSystem: 'go',
+      packageManager: { name: 'go', lockfile: lockfile?.path },
+      manifest: manifest.path,
+      languages: ['Go'],
+      runtimeVersion: goVersion,
+      coordinates: { name: module },
+      dependencies: this.withBuildSystem(dependencies, 'go')
+    };
+  }
+
+  /**
+   * Detect Rust crates
+   */
+  private async detectCargo(files: FileStructure[], load: FileContentLoader): Promise<Ecosystem | undefined> {
+    const manifest = this.findManifest(files, name => name === 'Cargo.toml');
+    if (!manifest) return undefined;
+    
+    const { dependencies, rustVersion, coordinates } = parseCargoToml(await this.requireContent(manifest, load));
+    const lockfile = this.findSibling(files, this.directoryOf(manifest), 'Cargo.lock');
+    
+    return {
+      buildSystem: 'cargo',
+      packageManager: { name: 'cargo', lockfile: lockfile?.path },
+      manifest: manifest.path,
+      languages: ['Rust'],
+      runtimeVersion: rustVersion,
+      coordinates,
+      dependencies: this.withBuildSystem(dependencies, 'cargo')
+    };
+  }
+
+  /**
+   * Detect Maven projects and their coordinates
+   */
+  private async detectMaven(files: FileStructure[], load: FileContentLoader): Promise<Ecosystem | undefined> {
+    const manifest = this.findManifest(files, name => name === 'pom.xml');
+    if (!manifest) return undefined;
+    
+    const { dependencies, javaVersion, coordinates } = parsePomXml(await this.requireContent(manifest, load));
+    
+    return {
+      buildSystem: 'maven',
+      packageManager: { name: 'maven' },
+      manifest: manifest.path,
+      languages: ['Java', 'Kotlin'],
+      runtimeVersion: javaVersion,
+      coordinates,
+      dependencies: this.withBuildSystem(dependencies, 'maven')
+    };
+  }
+
+  /**
+   * Detect Gradle projects (Groovy or Kotlin DSL) and their coordinates
+   */
+  private async detectGradle(files: FileStructure[], load: FileContentLoader): Promise<Ecosystem | undefined> {
+    const manifest = this.findManifest(files, name => name === 'build.gradle' || name === 'build.gradle.kts');
+    if (!manifest) return undefined;
+    
+    const { dependencies, coordinates } = parseGradleBuild(await this.requireContent(manifest, load));
+    const lockfile = this.findSibling(files, this.directoryOf(manifest), 'gradle.lockfile');
+    
+    return {
+      buildSystem: 'gradle',
+      packageManager: { name: 'gradle', lockfile: lockfile?.path },
+      manifest: manifest.path,
+      languages: ['Java', 'Kotlin'],
+      coordinates,
+      dependencies: this.withBuildSystem(dependencies, 'gradle')
+    };
+  }
+
+  /**
+   * Detect Ruby projects managed by Bundler
+   */
+  private async detectBundler(files: FileStructure[], load: FileContentLoader): Promise<Ecosystem | undefined> {
+    const manifest = this.findManifest(files, name => name === 'Gemfile');
+    if (!manifest) return undefined;
+    
+    const { dependencies, rubyVersion } = parseGemfile(await this.requireContent(manifest, load));
+    const directory = this.directoryOf(manifest);
+    const lockfile = this.findSibling(files, directory, 'Gemfile.lock');
+    const versionFile = this.findSibling(files, directory, '.ruby-version');
+    
+    return {
+      buildSystem: 'bundler',
+      packageManager: { name: 'bundler', version: lockfile && this.bundlerVersion(await load(lockfile)), lockfile: lockfile?.path },
+      manifest: manifest.path,
+      languages: ['Ruby'],
+      runtimeVersion: rubyVersion || (versionFile && (await load(versionFile))?.trim()) || undefined,
+      dependencies: this.withBuildSystem(dependencies, 'bundler')
+    };
+  }
+
+  /**
+   * Read the Bundler version recorded at the end of Gemfile.lock
+   */
+  private bundlerVersion(lockfileContent: string | undefined): string | undefined {
+    return lockfileContent?.match(/BUNDLED WITH\s+(\S+)/)?.[1];
+  }
+
+  /**
+   * Detect PHP projects managed by Composer
+   */
+  private async detectComposer(files: FileStructure[], load: FileContentLoader): Promise<Ecosystem | undefined> {
+    const manifest = this.findManifest(files, name => name === 'composer.json');
+    if (!manifest) return undefined;
+    
+    const { dependencies, manifest: composerJson } = parseComposerJson(await this.requireContent(manifest, load));
+    const lockfile = this.findSibling(files, this.directoryOf(manifest), 'composer.lock');
+    const [vendor, name] = (composerJson.name || '').split('/');
+    
+    return {
+      buildSystem: 'composer',
+      packageManager: { name: 'composer', lockfile: lockfile?.path },
+      manifest: manifest.path,
+      languages: ['PHP'],
+      runtimeVersion: composerJson.require?.php,
+      coordinates: { group: vendor || undefined, name, version: composerJson.version },
+      dependencies: this.withBuildSystem(dependencies, 'composer')
+    };
+  }
+
+  /**
+   * Detect .NET solutions and SDK-style projects
+   */
+  private async detectDotnet(files: FileStructure[], load: FileContentLoader): Promise<Ecosystem | undefined> {
+    const projects = files.filter(file => /\.(cs|fs|vb)proj$/.test(file.name));
+    const solution = this.findManifest(files, name => name.endsWith('.sln'));
+    
+    if (projects.length === 0 && !solution) return undefined;
+    
+    const dependencies: ParsedDependency[] = [];
+    const targetFrameworks = new Set<string>();
+    
+    for (const project of projects.slice(0, MAX_DOTNET_PROJECTS)) {
+      const content = await load(project);
+      if (!content) continue;
+      
+      const parsed = parseDotnetProject(content);
+      dependencies.push(...parsed.dependencies);
+      if (parsed.targetFramework) targetFrameworks.add(parsed.targetFramework);
+    }
+    
+    const manifest = solution || this.findManifest(projects, () => true)!;
+    const lockfile = this.findManifest(files, name => name === 'packages.lock.json');
+    
+    return {
+      buildSystem: 'dotnet',
+      packageManager: { name: 'dotnet', lockfile: lockfile?.path },
+      manifest: manifest.path,
+      languages: ['C#'],
+      runtimeVersion: Array.from(targetFrameworks).join(';') || undefined,
+      dependencies: this.withBuildSystem(this.uniqueDependencies(dependencies), 'dotnet')
+    };
+  }
+
+  /**
+   * Discover workspace packages and Gradle modules declared at the repository root
+   */
+  private async detectSubProjects(
+    files: FileStructure[],
+    ecosystems: Ecosystem[],
+    load: FileContentLoader
+  ): Promise<SubProject[]> {
+    const subProjects: SubProject[] = [];
+    
+    try {
+      const javascript = ecosystems.find(ecosystem =>
+        ['npm', 'yarn', 'pnpm'].includes(ecosystem.buildSystem) && !ecosystem.manifest.includes('/')
+      );
+      
+      if (javascript) {
+        subProjects.push(...await this.detectJavaScriptWorkspaces(files, javascript, load));
+      }
+      
+      const gradleSettings = this.findSibling(files, '', 'settings.gradle') ||
+        this.findSibling(files, '', 'settings.gradle.kts');
+      const settingsContent = gradleSettings && await load(gradleSettings);
+      
+      if (settingsContent) {
+        for (const { projectPath, directory } of parseGradleSettings(settingsContent)) {
+          const manifest = this.findSibling(files, directory, 'build.gradle') ||
+            this.findSibling(files, directory, 'build.gradle.kts');
+          
+          subProjects.push({ name: projectPath, path: directory, buildSystem: 'gradle', manifest: manifest?.path });
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to detect workspace sub-projects', { error });
+    }
+    
+    return subProjects;
+  }
+
+  /**
+   * Resolve npm/yarn workspace globs or pnpm-workspace.yaml to package directories
+   */
+  private async detectJavaScriptWorkspaces(
+    files: FileStructure[],
+    ecosystem: Ecosystem,
+    load: FileContentLoader
+  ): Promise<SubProject[]> {
+    let patterns: string[];
+    
+    const pnpmWorkspace = this.findSibling(files, '', 'pnpm-workspace.yaml');
+    if (ecosystem.buildSystem === 'pnpm' && pnpmWorkspace) {
+      patterns = parsePnpmWorkspace(await this.requireContent(pnpmWorkspace, load));
+    } else {
+      const rootManifest = this.findSibling(files, '', 'package.json');
+      patterns = rootManifest
+        ? parsePackageJsonWorkspaces(parsePackageJson(await this.requireContent(rootManifest, load)).manifest)
+        : [];
+    }
+    
+    const includes = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => globToRegExp(pattern));
+    const excludes = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => globToRegExp(pattern.substring(1)));
+    
+    const manifests = files.filter(file => {
+      if (file.name !== 'package.json' || !file.path.includes('/') || file.path.split('/').includes('node_modules')) {
+        return false;
+      }
+      
+      const directory = this.directoryOf(file);
+      return includes.some(regex => regex.test(directory)) && !excludes.some(regex => regex.test(directory));
+    });
+    
+    const subProjects: SubProject[] = [];
+    
+    for (const [index, manifest] of manifests.entries()) {
+      const directory = this.directoryOf(manifest);
+      let name = directory.split('/').pop() || directory;
+      
+      if (index < MAX_WORKSPACE_PACKAGES) {
+        const content = await load(manifest);
+        try {
+          name = (content && JSON.parse(content).name) || name;
+        } catch (error) {
+          logger.warn('Failed to parse workspace package.json', { path: manifest.path, error });
+        }
+      }
+      
+      subProjects.push({ name, path: directory, buildSystem: ecosystem.buildSystem, manifest: manifest.path });
+    }
+    
+    return subProjects;
+  }
+
+  /**
+   * Find the shallowest file matching a name, so the root manifest wins over nested ones
+   */
+  private findManifest(files: FileStructure[], matches: (name: string) => boolean): FileStructure | undefined {
+    let best: FileStructure | undefined;
+    let bestDepth = Infinity;
+    
+    for (const file of files) {
+      const depth = file.path.split('/').length;
+      
+      if (depth < bestDepth && matches(file.name)) {
+        best = file;
+        bestDepth = depth;
+      }
+    }
+    
+    return best;
+  }
+
+  /**
+   * Find a file with the given name in a directory
+   */
+  private findSibling(files: FileStructure[], directory: string, name: string): FileStructure | undefined {
+    const path = directory ? `${directory}/${name}` : name;
+    return files.find(file => file.path === path);
+  }
+
+  /**
+   * Directory containing a file, or '' for the repository root
+   */
+  private directoryOf(file: FileStructure): string {
+    const separator = file.path.lastIndexOf('/');
+    return separator === -1 ? '' : file.path.substring(0, separator);
+  }
+
+  /**
+   * Load a manifest, failing when its content is unavailable
+   */
+  private async requireContent(file: FileStructure, load: FileContentLoader): Promise<string> {
+    const content = await load(file);
+    
+    if (content === undefined) {
+      throw new Error(`Content of ${file.path} is unavailable`);
+    }
+    
+    return content;
+  }
+
+  /**
+   * Drop repeated declarations of the same dependency
+   */
+  private uniqueDependencies(dependencies: ParsedDependency[]): ParsedDependency[] {
+    const seen = new Map<string, ParsedDependency>();
+    
+    for (const dependency of dependencies) {
+      const key = `${dependency.name}@${dependency.version || ''}`;
+      if (!seen.has(key)) seen.set(key, dependency);
+    }
+    
+    return Array.from(seen.values());
+  }
+
+  /**
+   * Tag parsed dependencies with the build system that manages them
+   */
+  private withBuildSystem(dependencies: ParsedDependency[], buildSystem: BuildSystem): Dependency[] {
+    return dependencies.map(dependency => ({ ...dependency, buildSystem }));
+  }
+}
@@ -0,0 +1,34 @@
+import logger from '../utils/logger';
+import { requireCommand, toAgentOutput } from '../utils/agent-command';
+import { AgentEnvironment, AgentOutput, AgentStepRequest, CodingAgent } from './coding-agent.service';
+
+/**
+ * Implements steps with codemcp, which commits its changes as it goes
+ */
+export class CodemcpAgent implements CodingAgent {
+  readonly type = 'codemcp' as const;
+
+  /**
+   * Register the workspace as a codemcp project
+   */
+  async prepare(environment: AgentEnvironment): Promise<void> {
+    await requireCommand(environment, ['codemcp', '--help'], 'codemcp');
+    
+    const result = await environment.exec(['codemcp', 'InitProject', environment.workspacePath]);
+    if (result.exitCode !== 0) {
+      logger.warn('codemcp could not initialize the project, but continuing', { exitCode: result.exitCode, output: result.stdout });
+    }
+  }
+
+  async implementStep(environment: AgentEnvironment, request: AgentStepRequest): Promise<AgentOutput> {
+    const result = await environment.exec([
+      'codemcp',
+      'ImplementStep',
+      request.prompt,
+      `--chat_id=issue-${request.issueNumber}`,
+      `--description=${request.description}`
+    ]);
+    
+    return toAgentOutput('codemcp', result);
+  }
+}
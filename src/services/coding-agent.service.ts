@@ -0,0 +1,129 @@
+import config from '../config';
+import { AiderAgent } from './aider-agent.service';
+import { CodemcpAgent } from './codemcp-agent.service';
+import { CommandAgent } from './command-agent.service';
+import { ContainerExecutionResult } from './docker.service';
+import { FakeAgent } from './fake-agent.service';
+
+export type CodingAgentType = 'codemcp' | 'aider' | 'command' | 'fake';
+
+/**
+ * Which coding agent implements plan steps, and how it is invoked
+ */
+export interface CodingAgentSettings {
+  type: CodingAgentType;
+  // Argument vector for the command agent, with placeholders such as {prompt} and {files}
+  command: string[];
+  // Model for agents that let you choose one
+  model?: string;
+}
+
+/**
+ * Where an agent works: the workspace, and a way to run commands in the development container
+ */
+export interface AgentEnvironment {
+  workspacePath: string;
+  // Runs an argument vector in the workspace; nothing is interpreted by a shell
+  exec(command: string[]): Promise<ContainerExecutionResult>;
+}
+
+/**
+ * One plan step for an agent to implement
+ */
+export interface AgentStepRequest {
+  issueNumber: number;
+  stepNumber: number;
+  totalSteps: number;
+  description: string;
+  targetFiles: string[];
+  // Instructions for the step, with the issue and constraints the agent must respect
+  prompt: string;
+}
+
+/**
+ * What an agent reports about a step; the files it changed are read from the workspace
+ */
+export interface AgentOutput {
+  success: boolean;
+  summary: string;
+  errors: string[];
+}
+
+/**
+ * A coding agent that edits the workspace to implement plan steps
+ */
+export interface CodingAgent {
+  readonly type: CodingAgentType;
+
+  /**
+   * Check the agent can run in the environment and set it up for the workspace
+   */
+  prepare(environment: AgentEnvironment): Promise<void>;
+
+  /**
+   * Implement one step by editing files in the workspace
+   */
+  implementStep(environment: AgentEnvironment, request: AgentStepRequest): Promise<AgentOutput>;
+}
+
+const CODING_AGENT_TYPES: CodingAgentType[] = ['codemcp', 'aider', 'command', 'fake'];
+
+/**
+ * Read the coding agent settings from the environment
+ */
+export function getCodingAgentSettings(): CodingAgentSettings {
+  const type = config.codingAgent as CodingAgentType;
+  if (!CODING_AGENT_TYPES.includes(type)) {
+    throw new Error(`Unknown CODING_AGENT: ${config.codingAgent}. Use one of ${CODING_AGENT_TYPES.join(', ')}`);
+  }
+
+  const command = parseCommand(config.codingAgentCommand);
+  if (type === 'command' && command.length === 0) {
+    throw new Error('CODING_AGENT_COMMAND is required for the command coding agent');
+  }
+
+  return {
+    type,
+    command,
+    model: config.codingAgentModel || undefined
+  };
+}
+
+/**
+ * Create the agent for the given settings
+ */
+export function createCodingAgent(settings: CodingAgentSettings): CodingAgent {
+  switch (settings.type) {
+    case 'aider':
+      return new AiderAgent(settings.model);
+    case 'command':
+      return new CommandAgent(settings.command);
+    case 'fake':
+      return new FakeAgent();
+    case 'codemcp':
+    default:
+      return new CodemcpAgent();
+  }
+}
+
+/**
+ * Parse a command given as a JSON array of arguments, or as arguments separated by whitespace
+ */
+function parseCommand(value: string): string[] {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('[')) {
+    return trimmed.split(/\s+/).filter(Boolean);
+  }
+
+  let command: unknown;
+  try {
+    command = JSON.parse(trimmed);
+  } catch (error) {
+    throw new Error(`CODING_AGENT_COMMAND is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!Array.isArray(command) || command.some(arg => typeof arg !== 'string')) {
+    throw new Error('CODING_AGENT_COMMAND must be an array of strings');
+  }
+  return command;
+}
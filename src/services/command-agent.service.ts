@@ -0,0 +1,21 @@
+import { expandCommandTemplate, toAgentOutput } from '../utils/agent-command';
+import { AgentEnvironment, AgentOutput, AgentStepRequest, CodingAgent } from './coding-agent.service';
+
+/**
+ * Implements steps with a user-defined command from CODING_AGENT_COMMAND
+ */
+export class CommandAgent implements CodingAgent {
+  readonly type = 'command' as const;
+
+  constructor(private command: string[]) {}
+
+  /**
+   * Nothing to set up; the command is expected to be available in the image
+   */
+  async prepare(): Promise<void> {}
+
+  async implementStep(environment: AgentEnvironment, request: AgentStepRequest): Promise<AgentOutput> {
+    const result = await environment.exec(expandCommandTemplate(this.command, request, environment.workspacePath));
+    return toAgentOutput(this.command[0], result);
+  }
+}
@@ -1,4 +1,5 @@
 import Docker from 'dockerode';
+import { Writable } from 'stream';
 import logger from '../utils/logger';
 
 export interface ContainerConfig {
@@ -14,6 +15,23 @@ export interface ContainerExecutionResult {
   exitCode: number;
 }
 
+/**
+ * Collects what is written to it, decoding it as UTF-8 only at the end so characters
+ * split across frames stay intact
+ */
+class BufferedStream extends Writable {
+  private chunks: Buffer[] = [];
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: () => void): void {
+    this.chunks.push(chunk);
+    callback();
+  }
+
+  text(): string {
+    return Buffer.concat(this.chunks).toString('utf-8');
+  }
+}
+
 export class DockerService {
   private docker: Docker;
 
@@ -104,10 +122,14 @@ export class DockerService {
 
   /**
    * Execute a command in a running container
+   *
+   * @param timeoutMs Stop the command after this long by restarting the container, which ends
+   * every process in it but keeps its files; the result then has exit code 124, like timeout(1)
    */
   async execInContainer(
     container: Docker.Container, 
-    command: string[]
+    command: string[],
+    timeoutMs?: number
   ): Promise<ContainerExecutionResult> {
     try {
       logger.info('Executing command in container', { 
@@ -123,36 +145,58 @@ export class DockerService {
       
       return new Promise((resolve, reject) => {
         exec.start({}, (err, stream) => {
-          if (err) {
+          if (err || !stream) {
             logger.error('Failed to start exec', { error: err });
-            return reject(err);
+            return reject(err || new Error('Exec returned no output stream'));
           }
           
-          let stdout = '';
-          let stderr = '';
+          // Without a TTY, Docker multiplexes stdout and stderr into one stream of
+          // frames with 8-byte headers; split them back into the two outputs
+          const stdout = new BufferedStream();
+          const stderr = new BufferedStream();
+          this.docker.modem.demuxStream(stream, stdout, stderr);
           
-          stream.on('data', (chunk: Buffer) => {
-            const str = chunk.toString();
-            stdout += str;
-          });
+          const timer = timeoutMs === undefined ? undefined : setTimeout(async () => {
+            logger.warn('Command timed out, restarting the container to stop it', { containerId: container.id, timeoutMs });
+            stream.removeAllListeners('end');
+            stream.destroy();
+            
+            try {
+              await container.restart({ t: 5 });
+              resolve({
+                stdout: stdout.text(),
+                stderr: `${stderr.text()}\nTimed out after ${Math.round(timeoutMs / 1000)} seconds`,
+                exitCode: 124
+              });
+            } catch (error) {
+              reject(error);
+            }
+          }, Math.max(timeoutMs, 0));
           
           stream.on('end', async () => {
-            const inspectData = await exec.inspect();
-            const exitCode = inspectData.ExitCode;
-            
-            logger.info('Command execution completed', { 
-              containerId: container.id, 
-              exitCode 
-            });
+            clearTimeout(timer);
             
-            resolve({
-              stdout,
-              stderr,
-              exitCode
-            });
+            try {
+              const inspectData = await exec.inspect();
+              const exitCode = inspectData.ExitCode ?? -1;
+              
+              logger.info('Command execution completed', { 
+                containerId: container.id, 
+                exitCode 
+              });
+              
+              resolve({
+                stdout: stdout.text(),
+                stderr: stderr.text(),
+                exitCode
+              });
+            } catch (error) {
+              reject(error);
+            }
           });
           
           stream.on('error', (err) => {
+            clearTimeout(timer);
             logger.error('Stream error during exec', { error: err });
             reject(err);
           });
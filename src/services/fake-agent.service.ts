@@ -0,0 +1,92 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+import { AgentEnvironment, AgentOutput, AgentStepRequest, CodingAgent } from './coding-agent.service';
+
+/**
+ * What the fake agent does for one step
+ */
+export interface FakeAgentStep {
+  // Files to write, relative to the workspace; null deletes the file
+  files?: Record<string, string | null>;
+  // Unified diff applied with git apply
+  patch?: string;
+  summary?: string;
+  // Fail the step with this error after making the changes
+  error?: string;
+}
+
+export type FakeAgentResponse = FakeAgentStep | ((request: AgentStepRequest) => FakeAgentStep);
+
+/**
+ * Deterministic agent for running implementations offline.
+ *
+ * Makes the scripted changes for each step in order, then succeeds without
+ * changing anything, and records every request so callers can inspect the prompts.
+ * It edits the workspace directly instead of through the container.
+ */
+export class FakeAgent implements CodingAgent {
+  readonly type = 'fake' as const;
+  readonly requests: AgentStepRequest[] = [];
+
+  constructor(private steps: FakeAgentResponse[] = []) {}
+
+  async prepare(): Promise<void> {}
+
+  /**
+   * Apply the next scripted step to the workspace
+   */
+  async implementStep(environment: AgentEnvironment, request: AgentStepRequest): Promise<AgentOutput> {
+    this.requests.push(request);
+    
+    const scripted = this.steps.shift();
+    const step = typeof scripted === 'function' ? scripted(request) : scripted;
+    if (!step) {
+      return { success: true, summary: 'No changes scripted for this step', errors: [] };
+    }
+    
+    try {
+      for (const [file, content] of Object.entries(step.files || {})) {
+        const filePath = path.resolve(environment.workspacePath, file);
+        if (!filePath.startsWith(path.resolve(environment.workspacePath) + path.sep)) {
+          throw new Error(`${file} is outside the workspace`);
+        }
+        
+        if (content === null) {
+          await fs.remove(filePath);
+        } else {
+          await fs.outputFile(filePath, content);
+        }
+      }
+      
+      if (step.patch) {
+        await this.applyPatch(environment.workspacePath, step.patch);
+      }
+    } catch (error) {
+      return {
+        success: false,
+        summary: step.summary || '',
+        errors: [`Failed to apply scripted changes: ${error instanceof Error ? error.message : String(error)}`]
+      };
+    }
+    
+    return {
+      success: !step.error,
+      summary: step.summary || `Applied scripted changes for step ${request.stepNumber}`,
+      errors: step.error ? [step.error] : []
+    };
+  }
+
+  private async applyPatch(workspacePath: string, patch: string): Promise<void> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'fake-agent-'));
+    const patchFile = path.join(directory, 'step.patch');
+    
+    try {
+      await fs.writeFile(patchFile, patch.endsWith('\n') ? patch : `${patch}\n`);
+      await simpleGit(workspacePath).raw(['apply', '--whitespace=nowarn', patchFile]);
+    } finally {
+      await fs.remove(directory);
+    }
+  }
+}
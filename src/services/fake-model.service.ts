@@ -0,0 +1,67 @@
+import { CompletionRequest, ModelProvider } from './model.service';
+
+export type FakeResponse = string | ((request: CompletionRequest) => string);
+
+// Returned once the scripted responses run out; a complete, valid plan
+const DEFAULT_RESPONSE = JSON.stringify({
+  problemSummary: 'Plan produced by the fake model provider',
+  proposedSolution: 'Apply the change described in the issue',
+  targetProjects: [],
+  filesToModify: [],
+  implementationSteps: [
+    {
+      description: 'Reproduce the issue',
+      targetFiles: [],
+      changeType: 'none',
+      risk: 'low',
+      size: 'trivial',
+      acceptanceChecks: ['The reported behavior is reproduced']
+    },
+    {
+      description: 'Implement the change',
+      targetFiles: [],
+      changeType: 'modify',
+      risk: 'medium',
+      size: 'small',
+      acceptanceChecks: ['The reported behavior no longer occurs']
+    },
+    {
+      description: 'Add or update tests',
+      targetFiles: [],
+      changeType: 'test',
+      risk: 'low',
+      size: 'small',
+      acceptanceChecks: ['A test covers the change']
+    }
+  ],
+  testingStrategy: 'Run the existing test suite',
+  successCriteria: 'All tests pass and the issue is resolved'
+});
+
+/**
+ * Deterministic provider for running the planner offline.
+ *
+ * Replies with the scripted responses in order, then with a fixed plan, and
+ * records every request so callers can inspect the prompts.
+ */
+export class FakeModelProvider implements ModelProvider {
+  readonly type = 'fake' as const;
+  readonly model = 'fake';
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(private responses: FakeResponse[] = []) {}
+
+  /**
+   * Return the next scripted response
+   */
+  async complete(request: CompletionRequest): Promise<string> {
+    this.requests.push(request);
+    
+    const response = this.responses.shift();
+    if (response === undefined) {
+      return DEFAULT_RESPONSE;
+    }
+    
+    return typeof response === 'function' ? response(request) : response;
+  }
+}
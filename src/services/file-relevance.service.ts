@@ -0,0 +1,425 @@
+import logger from '../utils/logger';
+import { extractStackTraces, locateStackFrames } from '../utils/stack-traces';
+import { extractSymbols, tokenize } from '../utils/tokenize';
+import { FileContentLoader, FileStructure } from './forge.service';
+
+// BM25 term saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// A term in a file's path says more than one among its symbols, which says more than one in its body
+const FIELD_WEIGHTS: Record<IndexField, number> = {
+  path: 3,
+  symbols: 2,
+  content: 1
+};
+
+// Query terms from the title, and identifiers quoted in code, count more than prose
+const TITLE_TERM_WEIGHT = 2;
+const CODE_TERM_WEIGHT = 1.5;
+
+// Added to the score of files the issue names explicitly
+const MENTION_BOOSTS: Record<MentionSource, number> = {
+  'stack-trace': 10,
+  'code-block': 6,
+  text: 4
+};
+
+// Default upper bound on file contents loaded for indexing; each may cost an API request
+const DEFAULT_MAX_CONTENT_FILES = 50;
+
+// Files larger than this are indexed by path only
+const MAX_INDEXED_FILE_SIZE = 256 * 1024;
+
+// Results are cut to the best files scoring at least this share of the top score
+const MAX_RESULTS = 10;
+const MIN_RELATIVE_SCORE = 0.2;
+
+const INDEXED_EXTENSIONS = [
+  '.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte',
+  '.py', '.rb', '.java', '.kt', '.kts', '.scala', '.go', '.rs', '.php', '.cs', '.fs',
+  '.c', '.h', '.cc', '.cpp', '.hpp', '.swift', '.sh',
+  '.md', '.rst', '.txt', '.json', '.yml', '.yaml', '.toml', '.xml', '.gradle', '.html', '.css', '.scss'
+];
+
+// Generated lockfiles mention every dependency and would match almost any issue
+const UNINDEXED_FILES = [
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'poetry.lock', 'Pipfile.lock',
+  'Cargo.lock', 'Gemfile.lock', 'composer.lock', 'go.sum', 'packages.lock.json', 'gradle.lockfile'
+];
+
+// Repository-relative file paths with an extension, optionally followed by :line
+const FILE_MENTION_PATTERN = /(?:^|[\s"'`(\[<:=])((?:\.{0,2}\/)?(?:[\w@.-]+\/)*[\w@-][\w@.-]*\.[A-Za-z][\w]{0,9})(?::(\d+))?/g;
+
+type IndexField = 'path' | 'symbols' | 'content';
+
+type MentionSource = 'stack-trace' | 'code-block' | 'text';
+
+export interface RelevanceQuery {
+  title: string;
+  // Description and discussion
+  text: string;
+}
+
+/**
+ * A file ranked for an issue, with the reasons it scored
+ */
+export interface RankedFile {
+  file: FileStructure;
+  score: number;
+  reasons: string[];
+}
+
+interface FileMention {
+  path: string;
+  line?: number;
+  source: MentionSource;
+}
+
+interface IndexedFile {
+  file: FileStructure;
+  terms: Record<IndexField, Map<string, number>>;
+  lengths: Record<IndexField, number>;
+  symbols: string[];
+}
+
+interface FieldStatistics {
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export class FileRelevanceService {
+  constructor(
+    private loadFileContent?: FileContentLoader,
+    private maxContentFiles: number = DEFAULT_MAX_CONTENT_FILES
+  ) {}
+
+  /**
+   * Rank the files of a repository by relevance to an issue.
+   *
+   * Files are scored with BM25 over their path, declared symbols and
+   * contents, and boosted when the issue names them in a stack trace, a code
+   * block or prose. Only files that score are returned, best first.
+   */
+  async rank(fileStructure: FileStructure[], query: RelevanceQuery): Promise<RankedFile[]> {
+    const files = this.flattenFiles(fileStructure);
+    const queryTerms = this.buildQueryTerms(query);
+    const mentions = this.findFileMentions(`${query.title}\n${query.text}`, files);
+    
+    if (files.length === 0 || (queryTerms.size === 0 && mentions.length === 0)) {
+      return [];
+    }
+    
+    const index = await this.buildIndex(files, queryTerms, mentions);
+    const statistics = this.computeStatistics(index);
+    
+    const ranked: RankedFile[] = [];
+    
+    for (const entry of index) {
+      const contributions: Record<IndexField, Array<[string, number]>> = { path: [], symbols: [], content: [] };
+      let score = 0;
+      
+      for (const [term, queryWeight] of queryTerms) {
+        for (const field of Object.keys(FIELD_WEIGHTS) as IndexField[]) {
+          const frequency = entry.terms[field].get(term);
+          if (!frequency) continue;
+          
+          const { documentFrequency, averageLength } = statistics[field];
+          const documents = documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (index.length - documents + 0.5) / (documents + 0.5));
+          const normalization = 1 - B + B * (entry.lengths[field] / (averageLength || 1));
+          const contribution = queryWeight * FIELD_WEIGHTS[field] * idf * (frequency * (K1 + 1)) / (frequency + K1 * normalization);
+          
+          contributions[field].push([term, contribution]);
+          score += contribution;
+        }
+      }
+      
+      const reasons: string[] = [];
+      
+      const mention = this.findMention(entry.file, mentions);
+      if (mention) {
+        score += MENTION_BOOSTS[mention.source];
+        reasons.push(this.describeMention(mention));
+      }
+      
+      if (score <= 0) {
+        continue;
+      }
+      
+      reasons.push(...this.describeMatches(entry, contributions));
+      ranked.push({ file: entry.file, score: Math.round(score * 100) / 100, reasons });
+    }
+    
+    ranked.sort((a, b) => b.score - a.score);
+    
+    const threshold = ranked.length > 0 ? ranked[0].score * MIN_RELATIVE_SCORE : 0;
+    return ranked.filter(result => result.score >= threshold).slice(0, MAX_RESULTS);
+  }
+
+  /**
+   * Weight each query term by where in the issue it appears
+   */
+  private buildQueryTerms(query: RelevanceQuery): Map<string, number> {
+    const terms = new Map<string, number>();
+    
+    // Named files are boosted separately; keep only their name so directories and extensions
+    // don't match everything, and drop links whose host and path words are noise
+    const add = (text: string, weight: number) => {
+      const withoutPaths = text
+        .replace(/https?:\/\/\S+/g, ' ')
+        .replace(FILE_MENTION_PATTERN, (match, path: string) =>
+          match.substring(0, match.indexOf(path)) + this.stem(path)
+        );
+      
+      for (const term of tokenize(withoutPaths)) {
+        terms.set(term, Math.max(terms.get(term) || 0, weight));
+      }
+    };
+    
+    add(query.text, 1);
+    add(this.extractCode(query.text).join('\n'), CODE_TERM_WEIGHT);
+    add(query.title, TITLE_TERM_WEIGHT);
+    
+    return terms;
+  }
+
+  /**
+   * Index every file by path, and the most promising ones by symbols and contents too
+   */
+  private async buildIndex(
+    files: FileStructure[],
+    queryTerms: Map<string, number>,
+    mentions: FileMention[]
+  ): Promise<IndexedFile[]> {
+    const index: IndexedFile[] = files.map(file => {
+      const pathTerms = tokenize(`${this.directoryOf(file.path)} ${this.stem(file.path)}`);
+      
+      return {
+        file,
+        terms: { path: this.countTerms(pathTerms), symbols: new Map(), content: new Map() },
+        lengths: { path: pathTerms.length, symbols: 0, content: 0 },
+        symbols: []
+      };
+    });
+    
+    // Contents may cost an API request each, so load named files first, then those whose paths match
+    const pathScore = (entry: IndexedFile) =>
+      Array.from(entry.terms.path.keys()).filter(term => queryTerms.has(term)).length;
+    
+    const candidates = index
+      .filter(entry => this.isIndexable(entry.file))
+      .map(entry => ({ entry, priority: (this.findMention(entry.file, mentions) ? 1000 : 0) + pathScore(entry) }))
+      .sort((a, b) => b.priority - a.priority)
+      .slice(0, this.maxContentFiles);
+    
+    let loaded = 0;
+    
+    for (const { entry } of candidates) {
+      const content = entry.file.content ?? (this.loadFileContent ? await this.loadFileContent(entry.file) : undefined);
+      if (content === undefined || content.length > MAX_INDEXED_FILE_SIZE) continue;
+      
+      const symbols = extractSymbols(content);
+      const symbolTerms = symbols.flatMap(symbol => tokenize(symbol));
+      const contentTerms = tokenize(content);
+      
+      entry.symbols = symbols;
+      entry.terms.symbols = this.countTerms(symbolTerms);
+      entry.terms.content = this.countTerms(contentTerms);
+      entry.lengths.symbols = symbolTerms.length;
+      entry.lengths.content = contentTerms.length;
+      loaded++;
+    }
+    
+    logger.debug('Indexed repository files', { files: index.length, withContent: loaded });
+    
+    return index;
+  }
+
+  /**
+   * Document frequencies and average lengths per field, over the files indexed for that field
+   */
+  private computeStatistics(index: IndexedFile[]): Record<IndexField, FieldStatistics> {
+    const statistics = {} as Record<IndexField, FieldStatistics>;
+    
+    for (const field of Object.keys(FIELD_WEIGHTS) as IndexField[]) {
+      const documentFrequency = new Map<string, number>();
+      let totalLength = 0;
+      let documents = 0;
+      
+      for (const entry of index) {
+        if (entry.lengths[field] === 0) continue;
+        
+        totalLength += entry.lengths[field];
+        documents++;
+        
+        for (const term of entry.terms[field].keys()) {
+          documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+      }
+      
+      statistics[field] = { documentFrequency, averageLength: documents > 0 ? totalLength / documents : 0 };
+    }
+    
+    return statistics;
+  }
+
+  /**
+   * Find file paths named in the issue, noting whether they appear in a stack trace or code
+   */
+  private findFileMentions(text: string, files: FileStructure[]): FileMention[] {
+    // Stack frames are mapped to repository files, since they print absolute or package paths
+    const frames = locateStackFrames(extractStackTraces(text), files.map(file => file.path));
+    const mentions: FileMention[] = frames.map(frame => ({ path: frame.path, line: frame.line, source: 'stack-trace' }));
+    const code = this.extractCode(text).join('\n');
+    
+    const scan = (source: string, kind: MentionSource) => {
+      for (const line of source.split('\n')) {
+        for (const match of line.matchAll(FILE_MENTION_PATTERN)) {
+          // Skip URLs and version numbers such as v1.2.3
+          if (/^\w+:\/\//.test(match[1]) || /^v?\d+(\.\d+)+$/.test(match[1])) continue;
+          
+          mentions.push({
+            path: match[1].replace(/^(\.{0,2}\/)+/, ''),
+            line: match[2] ? parseInt(match[2], 10) : undefined,
+            source: kind
+          });
+        }
+      }
+    };
+    
+    scan(code, 'code-block');
+    scan(text, 'text');
+    
+    return mentions;
+  }
+
+  /**
+   * Strongest mention of a file; mentions may be relative to any directory, so match path suffixes
+   */
+  private findMention(file: FileStructure, mentions: FileMention[]): FileMention | undefined {
+    let best: FileMention | undefined;
+    
+    for (const mention of mentions) {
+      const matches = file.path === mention.path || file.path.endsWith(`/${mention.path}`);
+      
+      if (matches && (!best || MENTION_BOOSTS[mention.source] > MENTION_BOOSTS[best.source])) {
+        best = mention;
+      }
+    }
+    
+    return best;
+  }
+
+  /**
+   * Explain a mention boost
+   */
+  private describeMention(mention: FileMention): string {
+    const line = mention.line ? ` (line ${mention.line})` : '';
+    
+    switch (mention.source) {
+      case 'stack-trace':
+        return `named in a stack trace${line}`;
+      case 'code-block':
+        return `named in a code block${line}`;
+      default:
+        return `mentioned in the issue${line}`;
+    }
+  }
+
+  /**
+   * Explain the strongest term matches of each field
+   */
+  private describeMatches(entry: IndexedFile, contributions: Record<IndexField, Array<[string, number]>>): string[] {
+    const reasons: string[] = [];
+    
+    const strongest = (field: IndexField) => contributions[field]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([term]) => term);
+    
+    const pathTerms = strongest('path');
+    if (pathTerms.length > 0) {
+      reasons.push(`path matches ${pathTerms.map(term => `"${term}"`).join(', ')}`);
+    }
+    
+    const matchedTerms = new Set(contributions.symbols.map(([term]) => term));
+    const symbols = entry.symbols
+      .filter(symbol => tokenize(symbol).some(term => matchedTerms.has(term)))
+      .slice(0, 3);
+    if (symbols.length > 0) {
+      reasons.push(`defines ${symbols.join(', ')}`);
+    }
+    
+    const contentTerms = strongest('content');
+    if (contentTerms.length > 0) {
+      reasons.push(`content mentions ${contentTerms.map(term => `"${term}"`).join(', ')}`);
+    }
+    
+    return reasons;
+  }
+
+  /**
+   * Get fenced code blocks and inline code spans from markdown
+   */
+  private extractCode(text: string): string[] {
+    const blocks = Array.from(text.matchAll(/```[^\n]*\n([\s\S]*?)```/g), match => match[1]);
+    const withoutBlocks = text.replace(/```[\s\S]*?```/g, '');
+    const spans = Array.from(withoutBlocks.matchAll(/`([^`\n]+)`/g), match => match[1]);
+    
+    return [...blocks, ...spans];
+  }
+
+  /**
+   * Check whether a file's contents are worth indexing
+   */
+  private isIndexable(file: FileStructure): boolean {
+    if (UNINDEXED_FILES.includes(file.name) || file.path.split('/').includes('node_modules')) {
+      return false;
+    }
+    
+    if (file.size !== undefined && file.size > MAX_INDEXED_FILE_SIZE) {
+      return false;
+    }
+    
+    return INDEXED_EXTENSIONS.some(ext => file.name.endsWith(ext)) || /^(README|Makefile|Dockerfile)/.test(file.name);
+  }
+
+  /**
+   * File name without directory and extension
+   */
+  private stem(path: string): string {
+    return path.replace(/^.*\//, '').replace(/\.[^.]+$/, '');
+  }
+
+  /**
+   * Directory part of a path
+   */
+  private directoryOf(path: string): string {
+    const separator = path.lastIndexOf('/');
+    return separator === -1 ? '' : path.substring(0, separator);
+  }
+
+  /**
+   * Count occurrences of each term
+   */
+  private countTerms(terms: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    
+    return counts;
+  }
+
+  /**
+   * List every file in the structure
+   */
+  private flattenFiles(fileStructure: FileStructure[]): FileStructure[] {
+    return fileStructure.flatMap(item => [
+      ...(item.type === 'file' ? [item] : []),
+      ...this.flattenFiles(item.children || [])
+    ]);
+  }
+}
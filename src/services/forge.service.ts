@@ -0,0 +1,235 @@
+import { ForgeHost, ForgeType } from '../utils/forge-hosts';
+import { GitHubService } from './github.service';
+import { GitLabService } from './gitlab.service';
+import { GiteaService } from './gitea.service';
+import { CommitIdentity, GitHubAppAuthService } from './github-app.service';
+import type { CodebaseAnalysis } from './codebase-analysis.service';
+
+export type ReactionCounts = Record<string, number>;
+
+export interface IssueComment {
+  author: string;
+  body: string;
+  createdAt: string;
+  url: string;
+  reactions: ReactionCounts;
+}
+
+export interface IssueTimelineEvent {
+  event: string;
+  actor: string;
+  createdAt: string;
+  details?: string;
+}
+
+export interface LinkedPullRequest {
+  repository: string;
+  number: number;
+  title: string;
+  url: string;
+  state: 'open' | 'closed' | 'merged';
+  draft: boolean;
+  closesIssue: boolean;
+}
+
+export interface ReferencedIssue {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  url?: string;
+  title?: string;
+  state?: string;
+  direction: 'incoming' | 'outgoing';
+}
+
+export interface ReviewComment extends IssueComment {
+  // File and line of an inline review comment; absent for review summaries
+  path?: string;
+  line?: number;
+}
+
+export interface PullRequestDetails {
+  // Repository and branch the changes live on, which may be a fork
+  headOwner: string;
+  headRepo: string;
+  headBranch: string;
+  baseBranch: string;
+  draft: boolean;
+  merged: boolean;
+  reviewComments: ReviewComment[];
+}
+
+export interface IssueInfo {
+  forge: ForgeType;
+  serverUrl: string;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  url: string;
+  title: string;
+  body: string;
+  labels: string[];
+  state: string;
+  // Why a closed issue was closed, where the forge records it (e.g. completed, not_planned, duplicate)
+  stateReason?: string;
+  author: string;
+  assignees: string[];
+  // Conversation restricted to collaborators
+  locked: boolean;
+  reactions: ReactionCounts;
+  comments: IssueComment[];
+  timeline: IssueTimelineEvent[];
+  linkedPullRequests: LinkedPullRequest[];
+  referencedIssues: ReferencedIssue[];
+  repoInfo: {
+    name: string;
+    fullName: string;
+    language: string;
+    defaultBranch: string;
+    hasIssues: boolean;
+  };
+  codebaseAnalysis: CodebaseAnalysis;
+  // Set when the target is a pull/merge request rather than an issue
+  pullRequest?: PullRequestDetails;
+}
+
+export interface FileStructure {
+  type: string;
+  path: string;
+  name: string;
+  sha?: string;
+  size?: number;
+  children?: FileStructure[];
+  content?: string;
+}
+
+/**
+ * Options for fetching issue and pull request information
+ */
+export interface IssueInfoOptions {
+  // Set to false when the codebase will be analyzed from a local clone instead
+  analyzeCodebase?: boolean;
+}
+
+export type FileContentLoader = (file: FileStructure) => Promise<string | undefined>;
+
+export interface IssueReference {
+  serverUrl: string;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+}
+
+/**
+ * Optional settings applied to a newly opened pull request
+ */
+export interface PullRequestMetadata {
+  draft?: boolean;
+  labels?: string[];
+  assignees?: string[];
+  reviewers?: string[];
+  // Team slugs; GitLab has no team reviewers
+  teamReviewers?: string[];
+  // Milestone title or number
+  milestone?: string;
+}
+
+export interface PullRequestOptions extends PullRequestMetadata {
+  issueNumber: number;
+  title: string;
+  head: string;
+  base: string;
+  body: string;
+}
+
+export interface CreatedPullRequest {
+  url: string;
+  number: number;
+  // Metadata that could not be applied; the pull request itself was still created
+  warnings: string[];
+}
+
+/**
+ * Operations the resolve workflow needs from a code hosting platform
+ */
+export interface ForgeProvider {
+  readonly type: ForgeType;
+
+  /**
+   * Parse an issue URL to extract server, owner, repo, and issue number
+   */
+  parseIssueUrl(issueUrl: string): IssueReference;
+
+  /**
+   * Get detailed information about an issue, including codebase analysis
+   */
+  getIssueInfo(issueUrl: string, options?: IssueInfoOptions): Promise<IssueInfo>;
+
+  /**
+   * Check whether a number refers to a pull request.
+   * GitHub and Gitea number issues and pull requests in one sequence; GitLab does not.
+   */
+  isPullRequest(owner: string, repo: string, number: number): Promise<boolean>;
+
+  /**
+   * Get a pull/merge request as issue information, with its branches and review feedback.
+   * The codebase is analyzed at the head branch.
+   */
+  getPullRequestInfo(owner: string, repo: string, number: number, options?: IssueInfoOptions): Promise<IssueInfo>;
+
+  /**
+   * Get the content of a file from the analyzed file structure
+   */
+  getFileContent(owner: string, repo: string, file: FileStructure): Promise<string | undefined>;
+
+  /**
+   * Open a pull request (merge request on GitLab) for an issue
+   */
+  createPullRequest(owner: string, repo: string, options: PullRequestOptions): Promise<CreatedPullRequest>;
+
+  /**
+   * Add a comment to an issue
+   */
+  commentOnIssue(owner: string, repo: string, issueNumber: number, body: string): Promise<{ url: string }>;
+
+  /**
+   * Add a comment to a pull/merge request
+   */
+  commentOnPullRequest(owner: string, repo: string, number: number, body: string): Promise<{ url: string }>;
+
+  /**
+   * Get a currently valid API token for a repository
+   */
+  getToken(owner: string, repo: string): Promise<string>;
+
+  /**
+   * Build an authenticated git remote URL for cloning and pushing.
+   * Tokens may be short-lived, so callers should not reuse the URL for long.
+   */
+  getCloneUrl(owner: string, repo: string): Promise<string>;
+
+  /**
+   * Git author identity to commit as, when the credentials belong to a bot
+   */
+  getCommitIdentity?(): Promise<CommitIdentity | undefined>;
+}
+
+/**
+ * Create the provider that serves the given forge host
+ */
+export function createForgeProvider(host: ForgeHost): ForgeProvider {
+  switch (host.type) {
+    case 'gitlab':
+      return new GitLabService(host.token, host.serverUrl, host.apiUrl);
+    case 'gitea':
+      return new GiteaService(host.token, host.serverUrl, host.apiUrl);
+    case 'github':
+    default:
+      return new GitHubService(
+        host.token,
+        host.apiUrl,
+        host.serverUrl,
+        host.githubApp ? new GitHubAppAuthService(host.githubApp, host.apiUrl, host.hostname) : undefined
+      );
+  }
+}
@@ -0,0 +1,526 @@
+import logger from '../utils/logger';
+import { normalizeServerUrl } from '../utils/forge-hosts';
+import { HttpClient } from '../utils/http-client';
+import { closesIssue, findOutgoingReferences } from '../utils/issue-references';
+import { CodebaseAnalysis, CodebaseAnalysisService, TreeEntry } from './codebase-analysis.service';
+import {
+  CreatedPullRequest,
+  FileStructure,
+  ForgeProvider,
+  IssueInfo,
+  IssueInfoOptions,
+  IssueReference,
+  LinkedPullRequest,
+  PullRequestOptions,
+  ReactionCounts,
+  ReferencedIssue,
+  ReviewComment
+} from './forge.service';
+
+// Gitea caps list responses at 50 items by default
+const PAGE_SIZE = 50;
+
+/**
+ * Gitea (and Forgejo) implementation of the forge provider
+ */
+export class GiteaService implements ForgeProvider {
+  readonly type = 'gitea';
+  private client: HttpClient;
+  private analysisService = new CodebaseAnalysisService();
+
+  /**
+   * @param token Access token with repository and issue scopes
+   * @param serverUrl Web and git host URL, e.g. https://gitea.example.com
+   * @param apiUrl REST API base URL, e.g. https://gitea.example.com/api/v1
+   */
+  constructor(private token: string, private serverUrl: string, apiUrl: string) {
+    this.client = new HttpClient(apiUrl, token ? { Authorization: `token ${token}` } : {});
+  }
+
+  /**
+   * Parse Gitea issue URL to extract server, owner, repo, and issue number
+   */
+  parseIssueUrl(issueUrl: string): IssueReference {
+    try {
+      const url = new URL(issueUrl);
+      const pathParts = url.pathname.split('/');
+      
+      // Expected format: /owner/repo/issues/number
+      if (pathParts.length < 5 || pathParts[3] !== 'issues') {
+        throw new Error('Invalid Gitea issue URL format');
+      }
+      
+      return {
+        serverUrl: normalizeServerUrl(url),
+        owner: pathParts[1],
+        repo: pathParts[2],
+        issueNumber: parseInt(pathParts[4], 10)
+      };
+    } catch (error) {
+      logger.error('Failed to parse Gitea issue URL', { issueUrl, error });
+      throw new Error(`Invalid Gitea issue URL: ${issueUrl}`);
+    }
+  }
+
+  /**
+   * Get detailed information about a Gitea issue
+   */
+  async getIssueInfo(issueUrl: string, options: IssueInfoOptions = {}): Promise<IssueInfo> {
+    const { serverUrl, owner, repo, issueNumber } = this.parseIssueUrl(issueUrl);
+    const repoPath = this.repoPath(owner, repo);
+    
+    try {
+      logger.info('Fetching issue details', { owner, repo, issueNumber });
+      
+      // Get issue details
+      const { data: issue } = await this.client.request<any>(`${repoPath}/issues/${issueNumber}`);
+      
+      // Get repository information
+      const { data: repoInfo } = await this.client.request<any>(repoPath);
+      
+      // Languages are reported in bytes; take the largest share
+      const { data: languages } = await this.client.request<Record<string, number>>(`${repoPath}/languages`);
+      const language = Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0];
+      
+      // Get all issue comments
+      const comments = await this.client.paginate<any>(`${repoPath}/issues/${issueNumber}/comments`, {}, PAGE_SIZE);
+      
+      const reactions = await this.client.paginate<any>(`${repoPath}/issues/${issueNumber}/reactions`, {}, PAGE_SIZE);
+      
+      const timeline = await this.getTimeline(repoPath, issueNumber);
+      const linkedPullRequests = this.getLinkedPullRequests(timeline, owner, repo, issueNumber);
+      const incomingReferences = this.getIncomingReferences(timeline);
+      const referencedIssues = [
+        ...incomingReferences,
+        ...findOutgoingReferences(
+          [issue.body || '', ...comments.map(comment => comment.body || '')].join('\n'),
+          { owner, repo, issueNumber },
+          [...incomingReferences, ...linkedPullRequests.map(pr => ({ owner, repo, issueNumber: pr.number }))]
+        )
+      ];
+      
+      // Analyze codebase structure
+      const codebaseAnalysis = options.analyzeCodebase === false
+        ? this.analysisService.emptyAnalysis()
+        : await this.analyzeCodebase(owner, repo, repoInfo.default_branch);
+      
+      return {
+        forge: this.type,
+        serverUrl,
+        owner,
+        repo,
+        issueNumber,
+        url: issue.html_url,
+        title: issue.title,
+        body: issue.body || '',
+        labels: (issue.labels || []).map((label: { name: string }) => label.name),
+        state: issue.state,
+        author: issue.user?.login || 'unknown',
+        assignees: (issue.assignees || []).map((assignee: { login: string }) => assignee.login),
+        locked: Boolean(issue.is_locked),
+        reactions: this.countReactions(reactions.map(reaction => reaction.content)),
+        comments: comments.map(comment => ({
+          author: comment.user?.login || 'unknown',
+          body: comment.body || '',
+          createdAt: comment.created_at,
+          url: comment.html_url,
+          reactions: {}
+        })),
+        timeline: timeline
+          .filter(event => event.type !== 'comment')
+          .map(event => ({
+            event: event.type,
+            actor: event.user?.login || 'unknown',
+            createdAt: event.created_at,
+            details: event.label?.name || event.ref_issue?.html_url || event.new_title || undefined
+          })),
+        linkedPullRequests,
+        referencedIssues,
+        repoInfo: {
+          name: repoInfo.name,
+          fullName: repoInfo.full_name,
+          language: language || 'Unknown',
+          defaultBranch: repoInfo.default_branch,
+          hasIssues: repoInfo.has_issues
+        },
+        codebaseAnalysis
+      };
+    } catch (error) {
+      logger.error('Failed to fetch issue information', { owner, repo, issueNumber, error });
+      throw new Error(`Failed to fetch issue information: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Check whether an issue number belongs to a pull request
+   */
+  async isPullRequest(owner: string, repo: string, number: number): Promise<boolean> {
+    const { data: issue } = await this.client.request<any>(`${this.repoPath(owner, repo)}/issues/${number}`);
+    return Boolean(issue.pull_request);
+  }
+
+  /**
+   * Get a pull request with its branches and review feedback
+   */
+  async getPullRequestInfo(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: IssueInfoOptions = {}
+  ): Promise<IssueInfo> {
+    const repoPath = this.repoPath(owner, repo);
+    
+    // Pull requests are also issues, which provides comments, timeline and references;
+    // the codebase is analyzed below at the head branch instead of the default branch
+    const issueInfo = await this.getIssueInfo(
+      `${this.serverUrl}/${owner}/${repo}/issues/${pullNumber}`,
+      { analyzeCodebase: false }
+    );
+    
+    try {
+      logger.info('Fetching pull request details', { owner, repo, pullNumber });
+      
+      const { data: pullRequest } = await this.client.request<any>(`${repoPath}/pulls/${pullNumber}`);
+      const reviews = await this.client.paginate<any>(`${repoPath}/pulls/${pullNumber}/reviews`, {}, PAGE_SIZE);
+      
+      const reviewComments: ReviewComment[] = [];
+      
+      for (const review of reviews) {
+        if (review.body) {
+          reviewComments.push({
+            author: review.user?.login || 'unknown',
+            body: review.body,
+            createdAt: review.submitted_at || '',
+            url: review.html_url,
+            reactions: {}
+          });
+        }
+        
+        if (review.comments_count > 0) {
+          const { data: comments } = await this.client.request<any[]>(
+            `${repoPath}/pulls/${pullNumber}/reviews/${review.id}/comments`
+          );
+          
+          reviewComments.push(...comments.map(comment => ({
+            author: comment.user?.login || 'unknown',
+            body: comment.body || '',
+            createdAt: comment.created_at,
+            url: comment.html_url,
+            reactions: {},
+            path: comment.path,
+            line: comment.position || comment.original_position || undefined
+          })));
+        }
+      }
+      
+      // Changes go on the pull request's branch, which may live in a fork
+      const headOwner = pullRequest.head?.repo?.owner?.login || owner;
+      const headRepo = pullRequest.head?.repo?.name || repo;
+      
+      return {
+        ...issueInfo,
+        url: pullRequest.html_url,
+        codebaseAnalysis: options.analyzeCodebase === false
+          ? issueInfo.codebaseAnalysis
+          : await this.analyzeCodebase(headOwner, headRepo, pullRequest.head.ref),
+        pullRequest: {
+          headOwner,
+          headRepo,
+          headBranch: pullRequest.head.ref,
+          baseBranch: pullRequest.base.ref,
+          draft: Boolean(pullRequest.draft) || /^(WIP|\[WIP\]|Draft):/i.test(pullRequest.title || ''),
+          merged: Boolean(pullRequest.merged),
+          reviewComments
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to fetch pull request information', { owner, repo, pullNumber, error });
+      throw new Error(`Failed to fetch pull request information: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the issue timeline, which older Gitea versions do not provide
+   */
+  private async getTimeline(repoPath: string, issueNumber: number): Promise<any[]> {
+    try {
+      return await this.client.paginate<any>(`${repoPath}/issues/${issueNumber}/timeline`, {}, PAGE_SIZE);
+    } catch (error) {
+      logger.warn('Failed to fetch issue timeline', { repoPath, issueNumber, error });
+      return [];
+    }
+  }
+
+  /**
+   * Find pull requests that reference an issue from the timeline
+   */
+  private getLinkedPullRequests(timeline: any[], owner: string, repo: string, issueNumber: number): LinkedPullRequest[] {
+    const pullRequests = new Map<string, LinkedPullRequest>();
+    
+    for (const event of timeline) {
+      const source = event.type === 'pull_ref' ? event.ref_issue : undefined;
+      if (!source) continue;
+      
+      const repository = source.repository?.full_name || `${owner}/${repo}`;
+      pullRequests.set(`${repository}#${source.number}`, {
+        repository,
+        number: source.number,
+        title: source.title,
+        url: source.html_url,
+        state: source.pull_request?.merged ? 'merged' : source.state,
+        draft: Boolean(source.pull_request?.draft),
+        closesIssue: closesIssue(source.body || '', issueNumber)
+      });
+    }
+    
+    return Array.from(pullRequests.values());
+  }
+
+  /**
+   * Collect issues that reference this issue from the timeline
+   */
+  private getIncomingReferences(timeline: any[]): ReferencedIssue[] {
+    return timeline
+      .filter(event => (event.type === 'issue_ref' || event.type === 'comment_ref') && event.ref_issue && !event.ref_issue.pull_request)
+      .map(event => {
+        const [owner, repo] = (event.ref_issue.repository?.full_name || '/').split('/');
+        
+        return {
+          owner,
+          repo,
+          issueNumber: event.ref_issue.number,
+          url: event.ref_issue.html_url,
+          title: event.ref_issue.title,
+          state: event.ref_issue.state,
+          direction: 'incoming' as const
+        };
+      });
+  }
+
+  /**
+   * Count reactions by name
+   */
+  private countReactions(names: string[]): ReactionCounts {
+    const counts: ReactionCounts = {};
+    
+    for (const name of names) {
+      counts[name] = (counts[name] || 0) + 1;
+    }
+    
+    return counts;
+  }
+
+  /**
+   * Analyze repository codebase structure
+   */
+  private async analyzeCodebase(owner: string, repo: string, ref: string): Promise<CodebaseAnalysis> {
+    try {
+      logger.info('Analyzing codebase structure', { owner, repo, ref });
+      
+      // The recursive tree endpoint is paginated rather than truncated
+      const entries: TreeEntry[] = [];
+      let truncated = true;
+      
+      for (let page = 1; truncated; page++) {
+        const { data: tree } = await this.client.request<{ tree: TreeEntry[]; truncated: boolean }>(
+          `${this.repoPath(owner, repo)}/git/trees/${encodeURIComponent(ref)}`,
+          { query: { recursive: true, page, per_page: 1000 } }
+        );
+        
+        entries.push(...(tree.tree || []));
+        truncated = tree.truncated && (tree.tree || []).length > 0;
+      }
+      
+      return await this.analysisService.analyze(
+        entries,
+        file => this.getFileContent(owner, repo, file)
+      );
+    } catch (error) {
+      logger.error('Failed to analyze codebase', { owner, repo, error });
+      return this.analysisService.emptyAnalysis(error);
+    }
+  }
+
+  /**
+   * Get the content of a file, fetching its blob on first use
+   */
+  async getFileContent(owner: string, repo: string, file: FileStructure): Promise<string | undefined> {
+    return this.analysisService.readBlob(file, new URL(this.serverUrl).host, async sha => {
+      const { data: blob } = await this.client.request<{ content: string; encoding: string }>(
+        `${this.repoPath(owner, repo)}/git/blobs/${sha}`
+      );
+      
+      return Buffer.from(blob.content, blob.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+    });
+  }
+
+  /**
+   * Create a pull request for an issue
+   */
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    options: PullRequestOptions
+  ): Promise<CreatedPullRequest> {
+    const { issueNumber, head, base, body, draft } = options;
+    const repoPath = this.repoPath(owner, repo);
+    const warnings: string[] = [];
+    let pullRequest: any;
+    
+    try {
+      logger.info('Creating pull request', { owner, repo, issueNumber, head, base, draft });
+      
+      // Labels and milestones are referenced by ID
+      const labelIds = options.labels?.length ? await this.findLabelIds(repoPath, options.labels, warnings) : [];
+      const milestoneId = options.milestone ? await this.findMilestoneId(repoPath, options.milestone, warnings) : undefined;
+      
+      // Gitea marks drafts by a "WIP:" title prefix
+      const title = draft && !/^(wip:|\[wip\])/i.test(options.title) ? `WIP: ${options.title}` : options.title;
+      
+      ({ data: pullRequest } = await this.client.request<any>(`${repoPath}/pulls`, {
+        method: 'POST',
+        body: {
+          title,
+          head,
+          base,
+          body,
+          labels: labelIds.length ? labelIds : undefined,
+          assignees: options.assignees?.length ? options.assignees : undefined,
+          milestone: milestoneId
+        }
+      }));
+    } catch (error) {
+      logger.error('Failed to create pull request', { owner, repo, error });
+      throw new Error(`Failed to create pull request: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    if (options.reviewers?.length || options.teamReviewers?.length) {
+      try {
+        await this.client.request(`${repoPath}/pulls/${pullRequest.number}/requested_reviewers`, {
+          method: 'POST',
+          body: { reviewers: options.reviewers || [], team_reviewers: options.teamReviewers || [] }
+        });
+      } catch (error) {
+        logger.warn('Failed to request reviewers', { owner, repo, pullNumber: pullRequest.number, error });
+        warnings.push(`Failed to request reviewers: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    
+    return { url: pullRequest.html_url, number: pullRequest.number, warnings };
+  }
+
+  /**
+   * Look up repository label IDs by name, recording a warning for unknown labels
+   */
+  private async findLabelIds(repoPath: string, names: string[], warnings: string[]): Promise<number[]> {
+    try {
+      const labels = await this.client.paginate<{ id: number; name: string }>(`${repoPath}/labels`, {}, PAGE_SIZE);
+      const ids: number[] = [];
+      
+      for (const name of names) {
+        const label = labels.find(candidate => candidate.name === name);
+        if (label) {
+          ids.push(label.id);
+        } else {
+          warnings.push(`Label not found: ${name}`);
+        }
+      }
+      
+      return ids;
+    } catch (error) {
+      logger.warn('Failed to look up labels', { repoPath, error });
+      warnings.push(`Failed to look up labels: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  }
+
+  /**
+   * Look up a milestone ID by number or title
+   */
+  private async findMilestoneId(repoPath: string, milestone: string, warnings: string[]): Promise<number | undefined> {
+    if (/^\d+$/.test(milestone)) {
+      return parseInt(milestone, 10);
+    }
+    
+    try {
+      const milestones = await this.client.paginate<{ id: number; title: string }>(
+        `${repoPath}/milestones`,
+        { state: 'all' },
+        PAGE_SIZE
+      );
+      
+      const match = milestones.find(candidate => candidate.title === milestone);
+      if (match) {
+        return match.id;
+      }
+      
+      warnings.push(`Milestone not found: ${milestone}`);
+    } catch (error) {
+      logger.warn('Failed to look up milestone', { repoPath, milestone, error });
+      warnings.push(`Failed to look up milestone ${milestone}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * Add a comment to a Gitea issue
+   */
+  async commentOnIssue(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    body: string
+  ): Promise<{ url: string }> {
+    try {
+      logger.info('Adding comment to issue', { owner, repo, issueNumber });
+      
+      const { data: comment } = await this.client.request<any>(
+        `${this.repoPath(owner, repo)}/issues/${issueNumber}/comments`,
+        { method: 'POST', body: { body } }
+      );
+      
+      return { url: comment.html_url };
+    } catch (error) {
+      logger.error('Failed to comment on issue', { owner, repo, issueNumber, error });
+      throw new Error(`Failed to comment on issue: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Add a comment to a pull request's conversation
+   */
+  async commentOnPullRequest(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    body: string
+  ): Promise<{ url: string }> {
+    return this.commentOnIssue(owner, repo, pullNumber, body);
+  }
+
+  /**
+   * Get the configured access token
+   */
+  async getToken(): Promise<string> {
+    return this.token;
+  }
+
+  /**
+   * Build an authenticated git remote URL on this Gitea host
+   */
+  async getCloneUrl(owner: string, repo: string): Promise<string> {
+    const remoteUrl = new URL(`${this.serverUrl}/${owner}/${repo}.git`);
+    remoteUrl.username = 'oauth2';
+    remoteUrl.password = this.token;
+    
+    return remoteUrl.toString();
+  }
+
+  /**
+   * API path of a repository
+   */
+  private repoPath(owner: string, repo: string): string {
+    return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+}
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { Octokit } from '@octokit/rest';
+import logger from '../utils/logger';
+
+// Installation tokens live for an hour; renew them well before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface GitHubAppCredentials {
+  appId: string;
+  privateKey: string;
+  installationId?: number;
+}
+
+export interface CommitIdentity {
+  name: string;
+  email: string;
+}
+
+interface InstallationToken {
+  token: string;
+  expiresAt: Date;
+}
+
+// Shared across service instances so tokens survive between tool invocations
+const installationTokens = new Map<string, InstallationToken>();
+const installationIds = new Map<string, number>();
+const botIdentities = new Map<string, CommitIdentity>();
+
+/**
+ * Authenticates as a GitHub App and issues short-lived installation tokens
+ */
+export class GitHubAppAuthService {
+  /**
+   * @param credentials App ID, PEM private key and optional fixed installation ID
+   * @param apiUrl REST API base URL of the GitHub host the app is installed on
+   * @param hostname Web hostname, used for the bot's noreply email address
+   */
+  constructor(
+    private credentials: GitHubAppCredentials,
+    private apiUrl: string,
+    private hostname: string = 'github.com'
+  ) {}
+
+  /**
+   * Get a valid installation token for a repository, creating or refreshing it as needed
+   */
+  async getInstallationToken(owner: string, repo: string): Promise<string> {
+    try {
+      const installationId = await this.getInstallationId(owner, repo);
+      const cacheKey = `${this.apiUrl}#${installationId}`;
+      const cached = installationTokens.get(cacheKey);
+      
+      if (cached && cached.expiresAt.getTime() - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+        return cached.token;
+      }
+      
+      logger.info('Creating GitHub App installation token', { appId: this.credentials.appId, installationId });
+      
+      const { data } = await this.createAppClient().apps.createInstallationAccessToken({
+        installation_id: installationId
+      });
+      
+      installationTokens.set(cacheKey, { token: data.token, expiresAt: new Date(data.expires_at) });
+      return data.token;
+    } catch (error) {
+      logger.error('Failed to get GitHub App installation token', { owner, repo, error });
+      throw new Error(`Failed to authenticate as GitHub App: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the git author identity of the app's bot user
+   */
+  async getBotIdentity(): Promise<CommitIdentity> {
+    const cacheKey = `${this.apiUrl}#${this.credentials.appId}`;
+    const cached = botIdentities.get(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+    
+    const appClient = this.createAppClient();
+    const { data: app } = await appClient.apps.getAuthenticated();
+    const botLogin = `${app.slug}[bot]`;
+    const { data: botUser } = await appClient.users.getByUsername({ username: botLogin });
+    
+    const identity = {
+      name: botLogin,
+      email: `${botUser.id}+${botLogin}@users.noreply.${this.hostname}`
+    };
+    
+    botIdentities.set(cacheKey, identity);
+    return identity;
+  }
+
+  /**
+   * Find the installation of the app that covers a repository
+   */
+  private async getInstallationId(owner: string, repo: string): Promise<number> {
+    if (this.credentials.installationId) {
+      return this.credentials.installationId;
+    }
+    
+    const cacheKey = `${this.apiUrl}/${owner}/${repo}`;
+    const cached = installationIds.get(cacheKey);
+    
+    if (cached) {
+      return cached;
+    }
+    
+    const { data: installation } = await this.createAppClient().apps.getRepoInstallation({ owner, repo });
+    
+    installationIds.set(cacheKey, installation.id);
+    return installation.id;
+  }
+
+  /**
+   * Create a client authenticated as the app itself
+   */
+  private createAppClient(): Octokit {
+    return new Octokit({ auth: this.createJwt(), baseUrl: this.apiUrl });
+  }
+
+  /**
+   * Create a signed JWT identifying the app, valid for nine minutes
+   */
+  private createJwt(): string {
+    const now = Math.floor(Date.now() / 1000);
+    
+    // Backdate issuance to tolerate clock drift between us and GitHub
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({
+      iat: now - 60,
+      exp: now + 9 * 60,
+      iss: this.credentials.appId
+    })).toString('base64url');
+    
+    const signature = crypto
+      .createSign('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .sign(this.credentials.privateKey)
+      .toString('base64url');
+    
+    return `${header}.${payload}.${signature}`;
+  }
+}
@@ -1,44 +1,81 @@
 import { Octokit } from '@octokit/rest';
+import config from '../config';
 import logger from '../utils/logger';
+import cache from '../utils/cache';
+import { RateLimitedRequester, RateLimitState } from '../utils/rate-limit';
+import { closesIssue, findOutgoingReferences } from '../utils/issue-references';
+import { DEFAULT_GITHUB_SERVER_URL, normalizeServerUrl } from '../utils/forge-hosts';
+import { CodebaseAnalysis, CodebaseAnalysisService, TreeEntry } from './codebase-analysis.service';
+import { CommitIdentity, GitHubAppAuthService } from './github-app.service';
+import {
+  CreatedPullRequest,
+  FileStructure,
+  ForgeProvider,
+  IssueInfo,
+  IssueInfoOptions,
+  IssueReference,
+  IssueTimelineEvent,
+  LinkedPullRequest,
+  PullRequestOptions,
+  ReactionCounts,
+  ReferencedIssue,
+  ReviewComment
+} from './forge.service';
 
-export interface IssueInfo {
-  owner: string;
-  repo: string;
-  issueNumber: number;
-  title: string;
-  body: string;
-  labels: any[];
-  state: string;
-  comments: any[];
-  repoInfo: {
-    name: string;
-    fullName: string;
-    language: string;
-    defaultBranch: string;
-    hasIssues: boolean;
-  };
-  codebaseAnalysis: any;
-}
-
-export interface FileStructure {
-  type: string;
-  path: string;
-  name: string;
-  children?: FileStructure[];
-  content?: string;
-}
-
-export class GitHubService {
+export class GitHubService implements ForgeProvider {
+  readonly type = 'github';
   private octokit: Octokit;
+  private requester = new RateLimitedRequester();
+  private analysisService = new CodebaseAnalysisService();
 
-  constructor(token: string) {
-    this.octokit = new Octokit({ auth: token });
+  /**
+   * @param token Token used for API requests and git operations
+   * @param apiUrl REST API base URL, e.g. https://ghe.example.com/api/v3 for GitHub Enterprise Server
+   * @param serverUrl Web and git host URL, e.g. https://ghe.example.com
+   * @param appAuth GitHub App credentials; when set, requests use per-installation tokens instead of `token`
+   */
+  constructor(
+    private token: string,
+    private apiUrl: string = 'https://api.github.com',
+    private serverUrl: string = DEFAULT_GITHUB_SERVER_URL,
+    private appAuth?: GitHubAppAuthService
+  ) {
+    this.octokit = new Octokit({ auth: appAuth ? undefined : token, baseUrl: apiUrl });
+    
+    // Installation tokens are scoped to the repository each request targets. GraphQL queries
+    // name it in their variables, and paginated requests only in their expanded URL
+    if (appAuth) {
+      this.octokit.hook.before('request', async options => {
+        const parameters = options as { owner?: string; repo?: string; variables?: { owner?: string; repo?: string } };
+        const [, urlOwner, urlRepo] = String(options.url).match(/\/repos\/([^/{}]+)\/([^/{}?]+)/) || [];
+        const owner = parameters.owner || parameters.variables?.owner || urlOwner;
+        const repo = parameters.repo || parameters.variables?.repo || urlRepo;
+        if (owner && repo) {
+          options.headers.authorization = `token ${await appAuth.getInstallationToken(owner, repo)}`;
+        }
+      });
+    }
+    
+    // Route every API call through the shared rate limit and retry layer, abandoning attempts that hang
+    this.octokit.hook.wrap('request', (request, options) =>
+      this.requester.execute(
+        async () => request({ ...options, request: { ...options.request, signal: AbortSignal.timeout(config.requestTimeoutSeconds * 1000) } }),
+        options.method
+      )
+    );
   }
 
   /**
-   * Parse GitHub issue URL to extract owner, repo, and issue number
+   * Latest known API rate limit budget
    */
-  parseIssueUrl(issueUrl: string): { owner: string; repo: string; issueNumber: number } {
+  getRateLimitState(): RateLimitState {
+    return this.requester.getState();
+  }
+
+  /**
+   * Parse GitHub issue URL to extract server, owner, repo, and issue number
+   */
+  parseIssueUrl(issueUrl: string): IssueReference {
     try {
       const url = new URL(issueUrl);
       const pathParts = url.pathname.split('/');
@@ -49,6 +86,7 @@ export class GitHubService {
       }
       
       return {
+        serverUrl: normalizeServerUrl(url),
         owner: pathParts[1],
         repo: pathParts[2],
         issueNumber: parseInt(pathParts[4], 10)
@@ -62,8 +100,8 @@ export class GitHubService {
   /**
    * Get detailed information about a GitHub issue
    */
-  async getIssueInfo(issueUrl: string): Promise<IssueInfo> {
-    const { owner, repo, issueNumber } = this.parseIssueUrl(issueUrl);
+  async getIssueInfo(issueUrl: string, options: IssueInfoOptions = {}): Promise<IssueInfo> {
+    const { serverUrl, owner, repo, issueNumber } = this.parseIssueUrl(issueUrl);
     
     try {
       logger.info('Fetching issue details', { owner, repo, issueNumber });
@@ -81,25 +119,66 @@ export class GitHubService {
         repo
       });
       
-      // Get issue comments
-      const { data: comments } = await this.octokit.issues.listComments({
+      // Get all issue comments, not just the first page
+      const comments = await this.octokit.paginate('GET /repos/{owner}/{repo}/issues/{issue_number}/comments', {
         owner,
         repo,
-        issue_number: issueNumber
+        issue_number: issueNumber,
+        per_page: 100
       });
       
+      // Get the full timeline: label changes, state changes, cross-references, etc.
+      const timeline: any[] = await this.octokit.paginate('GET /repos/{owner}/{repo}/issues/{issue_number}/timeline', {
+        owner,
+        repo,
+        issue_number: issueNumber,
+        per_page: 100
+      });
+      
+      const linkedPullRequests = await this.getLinkedPullRequests(owner, repo, issueNumber, timeline);
+      const incomingReferences = this.getIncomingReferences(timeline);
+      const referencedIssues = [
+        ...incomingReferences,
+        ...findOutgoingReferences(
+          [issue.body || '', ...comments.map(comment => comment.body || '')].join('\n'),
+          { owner, repo, issueNumber },
+          [...incomingReferences, ...linkedPullRequests.map(pr => this.toMention(pr.repository, pr.number))]
+        )
+      ];
+      
       // Analyze codebase structure
-      const codebaseAnalysis = await this.analyzeCodebase(owner, repo);
+      const codebaseAnalysis = options.analyzeCodebase === false
+        ? this.analysisService.emptyAnalysis()
+        : await this.analyzeCodebase(owner, repo, repoInfo.default_branch);
       
       return {
+        forge: this.type,
+        serverUrl,
         owner,
         repo,
         issueNumber,
+        url: issue.html_url,
         title: issue.title,
         body: issue.body || '',
-        labels: issue.labels,
+        labels: issue.labels.map(label => typeof label === 'string' ? label : label.name || ''),
         state: issue.state,
-        comments,
+        stateReason: issue.state_reason || undefined,
+        author: issue.user?.login || 'unknown',
+        assignees: (issue.assignees || []).map(assignee => assignee.login),
+        locked: issue.locked,
+        reactions: this.toReactionCounts(issue.reactions),
+        comments: comments.map(comment => ({
+          author: comment.user?.login || 'unknown',
+          body: comment.body || '',
+          createdAt: comment.created_at,
+          url: comment.html_url,
+          reactions: this.toReactionCounts(comment.reactions)
+        })),
+        timeline: timeline
+          .filter(event => event.event !== 'commented')
+          .map(event => this.toTimelineEvent(event)),
+        linkedPullRequests,
+        referencedIssues,
         repoInfo: {
           name: repoInfo.name,
           fullName: repoInfo.full_name,
@@ -116,275 +195,359 @@ export class GitHubService {
   }
 
   /**
-   * Analyze repository codebase structure
+   * Check whether an issue number belongs to a pull request
    */
-  private async analyzeCodebase(owner: string, repo: string): Promise<any> {
+  async isPullRequest(owner: string, repo: string, number: number): Promise<boolean> {
+    const { data: issue } = await this.octokit.issues.get({ owner, repo, issue_number: number });
+    return Boolean(issue.pull_request);
+  }
+
+  /**
+   * Get a pull request with its branches and review feedback
+   */
+  async getPullRequestInfo(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: IssueInfoOptions = {}
+  ): Promise<IssueInfo> {
+    // Pull requests are also issues, which provides comments, timeline and references;
+    // the codebase is analyzed below at the head branch instead of the default branch
+    const issueInfo = await this.getIssueInfo(
+      `${this.serverUrl}/${owner}/${repo}/issues/${pullNumber}`,
+      { analyzeCodebase: false }
+    );
+    
     try {
-      logger.info('Analyzing codebase structure', { owner, repo });
+      logger.info('Fetching pull request details', { owner, repo, pullNumber });
+      
+      const { data: pullRequest } = await this.octokit.pulls.get({
+        owner,
+        repo,
+        pull_number: pullNumber
+      });
+      
+      const reviews = await this.octokit.paginate('GET /repos/{owner}/{repo}/pulls/{pull_number}/reviews', {
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100
+      });
       
-      // Get repository content (root directory)
-      const { data: rootContents } = await this.octokit.repos.getContent({
+      const inlineComments = await this.octokit.paginate('GET /repos/{owner}/{repo}/pulls/{pull_number}/comments', {
         owner,
         repo,
-        path: ''
+        pull_number: pullNumber,
+        per_page: 100
       });
       
-      // Build file structure
-      const fileStructure = await this.buildFileStructure(owner, repo, rootContents);
+      const reviewComments: ReviewComment[] = [
+        ...reviews
+          .filter(review => review.body)
+          .map(review => ({
+            author: review.user?.login || 'unknown',
+            body: review.body,
+            createdAt: review.submitted_at || '',
+            url: review.html_url,
+            reactions: {}
+          })),
+        ...inlineComments.map(comment => ({
+          author: comment.user?.login || 'unknown',
+          body: comment.body,
+          createdAt: comment.created_at,
+          url: comment.html_url,
+          reactions: this.toReactionCounts(comment.reactions),
+          path: comment.path,
+          line: comment.line ?? comment.original_line ?? undefined
+        }))
+      ];
       
-      // Detect main language, build system, etc.
-      const buildSystem = this.detectBuildSystem(fileStructure);
-      const dependencies = await this.detectDependencies(owner, repo, fileStructure);
+      // Changes go on the pull request's branch, which may live in a fork
+      const headOwner = pullRequest.head.repo?.owner.login || owner;
+      const headRepo = pullRequest.head.repo?.name || repo;
       
       return {
-        fileStructure,
-        buildSystem,
-        mainLanguage: this.detectMainLanguage(fileStructure),
-        dependencies
+        ...issueInfo,
+        url: pullRequest.html_url,
+        codebaseAnalysis: options.analyzeCodebase === false
+          ? issueInfo.codebaseAnalysis
+          : await this.analyzeCodebase(headOwner, headRepo, pullRequest.head.ref),
+        pullRequest: {
+          headOwner,
+          headRepo,
+          headBranch: pullRequest.head.ref,
+          baseBranch: pullRequest.base.ref,
+          draft: Boolean(pullRequest.draft),
+          merged: pullRequest.merged,
+          reviewComments
+        }
       };
     } catch (error) {
-      logger.error('Failed to analyze codebase', { owner, repo, error });
-      return {
-        fileStructure: [],
-        buildSystem: 'unknown',
-        mainLanguage: 'unknown',
-        dependencies: []
-      };
+      logger.error('Failed to fetch pull request information', { owner, repo, pullNumber, error });
+      throw new Error(`Failed to fetch pull request information: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Build a hierarchical file structure of the repository
+   * Find pull requests linked to an issue, marking those that will close it
    */
-  private async buildFileStructure(
-    owner: string, 
-    repo: string, 
-    contents: any[], 
-    path: string = ''
-  ): Promise<FileStructure[]> {
-    const structure: FileStructure[] = [];
+  private async getLinkedPullRequests(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    timeline: any[]
+  ): Promise<LinkedPullRequest[]> {
+    const pullRequests = new Map<string, LinkedPullRequest>();
     
-    for (const item of contents) {
-      const fileStructure: FileStructure = {
-        type: item.type,
-        path: item.path,
-        name: item.name
-      };
+    // Pull requests that mention the issue show up as cross-references
+    for (const event of timeline) {
+      const source = event.event === 'cross-referenced' ? event.source?.issue : undefined;
+      if (!source?.pull_request) continue;
       
-      if (item.type === 'dir') {
-        try {
-          const { data: dirContents } = await this.octokit.repos.getContent({
-            owner,
-            repo,
-            path: item.path
-          });
-          
-          // Only recurse into important directories to avoid API rate limits
-          if (this.isImportantDirectory(item.name)) {
-            fileStructure.children = await this.buildFileStructure(
-              owner, 
-              repo, 
-              Array.isArray(dirContents) ? dirContents : [dirContents],
-              item.path
-            );
-          }
-        } catch (error) {
-          logger.warn(`Failed to get contents of directory: ${item.path}`, { error });
-        }
-      } else if (item.type === 'file' && this.isImportantFile(item.name)) {
-        try {
-          // Get content of important files
-          const { data: fileContent } = await this.octokit.repos.getContent({
-            owner,
-            repo,
-            path: item.path
-          });
-          
-          if ('content' in fileContent && typeof fileContent.content === 'string') {
-            fileStructure.content = Buffer.from(fileContent.content, 'base64').toString('utf-8');
+      const repository = source.repository?.full_name || `${owner}/${repo}`;
+      pullRequests.set(`${repository}#${source.number}`, {
+        repository,
+        number: source.number,
+        title: source.title,
+        url: source.html_url,
+        state: source.pull_request.merged_at ? 'merged' : source.state,
+        draft: Boolean(source.draft),
+        closesIssue: closesIssue(source.body || '', issueNumber)
+      });
+    }
+    
+    // Closing references (keywords or the sidebar "Development" link) are only exposed via GraphQL
+    try {
+      const result: any = await this.octokit.graphql(`
+        query($owner: String!, $repo: String!, $number: Int!) {
+          repository(owner: $owner, name: $repo) {
+            issue(number: $number) {
+              closedByPullRequestsReferences(first: 50, includeClosedPrs: true) {
+                nodes { number title url state isDraft repository { nameWithOwner } }
+              }
+            }
           }
-        } catch (error) {
-          logger.warn(`Failed to get content of file: ${item.path}`, { error });
         }
-      }
+      `, { owner, repo, number: issueNumber });
       
-      structure.push(fileStructure);
+      for (const node of result.repository?.issue?.closedByPullRequestsReferences?.nodes || []) {
+        const repository = node.repository.nameWithOwner;
+        pullRequests.set(`${repository}#${node.number}`, {
+          repository,
+          number: node.number,
+          title: node.title,
+          url: node.url,
+          state: node.state.toLowerCase(),
+          draft: node.isDraft,
+          closesIssue: true
+        });
+      }
+    } catch (error) {
+      // Older GitHub Enterprise Server versions lack this field
+      logger.warn('Failed to fetch closing pull requests', { owner, repo, issueNumber, error });
     }
     
-    return structure;
+    return Array.from(pullRequests.values());
   }
 
   /**
-   * Check if a directory is important for analysis
+   * Collect issues that reference this issue from the timeline
    */
-  private isImportantDirectory(name: string): boolean {
-    const importantDirs = [
-      'src', 'lib', 'app', 'config', 
-      'test', 'tests', 'spec', 'scripts',
-      '.github'
-    ];
-    
-    return importantDirs.includes(name.toLowerCase()) ||
-           name.toLowerCase().includes('src') ||
-           name.toLowerCase().includes('lib');
+  private getIncomingReferences(timeline: any[]): ReferencedIssue[] {
+    return timeline
+      .filter(event => event.event === 'cross-referenced' && event.source?.issue && !event.source.issue.pull_request)
+      .map(event => {
+        const source = event.source.issue;
+        const { owner, repo } = this.toMention(source.repository?.full_name || '', source.number);
+        
+        return {
+          owner,
+          repo,
+          issueNumber: source.number,
+          url: source.html_url,
+          title: source.title,
+          state: source.state,
+          direction: 'incoming' as const
+        };
+      });
   }
 
   /**
-   * Check if a file is important for analysis
+   * Normalize a timeline event
    */
-  private isImportantFile(name: string): boolean {
-    const importantFiles = [
-      'package.json', 'package-lock.json', 'yarn.lock',
-      'tsconfig.json', 'tslint.json', 'eslintrc.json', '.eslintrc.js',
-      'Gemfile', 'Gemfile.lock', 'requirements.txt', 'setup.py',
-      'build.gradle', 'pom.xml', 'Cargo.toml',
-      'Dockerfile', 'docker-compose.yml',
-      'README.md', 'LICENSE'
-    ];
+  private toTimelineEvent(event: any): IssueTimelineEvent {
+    let details: string | undefined;
     
-    const importantExtensions = [
-      '.ts', '.js', '.jsx', '.tsx', '.py', '.java', '.rb', '.go', '.rs'
-    ];
+    switch (event.event) {
+      case 'labeled':
+      case 'unlabeled':
+        details = event.label?.name;
+        break;
+      case 'renamed':
+        details = `${event.rename?.from} -> ${event.rename?.to}`;
+        break;
+      case 'assigned':
+      case 'unassigned':
+        details = event.assignee?.login;
+        break;
+      case 'cross-referenced':
+        details = event.source?.issue?.html_url;
+        break;
+      case 'referenced':
+      case 'closed':
+        details = event.commit_id || undefined;
+        break;
+    }
     
-    return importantFiles.includes(name) || 
-           importantExtensions.some(ext => name.endsWith(ext));
+    return {
+      event: event.event,
+      actor: event.actor?.login || event.user?.login || 'unknown',
+      createdAt: event.created_at || event.submitted_at || '',
+      details
+    };
   }
 
   /**
-   * Detect the build system based on file structure
+   * Convert a GitHub reaction rollup into counts per reaction
    */
-  private detectBuildSystem(fileStructure: FileStructure[]): string {
-    const fileNames = fileStructure.map(f => f.name.toLowerCase());
+  private toReactionCounts(reactions?: Record<string, unknown>): ReactionCounts {
+    const counts: ReactionCounts = {};
     
-    if (fileNames.includes('package.json')) return 'npm';
-    if (fileNames.includes('yarn.lock')) return 'yarn';
-    if (fileNames.includes('pom.xml')) return 'maven';
-    if (fileNames.includes('build.gradle')) return 'gradle';
-    if (fileNames.includes('requirements.txt') || fileNames.includes('setup.py')) return 'pip';
-    if (fileNames.includes('cargo.toml')) return 'cargo';
-    if (fileNames.includes('gemfile')) return 'bundler';
+    for (const [name, value] of Object.entries(reactions || {})) {
+      if (name !== 'url' && name !== 'total_count' && typeof value === 'number' && value > 0) {
+        counts[name] = value;
+      }
+    }
     
-    return 'unknown';
+    return counts;
   }
 
   /**
-   * Detect the main language based on file structure
+   * Split an owner/repo full name into a mention
    */
-  private detectMainLanguage(fileStructure: FileStructure[]): string {
-    const languageCounts: Record<string, number> = {};
-    
-    const getExtension = (filename: string): string => {
-      const parts = filename.split('.');
-      return parts.length > 1 ? `.${parts[parts.length - 1].toLowerCase()}` : '';
-    };
-    
-    const extensionToLanguage: Record<string, string> = {
-      '.ts': 'TypeScript',
-      '.js': 'JavaScript',
-      '.jsx': 'JavaScript',
-      '.tsx': 'TypeScript',
-      '.py': 'Python',
-      '.rb': 'Ruby',
-      '.java': 'Java',
-      '.go': 'Go',
-      '.rs': 'Rust',
-      '.php': 'PHP',
-      '.c': 'C',
-      '.cpp': 'C++',
-      '.cs': 'C#',
-      '.swift': 'Swift',
-      '.kt': 'Kotlin'
-    };
-    
-    const countLanguage = (structures: FileStructure[]) => {
-      for (const item of structures) {
-        if (item.type === 'file') {
-          const extension = getExtension(item.name);
-          const language = extensionToLanguage[extension];
-          
-          if (language) {
-            languageCounts[language] = (languageCounts[language] || 0) + 1;
-          }
-        }
-        
-        if (item.children) {
-          countLanguage(item.children);
-        }
+  private toMention(fullName: string, issueNumber: number): { owner: string; repo: string; issueNumber: number } {
+    const [owner, repo] = fullName.split('/');
+    return { owner, repo, issueNumber };
+  }
+
+  /**
+   * Analyze repository codebase structure
+   */
+  private async analyzeCodebase(owner: string, repo: string, ref: string): Promise<CodebaseAnalysis> {
+    try {
+      logger.info('Analyzing codebase structure', { owner, repo, ref });
+      const rateLimitedBefore = this.requester.getRateLimitedCount();
+      
+      // Fetch the whole repository tree in a single request
+      const tree = await this.getRepositoryTree(owner, repo, ref);
+      
+      if (tree.truncated) {
+        logger.warn('Repository tree was truncated by the API', { owner, repo, ref });
       }
-    };
-    
-    countLanguage(fileStructure);
-    
-    // Find the language with the highest count
-    let maxCount = 0;
-    let mainLanguage = 'Unknown';
-    
-    for (const [language, count] of Object.entries(languageCounts)) {
-      if (count > maxCount) {
-        maxCount = count;
-        mainLanguage = language;
+      
+      const analysis = await this.analysisService.analyze(
+        tree.entries,
+        file => this.getFileContent(owner, repo, file)
+      );
+      
+      // Blob fetches fail softly, so check whether any of them hit the rate limit
+      let incomplete: string | undefined;
+      if (this.requester.getRateLimitedCount() > rateLimitedBefore) {
+        incomplete = 'Analysis incomplete due to rate limiting: some file contents could not be fetched';
+      } else if (tree.truncated) {
+        incomplete = 'Analysis incomplete: the repository tree was truncated by the API';
       }
+      
+      return {
+        ...analysis,
+        commitSha: tree.commitSha,
+        truncated: tree.truncated,
+        incomplete
+      };
+    } catch (error) {
+      logger.error('Failed to analyze codebase', { owner, repo, error });
+      return this.analysisService.emptyAnalysis(error);
     }
-    
-    return mainLanguage;
   }
 
   /**
-   * Detect dependencies from package.json, requirements.txt, etc.
+   * Fetch the recursive git tree for a branch.
+   *
+   * The branch ref is revalidated with a conditional request, so an unchanged
+   * branch costs no rate limit; the tree itself is cached by commit SHA.
    */
-  private async detectDependencies(
-    owner: string, 
-    repo: string, 
-    fileStructure: FileStructure[]
-  ): Promise<any> {
-    const dependencies: any = {};
+  private async getRepositoryTree(
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<{ commitSha: string; truncated: boolean; entries: TreeEntry[] }> {
+    const gitRef = await this.conditionalRequest(
+      `ref:${new URL(this.serverUrl).host}/${owner}/${repo}@${ref}`,
+      headers => this.octokit.git.getRef({ owner, repo, ref: `heads/${ref}`, headers })
+    );
+    const commitSha = gitRef.object.sha;
     
-    const findFile = (name: string, structures: FileStructure[]): FileStructure | undefined => {
-      for (const item of structures) {
-        if (item.type === 'file' && item.name === name) {
-          return item;
-        }
-        
-        if (item.children) {
-          const found = findFile(name, item.children);
-          if (found) return found;
-        }
-      }
-      
-      return undefined;
+    const cacheKey = `tree:${new URL(this.serverUrl).host}/${commitSha}`;
+    const cached = cache.getObject<{ truncated: boolean; entries: TreeEntry[] }>(cacheKey);
+    if (cached) {
+      logger.debug('Using cached repository tree', { owner, repo, commitSha });
+      return { commitSha, ...cached };
+    }
+    
+    const { data: tree } = await this.octokit.git.getTree({
+      owner,
+      repo,
+      tree_sha: commitSha,
+      recursive: 'true'
+    });
+    
+    const snapshot = {
+      truncated: tree.truncated,
+      entries: tree.tree as TreeEntry[]
     };
+    cache.setObject(cacheKey, snapshot);
     
-    // Check for package.json
-    const packageJson = findFile('package.json', fileStructure);
-    if (packageJson && packageJson.content) {
-      try {
-        const content = JSON.parse(packageJson.content);
-        dependencies.npm = {
-          dependencies: content.dependencies || {},
-          devDependencies: content.devDependencies || {}
-        };
-      } catch (error) {
-        logger.warn('Failed to parse package.json', { error });
-      }
-    }
+    return { commitSha, ...snapshot };
+  }
+
+  /**
+   * Perform a GET request with If-None-Match, falling back to the cached
+   * response when GitHub answers 304 Not Modified
+   */
+  private async conditionalRequest<T>(
+    cacheKey: string,
+    request: (headers: Record<string, string>) => Promise<{ data: T; headers: { etag?: string } }>
+  ): Promise<T> {
+    const cached = cache.getResponse<T>(cacheKey);
+    const headers: Record<string, string> = cached?.etag ? { 'if-none-match': cached.etag } : {};
     
-    // Check for requirements.txt
-    const requirementsTxt = findFile('requirements.txt', fileStructure);
-    if (requirementsTxt && requirementsTxt.content) {
-      const lines = requirementsTxt.content.split('\n');
-      const pythonDeps: string[] = [];
-      
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed && !trimmed.startsWith('#')) {
-          pythonDeps.push(trimmed);
-        }
+    try {
+      const response = await request(headers);
+      cache.setResponse(cacheKey, { etag: response.headers.etag, data: response.data });
+      return response.data;
+    } catch (error) {
+      if (cached && (error as { status?: number }).status === 304) {
+        logger.debug('Resource not modified, using cached response', { cacheKey });
+        return cached.data;
       }
       
-      dependencies.python = pythonDeps;
+      throw error;
     }
-    
-    return dependencies;
+  }
+
+  /**
+   * Get the content of a file, fetching its blob on first use
+   */
+  async getFileContent(owner: string, repo: string, file: FileStructure): Promise<string | undefined> {
+    return this.analysisService.readBlob(file, new URL(this.serverUrl).host, async sha => {
+      const { data: blob } = await this.octokit.git.getBlob({
+        owner,
+        repo,
+        file_sha: sha
+      });
+      
+      return Buffer.from(blob.content, blob.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+    });
   }
 
   /**
@@ -393,30 +556,90 @@ export class GitHubService {
   async createPullRequest(
     owner: string,
     repo: string,
-    issueNumber: number,
-    title: string,
-    head: string,
-    base: string,
-    body: string
-  ): Promise<{ url: string }> {
+    options: PullRequestOptions
+  ): Promise<CreatedPullRequest> {
+    const { issueNumber, title, head, base, body, draft } = options;
+    let pullRequest: { html_url: string; number: number };
+    
     try {
-      logger.info('Creating pull request', { owner, repo, head, base });
+      logger.info('Creating pull request', { owner, repo, issueNumber, head, base, draft });
       
-      const { data: pullRequest } = await this.octokit.pulls.create({
+      ({ data: pullRequest } = await this.octokit.pulls.create({
         owner,
         repo,
         title,
         head,
         base,
         body,
-        issue: issueNumber
-      });
-      
-      return { url: pullRequest.html_url };
+        draft
+      }));
     } catch (error) {
       logger.error('Failed to create pull request', { owner, repo, error });
       throw new Error(`Failed to create pull request: ${error instanceof Error ? error.message : String(error)}`);
     }
+    
+    // Metadata is applied separately; a failure here should not lose the pull request
+    const warnings: string[] = [];
+    const apply = async (description: string, action: () => Promise<unknown>) => {
+      try {
+        await action();
+      } catch (error) {
+        logger.warn(`Failed to ${description}`, { owner, repo, pullNumber: pullRequest.number, error });
+        warnings.push(`Failed to ${description}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+    
+    const issue = { owner, repo, issue_number: pullRequest.number };
+    
+    if (options.labels?.length) {
+      await apply('add labels', () => this.octokit.issues.addLabels({ ...issue, labels: options.labels! }));
+    }
+    
+    if (options.assignees?.length) {
+      await apply('add assignees', () => this.octokit.issues.addAssignees({ ...issue, assignees: options.assignees! }));
+    }
+    
+    if (options.milestone) {
+      await apply('set milestone', async () => {
+        const milestone = await this.findMilestone(owner, repo, options.milestone!);
+        await this.octokit.issues.update({ ...issue, milestone });
+      });
+    }
+    
+    if (options.reviewers?.length || options.teamReviewers?.length) {
+      await apply('request reviewers', () => this.octokit.pulls.requestReviewers({
+        owner,
+        repo,
+        pull_number: pullRequest.number,
+        reviewers: options.reviewers,
+        team_reviewers: options.teamReviewers
+      }));
+    }
+    
+    return { url: pullRequest.html_url, number: pullRequest.number, warnings };
+  }
+
+  /**
+   * Resolve a milestone given by number or title
+   */
+  private async findMilestone(owner: string, repo: string, milestone: string): Promise<number> {
+    if (/^\d+$/.test(milestone)) {
+      return parseInt(milestone, 10);
+    }
+    
+    const milestones = await this.octokit.paginate('GET /repos/{owner}/{repo}/milestones', {
+      owner,
+      repo,
+      state: 'all',
+      per_page: 100
+    });
+    
+    const match = milestones.find(candidate => candidate.title === milestone);
+    if (!match) {
+      throw new Error(`Milestone not found: ${milestone}`);
+    }
+    
+    return match.number;
   }
 
   /**
@@ -444,4 +667,41 @@ export class GitHubService {
       throw new Error(`Failed to comment on issue: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
+
+  /**
+   * Add a comment to a pull request's conversation
+   */
+  async commentOnPullRequest(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    body: string
+  ): Promise<{ url: string }> {
+    return this.commentOnIssue(owner, repo, pullNumber, body);
+  }
+
+  /**
+   * Get a currently valid token for a repository, refreshing installation tokens as needed
+   */
+  async getToken(owner: string, repo: string): Promise<string> {
+    return this.appAuth ? this.appAuth.getInstallationToken(owner, repo) : this.token;
+  }
+
+  /**
+   * Build an authenticated git remote URL on this GitHub host
+   */
+  async getCloneUrl(owner: string, repo: string): Promise<string> {
+    const remoteUrl = new URL(`${this.serverUrl}/${owner}/${repo}.git`);
+    remoteUrl.username = 'x-access-token';
+    remoteUrl.password = await this.getToken(owner, repo);
+    
+    return remoteUrl.toString();
+  }
+
+  /**
+   * Commit as the app's bot user when authenticated as a GitHub App
+   */
+  async getCommitIdentity(): Promise<CommitIdentity | undefined> {
+    return this.appAuth ? this.appAuth.getBotIdentity() : undefined;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,623 @@
+import logger from '../utils/logger';
+import { normalizeServerUrl } from '../utils/forge-hosts';
+import { HttpClient } from '../utils/http-client';
+import { findOutgoingReferences } from '../utils/issue-references';
+import { CodebaseAnalysis, CodebaseAnalysisService, TreeEntry } from './codebase-analysis.service';
+import {
+  CreatedPullRequest,
+  FileStructure,
+  ForgeProvider,
+  IssueInfo,
+  IssueInfoOptions,
+  IssueReference,
+  LinkedPullRequest,
+  IssueComment,
+  IssueTimelineEvent,
+  PullRequestOptions,
+  ReactionCounts,
+  ReferencedIssue,
+  ReviewComment
+} from './forge.service';
+
+// The fields of GitLab's REST API responses that this provider reads
+
+interface GitLabUser {
+  id: number;
+  username: string;
+}
+
+interface GitLabProject {
+  id: number;
+  path: string;
+  path_with_namespace: string;
+  default_branch: string;
+  issues_enabled?: boolean;
+}
+
+interface GitLabIssue {
+  id: number;
+  iid: number;
+  title: string;
+  description: string | null;
+  state: 'opened' | 'closed';
+  labels: string[];
+  author?: GitLabUser;
+  assignees?: GitLabUser[];
+  discussion_locked?: boolean | null;
+  web_url: string;
+  // e.g. "group/project#12"
+  references?: { full: string };
+}
+
+interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  title: string;
+  description: string | null;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  labels: string[];
+  author?: GitLabUser;
+  assignees?: GitLabUser[];
+  discussion_locked?: boolean | null;
+  web_url: string;
+  source_branch: string;
+  target_branch: string;
+  source_project_id: number;
+  target_project_id: number;
+  draft?: boolean;
+  // Replaced by draft in GitLab 14
+  work_in_progress?: boolean;
+  // e.g. "group/project!34"
+  references?: { full: string };
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  created_at: string;
+  author?: GitLabUser;
+  // Generated for label, state and reference changes
+  system: boolean;
+  type?: 'DiffNote' | 'DiscussionNote' | null;
+  // Where a DiffNote is attached in the diff
+  position?: {
+    new_path?: string;
+    old_path?: string;
+    new_line?: number | null;
+    old_line?: number | null;
+  };
+}
+
+interface GitLabAwardEmoji {
+  name: string;
+}
+
+interface GitLabTreeEntry {
+  id: string;
+  path: string;
+  type: string;
+}
+
+/**
+ * GitLab (gitlab.com and self-managed) implementation of the forge provider.
+ *
+ * Projects may live in nested groups, so `owner` holds the full namespace
+ * path (e.g. `group/subgroup`) and `repo` the project path.
+ */
+export class GitLabService implements ForgeProvider {
+  readonly type = 'gitlab';
+  private client: HttpClient;
+  private analysisService = new CodebaseAnalysisService();
+
+  /**
+   * @param token Personal, project or group access token
+   * @param serverUrl Web and git host URL, e.g. https://gitlab.example.com
+   * @param apiUrl REST API base URL, e.g. https://gitlab.example.com/api/v4
+   */
+  constructor(private token: string, private serverUrl: string, apiUrl: string) {
+    this.client = new HttpClient(apiUrl, token ? { 'PRIVATE-TOKEN': token } : {});
+  }
+
+  /**
+   * Parse GitLab issue URL to extract server, namespace, project, and issue IID
+   */
+  parseIssueUrl(issueUrl: string): IssueReference {
+    try {
+      const url = new URL(issueUrl);
+      const pathParts = url.pathname.split('/').filter(Boolean);
+      
+      // Expected format: /namespace/.../project/-/issues/iid (older instances omit the "-")
+      const issuesIndex = pathParts.lastIndexOf('issues');
+      const projectEnd = pathParts[issuesIndex - 1] === '-' ? issuesIndex - 1 : issuesIndex;
+      
+      if (issuesIndex === -1 || projectEnd < 2 || !/^\d+$/.test(pathParts[issuesIndex + 1] || '')) {
+        throw new Error('Invalid GitLab issue URL format');
+      }
+      
+      return {
+        serverUrl: normalizeServerUrl(url),
+        owner: pathParts.slice(0, projectEnd - 1).join('/'),
+        repo: pathParts[projectEnd - 1],
+        issueNumber: parseInt(pathParts[issuesIndex + 1], 10)
+      };
+    } catch (error) {
+      logger.error('Failed to parse GitLab issue URL', { issueUrl, error });
+      throw new Error(`Invalid GitLab issue URL: ${issueUrl}`);
+    }
+  }
+
+  /**
+   * Get detailed information about a GitLab issue
+   */
+  async getIssueInfo(issueUrl: string, options: IssueInfoOptions = {}): Promise<IssueInfo> {
+    const { serverUrl, owner, repo, issueNumber } = this.parseIssueUrl(issueUrl);
+    const projectPath = this.projectPath(owner, repo);
+    
+    try {
+      logger.info('Fetching issue details', { owner, repo, issueNumber });
+      
+      // Get issue details
+      const { data: issue } = await this.client.request<GitLabIssue>(`${projectPath}/issues/${issueNumber}`);
+      
+      // Get project information
+      const repoInfo = await this.getRepoInfo(projectPath);
+      
+      // Get all issue notes; system notes (label, state and reference changes) form the timeline
+      const notes = await this.client.paginate<GitLabNote>(`${projectPath}/issues/${issueNumber}/notes`, { sort: 'asc' });
+      const userNotes = notes.filter(note => !note.system);
+      
+      const awards = await this.client.paginate<GitLabAwardEmoji>(`${projectPath}/issues/${issueNumber}/award_emoji`);
+      
+      const linkedPullRequests = await this.getLinkedMergeRequests(projectPath, issueNumber);
+      const incomingReferences = await this.getLinkedIssues(projectPath, issueNumber);
+      const referencedIssues = [
+        ...incomingReferences,
+        ...findOutgoingReferences(
+          [issue.description || '', ...userNotes.map(note => note.body || '')].join('\n'),
+          { owner, repo, issueNumber },
+          incomingReferences
+        )
+      ];
+      
+      // Analyze codebase structure
+      const codebaseAnalysis = options.analyzeCodebase === false
+        ? this.analysisService.emptyAnalysis()
+        : await this.analyzeCodebase(owner, repo, repoInfo.defaultBranch);
+      
+      return {
+        forge: this.type,
+        serverUrl,
+        owner,
+        repo,
+        issueNumber,
+        url: issue.web_url,
+        title: issue.title,
+        body: issue.description || '',
+        labels: issue.labels || [],
+        state: issue.state === 'opened' ? 'open' : issue.state,
+        author: issue.author?.username || 'unknown',
+        assignees: (issue.assignees || []).map(assignee => assignee.username),
+        locked: Boolean(issue.discussion_locked),
+        reactions: this.countReactions(awards.map(award => award.name)),
+        comments: userNotes.map(note => this.toComment(note, issue.web_url)),
+        timeline: this.toTimeline(notes),
+        linkedPullRequests,
+        referencedIssues,
+        repoInfo,
+        codebaseAnalysis
+      };
+    } catch (error) {
+      logger.error('Failed to fetch issue information', { owner, repo, issueNumber, error });
+      throw new Error(`Failed to fetch issue information: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Issue and merge request IIDs are numbered separately, so "#N" always names an issue
+   */
+  async isPullRequest(): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Get a merge request with its branches and review feedback
+   */
+  async getPullRequestInfo(
+    owner: string,
+    repo: string,
+    mergeRequestIid: number,
+    options: IssueInfoOptions = {}
+  ): Promise<IssueInfo> {
+    const projectPath = this.projectPath(owner, repo);
+    
+    try {
+      logger.info('Fetching merge request details', { owner, repo, mergeRequestIid });
+      
+      const { data: mergeRequest } = await this.client.request<GitLabMergeRequest>(`${projectPath}/merge_requests/${mergeRequestIid}`);
+      const repoInfo = await this.getRepoInfo(projectPath);
+      
+      // Diff notes are inline review comments; other user notes are the conversation
+      const notes = await this.client.paginate<GitLabNote>(`${projectPath}/merge_requests/${mergeRequestIid}/notes`, { sort: 'asc' });
+      const userNotes = notes.filter(note => !note.system && note.type !== 'DiffNote');
+      const reviewComments: ReviewComment[] = notes
+        .filter(note => note.type === 'DiffNote')
+        .map(note => ({
+          ...this.toComment(note, mergeRequest.web_url),
+          path: note.position?.new_path || note.position?.old_path,
+          line: note.position?.new_line || note.position?.old_line || undefined
+        }));
+      
+      const awards = await this.client.paginate<GitLabAwardEmoji>(`${projectPath}/merge_requests/${mergeRequestIid}/award_emoji`);
+      
+      // Merge requests from forks push to the source project
+      let headOwner = owner;
+      let headRepo = repo;
+      
+      if (mergeRequest.source_project_id !== mergeRequest.target_project_id) {
+        const { data: sourceProject } = await this.client.request<GitLabProject>(`/projects/${mergeRequest.source_project_id}`);
+        const separator = sourceProject.path_with_namespace.lastIndexOf('/');
+        headOwner = sourceProject.path_with_namespace.substring(0, separator);
+        headRepo = sourceProject.path_with_namespace.substring(separator + 1);
+      }
+      
+      const codebaseAnalysis = options.analyzeCodebase === false
+        ? this.analysisService.emptyAnalysis()
+        : await this.analyzeCodebase(headOwner, headRepo, mergeRequest.source_branch);
+      
+      return {
+        forge: this.type,
+        serverUrl: this.serverUrl,
+        owner,
+        repo,
+        issueNumber: mergeRequestIid,
+        url: mergeRequest.web_url,
+        title: mergeRequest.title,
+        body: mergeRequest.description || '',
+        labels: mergeRequest.labels || [],
+        state: mergeRequest.state === 'opened' ? 'open' : mergeRequest.state,
+        author: mergeRequest.author?.username || 'unknown',
+        assignees: (mergeRequest.assignees || []).map(assignee => assignee.username),
+        locked: Boolean(mergeRequest.discussion_locked),
+        reactions: this.countReactions(awards.map(award => award.name)),
+        comments: userNotes.map(note => this.toComment(note, mergeRequest.web_url)),
+        timeline: this.toTimeline(notes),
+        linkedPullRequests: [],
+        referencedIssues: findOutgoingReferences(
+          [mergeRequest.description || '', ...userNotes.map(note => note.body || '')].join('\n'),
+          { owner, repo, issueNumber: mergeRequestIid },
+          []
+        ),
+        repoInfo,
+        codebaseAnalysis,
+        pullRequest: {
+          headOwner,
+          headRepo,
+          headBranch: mergeRequest.source_branch,
+          baseBranch: mergeRequest.target_branch,
+          draft: Boolean(mergeRequest.draft ?? mergeRequest.work_in_progress),
+          merged: mergeRequest.state === 'merged',
+          reviewComments
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to fetch merge request information', { owner, repo, mergeRequestIid, error });
+      throw new Error(`Failed to fetch merge request information: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get project metadata and its dominant language
+   */
+  private async getRepoInfo(projectPath: string): Promise<IssueInfo['repoInfo']> {
+    const { data: project } = await this.client.request<GitLabProject>(projectPath);
+    
+    // Languages are reported as percentages; take the largest share
+    const { data: languages } = await this.client.request<Record<string, number>>(`${projectPath}/languages`);
+    const language = Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0];
+    
+    return {
+      name: project.path,
+      fullName: project.path_with_namespace,
+      language: language || 'Unknown',
+      defaultBranch: project.default_branch,
+      hasIssues: project.issues_enabled !== false
+    };
+  }
+
+  /**
+   * Convert a user note into a comment
+   */
+  private toComment(note: GitLabNote, webUrl: string): IssueComment {
+    return {
+      author: note.author?.username || 'unknown',
+      body: note.body || '',
+      createdAt: note.created_at,
+      url: `${webUrl}#note_${note.id}`,
+      reactions: {}
+    };
+  }
+
+  /**
+   * Build a timeline from system notes (label, state and reference changes)
+   */
+  private toTimeline(notes: GitLabNote[]): IssueTimelineEvent[] {
+    return notes
+      .filter(note => note.system)
+      .map(note => ({
+        event: 'system_note',
+        actor: note.author?.username || 'unknown',
+        createdAt: note.created_at,
+        details: note.body
+      }));
+  }
+
+  /**
+   * Find merge requests related to an issue, marking those that close it when merged
+   */
+  private async getLinkedMergeRequests(projectPath: string, issueNumber: number): Promise<LinkedPullRequest[]> {
+    const related = await this.client.paginate<GitLabMergeRequest>(`${projectPath}/issues/${issueNumber}/related_merge_requests`);
+    const closing = await this.client.paginate<GitLabMergeRequest>(`${projectPath}/issues/${issueNumber}/closed_by`);
+    const closingIds = new Set(closing.map(mergeRequest => mergeRequest.id));
+    
+    const mergeRequests = new Map<number, GitLabMergeRequest>();
+    for (const mergeRequest of [...related, ...closing]) {
+      mergeRequests.set(mergeRequest.id, mergeRequest);
+    }
+    
+    return Array.from(mergeRequests.values()).map(mergeRequest => ({
+      repository: (mergeRequest.references?.full || '').split('!')[0],
+      number: mergeRequest.iid,
+      title: mergeRequest.title,
+      url: mergeRequest.web_url,
+      state: mergeRequest.state === 'merged' || mergeRequest.state === 'closed' ? mergeRequest.state : 'open',
+      draft: Boolean(mergeRequest.draft ?? mergeRequest.work_in_progress),
+      closesIssue: closingIds.has(mergeRequest.id)
+    }));
+  }
+
+  /**
+   * Get issues explicitly linked to an issue
+   */
+  private async getLinkedIssues(projectPath: string, issueNumber: number): Promise<ReferencedIssue[]> {
+    const links = await this.client.request<GitLabIssue[]>(`${projectPath}/issues/${issueNumber}/links`);
+    
+    return links.data.map(linked => {
+      const fullPath = (linked.references?.full || '').split('#')[0];
+      const separator = fullPath.lastIndexOf('/');
+      
+      return {
+        owner: fullPath.substring(0, separator),
+        repo: fullPath.substring(separator + 1),
+        issueNumber: linked.iid,
+        url: linked.web_url,
+        title: linked.title,
+        state: linked.state === 'opened' ? 'open' : linked.state,
+        direction: 'incoming' as const
+      };
+    });
+  }
+
+  /**
+   * Count award emoji by name
+   */
+  private countReactions(names: string[]): ReactionCounts {
+    const counts: ReactionCounts = {};
+    
+    for (const name of names) {
+      counts[name] = (counts[name] || 0) + 1;
+    }
+    
+    return counts;
+  }
+
+  /**
+   * Analyze repository codebase structure
+   */
+  private async analyzeCodebase(owner: string, repo: string, ref: string): Promise<CodebaseAnalysis> {
+    try {
+      logger.info('Analyzing codebase structure', { owner, repo, ref });
+      
+      const tree = await this.client.paginate<GitLabTreeEntry>(
+        `${this.projectPath(owner, repo)}/repository/tree`,
+        { recursive: true, ref }
+      );
+      
+      const entries: TreeEntry[] = tree.map(entry => ({
+        path: entry.path,
+        type: entry.type,
+        sha: entry.id
+      }));
+      
+      return await this.analysisService.analyze(
+        entries,
+        file => this.getFileContent(owner, repo, file)
+      );
+    } catch (error) {
+      logger.error('Failed to analyze codebase', { owner, repo, error });
+      return this.analysisService.emptyAnalysis(error);
+    }
+  }
+
+  /**
+   * Get the content of a file, fetching its blob on first use
+   */
+  async getFileContent(owner: string, repo: string, file: FileStructure): Promise<string | undefined> {
+    return this.analysisService.readBlob(file, new URL(this.serverUrl).host, async sha => {
+      const { data } = await this.client.request<string>(
+        `${this.projectPath(owner, repo)}/repository/blobs/${sha}/raw`,
+        { raw: true }
+      );
+      
+      return data;
+    });
+  }
+
+  /**
+   * Create a merge request for an issue
+   */
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    options: PullRequestOptions
+  ): Promise<CreatedPullRequest> {
+    const { issueNumber, head, base, body, draft } = options;
+    const projectPath = this.projectPath(owner, repo);
+    const warnings: string[] = [];
+    
+    try {
+      logger.info('Creating merge request', { owner, repo, issueNumber, head, base, draft });
+      
+      // Merge request metadata refers to users and milestones by ID
+      const assigneeIds = await this.findUserIds(options.assignees || [], 'assignee', warnings);
+      const reviewerIds = await this.findUserIds(options.reviewers || [], 'reviewer', warnings);
+      const milestoneId = options.milestone ? await this.findMilestoneId(projectPath, options.milestone, warnings) : undefined;
+      
+      if (options.teamReviewers?.length) {
+        warnings.push('GitLab does not support team reviewers; ignored: ' + options.teamReviewers.join(', '));
+      }
+      
+      const title = draft && !/^(draft:|\[draft\])/i.test(options.title) ? `Draft: ${options.title}` : options.title;
+      
+      const { data: mergeRequest } = await this.client.request<GitLabMergeRequest>(
+        `${projectPath}/merge_requests`,
+        {
+          method: 'POST',
+          body: {
+            title,
+            source_branch: head,
+            target_branch: base,
+            description: body,
+            remove_source_branch: true,
+            labels: options.labels?.length ? options.labels.join(',') : undefined,
+            assignee_ids: assigneeIds.length ? assigneeIds : undefined,
+            reviewer_ids: reviewerIds.length ? reviewerIds : undefined,
+            milestone_id: milestoneId
+          }
+        }
+      );
+      
+      return { url: mergeRequest.web_url, number: mergeRequest.iid, warnings };
+    } catch (error) {
+      logger.error('Failed to create merge request', { owner, repo, error });
+      throw new Error(`Failed to create merge request: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Look up user IDs by username, recording a warning for unknown users
+   */
+  private async findUserIds(usernames: string[], role: string, warnings: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    
+    for (const username of usernames) {
+      try {
+        const { data: users } = await this.client.request<GitLabUser[]>('/users', { query: { username } });
+        
+        if (users.length > 0) {
+          ids.push(users[0].id);
+        } else {
+          warnings.push(`Unknown ${role}: ${username}`);
+        }
+      } catch (error) {
+        logger.warn('Failed to look up user', { username, error });
+        warnings.push(`Failed to look up ${role} ${username}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    
+    return ids;
+  }
+
+  /**
+   * Look up a project milestone by IID or title
+   */
+  private async findMilestoneId(projectPath: string, milestone: string, warnings: string[]): Promise<number | undefined> {
+    try {
+      const query = /^\d+$/.test(milestone) ? { 'iids[]': milestone } : { title: milestone };
+      const { data: milestones } = await this.client.request<Array<{ id: number }>>(`${projectPath}/milestones`, { query });
+      
+      if (milestones.length > 0) {
+        return milestones[0].id;
+      }
+      
+      warnings.push(`Milestone not found: ${milestone}`);
+    } catch (error) {
+      logger.warn('Failed to look up milestone', { milestone, error });
+      warnings.push(`Failed to look up milestone ${milestone}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * Add a note to a GitLab issue
+   */
+  async commentOnIssue(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    body: string
+  ): Promise<{ url: string }> {
+    try {
+      logger.info('Adding comment to issue', { owner, repo, issueNumber });
+      
+      const { data: note } = await this.client.request<GitLabNote>(
+        `${this.projectPath(owner, repo)}/issues/${issueNumber}/notes`,
+        { method: 'POST', body: { body } }
+      );
+      
+      return { url: `${this.serverUrl}/${owner}/${repo}/-/issues/${issueNumber}#note_${note.id}` };
+    } catch (error) {
+      logger.error('Failed to comment on issue', { owner, repo, issueNumber, error });
+      throw new Error(`Failed to comment on issue: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Add a note to a merge request
+   */
+  async commentOnPullRequest(
+    owner: string,
+    repo: string,
+    mergeRequestIid: number,
+    body: string
+  ): Promise<{ url: string }> {
+    try {
+      logger.info('Adding comment to merge request', { owner, repo, mergeRequestIid });
+      
+      const { data: note } = await this.client.request<GitLabNote>(
+        `${this.projectPath(owner, repo)}/merge_requests/${mergeRequestIid}/notes`,
+        { method: 'POST', body: { body } }
+      );
+      
+      return { url: `${this.serverUrl}/${owner}/${repo}/-/merge_requests/${mergeRequestIid}#note_${note.id}` };
+    } catch (error) {
+      logger.error('Failed to comment on merge request', { owner, repo, mergeRequestIid, error });
+      throw new Error(`Failed to comment on merge request: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the configured access token
+   */
+  async getToken(): Promise<string> {
+    return this.token;
+  }
+
+  /**
+   * Build an authenticated git remote URL on this GitLab host
+   */
+  async getCloneUrl(owner: string, repo: string): Promise<string> {
+    const remoteUrl = new URL(`${this.serverUrl}/${owner}/${repo}.git`);
+    remoteUrl.username = 'oauth2';
+    remoteUrl.password = this.token;
+    
+    return remoteUrl.toString();
+  }
+
+  /**
+   * API path of a project, addressed by its URL-encoded full path
+   */
+  private projectPath(owner: string, repo: string): string {
+    return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+}
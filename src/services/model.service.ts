@@ -0,0 +1,94 @@
+import config from '../config';
+import { AnthropicModelProvider } from './anthropic-model.service';
+import { FakeModelProvider } from './fake-model.service';
+import { OllamaModelProvider } from './ollama-model.service';
+import { OpenAIModelProvider } from './openai-model.service';
+
+export type ModelProviderType = 'openai' | 'anthropic' | 'ollama' | 'fake';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  system: string;
+  messages: ChatMessage[];
+  // Ask for a bare JSON object, on providers that can enforce it
+  json?: boolean;
+}
+
+/**
+ * Connection and sampling settings for a model provider
+ */
+export interface ModelSettings {
+  provider: ModelProviderType;
+  model: string;
+  // Base URL of the API; each provider has a default
+  apiUrl?: string;
+  apiKey?: string;
+  maxTokens: number;
+  temperature: number;
+  // How long one completion may take before it is abandoned
+  timeoutSeconds: number;
+}
+
+/**
+ * A language model that completes chat conversations
+ */
+export interface ModelProvider {
+  readonly type: ModelProviderType;
+  readonly model: string;
+
+  /**
+   * Complete a conversation and return the text of the reply
+   */
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+const MODEL_PROVIDER_TYPES: ModelProviderType[] = ['openai', 'anthropic', 'ollama', 'fake'];
+
+/**
+ * Read the model settings from the environment, or undefined when no model is configured
+ */
+export function getModelSettings(): ModelSettings | undefined {
+  if (!config.modelProvider) {
+    return undefined;
+  }
+
+  const provider = config.modelProvider as ModelProviderType;
+  if (!MODEL_PROVIDER_TYPES.includes(provider)) {
+    throw new Error(`Unknown MODEL_PROVIDER: ${config.modelProvider}. Use one of ${MODEL_PROVIDER_TYPES.join(', ')}`);
+  }
+
+  if (!config.modelName && provider !== 'fake') {
+    throw new Error(`MODEL_NAME is required for the ${provider} model provider`);
+  }
+
+  return {
+    provider,
+    model: config.modelName || provider,
+    apiUrl: config.modelApiUrl || undefined,
+    apiKey: config.modelApiKey || undefined,
+    maxTokens: config.modelMaxTokens,
+    temperature: config.modelTemperature,
+    timeoutSeconds: config.modelTimeoutSeconds
+  };
+}
+
+/**
+ * Create the provider for the given model settings
+ */
+export function createModelProvider(settings: ModelSettings): ModelProvider {
+  switch (settings.provider) {
+    case 'anthropic':
+      return new AnthropicModelProvider(settings);
+    case 'ollama':
+      return new OllamaModelProvider(settings);
+    case 'fake':
+      return new FakeModelProvider();
+    case 'openai':
+    default:
+      return new OpenAIModelProvider(settings);
+  }
+}
@@ -0,0 +1,59 @@
+import logger from '../utils/logger';
+import { HttpClient } from '../utils/http-client';
+import { CompletionRequest, ModelProvider, ModelSettings } from './model.service';
+
+const DEFAULT_API_URL = 'http://localhost:11434';
+
+/**
+ * Completions from a local Ollama server through its native chat API
+ */
+export class OllamaModelProvider implements ModelProvider {
+  readonly type = 'ollama' as const;
+  readonly model: string;
+  private client: HttpClient;
+
+  constructor(private settings: ModelSettings) {
+    this.model = settings.model;
+    this.client = new HttpClient(
+      (settings.apiUrl || DEFAULT_API_URL).replace(/\/+$/, ''),
+      settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}
+    );
+  }
+
+  /**
+   * Complete a conversation with the chat endpoint, without streaming
+   */
+  async complete(request: CompletionRequest): Promise<string> {
+    try {
+      logger.info('Requesting completion', { provider: this.type, model: this.model });
+      
+      const { data } = await this.client.request<any>('/api/chat', {
+        method: 'POST',
+        timeoutMs: this.settings.timeoutSeconds * 1000,
+        body: {
+          model: this.model,
+          messages: [
+            { role: 'system', content: request.system },
+            ...request.messages
+          ],
+          stream: false,
+          ...(request.json ? { format: 'json' } : {}),
+          options: {
+            temperature: this.settings.temperature,
+            num_predict: this.settings.maxTokens
+          }
+        }
+      });
+      
+      const content = data.message?.content;
+      if (typeof content !== 'string' || !content) {
+        throw new Error('The response contained no message content');
+      }
+      
+      return content;
+    } catch (error) {
+      logger.error('Failed to get completion', { provider: this.type, model: this.model, error });
+      throw new Error(`Failed to get completion: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
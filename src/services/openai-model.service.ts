@@ -0,0 +1,56 @@
+import logger from '../utils/logger';
+import { HttpClient } from '../utils/http-client';
+import { CompletionRequest, ModelProvider, ModelSettings } from './model.service';
+
+const DEFAULT_API_URL = 'https://api.openai.com/v1';
+
+/**
+ * Chat completions on OpenAI and compatible servers (llama.cpp, vLLM, LM Studio, Azure-style gateways)
+ */
+export class OpenAIModelProvider implements ModelProvider {
+  readonly type = 'openai' as const;
+  readonly model: string;
+  private client: HttpClient;
+
+  constructor(private settings: ModelSettings) {
+    this.model = settings.model;
+    this.client = new HttpClient(
+      (settings.apiUrl || DEFAULT_API_URL).replace(/\/+$/, ''),
+      settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}
+    );
+  }
+
+  /**
+   * Complete a conversation with the chat completions endpoint
+   */
+  async complete(request: CompletionRequest): Promise<string> {
+    try {
+      logger.info('Requesting completion', { provider: this.type, model: this.model });
+      
+      const { data } = await this.client.request<any>('/chat/completions', {
+        method: 'POST',
+        timeoutMs: this.settings.timeoutSeconds * 1000,
+        body: {
+          model: this.model,
+          messages: [
+            { role: 'system', content: request.system },
+            ...request.messages
+          ],
+          max_tokens: this.settings.maxTokens,
+          temperature: this.settings.temperature,
+          ...(request.json ? { response_format: { type: 'json_object' } } : {})
+        }
+      });
+      
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || !content) {
+        throw new Error('The response contained no message content');
+      }
+      
+      return content;
+    } catch (error) {
+      logger.error('Failed to get completion', { provider: this.type, model: this.model, error });
+      throw new Error(`Failed to get completion: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,272 @@
+import fs from 'fs-extra';
+import path from 'path';
+import config from '../config';
+import logger from '../utils/logger';
+import { validatePlan } from '../utils/plan-schema';
+import { ResolveTarget, TargetKind } from '../utils/resolve-target';
+import { ResolutionPlan } from './planner.service';
+
+/**
+ * Identifies the issue or pull request a plan is for
+ */
+export interface PlanKey {
+  serverUrl: string;
+  owner: string;
+  repo: string;
+  number: number;
+  kind: TargetKind;
+}
+
+export interface StoredPlanVersion {
+  version: number;
+  plan: ResolutionPlan;
+  createdAt: string;
+  // The planner for generated versions, the user for modified ones
+  createdBy: string;
+  // Feedback the version was revised from
+  modifications?: string;
+}
+
+export type PlanEventAction = 'created' | 'modified' | 'approved' | 'rejected' | 'implemented';
+
+export interface PlanEvent {
+  action: PlanEventAction;
+  version: number;
+  actor: string;
+  at: string;
+  // e.g. the pull request an implemented plan produced
+  details?: string;
+}
+
+/**
+ * Every plan version for one issue, and what happened to them
+ */
+export interface PlanRecord {
+  key: PlanKey;
+  url: string;
+  title: string;
+  versions: StoredPlanVersion[];
+  history: PlanEvent[];
+  // Latest version the user approved
+  approvedVersion?: number;
+  updatedAt: string;
+}
+
+/**
+ * Keeps plans on disk, one JSON file per issue, so they outlive a single tool call
+ */
+export class PlanStoreService {
+  constructor(private rootPath: string = config.planStorePath) {}
+
+  /**
+   * Get the record for an issue, or undefined when no plan was stored for it
+   */
+  async get(key: PlanKey): Promise<PlanRecord | undefined> {
+    const filePath = this.getRecordPath(key);
+    
+    try {
+      if (!await fs.pathExists(filePath)) {
+        return undefined;
+      }
+      return await fs.readJson(filePath);
+    } catch (error) {
+      logger.error('Failed to read plan record', { filePath, error });
+      throw new Error(`Failed to read plan record: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the record for an issue with one of its versions, or the latest one when no version
+   * is given; the version's plan is checked against the schema, since records can be edited on disk
+   *
+   * @returns undefined when no plan or no such version is stored
+   */
+  async getVersion(key: PlanKey, version?: number): Promise<{ record: PlanRecord; stored: StoredPlanVersion } | undefined> {
+    const record = await this.get(key);
+    const stored = record && findPlanVersion(record, version);
+    if (!record || !stored) {
+      return undefined;
+    }
+    
+    try {
+      validatePlan(stored.plan);
+    } catch (error) {
+      const filePath = this.getRecordPath(key);
+      logger.error('Stored plan is invalid', { filePath, version: stored.version, error });
+      throw new Error(`Plan version ${stored.version} stored in ${filePath} is invalid: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    return { record, stored };
+  }
+
+  /**
+   * Get the record for a parsed reference; shorthand that may name either
+   * an issue or a pull request matches whichever has a stored plan
+   */
+  async find(target: ResolveTarget): Promise<PlanRecord | undefined> {
+    const kinds: TargetKind[] = target.kindKnown ? [target.kind] : ['issue', 'pull_request'];
+    
+    for (const kind of kinds) {
+      const record = await this.get(toPlanKey(target, kind));
+      if (record) {
+        return record;
+      }
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * List stored records, optionally only those of one repository, most recently updated first
+   */
+  async list(repository?: Pick<PlanKey, 'serverUrl' | 'owner' | 'repo'>): Promise<PlanRecord[]> {
+    const directory = repository ? path.dirname(this.getRecordPath({ ...repository, number: 0, kind: 'issue' })) : this.rootPath;
+    
+    try {
+      if (!await fs.pathExists(directory)) {
+        return [];
+      }
+      
+      const records: PlanRecord[] = [];
+      for (const filePath of await this.findRecordFiles(directory)) {
+        const record: PlanRecord = await fs.readJson(filePath);
+        // Owners may contain slashes, so a repository's directory can hold other repositories' records
+        if (!repository || (record.key.owner === repository.owner && record.key.repo === repository.repo)) {
+          records.push(record);
+        }
+      }
+      
+      return records.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (error) {
+      logger.error('Failed to list plan records', { directory, error });
+      throw new Error(`Failed to list plan records: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Store a new version of an issue's plan, numbered after the versions already stored
+   *
+   * @returns The new version number
+   */
+  async addVersion(
+    key: PlanKey,
+    issue: { url: string; title: string },
+    plan: ResolutionPlan,
+    createdBy: string,
+    modifications?: string
+  ): Promise<number> {
+    validatePlan(plan);
+    
+    return this.update(key, issue, (record, now) => {
+      const version = record.versions.length + 1;
+      record.versions.push({ version, plan, createdAt: now, createdBy, modifications });
+      record.history.push({ action: modifications === undefined ? 'created' : 'modified', version, actor: createdBy, at: now });
+      return version;
+    });
+  }
+
+  /**
+   * Record that a version was approved, rejected or implemented
+   */
+  async recordEvent(
+    key: PlanKey,
+    action: Exclude<PlanEventAction, 'created' | 'modified'>,
+    version: number,
+    actor: string,
+    details?: string
+  ): Promise<void> {
+    await this.update(key, undefined, (record, now) => {
+      if (!record.versions.some(stored => stored.version === version)) {
+        throw new Error(`Plan version ${version} does not exist`);
+      }
+      
+      record.history.push({ action, version, actor, at: now, details });
+      if (action === 'approved') {
+        record.approvedVersion = version;
+      }
+    });
+  }
+
+  /**
+   * Read, change and write back a record, creating it when an issue is given
+   */
+  private async update<T>(
+    key: PlanKey,
+    issue: { url: string; title: string } | undefined,
+    change: (record: PlanRecord, now: string) => T
+  ): Promise<T> {
+    const filePath = this.getRecordPath(key);
+    
+    try {
+      const now = new Date().toISOString();
+      const existing = await this.get(key);
+      if (!existing && !issue) {
+        throw new Error(`No plan is stored for ${key.owner}/${key.repo}#${key.number}`);
+      }
+      
+      const record: PlanRecord = existing || { key, url: issue!.url, title: issue!.title, versions: [], history: [], updatedAt: now };
+      if (issue) {
+        record.title = issue.title;
+      }
+      
+      const result = change(record, now);
+      record.updatedAt = now;
+      
+      // Write to a temporary file first so an interrupted write never leaves a truncated record
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeJson(`${filePath}.tmp`, record, { spaces: 2 });
+      await fs.move(`${filePath}.tmp`, filePath, { overwrite: true });
+      
+      return result;
+    } catch (error) {
+      logger.error('Failed to save plan record', { filePath, error });
+      throw new Error(`Failed to save plan record: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Records are kept under the forge host and repository, e.g. github.com/owner/repo/issue-12.json
+   */
+  private getRecordPath(key: PlanKey): string {
+    const host = new URL(key.serverUrl).host.replace(/:/g, '_');
+    const filePath = path.resolve(this.rootPath, host, ...key.owner.split('/'), key.repo, `${key.kind}-${key.number}.json`);
+    
+    // Owner and repository names come from user input and must never lead outside the store
+    if (!filePath.startsWith(path.resolve(this.rootPath) + path.sep)) {
+      throw new Error(`Invalid repository ${key.owner}/${key.repo}: its plans would be stored outside ${this.rootPath}`);
+    }
+    
+    return filePath;
+  }
+
+  private async findRecordFiles(directory: string): Promise<string[]> {
+    const files: string[] = [];
+    
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.findRecordFiles(entryPath));
+      } else if (/^(issue|pull_request)-\d+\.json$/.test(entry.name)) {
+        files.push(entryPath);
+      }
+    }
+    
+    return files;
+  }
+}
+
+/**
+ * The key plans for a target are stored under
+ */
+export function toPlanKey(target: ResolveTarget, kind: TargetKind = target.kind): PlanKey {
+  return { serverUrl: target.serverUrl, owner: target.owner, repo: target.repo, number: target.number, kind };
+}
+
+/**
+ * Get a stored version, or the latest one when no version is given
+ */
+export function findPlanVersion(record: PlanRecord, version?: number): StoredPlanVersion | undefined {
+  return version === undefined
+    ? record.versions[record.versions.length - 1]
+    : record.versions.find(stored => stored.version === version);
+}
@@ -1,61 +1,302 @@
 import logger from '../utils/logger';
-import { IssueInfo } from './github.service';
+import { buildPlanPrompt, buildRevisionPrompt, parsePlanResponse, PLAN_SYSTEM_PROMPT } from '../utils/plan-prompt';
+import { createPlanStep, findMentionedFiles, validatePlan } from '../utils/plan-schema';
+import { applyJsonPatch, parseJsonPatch } from '../utils/json-patch';
+import { extractStackTraces, locateStackFrames } from '../utils/stack-traces';
+import { BUILTIN_PLAN_TEMPLATES, PlanTemplate, selectPlanTemplate } from '../utils/plan-templates';
+import { FileContentLoader, FileStructure, IssueInfo, PullRequestDetails } from './forge.service';
+import { SubProject } from './codebase-analysis.service';
+import { FileRelevanceService, RankedFile } from './file-relevance.service';
+import { ChatMessage, ModelProvider } from './model.service';
+import type { IssueClass } from './triage.service';
 
+// Upper bound on review comments turned into individual plan steps
+const MAX_REVIEW_STEPS = 10;
+
+// Test files get their own plan step
+const TEST_FILE_PATTERN = /(^|\/)(tests?|__tests__|spec)\/|[._-](test|spec)\.\w+$|(^|\/)test_[^/]+\.py$|_test\.go$/;
+
+// Upper bound on stack frames kept in the plan
+const MAX_ERROR_LOCATIONS = 10;
+
+// Upper bound on candidate files whose contents are included in the model prompt
+const MAX_PROMPT_FILES = 8;
+
+// Headings that name plan sections in free-form modifications
+const PLAN_SECTIONS: Record<string, Exclude<keyof ResolutionPlan, 'relevantFiles' | 'errorLocations'>> = {
+  'Problem Summary': 'problemSummary',
+  'Proposed Solution': 'proposedSolution',
+  'Target Projects': 'targetProjects',
+  'Files to Modify': 'filesToModify',
+  'Implementation Steps': 'implementationSteps',
+  'Testing Strategy': 'testingStrategy',
+  'Success Criteria': 'successCriteria'
+};
+
+// Model replies that cannot be parsed or fail validation are retried once with the errors
+const MAX_MODEL_ATTEMPTS = 2;
+
+/**
+ * Why a file was chosen for the plan
+ */
+export interface RelevantFile {
+  path: string;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * A place in the repository named by a stack trace in the issue
+ */
+export interface ErrorLocation {
+  path: string;
+  line?: number;
+  function?: string;
+  // Exception class or error name of the trace; 'panic' for Go and Rust panics
+  exceptionType?: string;
+  message?: string;
+}
+
+// 'none' is for steps that read or run code without changing it
+export type ChangeType = 'add' | 'modify' | 'delete' | 'refactor' | 'test' | 'docs' | 'config' | 'none';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+// Rough size of a change: trivial is a line or two, small up to ~20 lines,
+// medium up to ~100 lines, large anything beyond
+export type ChangeSize = 'trivial' | 'small' | 'medium' | 'large';
+
+/**
+ * One step of a resolution plan and the files it touches
+ */
+export interface PlanStep {
+  description: string;
+  // Repository-relative paths the step reads or changes
+  targetFiles: string[];
+  changeType: ChangeType;
+  risk: RiskLevel;
+  size: ChangeSize;
+  // Observable checks that show the step is done
+  acceptanceChecks: string[];
+}
+
+/**
+ * A plan for resolving an issue; validated against RESOLUTION_PLAN_SCHEMA
+ */
 export interface ResolutionPlan {
   problemSummary: string;
   proposedSolution: string;
+  // Paths of the workspace packages/modules the plan is scoped to
+  targetProjects: string[];
   filesToModify: string[];
-  implementationSteps: string[];
+  // Ranking behind filesToModify, shown to the approver
+  relevantFiles: RelevantFile[];
+  // Repository frames of the issue's stack traces, innermost first; the first of each trace is a primary target
+  errorLocations: ErrorLocation[];
+  implementationSteps: PlanStep[];
   testingStrategy: string;
   successCriteria: string;
 }
 
+export interface PlannerOptions {
+  // Upper bound on file contents searched for the issue; defaults to a budget suited to API fetches
+  maxContentSearchFiles?: number;
+  // Resolution templates to choose from, in order of precedence; defaults to the built-in ones
+  planTemplates?: PlanTemplate[];
+}
+
 export class PlannerService {
+  private relevanceService: FileRelevanceService;
+  private planTemplates: PlanTemplate[];
+
+  constructor(
+    private loadFileContent?: FileContentLoader,
+    private model?: ModelProvider,
+    options: PlannerOptions = {}
+  ) {
+    this.relevanceService = new FileRelevanceService(loadFileContent, options.maxContentSearchFiles);
+    this.planTemplates = options.planTemplates || BUILTIN_PLAN_TEMPLATES;
+  }
+
   /**
    * Create a resolution plan for an issue
+   *
+   * @param classification Triage class, used to choose a resolution template when no label does
    */
-  async createResolutionPlan(issueInfo: IssueInfo): Promise<ResolutionPlan> {
+  async createResolutionPlan(issueInfo: IssueInfo, classification?: IssueClass): Promise<ResolutionPlan> {
     try {
       logger.info('Creating resolution plan', { 
         issue: `${issueInfo.owner}/${issueInfo.repo}#${issueInfo.issueNumber}` 
       });
       
-      // In a real implementation, this would call an AI service
-      // For now, we'll create a mock plan based on the issue information
+      // Keyword heuristics give a plan on their own, and the draft and
+      // fallback for the model when one is configured
       
-      const issueWords = `${issueInfo.title} ${issueInfo.body}`.toLowerCase();
+      // Include the whole discussion, since details often only appear in comments
+      const issueWords = [
+        issueInfo.title,
+        issueInfo.body,
+        ...issueInfo.comments.map(comment => comment.body),
+        ...(issueInfo.pullRequest?.reviewComments || []).map(comment => comment.body)
+      ].join(' ').toLowerCase();
       
       let problemSummary = `Issue #${issueInfo.issueNumber}: ${issueInfo.title}`;
       let proposedSolution = 'Implement a fix based on the issue description';
       let filesToModify: string[] = [];
-      let implementationSteps: string[] = [];
+      let implementationSteps: PlanStep[] = [];
       let testingStrategy = 'Write unit tests to verify the fix works as expected';
       let successCriteria = 'All tests pass and the issue is resolved';
       
-      // Identify relevant files to modify based on issue content
-      // This is a simple example - a real AI would be much more sophisticated
+      const discussion = [
+        issueInfo.body,
+        ...issueInfo.comments.map(comment => comment.body),
+        ...(issueInfo.pullRequest?.reviewComments || []).map(comment => comment.body)
+      ].join('\n\n');
+      
+      // Rank the files to modify by relevance to the whole discussion
       const fileStructure = issueInfo.codebaseAnalysis.fileStructure || [];
-      const relevantFiles = this.findRelevantFiles(fileStructure, issueWords);
-      filesToModify = relevantFiles.map(file => file.path);
+      const rankedFiles = await this.relevanceService.rank(fileStructure, {
+        title: issueInfo.title,
+        text: discussion
+      });
+      const relevantFiles = rankedFiles.length > 0 ? rankedFiles : this.findEntryPoints(fileStructure);
+      filesToModify = relevantFiles.map(result => result.file.path);
+      
+      // In a monorepo, narrow the plan to the packages the issue concerns
+      const targets = this.findTargetProjects(
+        issueInfo.codebaseAnalysis.subProjects || [],
+        relevantFiles.map(result => result.file),
+        issueWords
+      );
+      const targetProjects = targets.map(project => project.path);
+      const scope = targets.length > 0 ? ` in ${targets.map(project => project.name).join(', ')}` : '';
+      
+      if (targets.length > 0) {
+        const scopedFiles = filesToModify.filter(file => targetProjects.some(path => file.startsWith(`${path}/`)));
+        if (scopedFiles.length > 0) {
+          filesToModify = scopedFiles;
+        }
+      }
+      
+      // Stack traces show where the error was raised; the innermost repository
+      // frame of each trace is a primary target, whatever the ranking says
+      const repositoryPaths = this.listPaths(fileStructure);
+      const traces = extractStackTraces(`${issueInfo.title}\n${discussion}`);
+      const errorLocations = locateStackFrames(traces, repositoryPaths).slice(0, MAX_ERROR_LOCATIONS);
+      const raisedAt = traces
+        .map(trace => locateStackFrames([trace], repositoryPaths)[0])
+        .filter((location): location is ErrorLocation => location !== undefined);
+      
+      filesToModify = Array.from(new Set([...raisedAt.map(location => location.path), ...filesToModify]));
+      
+      if (raisedAt.length > 0) {
+        const error = raisedAt[0];
+        problemSummary += ` (${error.exceptionType || 'error'} raised at ${error.path}${error.line ? `:${error.line}` : ''})`;
+      }
+      
+      // Create implementation steps; branching and opening the pull request
+      // are done by the tool itself, so they are not plan steps
+      const sourceFiles = filesToModify.filter(file => !TEST_FILE_PATTERN.test(file));
+      const testFiles = filesToModify.filter(file => TEST_FILE_PATTERN.test(file));
+      
+      // A resolution template for this kind of issue replaces the generic change and test steps
+      const selected = issueInfo.pullRequest
+        ? undefined
+        : selectPlanTemplate(this.planTemplates, issueInfo.labels, classification);
+      const template = selected?.template;
+      
+      if (selected && template) {
+        logger.info('Using resolution template', { template: template.name, reason: selected.reason });
+        proposedSolution = `Follow the "${template.name}" resolution template (chosen by ${selected.reason})` +
+          (template.description ? `: ${template.description}` : '');
+        testingStrategy = template.testingStrategy || testingStrategy;
+        successCriteria = template.successCriteria || successCriteria;
+      }
+      
+      const templateFiles = { source: sourceFiles, tests: testFiles, all: filesToModify };
+      const templateSteps = (template?.steps || []).map(step => createPlanStep(step.description, {
+        targetFiles: step.files ? templateFiles[step.files] : findMentionedFiles(step.description, repositoryPaths),
+        changeType: step.changeType,
+        acceptanceChecks: step.acceptanceChecks
+      }));
       
-      // Create implementation steps
       implementationSteps = [
-        'Understand the issue by analyzing the code',
-        'Create a branch for the fix',
-        'Implement necessary changes',
-        'Add or update tests',
-        'Verify the fix resolves the issue',
-        'Create a pull request'
+        createPlanStep('Understand the issue by analyzing the code', {
+          targetFiles: filesToModify,
+          changeType: 'none',
+          acceptanceChecks: ['The cause of the issue is located in the code']
+        }),
+        // One fix per reported error, at the place it was raised
+        ...(raisedAt.length > 0
+          ? raisedAt.map(location => createPlanStep(`Fix the ${this.describeError(location)}`, {
+            targetFiles: [location.path],
+            changeType: 'modify',
+            acceptanceChecks: [
+              `${location.exceptionType || 'The error'} is no longer raised at ${location.path}${location.line ? `:${location.line}` : ''}`
+            ]
+          }))
+          : template ? [] : [createPlanStep(`Implement necessary changes${scope}`, {
+            targetFiles: sourceFiles,
+            changeType: 'modify',
+            acceptanceChecks: ['The behavior described in the issue no longer occurs']
+          })]),
+        ...(template ? templateSteps : [this.createTestStep(scope, testFiles)]),
+        createPlanStep('Verify the fix resolves the issue', {
+          changeType: 'none',
+          acceptanceChecks: ['The full test suite passes']
+        })
       ];
       
-      return {
+      // Pull request targets continue on the existing branch and address review feedback
+      const pullRequest = issueInfo.pullRequest;
+      if (pullRequest) {
+        problemSummary = `Pull request #${issueInfo.issueNumber}: ${issueInfo.title} (review feedback to address)`;
+        proposedSolution = `Address the review feedback with additional commits on ${pullRequest.headBranch}`;
+        
+        // Files with inline review comments are the primary targets
+        const reviewedFiles = pullRequest.reviewComments
+          .map(comment => comment.path)
+          .filter((path): path is string => Boolean(path));
+        filesToModify = Array.from(new Set([...reviewedFiles, ...filesToModify]));
+        
+        implementationSteps = [
+          ...this.createReviewSteps(pullRequest, filesToModify),
+          this.createTestStep(scope, testFiles),
+          createPlanStep('Verify the changes address the review feedback', {
+            changeType: 'none',
+            acceptanceChecks: ['The full test suite passes']
+          })
+        ];
+        successCriteria = 'All tests pass and every review comment is addressed';
+      }
+      
+      const reviewCommentFiles = new Set(
+        (pullRequest?.reviewComments || []).map(comment => comment.path).filter(Boolean)
+      );
+      
+      const plan: ResolutionPlan = {
         problemSummary,
         proposedSolution,
+        targetProjects,
         filesToModify,
+        relevantFiles: filesToModify.map(path => {
+          const ranked = relevantFiles.find(result => result.file.path === path);
+          const error = raisedAt.find(location => location.path === path);
+          const reasons = [
+            ...(reviewCommentFiles.has(path) ? ['has inline review comments'] : []),
+            ...(error ? [`raises ${error.exceptionType || 'the reported error'}${error.line ? ` (line ${error.line})` : ''}`] : []),
+            ...(ranked?.reasons || [])
+          ];
+          return { path, score: ranked?.score || 0, reasons };
+        }),
+        errorLocations,
         implementationSteps,
         testingStrategy,
         successCriteria
       };
+      validatePlan(plan);
+      
+      return this.model ? await this.createModelPlan(issueInfo, plan, relevantFiles.map(result => result.file)) : plan;
     } catch (error) {
       logger.error('Failed to create resolution plan', { error });
       throw new Error(`Failed to create resolution plan: ${error instanceof Error ? error.message : String(error)}`);
@@ -63,128 +304,308 @@ export class PlannerService {
   }
 
   /**
-   * Find files in the repository that might be relevant to the issue
+   * Ask the model for a plan, grounded in the issue and the candidate files.
+   * Falls back to the heuristic plan when the model fails.
    */
-  private findRelevantFiles(fileStructure: any[], issueWords: string): any[] {
-    const relevantFiles: any[] = [];
-    
-    const searchFiles = (files: any[]) => {
-      for (const file of files) {
-        if (file.type === 'file') {
-          // Check if file name or content might be relevant to the issue
-          const isRelevant = file.name.toLowerCase().split('.').some((part: string) => 
-            issueWords.includes(part)
-          );
-          
-          if (isRelevant) {
-            relevantFiles.push(file);
-          } else if (file.content) {
-            // If file has content, check if any keywords from the issue appear in it
-            const contentMatches = issueWords.split(' ').some(word => 
-              word.length > 4 && file.content.toLowerCase().includes(word)
-            );
-            
-            if (contentMatches) {
-              relevantFiles.push(file);
-            }
-          }
-        }
-        
-        if (file.children && file.children.length > 0) {
-          searchFiles(file.children);
-        }
+  private async createModelPlan(
+    issueInfo: IssueInfo,
+    draft: ResolutionPlan,
+    relevantFiles: FileStructure[]
+  ): Promise<ResolutionPlan> {
+    try {
+      const candidates = relevantFiles.filter(file => draft.filesToModify.includes(file.path)).slice(0, MAX_PROMPT_FILES);
+      const files = [];
+      
+      for (const file of candidates) {
+        const content = file.content ?? (this.loadFileContent ? await this.loadFileContent(file) : undefined);
+        files.push({ path: file.path, content });
       }
-    };
+      
+      return await this.requestPlan(
+        buildPlanPrompt(issueInfo, draft, files),
+        draft,
+        plan => this.dropUnknownProjects(plan, issueInfo.codebaseAnalysis.subProjects)
+      );
+    } catch (error) {
+      logger.warn('Model planning failed, using the heuristic plan', { error });
+      return draft;
+    }
+  }
+
+  /**
+   * Send a prompt to the model and parse the reply into a validated plan,
+   * retrying replies that cannot be parsed or do not match the schema
+   */
+  private async requestPlan(
+    prompt: string,
+    fallback: ResolutionPlan,
+    adjust?: (plan: ResolutionPlan) => void
+  ): Promise<ResolutionPlan> {
+    const model = this.model!;
+    const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
     
-    searchFiles(fileStructure);
+    logger.info('Requesting plan from model', { provider: model.type, model: model.model });
     
-    // If no relevant files found, return some common files that might need modification
-    if (relevantFiles.length === 0) {
-      const commonFiles = fileStructure.filter(file => 
+    for (let attempt = 1; ; attempt++) {
+      const response = await model.complete({ system: PLAN_SYSTEM_PROMPT, messages, json: true });
+      
+      try {
+        const plan = parsePlanResponse(response, fallback);
+        adjust?.(plan);
+        validatePlan(plan);
+        return plan;
+      } catch (error) {
+        if (attempt >= MAX_MODEL_ATTEMPTS) {
+          throw error;
+        }
+        
+        logger.warn('Model reply could not be parsed, retrying', { attempt, error });
+        messages.push(
+          { role: 'assistant', content: response },
+          {
+            role: 'user',
+            content: `That reply could not be used: ${error instanceof Error ? error.message : String(error)}. Reply with only the JSON object.`
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Scoped installs need real package paths, so drop any target project the model made up
+   */
+  private dropUnknownProjects(plan: ResolutionPlan, subProjects: SubProject[]): void {
+    const subProjectPaths = subProjects.map(project => project.path);
+    plan.targetProjects = plan.targetProjects.filter(path => subProjectPaths.includes(path));
+  }
+
+  /**
+   * Fall back to top-level entry points when nothing in the issue matches the repository
+   */
+  private findEntryPoints(fileStructure: FileStructure[]): RankedFile[] {
+    return fileStructure
+      .filter(file =>
         file.type === 'file' && (
           file.name.includes('index') || 
           file.name.includes('main') || 
           file.name.includes('app')
         )
-      );
+      )
+      .map(file => ({ file, score: 0, reasons: ['entry point; nothing in the issue matched the repository'] }));
+  }
+
+  /**
+   * Turn review comments into plan steps, one per inline comment
+   */
+  private createReviewSteps(pullRequest: PullRequestDetails, filesToModify: string[]): PlanStep[] {
+    const inlineComments = pullRequest.reviewComments.filter(comment => comment.path);
+    
+    if (inlineComments.length === 0) {
+      return [createPlanStep('Address the review feedback', {
+        targetFiles: filesToModify,
+        changeType: 'modify',
+        acceptanceChecks: ['Every review comment is addressed']
+      })];
+    }
+    
+    const steps = inlineComments.slice(0, MAX_REVIEW_STEPS).map(comment => {
+      const location = comment.line ? `${comment.path}:${comment.line}` : comment.path;
+      const summary = comment.body.split('\n')[0].trim().substring(0, 120);
+      return createPlanStep(`Address review comment by ${comment.author} on ${location}: ${summary}`, {
+        targetFiles: [comment.path!],
+        changeType: 'modify',
+        acceptanceChecks: [`The review comment by ${comment.author} on ${location} is resolved`]
+      });
+    });
+    
+    const remaining = inlineComments.slice(MAX_REVIEW_STEPS);
+    if (remaining.length > 0) {
+      steps.push(createPlanStep(`Address the remaining ${remaining.length} review comment(s)`, {
+        targetFiles: Array.from(new Set(remaining.map(comment => comment.path!))),
+        changeType: 'modify',
+        acceptanceChecks: ['Every remaining review comment is resolved']
+      }));
+    }
+    
+    return steps;
+  }
+
+  /**
+   * Name an error to fix: "TypeError raised in parseConfig (src/config.ts:12)"
+   */
+  private describeError(location: ErrorLocation): string {
+    const place = `${location.path}${location.line ? `:${location.line}` : ''}`;
+    const error = location.exceptionType || 'error';
+    return location.function ? `${error} raised in ${location.function} (${place})` : `${error} raised at ${place}`;
+  }
+
+  /**
+   * List the paths of all files in a file structure
+   */
+  private listPaths(fileStructure: FileStructure[]): string[] {
+    return fileStructure.flatMap(item =>
+      item.type === 'file' ? [item.path] : this.listPaths(item.children || [])
+    );
+  }
+
+  /**
+   * The step adding or updating tests, on the test files the ranking found
+   */
+  private createTestStep(scope: string, testFiles: string[]): PlanStep {
+    return createPlanStep(`Add or update tests${scope}`, {
+      targetFiles: testFiles,
+      changeType: 'test',
+      acceptanceChecks: ['A test covers the reported behavior and passes with the change']
+    });
+  }
+
+  /**
+   * Rank workspace sub-projects by how strongly the issue points at them.
+   *
+   * A project scores for being named in the issue and for each relevant file
+   * it contains; every project scoring at least half the best score is kept.
+   */
+  private findTargetProjects(subProjects: SubProject[], relevantFiles: FileStructure[], issueWords: string): SubProject[] {
+    if (subProjects.length === 0) {
+      return [];
+    }
+    
+    const mentions = (term: string): boolean => {
+      const escaped = term.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(^|[^\\w@/-])${escaped}($|[^\\w/-])`).test(issueWords);
+    };
+    
+    const scores = new Map<SubProject, number>();
+    
+    for (const project of subProjects) {
+      let score = 0;
+      
+      // "@scope/ui" may be written as just "ui"; Gradle ":lib:core" as "lib:core"
+      const shortName = project.name.replace(/^@[^/]+\//, '').replace(/^:/, '');
+      if (mentions(project.name) || mentions(shortName)) score += 3;
+      if (project.path !== shortName && mentions(project.path)) score += 2;
+      
+      scores.set(project, score);
+    }
+    
+    for (const file of relevantFiles) {
+      // Nested packages own their files, so credit the deepest containing project
+      const owner = subProjects
+        .filter(project => file.path.startsWith(`${project.path}/`))
+        .sort((a, b) => b.path.length - a.path.length)[0];
       
-      return commonFiles.length > 0 ? commonFiles : [];
+      if (owner) {
+        scores.set(owner, (scores.get(owner) || 0) + 1);
+      }
     }
     
-    return relevantFiles;
+    const bestScore = Math.max(...scores.values());
+    if (bestScore === 0) {
+      return [];
+    }
+    
+    return subProjects
+      .filter(project => (scores.get(project) || 0) * 2 >= bestScore)
+      .sort((a, b) => (scores.get(b) || 0) - (scores.get(a) || 0));
   }
 
   /**
-   * Update a plan with user modifications
+   * Revise a plan with the user's feedback.
+   *
+   * Feedback may be a JSON patch against the plan, free-form text for the
+   * model to merge, or text under section headings like "Testing Strategy:".
+   * Feedback that cannot be applied raises an error instead of being ignored.
+   *
+   * @param subProjects Workspace packages of the repository, which the model's target projects must name
    */
   async updatePlanWithModifications(
     originalPlan: ResolutionPlan, 
-    modifications: string
+    modifications: string,
+    subProjects: SubProject[]
   ): Promise<ResolutionPlan> {
     try {
       logger.info('Updating plan with user modifications');
       
-      // In a real implementation, this would use an AI to merge the original
-      // plan with the user's requested modifications
-      
-      // For this implementation, we'll parse the modifications in a simple way
-      const updatedPlan = { ...originalPlan };
-      
-      // Look for specific sections in the modifications
-      if (modifications.includes('Problem Summary:')) {
-        const match = modifications.match(/Problem Summary:(.*?)(?=Proposed Solution:|$)/s);
-        if (match && match[1].trim()) {
-          updatedPlan.problemSummary = match[1].trim();
-        }
-      }
-      
-      if (modifications.includes('Proposed Solution:')) {
-        const match = modifications.match(/Proposed Solution:(.*?)(?=Files to Modify:|$)/s);
-        if (match && match[1].trim()) {
-          updatedPlan.proposedSolution = match[1].trim();
-        }
-      }
-      
-      if (modifications.includes('Files to Modify:')) {
-        const match = modifications.match(/Files to Modify:(.*?)(?=Implementation Steps:|$)/s);
-        if (match && match[1].trim()) {
-          updatedPlan.filesToModify = match[1]
-            .trim()
-            .split('\n')
-            .map(line => line.replace(/^-\s*/, '').trim())
-            .filter(Boolean);
-        }
-      }
-      
-      if (modifications.includes('Implementation Steps:')) {
-        const match = modifications.match(/Implementation Steps:(.*?)(?=Testing Strategy:|$)/s);
-        if (match && match[1].trim()) {
-          updatedPlan.implementationSteps = match[1]
-            .trim()
-            .split('\n')
-            .map(line => line.replace(/^\d+\.\s*/, '').trim())
-            .filter(Boolean);
-        }
-      }
-      
-      if (modifications.includes('Testing Strategy:')) {
-        const match = modifications.match(/Testing Strategy:(.*?)(?=Success Criteria:|$)/s);
-        if (match && match[1].trim()) {
-          updatedPlan.testingStrategy = match[1].trim();
-        }
+      // Structured edits are applied exactly, without asking the model
+      const patch = parseJsonPatch(modifications);
+      if (patch) {
+        const patchedPlan = applyJsonPatch(originalPlan, patch);
+        validatePlan(patchedPlan);
+        return patchedPlan;
       }
       
-      if (modifications.includes('Success Criteria:')) {
-        const match = modifications.match(/Success Criteria:(.*?)(?=$)/s);
-        if (match && match[1].trim()) {
-          updatedPlan.successCriteria = match[1].trim();
+      // A model can merge free-form feedback into the plan
+      if (this.model) {
+        try {
+          return await this.requestPlan(
+            buildRevisionPrompt(originalPlan, modifications),
+            originalPlan,
+            plan => this.dropUnknownProjects(plan, subProjects)
+          );
+        } catch (error) {
+          logger.warn('Model plan revision failed, applying modifications by section', { error });
         }
       }
       
-      return updatedPlan;
+      return this.applySectionModifications(originalPlan, modifications);
     } catch (error) {
       logger.error('Failed to update plan with modifications', { error });
       throw new Error(`Failed to update plan: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Replace the plan sections named by headings in the modifications
+   */
+  private applySectionModifications(originalPlan: ResolutionPlan, modifications: string): ResolutionPlan {
+    const headingPattern = new RegExp(
+      `^[ \\t]*(?:#{1,6}[ \\t]*)?(${Object.keys(PLAN_SECTIONS).join('|')})[ \\t]*(?::|$)`,
+      'gim'
+    );
+    const headings = Array.from(modifications.matchAll(headingPattern));
+    
+    if (headings.length === 0) {
+      throw new Error(
+        `No plan sections found. Start each change with a heading such as ${Object.keys(PLAN_SECTIONS).map(name => `"${name}:"`).join(', ')}, ` +
+        'give a JSON patch, or configure a model for free-form feedback'
+      );
+    }
+    
+    const preamble = modifications.substring(0, headings[0].index).trim();
+    if (preamble) {
+      throw new Error(`Text before the first section heading cannot be applied: "${preamble.substring(0, 80)}"`);
+    }
+    
+    const updatedPlan = { ...originalPlan };
+    
+    headings.forEach((heading, index) => {
+      const name = Object.keys(PLAN_SECTIONS).find(section => section.toLowerCase() === heading[1].toLowerCase())!;
+      const field = PLAN_SECTIONS[name];
+      const end = index + 1 < headings.length ? headings[index + 1].index : modifications.length;
+      const content = modifications.substring(heading.index! + heading[0].length, end).trim();
+      const items = content
+        .split('\n')
+        .map(line => line.replace(/^([-*]|\d+[.)])\s*/, '').trim())
+        .filter(Boolean);
+      
+      // Clearing the target projects unscopes the plan; every other section needs content
+      if (!content && field !== 'targetProjects') {
+        throw new Error(`The "${name}" section is empty`);
+      }
+      
+      if (field === 'implementationSteps') {
+        // Steps written as text get their files and estimates inferred
+        updatedPlan.implementationSteps = items.map(line =>
+          createPlanStep(line, { targetFiles: findMentionedFiles(line, updatedPlan.filesToModify) })
+        );
+      } else if (field === 'targetProjects' || field === 'filesToModify') {
+        updatedPlan[field] = items;
+      } else {
+        updatedPlan[field] = content;
+      }
+    });
+    
+    validatePlan(updatedPlan);
+    return updatedPlan;
+  }
+}
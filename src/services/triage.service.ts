@@ -0,0 +1,306 @@
+import config from '../config';
+import logger from '../utils/logger';
+import { extractStackTraces } from '../utils/stack-traces';
+import { IssueInfo } from './forge.service';
+
+export type IssueClass = 'bug' | 'feature' | 'docs' | 'question' | 'chore';
+
+export type IssueScope = 'small' | 'medium' | 'large';
+
+export const ISSUE_CLASSES: readonly IssueClass[] = ['bug', 'feature', 'docs', 'question', 'chore'];
+export const ISSUE_SCOPES: readonly IssueScope[] = ['small', 'medium', 'large'];
+
+/**
+ * Which issues may be resolved automatically
+ */
+export interface TriageRules {
+  // Proceed only with at least one of these labels; any labels when empty
+  allowLabels: string[];
+  denyLabels: string[];
+  allowedClasses: IssueClass[];
+  maxScope: IssueScope;
+}
+
+/**
+ * The outcome of triaging an issue before planning
+ */
+export interface TriageResult {
+  classification: IssueClass;
+  scope: IssueScope;
+  proceed: boolean;
+  // Why resolving should stop; empty when it may proceed
+  blockers: string[];
+  // Worth knowing, but no reason to stop
+  warnings: string[];
+  // Signals behind the classification and scope
+  reasons: string[];
+}
+
+// Signals and how much each counts toward a class
+const LABEL_WEIGHT = 3;
+const TITLE_PREFIX_WEIGHT = 3;
+const STACK_TRACE_WEIGHT = 2;
+const QUESTION_MARK_WEIGHT = 2;
+const KEYWORD_WEIGHT = 1;
+// Below a single keyword, since bug reports often start with these words too ("Can't save", "Does not work")
+const QUESTION_WORD_WEIGHT = 0.5;
+
+const LABEL_CLASSES: [IssueClass, RegExp][] = [
+  ['bug', /\b(bug|defect|regression|crash)\b/i],
+  ['feature', /\b(feature|enhancement|improvement)\b/i],
+  ['docs', /\b(docs?|documentation)\b/i],
+  ['question', /\b(question|support|discussion)\b/i],
+  ['chore', /\b(chore|maintenance|dependencies|deps|refactor(ing)?|ci|build|tech[- ]debt|cleanup)\b/i]
+];
+
+// Conventional commit style prefixes and bracketed tags, e.g. "fix(parser):" or "[Feature]"
+const TITLE_PREFIX_CLASSES: [IssueClass, RegExp][] = [
+  ['bug', /^(\[bug\]|(fix|bug)(\([^)]*\))?!?:)/i],
+  ['feature', /^(\[(feature|feature request|enhancement)\]|(feat|feature)(\([^)]*\))?!?:)/i],
+  ['docs', /^(\[docs?\]|docs?(\([^)]*\))?!?:)/i],
+  ['question', /^(\[question\]|question:)/i],
+  ['chore', /^(\[chore\]|(chore|refactor|build|ci|deps)(\([^)]*\))?!?:)/i]
+];
+
+const KEYWORD_CLASSES: [IssueClass, RegExp][] = [
+  ['bug', /\b(crash(es|ed)?|exception|fails?|failing|broken|regression|does(n't| not) work|not working|expected behaviou?r)\b/i],
+  ['feature', /\b(feature request|add support|support for|would be (nice|great|useful)|ability to|allow (users )?to|new option)\b/i],
+  ['docs', /\b(typo|documentation|readme|docs)\b/i],
+  ['chore', /\b(bump|upgrade|update (the )?dependenc(y|ies)|deprecat(ed|ion)|clean ?up|refactor|lint)\b/i]
+];
+
+// Questions are usually asked in the title
+const QUESTION_MARK_PATTERN = /\?\s*$/;
+// Leading question words, except in contractions and negations such as "Can't" or "Should not"
+const QUESTION_WORD_PATTERN = /^(how|what|why|is|are|can|could|does|should)\b(?!\s*['’]t\b|\s+not\b)/i;
+
+const LARGE_SCOPE_LABEL_PATTERN = /\b(epic|rfc|proposal|breaking|umbrella|tracking)\b/i;
+const SMALL_SCOPE_LABEL_PATTERN = /\b(good first issue|easy|trivial|typo)\b/i;
+const LARGE_SCOPE_TITLE_PATTERN = /\b(rewrite|redesign|overhaul|rework|migrat(e|ion)|architecture|epic|rfc|roadmap|tracking issue)\b/i;
+const CHECKLIST_ITEM_PATTERN = /^\s*[-*]\s+\[[ xX]\]/gm;
+
+/**
+ * Read the triage rules from the environment
+ */
+export function getTriageRules(): TriageRules {
+  const unknownClasses = config.triageAllowedClasses.filter(name => !ISSUE_CLASSES.includes(name as IssueClass));
+  if (unknownClasses.length > 0) {
+    throw new Error(`Unknown TRIAGE_ALLOWED_CLASSES: ${unknownClasses.join(', ')}. Use any of ${ISSUE_CLASSES.join(', ')}`);
+  }
+
+  if (!ISSUE_SCOPES.includes(config.triageMaxScope as IssueScope)) {
+    throw new Error(`Unknown TRIAGE_MAX_SCOPE: ${config.triageMaxScope}. Use one of ${ISSUE_SCOPES.join(', ')}`);
+  }
+
+  return {
+    allowLabels: config.triageAllowLabels,
+    denyLabels: config.triageDenyLabels,
+    allowedClasses: config.triageAllowedClasses as IssueClass[],
+    maxScope: config.triageMaxScope as IssueScope
+  };
+}
+
+/**
+ * Decides whether an issue is actionable before any planning or cloning is done
+ */
+export class TriageService {
+  /**
+   * Classify an issue, estimate its scope and check that it is still worth resolving.
+   *
+   * Pull requests only get the state, lock and label checks; their review
+   * feedback is addressed whatever kind of change they make.
+   */
+  triage(issue: IssueInfo, rules: TriageRules = getTriageRules()): TriageResult {
+    const reasons: string[] = [];
+    const blockers: string[] = [];
+    const warnings: string[] = [];
+    
+    const classification = this.classify(issue, reasons);
+    const scope = this.estimateScope(issue, reasons);
+    
+    this.checkState(issue, blockers, warnings);
+    this.checkLabels(issue, rules, blockers);
+    
+    if (!issue.pullRequest) {
+      if (!rules.allowedClasses.includes(classification)) {
+        blockers.push(`Classified as ${classification}, which is not resolved automatically (allowed: ${rules.allowedClasses.join(', ') || 'none'})`);
+      }
+      if (ISSUE_SCOPES.indexOf(scope) > ISSUE_SCOPES.indexOf(rules.maxScope)) {
+        blockers.push(`Estimated scope is ${scope}, above the maximum of ${rules.maxScope}; consider splitting the issue`);
+      }
+    }
+    
+    const result: TriageResult = {
+      classification,
+      scope,
+      proceed: blockers.length === 0,
+      blockers,
+      warnings,
+      reasons
+    };
+    
+    logger.info('Triaged issue', {
+      url: issue.url,
+      classification,
+      scope,
+      proceed: result.proceed,
+      blockers
+    });
+    
+    return result;
+  }
+
+  /**
+   * Score each class by labels, title prefix, stack traces and keywords; bugs win ties
+   */
+  private classify(issue: IssueInfo, reasons: string[]): IssueClass {
+    const scores = new Map<IssueClass, number>(ISSUE_CLASSES.map(name => [name, 0]));
+    const signals = new Map<IssueClass, string[]>(ISSUE_CLASSES.map(name => [name, []]));
+    
+    const score = (name: IssueClass, weight: number, signal: string) => {
+      scores.set(name, scores.get(name)! + weight);
+      signals.get(name)!.push(signal);
+    };
+    
+    for (const label of issue.labels) {
+      const match = LABEL_CLASSES.find(([, pattern]) => pattern.test(label));
+      if (match) score(match[0], LABEL_WEIGHT, `label "${label}"`);
+    }
+    
+    const prefix = TITLE_PREFIX_CLASSES.find(([, pattern]) => pattern.test(issue.title.trim()));
+    if (prefix) score(prefix[0], TITLE_PREFIX_WEIGHT, 'title prefix');
+    
+    if (QUESTION_MARK_PATTERN.test(issue.title.trim())) {
+      score('question', QUESTION_MARK_WEIGHT, 'title asks a question');
+    } else if (QUESTION_WORD_PATTERN.test(issue.title.trim())) {
+      score('question', QUESTION_WORD_WEIGHT, 'title starts like a question');
+    }
+    
+    const text = `${issue.title}\n${issue.body}`;
+    if (extractStackTraces(issue.body).length > 0) {
+      score('bug', STACK_TRACE_WEIGHT, 'stack trace');
+    }
+    for (const [name, pattern] of KEYWORD_CLASSES) {
+      const match = text.match(pattern);
+      if (match) score(name, KEYWORD_WEIGHT, `mentions "${match[0].toLowerCase()}"`);
+    }
+    
+    const [classification, best] = [...scores.entries()].reduce((top, entry) => entry[1] > top[1] ? entry : top);
+    reasons.push(best > 0
+      ? `Classified as ${classification} from ${signals.get(classification)!.join(', ')}`
+      : 'No clear signals; classified as bug');
+    
+    return classification;
+  }
+
+  /**
+   * Estimate how much work an issue asks for from its labels, title, length and checklists
+   */
+  private estimateScope(issue: IssueInfo, reasons: string[]): IssueScope {
+    let points = 0;
+    const signals: string[] = [];
+    
+    const largeLabel = issue.labels.find(label => LARGE_SCOPE_LABEL_PATTERN.test(label));
+    if (largeLabel) {
+      points += 3;
+      signals.push(`label "${largeLabel}"`);
+    }
+    
+    const largeTitle = issue.title.match(LARGE_SCOPE_TITLE_PATTERN);
+    if (largeTitle) {
+      points += 2;
+      signals.push(`title mentions "${largeTitle[0].toLowerCase()}"`);
+    }
+    
+    const checklistItems = (issue.body.match(CHECKLIST_ITEM_PATTERN) || []).length;
+    if (checklistItems >= 3) {
+      points += checklistItems >= 6 ? 2 : 1;
+      signals.push(`${checklistItems} checklist items`);
+    }
+    
+    if (issue.body.length > 1500) {
+      points += issue.body.length > 4000 ? 2 : 1;
+      signals.push(`${issue.body.length} character description`);
+    }
+    
+    const outgoing = issue.referencedIssues.filter(reference => reference.direction === 'outgoing').length;
+    if (outgoing >= 5) {
+      points += 1;
+      signals.push(`links ${outgoing} other issues`);
+    }
+    
+    const smallLabel = issue.labels.find(label => SMALL_SCOPE_LABEL_PATTERN.test(label));
+    if (smallLabel) {
+      points -= 1;
+      signals.push(`label "${smallLabel}"`);
+    }
+    
+    const scope: IssueScope = points >= 3 ? 'large' : points >= 1 ? 'medium' : 'small';
+    reasons.push(signals.length > 0
+      ? `Estimated ${scope} scope from ${signals.join(', ')}`
+      : `Estimated ${scope} scope`);
+    
+    return scope;
+  }
+
+  /**
+   * Stop on closed, locked and duplicate issues and on work already under way in another pull request
+   */
+  private checkState(issue: IssueInfo, blockers: string[], warnings: string[]): void {
+    const kind = issue.pullRequest ? 'Pull request' : 'Issue';
+    
+    if (issue.pullRequest?.merged) {
+      blockers.push('Pull request is already merged');
+    } else if (issue.state !== 'open') {
+      blockers.push(`${kind} is ${issue.state}${issue.stateReason ? ` (${issue.stateReason.replace(/_/g, ' ')})` : ''}`);
+    }
+    
+    if (issue.locked) {
+      blockers.push(`${kind} conversation is locked`);
+    }
+    
+    // GitHub records duplicates as an event, GitLab as a system note
+    const duplicate = issue.timeline.some(event =>
+      event.event === 'marked_as_duplicate' || /marked this issue as a duplicate/i.test(event.details || '')
+    );
+    if (duplicate && issue.stateReason !== 'duplicate') {
+      blockers.push(`${kind} is marked as a duplicate`);
+    }
+    
+    if (issue.assignees.length > 0) {
+      warnings.push(`Assigned to ${issue.assignees.join(', ')}; someone may already be working on it`);
+    }
+    
+    if (issue.pullRequest) {
+      return;
+    }
+    
+    for (const pullRequest of issue.linkedPullRequests) {
+      const name = `${pullRequest.repository}#${pullRequest.number}`;
+      
+      if (pullRequest.state === 'open' && pullRequest.closesIssue) {
+        blockers.push(`Open pull request ${name} (${pullRequest.title}) already closes this issue`);
+      } else if (pullRequest.state === 'open') {
+        warnings.push(`Open pull request ${name} (${pullRequest.title}) references this issue`);
+      } else if (pullRequest.state === 'merged' && pullRequest.closesIssue) {
+        warnings.push(`Merged pull request ${name} was meant to close this issue; the fix may be incomplete`);
+      }
+    }
+  }
+
+  /**
+   * Apply the configured allow and deny labels
+   */
+  private checkLabels(issue: IssueInfo, rules: TriageRules, blockers: string[]): void {
+    const labels = issue.labels.map(label => label.toLowerCase());
+    
+    const denied = issue.labels.filter((_, index) => rules.denyLabels.includes(labels[index]));
+    if (denied.length > 0) {
+      blockers.push(`Labelled ${denied.map(label => `"${label}"`).join(', ')}, which triage denies`);
+    }
+    
+    if (rules.allowLabels.length > 0 && !labels.some(label => rules.allowLabels.includes(label))) {
+      blockers.push(`Has none of the allowed labels: ${rules.allowLabels.join(', ')}`);
+    }
+  }
+}
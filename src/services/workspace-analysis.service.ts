@@ -0,0 +1,128 @@
+import fs from 'fs-extra';
+import path from 'path';
+import simpleGit from 'simple-git';
+import logger from '../utils/logger';
+import { CodebaseAnalysis, CodebaseAnalysisService, TreeEntry } from './codebase-analysis.service';
+import { FileStructure } from './forge.service';
+
+// Files larger than this are never read for analysis
+const MAX_FILE_SIZE = 1024 * 1024;
+
+// Leading bytes checked for NUL characters to tell binary files apart
+const BINARY_SNIFF_LENGTH = 8000;
+
+export class WorkspaceAnalysisService {
+  private analysisService: CodebaseAnalysisService;
+
+  constructor() {
+    this.analysisService = new CodebaseAnalysisService();
+  }
+
+  /**
+   * Analyze a local clone without any API requests.
+   *
+   * Files are listed by git, so `.gitignore` (at any depth), `.git/info/exclude`
+   * and the global excludes file are respected; untracked files that are not
+   * ignored are included.
+   */
+  async analyze(workspacePath: string): Promise<CodebaseAnalysis> {
+    try {
+      logger.info('Analyzing workspace', { path: workspacePath });
+      
+      const entries = await this.listFiles(workspacePath);
+      const analysis = await this.analysisService.analyze(
+        entries,
+        file => this.getFileContent(workspacePath, file)
+      );
+      
+      const commitSha = await simpleGit(workspacePath).revparse(['HEAD']);
+      
+      return {
+        ...analysis,
+        commitSha: commitSha.trim()
+      };
+    } catch (error) {
+      logger.error('Failed to analyze workspace', { path: workspacePath, error });
+      return this.analysisService.emptyAnalysis(error);
+    }
+  }
+
+  /**
+   * Read a file of the analyzed workspace, caching its content on the file
+   */
+  async getFileContent(workspacePath: string, file: FileStructure): Promise<string | undefined> {
+    if (file.content !== undefined) {
+      return file.content;
+    }
+    
+    if (file.type !== 'file') {
+      return undefined;
+    }
+    
+    if (file.size !== undefined && file.size > MAX_FILE_SIZE) {
+      logger.debug('Skipping content of large file', { path: file.path, size: file.size });
+      return undefined;
+    }
+    
+    try {
+      const buffer = await fs.readFile(path.join(workspacePath, file.path));
+      
+      if (buffer.subarray(0, BINARY_SNIFF_LENGTH).includes(0)) {
+        return undefined;
+      }
+      
+      file.content = buffer.toString('utf-8');
+      return file.content;
+    } catch (error) {
+      logger.warn(`Failed to read file: ${file.path}`, { error });
+      return undefined;
+    }
+  }
+
+  /**
+   * List tracked and unignored untracked files as tree entries, with their directories
+   */
+  private async listFiles(workspacePath: string): Promise<TreeEntry[]> {
+    const output = await simpleGit(workspacePath).raw([
+      'ls-files',
+      '-z',
+      '--cached',
+      '--others',
+      '--exclude-standard'
+    ]);
+    
+    const entries: TreeEntry[] = [];
+    const directories = new Set<string>();
+    
+    // --cached and --others can list the same path when the index is out of date
+    for (const filePath of new Set(output.split('\0').filter(Boolean))) {
+      let stats: fs.Stats;
+      
+      try {
+        stats = await fs.lstat(path.join(workspacePath, filePath));
+      } catch (error) {
+        // Deleted from the working tree but still in the index
+        continue;
+      }
+      
+      // Skip symlinks and submodules, which git lists as directories
+      if (!stats.isFile()) {
+        continue;
+      }
+      
+      const parts = filePath.split('/');
+      for (let depth = 1; depth < parts.length; depth++) {
+        const directory = parts.slice(0, depth).join('/');
+        
+        if (!directories.has(directory)) {
+          directories.add(directory);
+          entries.push({ path: directory, type: 'tree' });
+        }
+      }
+      
+      entries.push({ path: filePath, type: 'blob', size: stats.size });
+    }
+    
+    return entries;
+  }
+}
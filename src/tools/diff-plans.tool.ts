@@ -0,0 +1,86 @@
+import { Tool } from '@modelcontextprotocol/typescript-sdk';
+import logger from '../utils/logger';
+import config from '../config';
+import { formatPlanDiff } from '../utils/plan-diff';
+import { formatTargetReference, parseResolveTarget } from '../utils/resolve-target';
+import { findPlanVersion, PlanStoreService } from '../services/plan-store.service';
+
+interface DiffPlansParams {
+  issue_url: string;
+  default_repository?: string;
+  from_version: number;
+  to_version?: number;
+}
+
+interface DiffPlansContext {
+  error: (message: string) => void;
+}
+
+/**
+ * MCP Tool for comparing two stored plan versions
+ */
+export const diffPlansTool: Tool = {
+  name: 'diff_plans',
+  description: 'Shows what changed between two stored resolution plan versions as a unified diff',
+  parameters: {
+    type: 'object',
+    properties: {
+      issue_url: {
+        type: 'string',
+        description: 'Issue or pull/merge request the plans are for: a URL, owner/repo#123, or #123 with a default repository'
+      },
+      default_repository: {
+        type: 'string',
+        description: 'Repository (owner/repo or URL) that references like #123 resolve against; defaults to DEFAULT_REPOSITORY'
+      },
+      from_version: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Plan version to compare from'
+      },
+      to_version: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Plan version to compare to; defaults to the latest'
+      }
+    },
+    required: ['issue_url', 'from_version']
+  },
+  execute: async (params: DiffPlansParams, context: DiffPlansContext) => {
+    const { issue_url } = params;
+    
+    try {
+      const target = parseResolveTarget(issue_url, params.default_repository || config.defaultRepository);
+      const record = await new PlanStoreService().find(target);
+      if (!record) {
+        throw new Error(`No plan is stored for ${formatTargetReference(target)}`);
+      }
+      
+      const from = findPlanVersion(record, params.from_version);
+      const to = findPlanVersion(record, params.to_version);
+      const missing = !from ? params.from_version : !to ? params.to_version : undefined;
+      if (!from || !to) {
+        throw new Error(`Plan version ${missing} is not stored for ${formatTargetReference(target)}; it has ${record.versions.length} version(s)`);
+      }
+      
+      const diff = formatPlanDiff(from.plan, to.plan);
+      
+      return {
+        success: true,
+        issue_url: record.url,
+        from_version: from.version,
+        to_version: to.version,
+        identical: !diff,
+        diff
+      };
+    } catch (error) {
+      logger.error('Error comparing plans', { issue_url, error });
+      context.error(`Error comparing plans: ${error instanceof Error ? error.message : String(error)}`);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+};
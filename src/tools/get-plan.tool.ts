@@ -0,0 +1,80 @@
+import { Tool } from '@modelcontextprotocol/typescript-sdk';
+import logger from '../utils/logger';
+import config from '../config';
+import { formatTargetReference, parseResolveTarget } from '../utils/resolve-target';
+import { findPlanVersion, PlanStoreService } from '../services/plan-store.service';
+
+interface GetPlanParams {
+  issue_url: string;
+  default_repository?: string;
+  version?: number;
+}
+
+interface GetPlanContext {
+  error: (message: string) => void;
+}
+
+/**
+ * MCP Tool for fetching a stored plan version and the plan's history
+ */
+export const getPlanTool: Tool = {
+  name: 'get_plan',
+  description: 'Fetches a stored resolution plan version with who created, modified and approved the plan and when',
+  parameters: {
+    type: 'object',
+    properties: {
+      issue_url: {
+        type: 'string',
+        description: 'Issue or pull/merge request the plan is for: a URL, owner/repo#123, or #123 with a default repository'
+      },
+      default_repository: {
+        type: 'string',
+        description: 'Repository (owner/repo or URL) that references like #123 resolve against; defaults to DEFAULT_REPOSITORY'
+      },
+      version: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Plan version to fetch; defaults to the latest'
+      }
+    },
+    required: ['issue_url']
+  },
+  execute: async (params: GetPlanParams, context: GetPlanContext) => {
+    const { issue_url } = params;
+    
+    try {
+      const target = parseResolveTarget(issue_url, params.default_repository || config.defaultRepository);
+      const record = await new PlanStoreService().find(target);
+      if (!record) {
+        throw new Error(`No plan is stored for ${formatTargetReference(target)}`);
+      }
+      
+      const stored = findPlanVersion(record, params.version);
+      if (!stored) {
+        throw new Error(`Plan version ${params.version} is not stored for ${formatTargetReference(target)}; it has ${record.versions.length} version(s)`);
+      }
+      
+      return {
+        success: true,
+        issue_url: record.url,
+        title: record.title,
+        version: stored.version,
+        created_at: stored.createdAt,
+        created_by: stored.createdBy,
+        modifications: stored.modifications,
+        approved_version: record.approvedVersion,
+        plan: stored.plan,
+        versions: record.versions.map(({ version, createdAt, createdBy }) => ({ version, created_at: createdAt, created_by: createdBy })),
+        history: record.history
+      };
+    } catch (error) {
+      logger.error('Error fetching plan', { issue_url, error });
+      context.error(`Error fetching plan: ${error instanceof Error ? error.message : String(error)}`);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+};
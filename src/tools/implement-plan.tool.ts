@@ -0,0 +1,161 @@
+import { Tool } from '@modelcontextprotocol/typescript-sdk';
+import logger from '../utils/logger';
+import config from '../config';
+import { formatTargetReference, parseResolveTarget } from '../utils/resolve-target';
+import { PlanStoreService } from '../services/plan-store.service';
+import { resolveGitHubIssueTool } from './resolve-github-issue.tool';
+
+interface ImplementPlanParams {
+  issue_url: string;
+  version?: number;
+  default_repository?: string;
+  github_token?: string;
+  development_path?: string;
+  base_branch?: string;
+  draft?: boolean;
+  labels?: string[];
+  assignees?: string[];
+  reviewers?: string[];
+  team_reviewers?: string[];
+  milestone?: string;
+  force?: boolean;
+  user?: string;
+  max_repair_iterations?: number;
+  repair_time_budget?: number;
+  install_command?: string | string[];
+  build_command?: string | string[];
+  test_command?: string | string[];
+}
+
+interface ImplementPlanContext {
+  progress: (data: { message: string }) => void;
+  requestUserInput: (data: any) => Promise<any>;
+  error: (message: string) => void;
+}
+
+/**
+ * MCP Tool for implementing a stored plan without planning again
+ */
+export const implementPlanTool: Tool = {
+  name: 'implement_plan',
+  description: 'Implements a previously approved resolution plan and opens a pull request, without planning again',
+  parameters: {
+    type: 'object',
+    properties: {
+      issue_url: {
+        type: 'string',
+        description: 'Issue or pull/merge request the plan is for: a URL, owner/repo#123, or #123 with a default repository'
+      },
+      version: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Plan version to implement; defaults to the latest approved version. A version that was never approved is shown for approval first'
+      },
+      default_repository: {
+        type: 'string',
+        description: 'Repository (owner/repo or URL) that references like #123 resolve against; defaults to DEFAULT_REPOSITORY'
+      },
+      github_token: {
+        type: 'string',
+        description: 'API token with appropriate permissions for the issue\'s host (GitHub, GitLab or Gitea)'
+      },
+      development_path: {
+        type: 'string',
+        description: 'Local path for development workspace'
+      },
+      base_branch: {
+        type: 'string',
+        description: 'Branch to base the fix on and open the pull request against'
+      },
+      draft: {
+        type: 'boolean',
+        description: 'Open the pull request as a draft'
+      },
+      labels: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Labels to add to the pull request'
+      },
+      assignees: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Usernames to assign to the pull request'
+      },
+      reviewers: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Usernames to request reviews from'
+      },
+      team_reviewers: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Team slugs to request reviews from (GitHub and Gitea)'
+      },
+      milestone: {
+        type: 'string',
+        description: 'Milestone title or number to set on the pull request'
+      },
+      force: {
+        type: 'boolean',
+        description: 'Implement the plan even when triage finds the issue is no longer actionable'
+      },
+      user: {
+        type: 'string',
+        description: 'Name recorded in the plan history as the implementer'
+      },
+      max_repair_iterations: {
+        type: 'integer',
+        minimum: 0,
+        description: 'How many times tests failing since the change are fed back to the coding agent (defaults to REPAIR_MAX_ITERATIONS)'
+      },
+      repair_time_budget: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Seconds after the first test run in which repair attempts may start (defaults to REPAIR_TIME_BUDGET)'
+      },
+      install_command: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Command that installs dependencies, for this run only; a string runs with sh -c, a list as is'
+      },
+      build_command: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Command run before every test run, for this run only; a string runs with sh -c, a list as is'
+      },
+      test_command: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Command that runs the tests, for this run only; a string runs with sh -c, a list as is'
+      }
+    },
+    required: ['issue_url']
+  },
+  execute: async (params: ImplementPlanParams, context: ImplementPlanContext) => {
+    const { issue_url, version, ...options } = params;
+    
+    try {
+      const target = parseResolveTarget(issue_url, params.default_repository || config.defaultRepository);
+      const record = await new PlanStoreService().find(target);
+      if (!record) {
+        throw new Error(`No plan is stored for ${formatTargetReference(target)}; create one with resolve_github_issue`);
+      }
+      
+      const planVersion = version ?? record.approvedVersion;
+      if (planVersion === undefined) {
+        throw new Error(`No plan version was approved for ${formatTargetReference(target)}; give the version to implement`);
+      }
+      
+      // The stored record names the issue unambiguously, even when the reference was shorthand
+      return await resolveGitHubIssueTool.execute({ ...options, issue_url: record.url, plan_version: planVersion }, context);
+    } catch (error) {
+      logger.error('Error implementing plan', { issue_url, error });
+      context.error(`Error implementing plan: ${error instanceof Error ? error.message : String(error)}`);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+};
@@ -0,0 +1,68 @@
+import { Tool } from '@modelcontextprotocol/typescript-sdk';
+import logger from '../utils/logger';
+import { parseRepositoryLocation } from '../utils/resolve-target';
+import { PlanStoreService } from '../services/plan-store.service';
+
+interface ListPlansParams {
+  repository?: string;
+}
+
+interface ListPlansContext {
+  error: (message: string) => void;
+}
+
+/**
+ * MCP Tool for listing the issues that have stored plans
+ */
+export const listPlansTool: Tool = {
+  name: 'list_plans',
+  description: 'Lists the issues and pull requests with stored resolution plans, their versions and which one was approved',
+  parameters: {
+    type: 'object',
+    properties: {
+      repository: {
+        type: 'string',
+        description: 'Only list plans for this repository (owner/repo or URL)'
+      }
+    }
+  },
+  execute: async (params: ListPlansParams, context: ListPlansContext) => {
+    try {
+      let repository: { serverUrl: string; owner: string; repo: string } | undefined;
+      
+      if (params.repository) {
+        const location = parseRepositoryLocation(params.repository);
+        if (!location.owner || !location.repo) {
+          throw new Error(`Not a repository: ${params.repository}. Use owner/repo or a repository URL`);
+        }
+        
+        repository = { serverUrl: location.serverUrl, owner: location.owner, repo: location.repo };
+      }
+      
+      const records = await new PlanStoreService().list(repository);
+      
+      return {
+        success: true,
+        plans: records.map(record => ({
+          issue_url: record.url,
+          repository: `${record.key.owner}/${record.key.repo}`,
+          number: record.key.number,
+          kind: record.key.kind,
+          title: record.title,
+          versions: record.versions.length,
+          approved_version: record.approvedVersion,
+          last_event: record.history[record.history.length - 1],
+          updated_at: record.updatedAt
+        }))
+      };
+    } catch (error) {
+      logger.error('Error listing plans', { repository: params.repository, error });
+      context.error(`Error listing plans: ${error instanceof Error ? error.message : String(error)}`);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+};
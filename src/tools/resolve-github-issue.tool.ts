@@ -1,14 +1,43 @@
 import { Tool } from '@modelcontextprotocol/typescript-sdk';
 import logger from '../utils/logger';
 import config from '../config';
-import { GitHubService } from '../services/github.service';
-import { PlannerService } from '../services/planner.service';
+import { resolveForgeHost } from '../utils/forge-hosts';
+import { summarizePlanScope, validatePlan } from '../utils/plan-schema';
+import { formatPlanDiff } from '../utils/plan-diff';
+import { formatErrorLocation } from '../utils/plan-prompt';
+import { getPlanTemplates } from '../utils/plan-templates';
+import { formatIssueUrl, formatTargetReference, parseResolveTarget } from '../utils/resolve-target';
+import { createForgeProvider, IssueInfo } from '../services/forge.service';
+import { PlannerService, ResolutionPlan } from '../services/planner.service';
+import { createModelProvider, getModelSettings } from '../services/model.service';
 import { ImplementationService } from '../services/implementation.service';
+import { PlanStoreService, toPlanKey } from '../services/plan-store.service';
+import { TriageResult, TriageService } from '../services/triage.service';
+import { WorkspaceAnalysisService } from '../services/workspace-analysis.service';
+
+// Reading the local clone costs no API quota, so search far more file contents than over the API
+const LOCAL_CONTENT_SEARCH_FILES = 5000;
 
 interface ResolveGitHubIssueParams {
   issue_url: string;
+  default_repository?: string;
   github_token?: string;
   development_path?: string;
+  base_branch?: string;
+  draft?: boolean;
+  labels?: string[];
+  assignees?: string[];
+  reviewers?: string[];
+  team_reviewers?: string[];
+  milestone?: string;
+  force?: boolean;
+  user?: string;
+  plan_version?: number;
+  max_repair_iterations?: number;
+  repair_time_budget?: number;
+  install_command?: string | string[];
+  build_command?: string | string[];
+  test_command?: string | string[];
 }
 
 interface ResolveGitHubIssueContext {
@@ -17,145 +46,456 @@ interface ResolveGitHubIssueContext {
   error: (message: string) => void;
 }
 
+/**
+ * Summarize discussion, linked pull requests and references for the approver
+ */
+function formatIssueContext(issueInfo: IssueInfo, commentAnchor?: string): string {
+  const lines = [
+    `- ${issueInfo.comments.length} comment(s), ${issueInfo.timeline.length} timeline event(s)`
+  ];
+
+  if (issueInfo.pullRequest) {
+    const { headOwner, headRepo, headBranch, baseBranch, draft, reviewComments } = issueInfo.pullRequest;
+    lines.push(`- Pull request${draft ? ' (draft)' : ''} from ${headOwner}/${headRepo}:${headBranch} into ${baseBranch}, ${reviewComments.length} review comment(s)`);
+  }
+
+  // The reference pointed at a specific comment, so surface it to the approver
+  const linkedComment = commentAnchor
+    ? [...issueInfo.comments, ...(issueInfo.pullRequest?.reviewComments || [])].find(comment => comment.url.endsWith(`#${commentAnchor}`))
+    : undefined;
+  if (linkedComment) {
+    lines.push(`- Requested from a comment by ${linkedComment.author}: ${linkedComment.body.split('\n')[0].substring(0, 200)}`);
+  }
+
+  for (const pr of issueInfo.linkedPullRequests) {
+    lines.push(`- Linked pull request ${pr.repository}#${pr.number} (${pr.state}${pr.draft ? ', draft' : ''}${pr.closesIssue ? ', closes this issue' : ''}): ${pr.title}`);
+  }
+
+  for (const ref of issueInfo.referencedIssues) {
+    const label = `${ref.owner}/${ref.repo}#${ref.issueNumber}`;
+    lines.push(ref.direction === 'incoming'
+      ? `- Referenced from ${label}${ref.title ? `: ${ref.title}` : ''}`
+      : `- Mentions ${label}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Summarize the triage outcome for the approver
+ */
+function formatTriage(triage: TriageResult): string {
+  return [
+    `- ${triage.classification}, ${triage.scope} scope`,
+    ...triage.reasons.map(reason => `- ${reason}`),
+    ...triage.warnings.map(warning => `- ⚠️ ${warning}`),
+    ...triage.blockers.map(blocker => `- Overridden: ${blocker}`)
+  ].join('\n');
+}
+
+/**
+ * List the files to modify with the reasons they were chosen
+ */
+function formatFilesToModify(plan: ResolutionPlan): string {
+  return plan.filesToModify
+    .map(file => {
+      const relevance = plan.relevantFiles.find(candidate => candidate.path === file);
+      return relevance && relevance.reasons.length > 0
+        ? `- ${file} (${relevance.reasons.join('; ')})`
+        : `- ${file}`;
+    })
+    .join('\n');
+}
+
+/**
+ * List the implementation steps with their files, estimates and acceptance checks
+ */
+function formatImplementationSteps(plan: ResolutionPlan): string {
+  return plan.implementationSteps
+    .map((step, i) => [
+      `${i+1}. ${step.description} (${step.changeType}, ${step.size}, ${step.risk} risk)`,
+      ...(step.targetFiles.length > 0 ? [`   Files: ${step.targetFiles.join(', ')}`] : []),
+      ...step.acceptanceChecks.map(check => `   - [ ] ${check}`)
+    ].join('\n'))
+    .join('\n');
+}
+
+/**
+ * Summarize how big and risky the plan is, so a one-line fix can be told from a refactor
+ */
+function formatPlanScope(plan: ResolutionPlan): string {
+  const scope = summarizePlanScope(plan);
+  return `**Scope:** ${scope.size} change, ${scope.risk} risk, ${plan.implementationSteps.length} step(s) touching ${scope.files} file(s)`;
+}
+
+/**
+ * Format the plan sections shown for approval
+ */
+function formatPlan(plan: ResolutionPlan): string {
+  return `## Problem Summary
+${plan.problemSummary}
+
+## Proposed Solution
+${plan.proposedSolution}
+
+${plan.targetProjects.length > 0 ? `## Target Projects
+${plan.targetProjects.map(project => `- ${project}`).join('\n')}
+
+` : ''}${plan.errorLocations.length > 0 ? `## Error Locations
+${plan.errorLocations.map(location => `- ${formatErrorLocation(location)}`).join('\n')}
+
+` : ''}## Files to Modify
+${formatFilesToModify(plan)}
+
+## Implementation Steps
+${formatPlanScope(plan)}
+
+${formatImplementationSteps(plan)}
+
+## Testing Strategy
+${plan.testingStrategy}
+
+## Success Criteria
+${plan.successCriteria}`;
+}
+
 /**
  * MCP Tool for resolving GitHub issues
  */
 export const resolveGitHubIssueTool: Tool = {
   name: 'resolve_github_issue',
-  description: 'Analyzes and resolves GitHub issues by following a structured workflow',
+  description: 'Analyzes and resolves GitHub, GitLab and Gitea issues by following a structured workflow',
   parameters: {
     type: 'object',
     properties: {
       issue_url: {
         type: 'string',
-        description: 'URL of the GitHub issue to resolve'
+        description: 'Issue or pull/merge request to resolve: a GitHub, GitLab or Gitea URL, owner/repo#123, group/project!45, or #123 with a default repository'
+      },
+      default_repository: {
+        type: 'string',
+        description: 'Repository (owner/repo or URL) that references like #123 resolve against; defaults to DEFAULT_REPOSITORY'
       },
       github_token: {
         type: 'string',
-        description: 'GitHub API token with appropriate permissions'
+        description: 'API token with appropriate permissions for the issue\'s host (GitHub, GitLab or Gitea)'
       },
       development_path: {
         type: 'string',
         description: 'Local path for development workspace'
+      },
+      base_branch: {
+        type: 'string',
+        description: 'Branch to base the fix on and open the pull request against (defaults to baseBranch in .github/issue-resolver.yml, then the repository\'s default branch)'
+      },
+      draft: {
+        type: 'boolean',
+        description: 'Open the pull request as a draft'
+      },
+      labels: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Labels to add to the pull request'
+      },
+      assignees: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Usernames to assign to the pull request'
+      },
+      reviewers: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Usernames to request reviews from'
+      },
+      team_reviewers: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Team slugs to request reviews from (GitHub and Gitea)'
+      },
+      milestone: {
+        type: 'string',
+        description: 'Milestone title or number to set on the pull request'
+      },
+      force: {
+        type: 'boolean',
+        description: 'Resolve the issue even when triage finds it is not actionable (closed, locked, denied label, too large, ...)'
+      },
+      user: {
+        type: 'string',
+        description: 'Name recorded in the plan history as the approver or modifier of plan versions'
+      },
+      plan_version: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Implement this stored plan version instead of planning again; an approved version is implemented without asking again'
+      },
+      max_repair_iterations: {
+        type: 'integer',
+        minimum: 0,
+        description: 'How many times tests failing since the change are fed back to the coding agent (defaults to REPAIR_MAX_ITERATIONS)'
+      },
+      repair_time_budget: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Seconds after the first test run in which repair attempts may start (defaults to REPAIR_TIME_BUDGET)'
+      },
+      install_command: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Command that installs dependencies, for this run only; a string runs with sh -c, a list as is'
+      },
+      build_command: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Command run before every test run, for this run only; a string runs with sh -c, a list as is'
+      },
+      test_command: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Command that runs the tests, for this run only; a string runs with sh -c, a list as is'
       }
     },
     required: ['issue_url']
   },
   execute: async (params: ResolveGitHubIssueParams, context: ResolveGitHubIssueContext) => {
     const { issue_url } = params;
-    const githubToken = params.github_token || config.githubToken;
     const developmentPath = params.development_path || config.developmentPath;
+    const actor = params.user || 'unknown';
     
     try {
+      // Accept URLs and shorthand references to issues and pull requests
+      const target = parseResolveTarget(issue_url, params.default_repository || config.defaultRepository);
+      
+      // Select the forge, API endpoint and token from the target's host
+      const forgeHost = resolveForgeHost(target.serverUrl, target.forge, params.github_token);
+      
       // Initialize services
-      const githubService = new GitHubService(githubToken);
-      const plannerService = new PlannerService();
+      const forge = createForgeProvider(forgeHost);
       const implementationService = new ImplementationService();
+      const planStore = new PlanStoreService();
+      const workspaceAnalysisService = new WorkspaceAnalysisService();
+      const analyzeLocally = config.codebaseAnalysis === 'local';
       
       // Step 1: Identify issue information
       context.progress({ message: 'Identifying issue information...' });
-      logger.info('Identifying issue information', { issue_url });
-      const issueInfo = await githubService.getIssueInfo(issue_url);
+      logger.info('Identifying issue information', { issue_url, target: formatTargetReference(target) });
+      
+      // Shorthand like owner/repo#12 may name a pull request on GitHub and Gitea
+      const isPullRequest = target.kindKnown
+        ? target.kind === 'pull_request'
+        : await forge.isPullRequest(target.owner, target.repo, target.number);
+      
+      // Pull requests are resolved by addressing their review feedback on the existing branch
+      const fetchedIssueInfo = isPullRequest
+        ? await forge.getPullRequestInfo(target.owner, target.repo, target.number, { analyzeCodebase: !analyzeLocally })
+        : await forge.getIssueInfo(formatIssueUrl(target), { analyzeCodebase: !analyzeLocally });
+      
+      // Plans are stored per issue, so a version can be approved now and implemented later
+      const planKey = toPlanKey(target, isPullRequest ? 'pull_request' : 'issue');
+      const planIssue = { url: fetchedIssueInfo.url, title: fetchedIssueInfo.title };
+      
+      const stored = params.plan_version !== undefined ? await planStore.getVersion(planKey, params.plan_version) : undefined;
+      const storedRecord = stored?.record;
+      const storedVersion = stored?.stored;
+      if (params.plan_version !== undefined && !storedVersion) {
+        throw new Error(`Plan version ${params.plan_version} is not stored for ${formatTargetReference(target)}`);
+      }
+      
+      // Stop on issues that should not be resolved before cloning or planning anything
+      context.progress({ message: 'Triaging issue...' });
+      const triage = new TriageService().triage(fetchedIssueInfo);
+      
+      if (!triage.proceed && !params.force) {
+        const explanation = `Not resolving ${formatTargetReference(target)}: ${triage.blockers.join('; ')}. Set force to resolve it anyway.`;
+        logger.info('Triage stopped issue resolution', { issue_url, blockers: triage.blockers });
+        context.progress({ message: explanation });
+        
+        return {
+          success: false,
+          stopped: true,
+          error: explanation,
+          triage
+        };
+      }
+      
+      for (const warning of triage.warnings) {
+        context.progress({ message: `Warning: ${warning}` });
+      }
+      
+      // Clone before planning so the codebase can be analyzed locally
+      context.progress({ message: 'Cloning repository...' });
+      logger.info('Preparing workspace');
+      
+      const workspace = await implementationService.prepareWorkspace(
+        fetchedIssueInfo,
+        developmentPath,
+        forge,
+        params.base_branch
+      );
+      
+      // Local analysis reads every file from the clone and costs no API requests
+      if (analyzeLocally) {
+        context.progress({ message: 'Analyzing codebase...' });
+      }
+      
+      const issueInfo: IssueInfo = analyzeLocally
+        ? { ...fetchedIssueInfo, codebaseAnalysis: await workspaceAnalysisService.analyze(workspace.workspacePath) }
+        : fetchedIssueInfo;
       
-      // Step 2: Create resolution plan
-      context.progress({ message: 'Creating resolution plan...' });
-      logger.info('Creating resolution plan');
-      const plan = await plannerService.createResolutionPlan(issueInfo);
+      // Make partial analyses visible instead of planning against an empty repo
+      const analysisWarning: string | undefined = issueInfo.codebaseAnalysis.incomplete;
+      if (analysisWarning) {
+        logger.warn('Codebase analysis incomplete', { reason: analysisWarning });
+        context.progress({ message: `Warning: ${analysisWarning}` });
+      }
+      
+      // File contents are only read or fetched when the planner asks for them;
+      // without a configured model the planner uses keyword heuristics
+      const modelSettings = getModelSettings();
+      const plannerService = new PlannerService(
+        file => analyzeLocally
+          ? workspaceAnalysisService.getFileContent(workspace.workspacePath, file)
+          : forge.getFileContent(issueInfo.owner, issueInfo.repo, file),
+        modelSettings && createModelProvider(modelSettings),
+        {
+          maxContentSearchFiles: analyzeLocally ? LOCAL_CONTENT_SEARCH_FILES : undefined,
+          planTemplates: getPlanTemplates(workspace.repoConfig.planTemplates)
+        }
+      );
+      
+      // Step 2: Create resolution plan, or take the requested stored version
+      let plan: ResolutionPlan;
+      let version: number;
       
-      // Step 3: Get user approval
-      context.progress({ message: 'Waiting for user approval...' });
-      logger.info('Requesting user approval for plan');
+      if (storedVersion) {
+        context.progress({ message: `Loading plan version ${storedVersion.version}...` });
+        logger.info('Using stored plan', { version: storedVersion.version });
+        plan = storedVersion.plan;
+        version = storedVersion.version;
+      } else {
+        context.progress({ message: 'Creating resolution plan...' });
+        logger.info('Creating resolution plan');
+        plan = await plannerService.createResolutionPlan(issueInfo, triage.classification);
+        
+        const planner = modelSettings ? `planner (${modelSettings.provider}/${modelSettings.model})` : 'planner (heuristics)';
+        version = await planStore.addVersion(planKey, planIssue, plan, planner);
+      }
+      
+      // Step 3: Get user approval, unless the stored version was approved before
+      const approval = storedRecord?.history.find(event => event.action === 'approved' && event.version === version);
       
       // Format the plan for display
-      const formattedPlan = `
-# Issue Resolution Plan
-
-## Problem Summary
-${plan.problemSummary}
-
-## Proposed Solution
-${plan.proposedSolution}
-
-## Files to Modify
-${plan.filesToModify.map(file => `- ${file}`).join('\n')}
+      let message = `
+# Issue Resolution Plan${version > 1 ? ` (version ${version})` : ''}
+${analysisWarning ? `\n> ⚠️ ${analysisWarning}\n` : ''}
+## Issue Context
+${formatIssueContext(issueInfo, target.commentAnchor)}${workspace.repoConfig.path ? `\n- Repository configuration: ${workspace.repoConfig.path}` : ''}
 
-## Implementation Steps
-${plan.implementationSteps.map((step, i) => `${i+1}. ${step}`).join('\n')}
+## Triage
+${formatTriage(triage)}
 
-## Testing Strategy
-${plan.testingStrategy}
-
-## Success Criteria
-${plan.successCriteria}
+${formatPlan(plan)}
       `;
       
-      // Request user approval
-      const response = await context.requestUserInput({
-        type: 'approval',
-        message: formattedPlan,
-        options: ['Approve', 'Modify', 'Reject']
-      });
-      
+      // Revise the plan until the user approves or rejects it
       let approvedPlan = plan;
       
-      if (response === 'Approve') {
-        logger.info('Plan approved by user');
-      } else if (response === 'Modify') {
-        // Get modifications from user
-        logger.info('User requested modifications to plan');
+      if (approval) {
+        context.progress({ message: `Plan version ${version} was approved by ${approval.actor} at ${approval.at}` });
+      } else {
+        context.progress({ message: 'Waiting for user approval...' });
+        logger.info('Requesting user approval for plan', { version });
+      }
+      
+      while (!approval) {
+        const response = await context.requestUserInput({
+          type: 'approval',
+          message,
+          options: ['Approve', 'Modify', 'Reject']
+        });
+        
+        if (response === 'Approve') {
+          logger.info('Plan approved by user', { version });
+          await planStore.recordEvent(planKey, 'approved', version, actor);
+          break;
+        }
+        
+        if (response !== 'Modify') {
+          await planStore.recordEvent(planKey, 'rejected', version, actor);
+          throw new Error(version > 1 ? `Plan version ${version} rejected by user` : 'Plan rejected by user');
+        }
+        
+        logger.info('User requested modifications to plan', { version });
         
         const modifications = await context.requestUserInput({
           type: 'text',
-          message: 'Please provide modifications to the plan:',
+          message: 'Describe the changes to the plan, or give a JSON patch such as ' +
+            '[{"op": "replace", "path": "/testingStrategy", "value": "..."}]:'
         });
         
-        // Update plan with user modifications
-        approvedPlan = await plannerService.updatePlanWithModifications(plan, modifications);
-        
-        // Get approval for the updated plan
-        const updatedResponse = await context.requestUserInput({
-          type: 'approval',
-          message: `
-# Updated Issue Resolution Plan
-
-## Problem Summary
-${approvedPlan.problemSummary}
+        let revisedPlan: ResolutionPlan;
+        try {
+          revisedPlan = await plannerService.updatePlanWithModifications(
+            approvedPlan,
+            modifications,
+            issueInfo.codebaseAnalysis.subProjects
+          );
+        } catch (error) {
+          // Let the user correct the feedback instead of failing the whole run
+          message = `
+# Issue Resolution Plan (version ${version})
 
-## Proposed Solution
-${approvedPlan.proposedSolution}
+> ⚠️ The modifications could not be applied: ${error instanceof Error ? error.message : String(error)}
 
-## Files to Modify
-${approvedPlan.filesToModify.map(file => `- ${file}`).join('\n')}
-
-## Implementation Steps
-${approvedPlan.implementationSteps.map((step, i) => `${i+1}. ${step}`).join('\n')}
+${formatPlan(approvedPlan)}
+          `;
+          continue;
+        }
+        
+        const diff = formatPlanDiff(approvedPlan, revisedPlan);
+        if (!diff) {
+          message = `
+# Issue Resolution Plan (version ${version})
 
-## Testing Strategy
-${approvedPlan.testingStrategy}
+> The modifications did not change the plan.
 
-## Success Criteria
-${approvedPlan.successCriteria}
-          `,
-          options: ['Approve', 'Reject']
-        });
-        
-        if (updatedResponse !== 'Approve') {
-          throw new Error('Updated plan rejected by user');
+${formatPlan(approvedPlan)}
+          `;
+          continue;
         }
         
-        logger.info('Updated plan approved by user');
-      } else {
-        throw new Error('Plan rejected by user');
+        const previousVersion = version;
+        version = await planStore.addVersion(planKey, planIssue, revisedPlan, actor, modifications);
+        message = `
+# Updated Issue Resolution Plan (version ${version})
+
+## Changes from version ${previousVersion}
+\`\`\`diff
+${diff}
+\`\`\`
+
+${formatPlan(revisedPlan)}
+        `;
+        approvedPlan = revisedPlan;
       }
       
+      // Nothing is built or pushed from a plan that breaks the published schema
+      validatePlan(approvedPlan);
+      
       // Step 4: Initialize development environment
       context.progress({ message: 'Setting up development environment...' });
       logger.info('Setting up development environment');
       
       const devEnv = await implementationService.setupDevEnvironment(
         issueInfo,
-        developmentPath,
-        githubToken
+        workspace,
+        forge,
+        approvedPlan,
+        {
+          install: params.install_command,
+          build: params.build_command,
+          test: params.test_command
+        }
       );
       
       // Step 5: Implement solution
@@ -166,15 +506,54 @@ ${approvedPlan.successCriteria}
         devEnv,
         approvedPlan,
         issueInfo,
-        githubToken,
-        context
+        forge,
+        context,
+        {
+          draft: params.draft,
+          labels: params.labels,
+          assignees: params.assignees,
+          reviewers: params.reviewers,
+          teamReviewers: params.team_reviewers,
+          milestone: params.milestone
+        },
+        {
+          maxIterations: params.max_repair_iterations,
+          timeBudgetSeconds: params.repair_time_budget
+        }
       );
       
+      if (result.testReport.newFailures.length > 0) {
+        context.progress({ message: `Warning: tests failing since the change: ${result.testReport.newFailures.join(', ')}` });
+      }
+      
+      if (result.testReport.removedTests.length > 0) {
+        context.progress({ message: `Warning: tests that no longer run since the change: ${result.testReport.removedTests.join(', ')}` });
+      }
+      
+      for (const warning of result.pullRequestWarnings) {
+        context.progress({ message: `Warning: ${warning}` });
+      }
+      
+      if (result.revertedProtectedPaths.length > 0) {
+        context.progress({ message: `Warning: changes to protected paths were undone: ${result.revertedProtectedPaths.join(', ')}` });
+      }
+      
+      await planStore.recordEvent(planKey, 'implemented', version, actor, result.pullRequestUrl);
+      
       // Add a comment to the original issue
       context.progress({ message: 'Adding comment to issue...' });
       logger.info('Adding comment to original issue');
       
-      const commentBody = `
+      const commentBody = issueInfo.pullRequest ? `
+Hello! 👋
+
+I've pushed changes to this pull request to address the review feedback.
+
+## Changes
+${approvedPlan.implementationSteps.map(step => `- ${step.description}`).join('\n')}
+
+Please review the new commits and let me know if you need any adjustments.
+      ` : `
 Hello! 👋
 
 I've created a pull request to resolve this issue: ${result.pullRequestUrl}
@@ -190,12 +569,9 @@ ${approvedPlan.proposedSolution}
 Please review the pull request and let me know if you need any adjustments.
       `;
       
-      const comment = await githubService.commentOnIssue(
-        issueInfo.owner,
-        issueInfo.repo,
-        issueInfo.issueNumber,
-        commentBody
-      );
+      const comment = issueInfo.pullRequest
+        ? await forge.commentOnPullRequest(issueInfo.owner, issueInfo.repo, issueInfo.issueNumber, commentBody)
+        : await forge.commentOnIssue(issueInfo.owner, issueInfo.repo, issueInfo.issueNumber, commentBody);
       
       // Return success result
       logger.info('Issue resolution completed successfully', {
@@ -209,10 +585,24 @@ Please review the pull request and let me know if you need any adjustments.
           owner: issueInfo.owner,
           repo: issueInfo.repo,
           issue_number: issueInfo.issueNumber,
-          title: issueInfo.title
+          kind: issueInfo.pullRequest ? 'pull_request' : 'issue',
+          title: issueInfo.title,
+          comment_count: issueInfo.comments.length,
+          linked_pull_requests: issueInfo.linkedPullRequests,
+          referenced_issues: issueInfo.referencedIssues
         },
+        triage,
         plan: approvedPlan,
+        plan_version: version,
+        analysis_incomplete: analysisWarning,
+        step_results: result.stepResults,
+        test_results: result.testReport,
+        repair_attempts: result.repairAttempts,
+        test_failures_accepted: result.failuresAccepted || undefined,
+        review: result.review.rejected.length > 0 || result.review.revisions.length > 0 ? result.review : undefined,
         pull_request_url: result.pullRequestUrl,
+        pull_request_warnings: result.pullRequestWarnings.length > 0 ? result.pullRequestWarnings : undefined,
+        reverted_protected_paths: result.revertedProtectedPaths.length > 0 ? result.revertedProtectedPaths : undefined,
         comment_url: comment.url
       };
     } catch (error) {
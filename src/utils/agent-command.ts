@@ -0,0 +1,78 @@
+import type { AgentEnvironment, AgentOutput, AgentStepRequest } from '../services/coding-agent.service';
+import type { ContainerExecutionResult } from '../services/docker.service';
+
+// Lines of the agent's output kept as the step summary
+const SUMMARY_LINES = 20;
+
+// Lines of the agent's output reported as errors of a failed step
+const MAX_ERROR_LINES = 5;
+
+const ERROR_LINE_PATTERN = /\b(error|exception|traceback|fatal)\b/i;
+
+// Terminal colors and cursor movement in agent output
+const ANSI_ESCAPE_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+// Exit codes for a command that cannot be executed or is not found
+const COMMAND_NOT_FOUND_CODES = [126, 127];
+
+/**
+ * Turn what an agent command printed into a step outcome: the tail of the
+ * output as the summary and, when it failed, the exit code and error lines
+ */
+export function toAgentOutput(agent: string, result: ContainerExecutionResult): AgentOutput {
+  const lines = `${result.stdout}\n${result.stderr}`
+    .replace(ANSI_ESCAPE_PATTERN, '')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(Boolean);
+  const summary = lines.slice(-SUMMARY_LINES).join('\n');
+
+  if (result.exitCode === 0) {
+    return { success: true, summary, errors: [] };
+  }
+
+  return {
+    success: false,
+    summary,
+    errors: [
+      `${agent} exited with code ${result.exitCode}`,
+      ...lines.filter(line => ERROR_LINE_PATTERN.test(line)).slice(-MAX_ERROR_LINES)
+    ]
+  };
+}
+
+/**
+ * Fail early, with a hint, when an agent's executable is missing from the development container
+ */
+export async function requireCommand(environment: AgentEnvironment, command: string[], agent: string): Promise<void> {
+  const result = await environment.exec(command);
+
+  if (COMMAND_NOT_FOUND_CODES.includes(result.exitCode)) {
+    throw new Error(
+      `${agent} is not installed in the development container. ` +
+      'Use an image that provides it (image in .github/issue-resolver.yml) or choose another CODING_AGENT'
+    );
+  }
+}
+
+/**
+ * Fill the placeholders in a command's arguments.
+ *
+ * `{prompt}`, `{description}`, `{issue}`, `{step}` and `{workspace}` are replaced
+ * wherever they appear; an argument that is exactly `{files}` becomes one
+ * argument per target file, and elsewhere `{files}` is a space-separated list.
+ */
+export function expandCommandTemplate(template: string[], request: AgentStepRequest, workspacePath: string): string[] {
+  const values: Record<string, string> = {
+    prompt: request.prompt,
+    description: request.description,
+    issue: String(request.issueNumber),
+    step: String(request.stepNumber),
+    workspace: workspacePath,
+    files: request.targetFiles.join(' ')
+  };
+
+  return template.flatMap(arg => arg === '{files}'
+    ? request.targetFiles
+    : [arg.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder)]);
+}
@@ -0,0 +1,85 @@
+export interface CachedResponse<T> {
+  etag?: string;
+  data: T;
+}
+
+/**
+ * In-memory cache for GitHub API data, shared across tool invocations.
+ *
+ * Mutable resources (refs, issues) are stored with their ETag so they can be
+ * revalidated with conditional requests; immutable git objects (trees, blobs)
+ * are stored by SHA and never need to be fetched twice.
+ */
+export class GitHubCache {
+  private responses = new Map<string, CachedResponse<unknown>>();
+  private objects = new Map<string, unknown>();
+
+  constructor(private maxEntries: number = 2000) {}
+
+  /**
+   * Get a cached response for a conditional request
+   */
+  getResponse<T>(key: string): CachedResponse<T> | undefined {
+    return this.touch(this.responses, key) as CachedResponse<T> | undefined;
+  }
+
+  /**
+   * Store a response together with its ETag
+   */
+  setResponse<T>(key: string, response: CachedResponse<T>): void {
+    this.store(this.responses, key, response);
+  }
+
+  /**
+   * Get an immutable object by its SHA-derived key
+   */
+  getObject<T>(key: string): T | undefined {
+    return this.touch(this.objects, key) as T | undefined;
+  }
+
+  /**
+   * Store an immutable object by its SHA-derived key
+   */
+  setObject<T>(key: string, value: T): void {
+    this.store(this.objects, key, value);
+  }
+
+  /**
+   * Remove all cached entries
+   */
+  clear(): void {
+    this.responses.clear();
+    this.objects.clear();
+  }
+
+  /**
+   * Read an entry and mark it as most recently used
+   */
+  private touch(map: Map<string, unknown>, key: string): unknown {
+    if (!map.has(key)) {
+      return undefined;
+    }
+
+    const value = map.get(key);
+    map.delete(key);
+    map.set(key, value);
+    return value;
+  }
+
+  /**
+   * Write an entry, evicting the least recently used ones when full
+   */
+  private store(map: Map<string, unknown>, key: string, value: unknown): void {
+    map.delete(key);
+    map.set(key, value);
+
+    while (map.size > this.maxEntries) {
+      const oldestKey = map.keys().next().value as string;
+      map.delete(oldestKey);
+    }
+  }
+}
+
+const cache = new GitHubCache();
+
+export default cache;
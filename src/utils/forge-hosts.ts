@@ -0,0 +1,117 @@
+import config from '../config';
+import { GitHubAppCredentials } from '../services/github-app.service';
+
+export type ForgeType = 'github' | 'gitlab' | 'gitea';
+
+export const DEFAULT_GITHUB_SERVER_URL = 'https://github.com';
+
+// The only host each default token (GITHUB_TOKEN, GITLAB_TOKEN, GITEA_TOKEN) is sent to;
+// other hosts need their own token
+const PUBLIC_HOSTS: Record<ForgeType, string> = {
+  github: 'github.com',
+  gitlab: 'gitlab.com',
+  gitea: 'gitea.com'
+};
+
+export interface ForgeHost {
+  type: ForgeType;
+  hostname: string;
+  serverUrl: string;
+  apiUrl: string;
+  token: string;
+  githubApp?: GitHubAppCredentials;
+}
+
+/**
+ * Normalize the origin of a forge web URL, e.g. https://www.github.com -> https://github.com
+ */
+export function normalizeServerUrl(url: URL): string {
+  const hostname = url.hostname.toLowerCase();
+  
+  if (hostname === 'github.com' || hostname === 'www.github.com') {
+    return DEFAULT_GITHUB_SERVER_URL;
+  }
+  
+  return `${url.protocol}//${url.host.toLowerCase()}`;
+}
+
+/**
+ * Determine which forge serves a URL from configuration, well-known hosts and URL shape
+ */
+export function detectForgeType(url: URL): ForgeType {
+  const hostname = url.hostname.toLowerCase();
+  const configured = config.forgeHosts[hostname];
+  
+  if (configured === 'github' || configured === 'gitlab' || configured === 'gitea') {
+    return configured;
+  }
+  
+  if (hostname === 'gitlab.com' || url.pathname.includes('/-/')) {
+    return 'gitlab';
+  }
+  
+  if (hostname === 'gitea.com' || hostname === 'codeberg.org') {
+    return 'gitea';
+  }
+  
+  // Unknown hosts are assumed to be GitHub Enterprise Server
+  return 'github';
+}
+
+/**
+ * Resolve the API endpoint and credentials for a forge host
+ */
+export function resolveForgeHost(serverUrl: string, type: ForgeType, tokenOverride?: string): ForgeHost {
+  const origin = normalizeServerUrl(new URL(serverUrl));
+  const hostname = new URL(origin).hostname;
+  
+  const isPublicHost = hostname === PUBLIC_HOSTS[type];
+  let defaultApiUrl: string;
+  let defaultToken: string;
+  
+  switch (type) {
+    case 'gitlab':
+      defaultApiUrl = `${origin}/api/v4`;
+      defaultToken = isPublicHost ? config.gitlabToken : '';
+      break;
+    case 'gitea':
+      defaultApiUrl = `${origin}/api/v1`;
+      defaultToken = isPublicHost ? config.giteaToken : '';
+      break;
+    case 'github':
+    default:
+      // GitHub Enterprise Server serves its REST API under /api/v3 on the same host
+      defaultApiUrl = isPublicHost ? 'https://api.github.com' : `${origin}/api/v3`;
+      defaultToken = isPublicHost ? config.githubToken : '';
+      break;
+  }
+  
+  const apiUrl = config.hostApiUrls[hostname] || defaultApiUrl;
+  const token = tokenOverride || config.hostTokens[hostname] || defaultToken;
+  
+  // An explicit token wins; otherwise act as the configured GitHub App on its host
+  const useGitHubApp = type === 'github' &&
+    !tokenOverride &&
+    hostname === config.githubAppHost &&
+    Boolean(config.githubAppId && config.githubAppPrivateKey);
+  
+  // Any host can be named in an issue URL, so a default token must never reach one it was not meant for
+  if (!token && !useGitHubApp && !isPublicHost) {
+    throw new Error(`No token is configured for ${hostname}; add one to FORGE_HOST_TOKENS or pass github_token`);
+  }
+  
+  return {
+    type,
+    hostname,
+    serverUrl: origin,
+    apiUrl: apiUrl.replace(/\/+$/, ''),
+    token,
+    githubApp: useGitHubApp
+      ? {
+        appId: config.githubAppId,
+        privateKey: config.githubAppPrivateKey,
+        installationId: config.githubAppInstallationId
+      }
+      : undefined
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Convert a glob such as `packages/*` or `apps/**` to an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .split(/(\*\*\/?|\*)/)
+    .map(part => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a repository path matches any of the globs, itself or through
+ * one of its directories, so `docs` and `docs/**` both cover `docs/a/b.md`
+ */
+export function matchesPathPattern(filePath: string, patterns: string[]): boolean {
+  const expressions = patterns.map(globToRegExp);
+  const segments = filePath.replace(/^\.\//, '').split('/');
+
+  return segments.some((_, index) => {
+    const prefix = segments.slice(0, index + 1).join('/');
+    return expressions.some(expression => expression.test(prefix));
+  });
+}
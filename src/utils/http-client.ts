@@ -0,0 +1,120 @@
+import config from '../config';
+import { RateLimitedRequester } from './rate-limit';
+
+export interface HttpResponse<T> {
+  status: number;
+  headers: Headers;
+  data: T;
+}
+
+export interface HttpRequestOptions {
+  method?: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+  raw?: boolean;
+  // Abandon the request after this long; defaults to REQUEST_TIMEOUT
+  timeoutMs?: number;
+}
+
+/**
+ * Error raised for non-2xx responses, carrying the HTTP status like Octokit's RequestError
+ */
+export class HttpError extends Error {
+  constructor(message: string, public status: number, public headers: Headers) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Minimal JSON REST client used for forges without a dedicated SDK
+ */
+export class HttpClient {
+  constructor(
+    private baseUrl: string,
+    private headers: Record<string, string> = {},
+    private requester: RateLimitedRequester = new RateLimitedRequester()
+  ) {}
+
+  /**
+   * Send a request relative to the base URL and decode the JSON (or raw text) response
+   */
+  async request<T>(path: string, options: HttpRequestOptions = {}): Promise<HttpResponse<T>> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    
+    return this.requester.execute(() => this.send<T>(url, options), options.method);
+  }
+
+  /**
+   * Perform a single HTTP request
+   */
+  private async send<T>(url: URL, options: HttpRequestOptions): Promise<HttpResponse<T>> {
+    const timeoutMs = options.timeoutMs ?? config.requestTimeoutSeconds * 1000;
+    
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: options.method || 'GET',
+        headers: {
+          Accept: 'application/json',
+          ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...this.headers
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      // Like a network error, a timeout has no status, so idempotent requests are retried
+      if ((error as { name?: string } | undefined)?.name === 'TimeoutError') {
+        throw new Error(`${options.method || 'GET'} ${url.pathname} timed out after ${timeoutMs / 1000} seconds`);
+      }
+      throw error;
+    }
+    
+    if (!response.ok) {
+      const text = await response.text();
+      throw new HttpError(
+        `${options.method || 'GET'} ${url.pathname} failed with status ${response.status}: ${text.substring(0, 200)}`,
+        response.status,
+        response.headers
+      );
+    }
+    
+    const data = options.raw ? await response.text() : await response.json();
+    
+    return {
+      status: response.status,
+      headers: response.headers,
+      data: data as T
+    };
+  }
+
+  /**
+   * Fetch every page of a page-numbered list endpoint
+   */
+  async paginate<T>(
+    path: string,
+    query: Record<string, string | number | boolean | undefined> = {},
+    perPage: number = 100
+  ): Promise<T[]> {
+    const items: T[] = [];
+    
+    for (let page = 1; ; page++) {
+      const { data } = await this.request<T[]>(path, {
+        query: { ...query, page, per_page: perPage, limit: perPage }
+      });
+      
+      items.push(...data);
+      
+      if (data.length < perPage) {
+        return items;
+      }
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { ReferencedIssue } from '../services/forge.service';
+
+export interface IssueMention {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+}
+
+// Matches #12, owner/repo#12 and GitLab-style group/project#12
+const SHORT_REFERENCE_PATTERN = /(?:^|[\s(\[])((?:[\w.-]+\/)+[\w.-]+)?#(\d+)\b/g;
+
+// Matches issue and pull request URLs on GitHub, GitLab and Gitea
+const URL_REFERENCE_PATTERN = /https?:\/\/[^\s/]+\/((?:[\w.-]+\/)+?[\w.-]+)\/(?:-\/)?(?:issues|pull|pulls|merge_requests)\/(\d+)/g;
+
+const CLOSING_KEYWORDS = '(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)';
+
+/**
+ * Find issue references in free text, resolving bare #N against the current repository
+ */
+export function findIssueMentions(text: string, owner: string, repo: string): IssueMention[] {
+  const mentions = new Map<string, IssueMention>();
+  
+  const add = (path: string | undefined, issueNumber: number) => {
+    const separator = path ? path.lastIndexOf('/') : -1;
+    const mention = path && separator !== -1
+      ? { owner: path.substring(0, separator), repo: path.substring(separator + 1), issueNumber }
+      : { owner, repo, issueNumber };
+    
+    mentions.set(`${mention.owner}/${mention.repo}#${mention.issueNumber}`.toLowerCase(), mention);
+  };
+  
+  for (const match of text.matchAll(SHORT_REFERENCE_PATTERN)) {
+    add(match[1], parseInt(match[2], 10));
+  }
+  
+  for (const match of text.matchAll(URL_REFERENCE_PATTERN)) {
+    add(match[1], parseInt(match[2], 10));
+  }
+  
+  return Array.from(mentions.values());
+}
+
+/**
+ * Check whether text (e.g. a pull request body) uses a closing keyword for an issue
+ */
+export function closesIssue(text: string, issueNumber: number): boolean {
+  const pattern = new RegExp(`\\b${CLOSING_KEYWORDS}:?\\s+(?:[\\w.-]+\\/[\\w.-]+)?#${issueNumber}\\b`, 'i');
+  return pattern.test(text);
+}
+
+/**
+ * Build outgoing references from issue text, skipping the issue itself and already known items
+ */
+export function findOutgoingReferences(
+  text: string,
+  current: IssueMention,
+  known: { owner: string; repo: string; issueNumber: number }[]
+): ReferencedIssue[] {
+  const key = (mention: IssueMention) => `${mention.owner}/${mention.repo}#${mention.issueNumber}`.toLowerCase();
+  const skip = new Set([current, ...known].map(key));
+  
+  return findIssueMentions(text, current.owner, current.repo)
+    .filter(mention => !skip.has(key(mention)))
+    .map(mention => ({ ...mention, direction: 'outgoing' as const }));
+}
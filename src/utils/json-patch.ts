@@ -0,0 +1,230 @@
+/**
+ * A JSON Patch (RFC 6902) operation
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+const OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+/**
+ * Raised for malformed patches and operations that cannot be applied
+ */
+export class JsonPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+/**
+ * Read a JSON Patch from text, optionally wrapped in a code fence.
+ *
+ * Returns undefined when the text is not JSON shaped like a patch, so callers
+ * can treat it as prose; throws when it is a patch with invalid operations.
+ */
+export function parseJsonPatch(text: string): JsonPatchOperation[] | undefined {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)```$/);
+  const json = (fenced ? fenced[1] : text).trim();
+
+  if (!json.startsWith('[') && !json.startsWith('{')) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+
+  // A lone operation is accepted in place of a one-element array
+  const operations = Array.isArray(parsed) ? parsed : [parsed];
+  if (operations.length === 0 || !operations.every(operation => operation && typeof operation === 'object' && 'op' in operation)) {
+    return undefined;
+  }
+
+  operations.forEach((operation, index) => {
+    if (!OPERATIONS.includes(operation.op)) {
+      throw new JsonPatchError(`Operation ${index + 1} has unknown op "${operation.op}"; use one of ${OPERATIONS.join(', ')}`);
+    }
+    if (typeof operation.path !== 'string') {
+      throw new JsonPatchError(`Operation ${index + 1} (${operation.op}) needs a "path"`);
+    }
+    if ((operation.op === 'move' || operation.op === 'copy') && typeof operation.from !== 'string') {
+      throw new JsonPatchError(`Operation ${index + 1} (${operation.op}) needs a "from" path`);
+    }
+    if ((operation.op === 'add' || operation.op === 'replace' || operation.op === 'test') && !('value' in operation)) {
+      throw new JsonPatchError(`Operation ${index + 1} (${operation.op}) needs a "value"`);
+    }
+  });
+
+  return operations as JsonPatchOperation[];
+}
+
+/**
+ * Apply a JSON Patch to a copy of a document; the original is left untouched.
+ * Operations are applied in order and the whole patch fails if any one does.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  let result: unknown = clone(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new JsonPatchError(`Operation ${index + 1} (${operation.op} ${operation.path}) failed: ${message}`);
+    }
+  });
+
+  return result as T;
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  switch (operation.op) {
+    case 'add':
+      return add(document, operation.path, clone(operation.value));
+    case 'remove':
+      return remove(document, operation.path);
+    case 'replace':
+      return replace(document, operation.path, clone(operation.value));
+    case 'move': {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error('cannot move a value into itself');
+      }
+      const value = get(document, operation.from!);
+      return add(remove(document, operation.from!), operation.path, value);
+    }
+    case 'copy':
+      return add(document, operation.path, clone(get(document, operation.from!)));
+    case 'test':
+      if (!isEqual(get(document, operation.path), operation.value)) {
+        throw new Error('value does not match');
+      }
+      return document;
+  }
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped tokens
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error(`"${pointer}" is not a JSON Pointer; paths start with /`);
+  }
+
+  return pointer.substring(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function get(document: unknown, pointer: string): unknown {
+  let value = document;
+
+  for (const token of parsePointer(pointer)) {
+    if (Array.isArray(value) && isIndex(token, value.length - 1)) {
+      value = value[Number(token)];
+    } else if (!Array.isArray(value) && isContainer(value) && Object.prototype.hasOwnProperty.call(value, token)) {
+      value = value[token];
+    } else {
+      throw new Error(`${pointer} does not exist`);
+    }
+  }
+
+  return value;
+}
+
+function add(document: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return value;
+  }
+
+  const key = tokens.pop()!;
+  const parent = get(document, toPointer(tokens)) as any;
+
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : Number(key);
+    if (key !== '-' && !isIndex(key, parent.length)) {
+      throw new Error(`index ${key} is out of bounds`);
+    }
+    parent.splice(index, 0, value);
+  } else if (isContainer(parent)) {
+    parent[key] = value;
+  } else {
+    throw new Error(`the parent of ${pointer} is not an object or array`);
+  }
+
+  return document;
+}
+
+function replace(document: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return value;
+  }
+
+  // Assign in place so object keys keep their order
+  get(document, pointer);
+  const key = tokens.pop()!;
+  const parent = get(document, toPointer(tokens)) as any;
+  parent[Array.isArray(parent) ? Number(key) : key] = value;
+
+  return document;
+}
+
+function remove(document: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new Error('cannot remove the whole document');
+  }
+
+  get(document, pointer);
+  const key = tokens.pop()!;
+  const parent = get(document, toPointer(tokens)) as any;
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+
+  return document;
+}
+
+/**
+ * Compare JSON values as RFC 6902 `test` does: objects by their members in any order, arrays element by element
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isContainer(a) && isContainer(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key]));
+  }
+
+  return a === b;
+}
+
+function isIndex(token: string, max: number): boolean {
+  return /^(0|[1-9]\d*)$/.test(token) && Number(token) <= max;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function toPointer(tokens: string[]): string {
+  return tokens.map(token => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
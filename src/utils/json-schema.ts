@@ -0,0 +1,112 @@
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+/**
+ * The subset of JSON Schema (draft-07) that the validator understands
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  // A list allows any of the types
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  minLength?: number;
+  minItems?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Validate a value against a schema, returning one message per violation.
+ *
+ * Messages name the offending location, e.g. `plan.implementationSteps[1].risk`,
+ * so they can be shown to users and fed back to a model as they are.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const types = schema.type === undefined ? [] : ([] as JsonType[]).concat(schema.type);
+  if (types.length > 0 && !types.some(type => hasType(value, type))) {
+    return [`${path} must be ${types.map(type => `${article(type)} ${type}`).join(' or ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+  }
+
+  // Lengths count code points, as the specification requires, not UTF-16 units
+  if (typeof value === 'string' && schema.minLength !== undefined && Array.from(value).length < schema.minLength) {
+    errors.push(schema.minLength === 1 ? `${path} must not be empty` : `${path} must be at least ${schema.minLength} characters long`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    
+    for (const [key, propertyValue] of Object.entries(value)) {
+      // Undefined properties are dropped by JSON serialization, so they count as absent
+      if (propertyValue === undefined) continue;
+      
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check a value against a JSON Schema type name
+ */
+function hasType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? 'an' : 'a';
+}
@@ -0,0 +1,530 @@
+export interface ParsedDependency {
+  name: string;
+  version?: string;
+  dev: boolean;
+}
+
+export interface ProjectCoordinates {
+  group?: string;
+  name?: string;
+  version?: string;
+}
+
+type TomlValue = string | string[] | Record<string, string>;
+type TomlDocument = Record<string, Record<string, TomlValue>>;
+
+/**
+ * Remove a trailing comment from a TOML line, ignoring # inside strings
+ */
+function stripTomlComment(line: string): string {
+  let quote: string | undefined;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '#') {
+      return line.substring(0, i);
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Parse a single TOML value: strings, inline tables and string arrays
+ */
+function parseTomlValue(raw: string): TomlValue {
+  const value = raw.trim();
+
+  if (value.startsWith('[')) {
+    return Array.from(value.matchAll(/"([^"]*)"|'([^']*)'/g), match => match[1] ?? match[2]);
+  }
+
+  if (value.startsWith('{')) {
+    const table: Record<string, string> = {};
+    
+    for (const match of value.matchAll(/([\w.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^,}\s]+))/g)) {
+      table[match[1]] = match[2] ?? match[3] ?? match[4];
+    }
+    
+    return table;
+  }
+
+  const quoted = value.match(/^"([^"]*)"|^'([^']*)'/);
+  return quoted ? quoted[1] ?? quoted[2] : value;
+}
+
+/**
+ * Parse the subset of TOML used by dependency manifests (pyproject.toml, Pipfile, Cargo.toml)
+ */
+export function parseToml(content: string): TomlDocument {
+  const document: TomlDocument = { '': {} };
+  let table = document[''];
+  let pending: { key: string; value: string } | undefined;
+
+  for (const rawLine of content.split('\n')) {
+    const line = stripTomlComment(rawLine).trim();
+    
+    // Continue a multi-line array until its brackets balance
+    if (pending) {
+      pending.value += ` ${line}`;
+      if ((pending.value.match(/\[/g) || []).length <= (pending.value.match(/]/g) || []).length) {
+        table[pending.key] = parseTomlValue(pending.value);
+        pending = undefined;
+      }
+      continue;
+    }
+    
+    if (!line) continue;
+    
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*]]?$/);
+    if (header) {
+      const name = header[1].replace(/["']/g, '');
+      document[name] = document[name] || {};
+      table = document[name];
+      continue;
+    }
+    
+    const assignment = line.match(/^("[^"]+"|'[^']+'|[\w.-]+)\s*=\s*(.*)$/);
+    if (!assignment) continue;
+    
+    const key = assignment[1].replace(/["']/g, '');
+    const value = assignment[2];
+    
+    if (value.startsWith('[') && (value.match(/\[/g) || []).length > (value.match(/]/g) || []).length) {
+      pending = { key, value };
+    } else {
+      table[key] = parseTomlValue(value);
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Convert a TOML dependency table (name = "version" or name = { version = "..." }) into dependencies
+ */
+function tomlTableDependencies(table: Record<string, TomlValue> | undefined, dev: boolean): ParsedDependency[] {
+  return Object.entries(table || {}).map(([name, value]) => ({
+    name,
+    version: typeof value === 'string' ? value : Array.isArray(value) ? undefined : value.version,
+    dev
+  }));
+}
+
+/**
+ * Split a PEP 508 requirement such as `requests[socks]>=2.0; python_version < "3.8"`
+ */
+export function parsePythonRequirement(requirement: string, dev: boolean): ParsedDependency | undefined {
+  const match = requirement.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*])?\s*([^;]*)/);
+
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    name: match[1],
+    version: match[2].trim() || undefined,
+    dev
+  };
+}
+
+/**
+ * Parse dependencies from package.json (also used for composer.json's require/require-dev)
+ */
+export function parsePackageJson(content: string): { dependencies: ParsedDependency[]; manifest: any } {
+  const manifest = JSON.parse(content);
+  const dependencies: ParsedDependency[] = [];
+
+  for (const [field, dev] of [['dependencies', false], ['devDependencies', true], ['optionalDependencies', false]] as const) {
+    for (const [name, version] of Object.entries(manifest[field] || {})) {
+      dependencies.push({ name, version: String(version), dev });
+    }
+  }
+
+  return { dependencies, manifest };
+}
+
+/**
+ * Parse dependencies from composer.json, skipping PHP platform requirements
+ */
+export function parseComposerJson(content: string): { dependencies: ParsedDependency[]; manifest: any } {
+  const manifest = JSON.parse(content);
+  const dependencies: ParsedDependency[] = [];
+
+  for (const [field, dev] of [['require', false], ['require-dev', true]] as const) {
+    for (const [name, version] of Object.entries(manifest[field] || {})) {
+      if (name === 'php' || name.startsWith('ext-')) continue;
+      dependencies.push({ name, version: String(version), dev });
+    }
+  }
+
+  return { dependencies, manifest };
+}
+
+/**
+ * Parse requirements.txt, ignoring comments, options and includes
+ */
+export function parseRequirementsTxt(content: string, dev: boolean = false): ParsedDependency[] {
+  return content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#') && !line.startsWith('-'))
+    .map(line => parsePythonRequirement(line, dev))
+    .filter((dependency): dependency is ParsedDependency => dependency !== undefined);
+}
+
+/**
+ * Parse pyproject.toml in either Poetry or PEP 621 layout
+ */
+export function parsePyprojectToml(content: string): {
+  dependencies: ParsedDependency[];
+  usesPoetry: boolean;
+  pythonVersion?: string;
+  coordinates: ProjectCoordinates;
+} {
+  const document = parseToml(content);
+  const poetry = document['tool.poetry'];
+  const dependencies: ParsedDependency[] = [];
+  let pythonVersion: string | undefined;
+
+  if (poetry) {
+    for (const dependency of tomlTableDependencies(document['tool.poetry.dependencies'], false)) {
+      if (dependency.name === 'python') {
+        pythonVersion = dependency.version;
+      } else {
+        dependencies.push(dependency);
+      }
+    }
+    
+    // Poetry 1.2+ groups, plus the legacy dev-dependencies table
+    for (const [table, values] of Object.entries(document)) {
+      if (table === 'tool.poetry.dev-dependencies' || /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(table)) {
+        dependencies.push(...tomlTableDependencies(values, true));
+      }
+    }
+  }
+
+  const project = document['project'] || {};
+  const projectDependencies = Array.isArray(project.dependencies) ? project.dependencies : [];
+
+  for (const requirement of projectDependencies) {
+    const dependency = parsePythonRequirement(requirement, false);
+    if (dependency) dependencies.push(dependency);
+  }
+
+  for (const values of Object.values(document['project.optional-dependencies'] || {})) {
+    for (const requirement of Array.isArray(values) ? values : []) {
+      const dependency = parsePythonRequirement(requirement, true);
+      if (dependency) dependencies.push(dependency);
+    }
+  }
+
+  const requiresPython = project['requires-python'];
+
+  return {
+    dependencies,
+    usesPoetry: Boolean(poetry),
+    pythonVersion: pythonVersion || (typeof requiresPython === 'string' ? requiresPython : undefined),
+    coordinates: {
+      name: (project.name || poetry?.name) as string | undefined,
+      version: (project.version || poetry?.version) as string | undefined
+    }
+  };
+}
+
+/**
+ * Parse a Pipfile's [packages] and [dev-packages]
+ */
+export function parsePipfile(content: string): { dependencies: ParsedDependency[]; pythonVersion?: string } {
+  const document = parseToml(content);
+  const requires = document['requires'] || {};
+
+  return {
+    dependencies: [
+      ...tomlTableDependencies(document['packages'], false),
+      ...tomlTableDependencies(document['dev-packages'], true)
+    ],
+    pythonVersion: (requires.python_full_version || requires.python_version) as string | undefined
+  };
+}
+
+/**
+ * Parse go.mod's module path, Go version and require directives
+ */
+export function parseGoMod(content: string): { dependencies: ParsedDependency[]; goVersion?: string; module?: string } {
+  const dependencies: ParsedDependency[] = [];
+  let inRequireBlock = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    
+    if (line.startsWith('require (')) {
+      inRequireBlock = true;
+      continue;
+    }
+    
+    if (inRequireBlock && line === ')') {
+      inRequireBlock = false;
+      continue;
+    }
+    
+    const requirement = inRequireBlock ? line : line.match(/^require\s+(.*)$/)?.[1];
+    const parts = requirement ? requirement.split(/\s+/) : [];
+    
+    if (parts.length >= 2) {
+      dependencies.push({ name: parts[0], version: parts[1], dev: false });
+    }
+  }
+
+  return {
+    dependencies,
+    goVersion: content.match(/^go\s+(\S+)/m)?.[1],
+    module: content.match(/^module\s+(\S+)/m)?.[1]
+  };
+}
+
+/**
+ * Parse Cargo.toml dependency tables and package metadata
+ */
+export function parseCargoToml(content: string): {
+  dependencies: ParsedDependency[];
+  rustVersion?: string;
+  coordinates: ProjectCoordinates;
+} {
+  const document = parseToml(content);
+  const pkg = document['package'] || {};
+
+  return {
+    dependencies: [
+      ...tomlTableDependencies(document['dependencies'], false),
+      ...tomlTableDependencies(document['build-dependencies'], false),
+      ...tomlTableDependencies(document['dev-dependencies'], true)
+    ],
+    rustVersion: pkg['rust-version'] as string | undefined,
+    coordinates: {
+      name: pkg.name as string | undefined,
+      version: pkg.version as string | undefined
+    }
+  };
+}
+
+/**
+ * Parse gem declarations from a Gemfile, treating development/test groups as dev
+ */
+export function parseGemfile(content: string): { dependencies: ParsedDependency[]; rubyVersion?: string } {
+  const dependencies: ParsedDependency[] = [];
+  const groupStack: boolean[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    
+    const group = line.match(/^group\s+(.+?)\s+do\b/);
+    if (group) {
+      groupStack.push(/:(development|test)\b/.test(group[1]));
+      continue;
+    }
+    
+    if (/^(?:platforms?|source|install_if)\b.*\bdo\b/.test(line)) {
+      groupStack.push(groupStack.length > 0 && groupStack[groupStack.length - 1]);
+      continue;
+    }
+    
+    if (line === 'end' && groupStack.length > 0) {
+      groupStack.pop();
+      continue;
+    }
+    
+    const gem = line.match(/^gem\s+['"]([^'"]+)['"](?:\s*,\s*['"]([^'"]+)['"])?/);
+    if (gem) {
+      const inDevGroup = groupStack.some(Boolean) || /group:\s*\[?:(development|test)/.test(line);
+      dependencies.push({ name: gem[1], version: gem[2], dev: inDevGroup });
+    }
+  }
+
+  return {
+    dependencies,
+    rubyVersion: content.match(/^ruby\s+['"]([^'"]+)['"]/m)?.[1]
+  };
+}
+
+/**
+ * Read the text of the first matching XML element
+ */
+function xmlElement(content: string, tag: string): string | undefined {
+  return content.match(new RegExp(`<${tag}>\\s*([^<]+?)\\s*</${tag}>`))?.[1];
+}
+
+/**
+ * Parse project coordinates and dependencies from a Maven pom.xml
+ */
+export function parsePomXml(content: string): {
+  dependencies: ParsedDependency[];
+  javaVersion?: string;
+  coordinates: ProjectCoordinates;
+} {
+  // Project coordinates sit outside <parent>, <dependencies> and <build> blocks
+  const projectSection = content
+    .replace(/<parent>[\s\S]*?<\/parent>/g, '')
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+    .replace(/<dependencies>[\s\S]*?<\/dependencies>/g, '')
+    .replace(/<build>[\s\S]*?<\/build>/g, '');
+
+  const parentGroup = content.match(/<parent>[\s\S]*?<groupId>\s*([^<]+?)\s*<\/groupId>/)?.[1];
+
+  const dependencies: ParsedDependency[] = [];
+  const dependencyBlocks = content
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+    .match(/<dependency>[\s\S]*?<\/dependency>/g) || [];
+
+  for (const block of dependencyBlocks) {
+    const groupId = xmlElement(block, 'groupId');
+    const artifactId = xmlElement(block, 'artifactId');
+    
+    if (artifactId) {
+      dependencies.push({
+        name: groupId ? `${groupId}:${artifactId}` : artifactId,
+        version: xmlElement(block, 'version'),
+        dev: xmlElement(block, 'scope') === 'test'
+      });
+    }
+  }
+
+  return {
+    dependencies,
+    javaVersion: xmlElement(content, 'maven.compiler.release') ||
+      xmlElement(content, 'maven.compiler.source') ||
+      xmlElement(content, 'java.version'),
+    coordinates: {
+      group: xmlElement(projectSection, 'groupId') || parentGroup,
+      name: xmlElement(projectSection, 'artifactId'),
+      version: xmlElement(projectSection, 'version')
+    }
+  };
+}
+
+/**
+ * Parse project coordinates and dependency declarations from build.gradle or build.gradle.kts
+ */
+export function parseGradleBuild(content: string): { dependencies: ParsedDependency[]; coordinates: ProjectCoordinates } {
+  const dependencies: ParsedDependency[] = [];
+  const pattern = /^\s*(\w+)\s*\(?\s*["']([^"':]+):([^"':]+)(?::([^"']+))?["']/gm;
+
+  for (const match of content.matchAll(pattern)) {
+    const configuration = match[1];
+    
+    if (!/(?:implementation|api|compileOnly|runtimeOnly|annotationProcessor|kapt|ksp|compile|testCompile|testRuntime)$/i.test(configuration)) {
+      continue;
+    }
+    
+    dependencies.push({
+      name: `${match[2]}:${match[3]}`,
+      version: match[4],
+      dev: configuration.toLowerCase().startsWith('test') || configuration.toLowerCase().startsWith('androidtest')
+    });
+  }
+
+  return {
+    dependencies,
+    coordinates: {
+      group: content.match(/^\s*group\s*=\s*["']([^"']+)["']/m)?.[1],
+      version: content.match(/^\s*version\s*=\s*["']([^"']+)["']/m)?.[1]
+    }
+  };
+}
+
+/**
+ * Parse PackageReference items and the target framework from an SDK-style .NET project file
+ */
+export function parseDotnetProject(content: string): { dependencies: ParsedDependency[]; targetFramework?: string } {
+  const dependencies: ParsedDependency[] = [];
+
+  // A self-closing reference must not take the body of the next one
+  for (const match of content.matchAll(/<PackageReference\s+([^>]*?)(?:\/>|>([\s\S]*?)<\/PackageReference>)/g)) {
+    const attributes = match[1];
+    const name = attributes.match(/Include="([^"]+)"/)?.[1];
+    const version = attributes.match(/Version="([^"]+)"/)?.[1] || match[2]?.match(/<Version>([^<]+)<\/Version>/)?.[1];
+    
+    if (name) {
+      dependencies.push({
+        name,
+        version,
+        dev: /PrivateAssets="all"/i.test(attributes) || /test|coverlet|xunit|nunit|mstest/i.test(name)
+      });
+    }
+  }
+
+  return {
+    dependencies,
+    targetFramework: xmlElement(content, 'TargetFramework') || xmlElement(content, 'TargetFrameworks')
+  };
+}
+
+/**
+ * Read workspace globs from package.json's workspaces field (array or { packages } form)
+ */
+export function parsePackageJsonWorkspaces(manifest: any): string[] {
+  const workspaces = Array.isArray(manifest.workspaces) ? manifest.workspaces : manifest.workspaces?.packages;
+  return Array.isArray(workspaces) ? workspaces.filter((pattern: unknown) => typeof pattern === 'string') : [];
+}
+
+/**
+ * Read the packages list from pnpm-workspace.yaml
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '');
+    
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    
+    // Any other top-level key ends the list
+    if (/^\S/.test(line)) {
+      inPackages = false;
+      continue;
+    }
+    
+    const item = inPackages && line.match(/^\s+-\s*["']?([^"']+?)["']?\s*$/);
+    if (item) {
+      patterns.push(item[1]);
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Read included projects from settings.gradle or settings.gradle.kts.
+ *
+ * Returns Gradle project paths (":lib:core") mapped to their directories,
+ * honouring `project(':x').projectDir = file('dir')` overrides.
+ */
+export function parseGradleSettings(content: string): Array<{ projectPath: string; directory: string }> {
+  const projects = new Map<string, string>();
+
+  for (const include of content.matchAll(/^\s*include\s*\(?([^\n)]*)\)?/gm)) {
+    for (const name of include[1].matchAll(/["']([^"']+)["']/g)) {
+      const projectPath = name[1].startsWith(':') ? name[1] : `:${name[1]}`;
+      projects.set(projectPath, projectPath.substring(1).replace(/:/g, '/'));
+    }
+  }
+
+  const overrides = /project\s*\(\s*["']([^"']+)["']\s*\)\s*\.projectDir\s*=\s*(?:file|new\s+File)\s*\(\s*(?:settingsDir\s*,\s*)?["']([^"']+)["']/g;
+  for (const override of content.matchAll(overrides)) {
+    const projectPath = override[1].startsWith(':') ? override[1] : `:${override[1]}`;
+    if (projects.has(projectPath)) {
+      projects.set(projectPath, override[2].replace(/^\.\//, '').replace(/\/$/, ''));
+    }
+  }
+
+  return Array.from(projects, ([projectPath, directory]) => ({ projectPath, directory }));
+}
@@ -0,0 +1,69 @@
+import type { ResolutionPlan } from '../services/planner.service';
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 2;
+
+/**
+ * Show what changed between two plan versions as a unified diff of their JSON.
+ *
+ * JSON keeps the diff aligned with the paths a JSON patch uses; the file
+ * ranking behind the plan is left out since revisions rarely touch it.
+ * Returns an empty string when the plans are the same.
+ */
+export function formatPlanDiff(before: ResolutionPlan, after: ResolutionPlan): string {
+  const render = (plan: ResolutionPlan): string[] =>
+    JSON.stringify({ ...plan, relevantFiles: undefined }, null, 2).split('\n');
+
+  const lines = diffLines(render(before), render(after));
+  if (lines.every(line => line.startsWith(' '))) {
+    return '';
+  }
+
+  // Keep the changes and their context, marking skipped runs of unchanged lines
+  const keep = lines.map((_, index) =>
+    lines.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(line => !line.startsWith(' '))
+  );
+
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      output.push(line);
+    } else if (index === 0 || keep[index - 1]) {
+      output.push('@@');
+    }
+  });
+
+  return output.join('\n');
+}
+
+/**
+ * Line diff by longest common subsequence; plans are small enough for the quadratic table
+ */
+function diffLines(before: string[], after: string[]): string[] {
+  const common: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push(`  ${before[i++]}`);
+      j++;
+    } else if (i < before.length && (j === after.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push(`- ${before[i++]}`);
+    } else {
+      lines.push(`+ ${after[j++]}`);
+    }
+  }
+
+  return lines;
+}
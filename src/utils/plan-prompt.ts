@@ -0,0 +1,280 @@
+import type { FileStructure, IssueInfo } from '../services/forge.service';
+import type { ErrorLocation, PlanStep, ResolutionPlan } from '../services/planner.service';
+import { CHANGE_SIZES, CHANGE_TYPES, createPlanStep, findMentionedFiles, RISK_LEVELS } from './plan-schema';
+
+/**
+ * A file shown to the model, with its content when it could be loaded
+ */
+export interface PromptFile {
+  path: string;
+  content?: string;
+}
+
+// Limits that keep prompts within the context window of small local models
+const MAX_BODY_CHARS = 8000;
+const MAX_COMMENTS = 20;
+const MAX_COMMENT_CHARS = 2000;
+const MAX_FILE_CHARS = 8000;
+const MAX_LISTED_PATHS = 300;
+
+export const PLAN_SYSTEM_PROMPT = `You are a senior software engineer planning how to resolve an issue in a code repository.
+Read the issue, its discussion and the repository context, then produce a concrete, minimal plan.
+
+Respond with a single JSON object and nothing else, using exactly these fields:
+{
+  "problemSummary": "one or two sentences describing the actual problem",
+  "proposedSolution": "how the problem will be solved",
+  "targetProjects": ["paths of the workspace packages the change belongs to, from the listed ones; [] if none are listed"],
+  "filesToModify": ["repository-relative paths of files to change or create"],
+  "implementationSteps": [
+    {
+      "description": "one concrete step",
+      "targetFiles": ["repository-relative paths the step reads or changes"],
+      "changeType": "one of ${CHANGE_TYPES.join(', ')} (none for steps that change no code)",
+      "risk": "one of ${RISK_LEVELS.join(', ')}: how likely the step is to break existing behavior",
+      "size": "one of ${CHANGE_SIZES.join(', ')}: trivial is a line or two, small up to ~20 lines, medium up to ~100, large beyond",
+      "acceptanceChecks": ["observable checks that show the step is done"]
+    }
+  ],
+  "testingStrategy": "how the change will be tested",
+  "successCriteria": "how to tell the issue is resolved"
+}
+
+Order the steps as they should be carried out. Keep steps small enough that each one has a clear size and risk.
+When error locations from stack traces are given, start from where the error was raised rather than where it surfaced.`;
+
+/**
+ * Build the prompt asking for a resolution plan.
+ *
+ * The draft is the keyword-based plan; its files are offered as candidates
+ * and their contents are included so the model can ground the plan.
+ */
+export function buildPlanPrompt(issueInfo: IssueInfo, draft: ResolutionPlan, files: PromptFile[]): string {
+  const analysis = issueInfo.codebaseAnalysis;
+  const sections: string[] = [];
+
+  const languages = (analysis.languages || [])
+    .map(stats => `${stats.language} ${stats.percentage}%`)
+    .join(', ');
+
+  sections.push([
+    `# Repository ${issueInfo.repoInfo.fullName}`,
+    `Main language: ${analysis.mainLanguage}${languages ? ` (${languages})` : ''}`,
+    `Build system: ${analysis.buildSystem}${analysis.packageManager ? ` (${analysis.packageManager.name})` : ''}`,
+    ...(analysis.subProjects.length > 0
+      ? ['Workspace packages:', ...analysis.subProjects.map(project => `- ${project.path} (${project.name})`)]
+      : [])
+  ].join('\n'));
+
+  const kind = issueInfo.pullRequest ? 'Pull request' : 'Issue';
+  sections.push([
+    `# ${kind} #${issueInfo.issueNumber}: ${issueInfo.title}`,
+    `State: ${issueInfo.state}${issueInfo.labels.length > 0 ? `, labels: ${issueInfo.labels.join(', ')}` : ''}`,
+    '',
+    truncate(issueInfo.body || '(no description)', MAX_BODY_CHARS)
+  ].join('\n'));
+
+  // The latest comments usually carry the most refined understanding
+  const comments = issueInfo.comments.slice(-MAX_COMMENTS);
+  if (comments.length > 0) {
+    sections.push([
+      '# Discussion',
+      ...comments.map(comment => `## ${comment.author}\n${truncate(comment.body, MAX_COMMENT_CHARS)}`)
+    ].join('\n\n'));
+  }
+
+  const pullRequest = issueInfo.pullRequest;
+  if (pullRequest && pullRequest.reviewComments.length > 0) {
+    sections.push([
+      `# Review feedback on ${pullRequest.headBranch} (address it with additional commits)`,
+      ...pullRequest.reviewComments.slice(-MAX_COMMENTS).map(comment => {
+        const location = comment.path ? ` on ${comment.path}${comment.line ? `:${comment.line}` : ''}` : '';
+        return `## ${comment.author}${location}\n${truncate(comment.body, MAX_COMMENT_CHARS)}`;
+      })
+    ].join('\n\n'));
+  }
+
+  const paths = listPaths(analysis.fileStructure);
+  if (paths.length > 0) {
+    sections.push([
+      `# Repository files${paths.length > MAX_LISTED_PATHS ? ` (first ${MAX_LISTED_PATHS} of ${paths.length})` : ''}`,
+      ...paths.slice(0, MAX_LISTED_PATHS)
+    ].join('\n'));
+  }
+
+  if (draft.errorLocations.length > 0) {
+    sections.push([
+      '# Error locations from stack traces (innermost frame first)',
+      ...draft.errorLocations.map(location => `- ${formatErrorLocation(location)}`)
+    ].join('\n'));
+  }
+
+  const loaded = files.filter(file => file.content !== undefined);
+  if (loaded.length > 0) {
+    sections.push([
+      '# Candidate files (matched by keywords; may be incomplete or irrelevant)',
+      ...loaded.map(file => `## ${file.path}\n\`\`\`\n${truncate(file.content!, MAX_FILE_CHARS)}\n\`\`\``)
+    ].join('\n\n'));
+  }
+
+  sections.push([
+    '# Draft plan from keyword matching (improve or replace it)',
+    JSON.stringify(draft, null, 2)
+  ].join('\n'));
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Build the prompt asking for a plan revised according to the user's feedback
+ */
+export function buildRevisionPrompt(plan: ResolutionPlan, modifications: string): string {
+  return [
+    '# Current plan',
+    JSON.stringify(plan, null, 2),
+    '# Requested modifications',
+    modifications,
+    'Return the complete revised plan as a single JSON object with the same fields. Keep everything the modifications do not change.'
+  ].join('\n\n');
+}
+
+/**
+ * Parse a model response into a plan.
+ *
+ * Tolerates code fences and surrounding prose; fields that are missing or of
+ * the wrong type are taken from the fallback plan, and step fields that are
+ * missing are estimated. Values that are present but invalid are kept, so
+ * schema validation can report them. Throws when the response holds no JSON
+ * object or no implementation steps.
+ */
+export function parsePlanResponse(response: string, fallback: ResolutionPlan): ResolutionPlan {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : response;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in the model response');
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.substring(start, end + 1));
+  } catch (error) {
+    throw new Error(`Model response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Model response is not a JSON object');
+  }
+
+  const textField = (value: unknown, fallbackValue: string): string =>
+    typeof value === 'string' && value.trim() ? value.trim() : fallbackValue;
+
+  const filesToModify = pathList(parsed.filesToModify) ?? fallback.filesToModify;
+  const implementationSteps = Array.isArray(parsed.implementationSteps)
+    ? parsed.implementationSteps
+      .map((step: unknown) => parseStep(step, filesToModify))
+      .filter((step: PlanStep | undefined): step is PlanStep => step !== undefined)
+    : [];
+
+  if (implementationSteps.length === 0) {
+    throw new Error('Model response has no implementation steps');
+  }
+
+  return {
+    problemSummary: textField(parsed.problemSummary, fallback.problemSummary),
+    proposedSolution: textField(parsed.proposedSolution, fallback.proposedSolution),
+    targetProjects: pathList(parsed.targetProjects) ?? fallback.targetProjects,
+    filesToModify,
+    relevantFiles: fallback.relevantFiles,
+    errorLocations: fallback.errorLocations,
+    implementationSteps,
+    testingStrategy: textField(parsed.testingStrategy, fallback.testingStrategy),
+    successCriteria: textField(parsed.successCriteria, fallback.successCriteria)
+  };
+}
+
+/**
+ * Describe where an error was raised: `src/app.ts:12 in parseConfig (TypeError: bad input)`
+ */
+export function formatErrorLocation(location: ErrorLocation): string {
+  const line = location.line ? `:${location.line}` : '';
+  const name = location.function ? ` in ${location.function}` : '';
+  const error = location.exceptionType
+    ? ` (${location.exceptionType}${location.message ? `: ${location.message.split('\n')[0].substring(0, 120)}` : ''})`
+    : '';
+
+  return `${location.path}${line}${name}${error}`;
+}
+
+/**
+ * Read a plan step given as an object or as plain text.
+ *
+ * Fields the model left out are estimated from the description and the
+ * files it names; the files of plain-text steps come from the plan's files.
+ */
+function parseStep(value: unknown, filesToModify: string[]): PlanStep | undefined {
+  if (typeof value === 'string') {
+    return value.trim() ? createPlanStep(value.trim(), { targetFiles: findMentionedFiles(value, filesToModify) }) : undefined;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const step = value as Record<string, unknown>;
+  const description = String(step.description || step.title || '').trim();
+  if (!description) {
+    return undefined;
+  }
+
+  // Small models tend to vary the case of enum values
+  const enumField = (field: unknown): any =>
+    typeof field === 'string' && field.trim() ? field.trim().toLowerCase() : undefined;
+
+  return createPlanStep(description, {
+    targetFiles: pathList(step.targetFiles ?? step.files) ?? findMentionedFiles(description, filesToModify),
+    changeType: enumField(step.changeType),
+    risk: enumField(step.risk),
+    size: enumField(step.size),
+    acceptanceChecks: stringList(step.acceptanceChecks)
+  });
+}
+
+/**
+ * Read a list of repository-relative paths, dropping any leading ./ or /
+ */
+function pathList(value: unknown): string[] | undefined {
+  return stringList(value)?.map(path => path.replace(/^\.?\//, ''));
+}
+
+/**
+ * Read a list of non-empty strings
+ */
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value
+    .filter(item => typeof item === 'string' || typeof item === 'number')
+    .map(item => String(item).trim())
+    .filter(Boolean);
+}
+
+/**
+ * List the paths of all files in a file structure
+ */
+function listPaths(fileStructure: FileStructure[]): string[] {
+  return fileStructure.flatMap(item =>
+    item.type === 'file' ? [item.path] : listPaths(item.children || [])
+  );
+}
+
+/**
+ * Shorten text to a character budget, marking the cut
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}\n[... truncated]` : text;
+}
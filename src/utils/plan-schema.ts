@@ -0,0 +1,175 @@
+import type { ChangeSize, ChangeType, PlanStep, ResolutionPlan, RiskLevel } from '../services/planner.service';
+import { JsonSchema, validateSchema } from './json-schema';
+
+export const CHANGE_TYPES: readonly ChangeType[] = ['add', 'modify', 'delete', 'refactor', 'test', 'docs', 'config', 'none'];
+export const RISK_LEVELS: readonly RiskLevel[] = ['low', 'medium', 'high'];
+export const CHANGE_SIZES: readonly ChangeSize[] = ['trivial', 'small', 'medium', 'large'];
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+const PLAN_STEP_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['description', 'targetFiles', 'changeType', 'risk', 'size', 'acceptanceChecks'],
+  additionalProperties: false,
+  properties: {
+    description: { type: 'string', minLength: 1 },
+    targetFiles: stringList,
+    changeType: { type: 'string', enum: CHANGE_TYPES },
+    risk: { type: 'string', enum: RISK_LEVELS },
+    size: { type: 'string', enum: CHANGE_SIZES },
+    acceptanceChecks: stringList
+  }
+};
+
+/**
+ * JSON Schema for ResolutionPlan, checked whenever a plan is created, revised or returned
+ */
+export const RESOLUTION_PLAN_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'resolution-plan.schema.json',
+  title: 'ResolutionPlan',
+  type: 'object',
+  required: [
+    'problemSummary', 'proposedSolution', 'targetProjects', 'filesToModify',
+    'relevantFiles', 'errorLocations', 'implementationSteps', 'testingStrategy', 'successCriteria'
+  ],
+  additionalProperties: false,
+  properties: {
+    problemSummary: { type: 'string', minLength: 1 },
+    proposedSolution: { type: 'string', minLength: 1 },
+    targetProjects: stringList,
+    filesToModify: stringList,
+    relevantFiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['path', 'score', 'reasons'],
+        additionalProperties: false,
+        properties: {
+          path: { type: 'string', minLength: 1 },
+          score: { type: 'number', minimum: 0 },
+          reasons: stringList
+        }
+      }
+    },
+    errorLocations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['path'],
+        additionalProperties: false,
+        properties: {
+          path: { type: 'string', minLength: 1 },
+          line: { type: 'integer', minimum: 1 },
+          function: { type: 'string' },
+          exceptionType: { type: 'string' },
+          message: { type: 'string' }
+        }
+      }
+    },
+    implementationSteps: { type: 'array', minItems: 1, items: PLAN_STEP_SCHEMA },
+    testingStrategy: { type: 'string', minLength: 1 },
+    successCriteria: { type: 'string', minLength: 1 }
+  }
+};
+
+/**
+ * Raised when a plan does not match RESOLUTION_PLAN_SCHEMA
+ */
+export class PlanValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Plan does not match the schema: ${errors.join('; ')}`);
+    this.name = 'PlanValidationError';
+  }
+}
+
+/**
+ * Throw a PlanValidationError listing every violation when a plan does not match the schema
+ */
+export function validatePlan(plan: unknown): asserts plan is ResolutionPlan {
+  const errors = validateSchema(plan, RESOLUTION_PLAN_SCHEMA, 'plan');
+  if (errors.length > 0) {
+    throw new PlanValidationError(errors);
+  }
+}
+
+// Keywords that give away a step's change type, checked in order
+const CHANGE_TYPE_KEYWORDS: [ChangeType, RegExp][] = [
+  ['test', /\b(tests?|specs?|testing)\b/i],
+  ['docs', /\b(docs?|documentation|readme|changelog|comments?)\b/i],
+  ['none', /\b(understand|investigate|analy[sz]e|reproduce|verify|confirm|review|check out)\b/i],
+  ['refactor', /\b(refactor|rename|extract|restructure|move|split)\b/i],
+  ['delete', /\b(remove|delete|drop)\b/i],
+  ['config', /\b(config|configuration|dependency|dependencies|ci|build|settings)\b/i],
+  ['add', /\b(add|create|introduce|new)\b/i]
+];
+
+const RISK_BY_CHANGE_TYPE: Record<ChangeType, RiskLevel> = {
+  none: 'low',
+  docs: 'low',
+  test: 'low',
+  add: 'low',
+  modify: 'medium',
+  config: 'medium',
+  delete: 'medium',
+  refactor: 'high'
+};
+
+/**
+ * Build a plan step, estimating whatever the caller does not know.
+ *
+ * The change type is guessed from the description; risk and size follow
+ * from the change type and how many files the step touches.
+ */
+export function createPlanStep(description: string, fields: Partial<Omit<PlanStep, 'description'>> = {}): PlanStep {
+  const targetFiles = fields.targetFiles || [];
+  const changeType = fields.changeType
+    || CHANGE_TYPE_KEYWORDS.find(([, pattern]) => pattern.test(description))?.[0]
+    || 'modify';
+
+  let risk = fields.risk || RISK_BY_CHANGE_TYPE[changeType];
+  if (!fields.risk && targetFiles.length > 3 && changeType !== 'none') {
+    risk = 'high';
+  }
+
+  let size = fields.size;
+  if (!size) {
+    if (changeType === 'none') size = 'trivial';
+    else if (targetFiles.length > 3) size = 'large';
+    else if (targetFiles.length > 1 || changeType === 'refactor') size = 'medium';
+    else size = 'small';
+  }
+
+  return {
+    description,
+    targetFiles,
+    changeType,
+    risk,
+    size,
+    acceptanceChecks: fields.acceptanceChecks || []
+  };
+}
+
+/**
+ * Find which of the known files a piece of text names, by path or by file name
+ */
+export function findMentionedFiles(text: string, knownFiles: string[]): string[] {
+  return knownFiles.filter(file => {
+    const name = file.split('/').pop() || file;
+    return text.includes(file) || new RegExp(`(^|[^\\w./-])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^\\w-])`).test(text);
+  });
+}
+
+/**
+ * The overall scope of a plan: the riskiest and largest step, and how many files it touches
+ */
+export function summarizePlanScope(plan: ResolutionPlan): { risk: RiskLevel; size: ChangeSize; files: number } {
+  const steps = plan.implementationSteps;
+  const files = new Set([...plan.filesToModify, ...steps.flatMap(step => step.targetFiles)]);
+
+  return {
+    risk: RISK_LEVELS[Math.max(0, ...steps.map(step => RISK_LEVELS.indexOf(step.risk)))],
+    size: CHANGE_SIZES[Math.max(0, ...steps.map(step => CHANGE_SIZES.indexOf(step.size)))],
+    files: files.size
+  };
+}
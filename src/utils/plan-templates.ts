@@ -0,0 +1,296 @@
+import fs from 'fs';
+import config from '../config';
+import type { ChangeType } from '../services/planner.service';
+import { IssueClass, ISSUE_CLASSES } from '../services/triage.service';
+import { JsonSchema, validateSchema } from './json-schema';
+import { CHANGE_TYPES } from './plan-schema';
+import { parseYaml } from './yaml';
+
+/**
+ * A step a template puts in the plan
+ */
+export interface PlanTemplateStep {
+  description: string;
+  changeType?: ChangeType;
+  // Which of the plan's files the step targets; otherwise the files its description names
+  files?: 'source' | 'tests' | 'all';
+  acceptanceChecks?: string[];
+}
+
+/**
+ * A resolution strategy for a kind of issue: the steps and testing strategy its plan starts from
+ */
+export interface PlanTemplate {
+  name: string;
+  description?: string;
+  // Chosen for issues with any of these labels, or else of one of these triage classes
+  labels: string[];
+  classes: IssueClass[];
+  steps: PlanTemplateStep[];
+  testingStrategy?: string;
+  successCriteria?: string;
+}
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+/**
+ * JSON Schema for one template; steps may be plain descriptions
+ */
+export const PLAN_TEMPLATE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['name', 'steps'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string', minLength: 1 },
+    labels: stringList,
+    classes: { type: 'array', items: { type: 'string', enum: ISSUE_CLASSES } },
+    steps: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: ['string', 'object'],
+        minLength: 1,
+        required: ['description'],
+        additionalProperties: false,
+        properties: {
+          description: { type: 'string', minLength: 1 },
+          changeType: { type: 'string', enum: CHANGE_TYPES },
+          files: { type: 'string', enum: ['source', 'tests', 'all'] },
+          acceptanceChecks: stringList
+        }
+      }
+    },
+    testingStrategy: { type: 'string', minLength: 1 },
+    successCriteria: { type: 'string', minLength: 1 }
+  }
+};
+
+/**
+ * Templates available to every repository; custom templates with the same name replace them
+ */
+export const BUILTIN_PLAN_TEMPLATES: PlanTemplate[] = [
+  {
+    name: 'dependency-update',
+    description: 'Update a dependency and adapt the code to the new version',
+    labels: ['dependencies', 'dependency', 'deps', 'dependabot', 'renovate'],
+    classes: [],
+    steps: [
+      {
+        description: 'Update the dependency version in the manifest',
+        changeType: 'config',
+        acceptanceChecks: ['The manifest requires the new version']
+      },
+      {
+        description: 'Regenerate the lockfile with the project\'s package manager',
+        changeType: 'config',
+        acceptanceChecks: ['The lockfile resolves the new version']
+      },
+      {
+        description: 'Adapt the code to breaking changes listed in the release notes',
+        changeType: 'modify',
+        files: 'source',
+        acceptanceChecks: ['The project builds against the new version']
+      }
+    ],
+    testingStrategy: 'Build the project and run the full test suite against the updated dependency',
+    successCriteria: 'The dependency is on the requested version and all tests pass'
+  },
+  {
+    name: 'docs-fix',
+    description: 'Correct documentation, comments or wording',
+    labels: ['documentation', 'docs', 'typo'],
+    classes: ['docs'],
+    steps: [
+      {
+        description: 'Correct the text the issue points out',
+        changeType: 'docs',
+        files: 'all',
+        acceptanceChecks: ['The text reads as the issue asks']
+      },
+      {
+        description: 'Check that links, code samples and references in the changed text still hold',
+        changeType: 'none',
+        acceptanceChecks: ['Every link and code sample in the changed text is valid']
+      }
+    ],
+    testingStrategy: 'Proofread the changed text and build the documentation if the project has a docs build',
+    successCriteria: 'The documentation is correct and no code behavior changed'
+  },
+  {
+    name: 'missing-test',
+    description: 'Cover untested behavior with tests, without changing production code',
+    labels: ['tests', 'test', 'testing', 'coverage', 'missing tests'],
+    classes: [],
+    steps: [
+      {
+        description: 'Find the untested behavior and how the existing tests are written',
+        changeType: 'none',
+        files: 'all'
+      },
+      {
+        description: 'Add tests covering the behavior described in the issue',
+        changeType: 'test',
+        files: 'tests',
+        acceptanceChecks: ['The new tests pass', 'The new tests fail when the behavior is broken']
+      }
+    ],
+    testingStrategy: 'Run the new tests, then the full test suite',
+    successCriteria: 'The behavior is covered by passing tests and no production code changed'
+  },
+  {
+    name: 'flaky-test',
+    description: 'Quarantine a flaky test and fix its nondeterminism where possible',
+    labels: ['flaky', 'flaky-test', 'flaky test', 'flake'],
+    classes: [],
+    steps: [
+      {
+        description: 'Reproduce the flaky test by running it repeatedly and note how often and how it fails',
+        changeType: 'none',
+        files: 'tests'
+      },
+      {
+        description: 'Quarantine the flaky test with the test framework\'s skip mechanism, referencing this issue',
+        changeType: 'test',
+        files: 'tests',
+        acceptanceChecks: ['The test is skipped with a reference to this issue']
+      },
+      {
+        description: 'Fix the source of nondeterminism (timing, ordering, shared state) if it can be identified, and re-enable the test',
+        changeType: 'modify',
+        files: 'all',
+        acceptanceChecks: ['The test passes on repeated runs']
+      }
+    ],
+    testingStrategy: 'Run the affected test many times in a row, then the full test suite once',
+    successCriteria: 'The test suite passes reliably and the flaky test is fixed or skipped with a reference to this issue'
+  },
+  {
+    name: 'config-change',
+    description: 'Change project, build or CI configuration',
+    labels: ['config', 'configuration', 'ci', 'build'],
+    classes: [],
+    steps: [
+      {
+        description: 'Change the configuration the issue describes',
+        changeType: 'config',
+        files: 'all',
+        acceptanceChecks: ['The configuration has the requested value']
+      },
+      {
+        description: 'Update documentation and examples that mention the setting',
+        changeType: 'docs'
+      }
+    ],
+    testingStrategy: 'Run the build and the full test suite with the changed configuration',
+    successCriteria: 'The new configuration takes effect and nothing else changes'
+  },
+  {
+    name: 'feature',
+    description: 'Add new behavior with tests and documentation',
+    labels: ['enhancement', 'feature', 'feature request'],
+    classes: ['feature'],
+    steps: [
+      {
+        description: 'Design the change: the new behavior, its interface and edge cases',
+        changeType: 'none',
+        files: 'source'
+      },
+      {
+        description: 'Implement the new behavior',
+        changeType: 'add',
+        files: 'source',
+        acceptanceChecks: ['The feature behaves as the issue describes']
+      },
+      {
+        description: 'Add tests for the new behavior and its edge cases',
+        changeType: 'test',
+        files: 'tests',
+        acceptanceChecks: ['The new tests pass']
+      },
+      {
+        description: 'Document the new behavior',
+        changeType: 'docs',
+        acceptanceChecks: ['The documentation describes the feature and how to use it']
+      }
+    ],
+    testingStrategy: 'Write tests for the new behavior and its edge cases, then run the full test suite',
+    successCriteria: 'The feature works as described, is tested and documented, and all tests pass'
+  }
+];
+
+/**
+ * Validate templates read from a file and fill in their defaults
+ *
+ * @returns The templates, or the schema violations when there are any
+ */
+export function parsePlanTemplates(value: unknown, path: string): { templates: PlanTemplate[]; errors: string[] } {
+  const errors = validateSchema(value, { type: 'array', items: PLAN_TEMPLATE_SCHEMA }, path);
+  if (errors.length > 0) {
+    return { templates: [], errors };
+  }
+
+  const templates = (value as any[]).map(template => ({
+    ...template,
+    labels: template.labels || [],
+    classes: template.classes || [],
+    steps: template.steps.map((step: string | PlanTemplateStep) => typeof step === 'string' ? { description: step } : step)
+  }));
+
+  return { templates, errors: [] };
+}
+
+/**
+ * The templates to choose from: the repository's, then the server's from PLAN_TEMPLATES_FILE,
+ * then the built-in ones; the first template with a given name wins
+ */
+export function getPlanTemplates(repositoryTemplates: PlanTemplate[] = []): PlanTemplate[] {
+  const templates = [...repositoryTemplates, ...loadServerPlanTemplates(), ...BUILTIN_PLAN_TEMPLATES];
+  return templates.filter((template, index) => templates.findIndex(other => other.name === template.name) === index);
+}
+
+/**
+ * Choose a template by label, or failing that by triage class; earlier templates win ties
+ */
+export function selectPlanTemplate(
+  templates: PlanTemplate[],
+  labels: string[],
+  classification?: IssueClass
+): { template: PlanTemplate; reason: string } | undefined {
+  const issueLabels = labels.map(label => label.toLowerCase());
+
+  for (const template of templates) {
+    const label = template.labels.find(candidate => issueLabels.includes(candidate.toLowerCase()));
+    if (label) {
+      return { template, reason: `label "${label}"` };
+    }
+  }
+
+  const byClass = classification && templates.find(template => template.classes.includes(classification));
+  return byClass ? { template: byClass, reason: `triage class ${classification}` } : undefined;
+}
+
+/**
+ * Read the server's templates, a YAML or JSON list, from PLAN_TEMPLATES_FILE
+ */
+function loadServerPlanTemplates(): PlanTemplate[] {
+  const file = config.planTemplatesFile;
+  if (!file) {
+    return [];
+  }
+
+  let value: unknown;
+  try {
+    const content = fs.readFileSync(file, 'utf-8');
+    value = file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Failed to read PLAN_TEMPLATES_FILE ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const { templates, errors } = parsePlanTemplates(value, 'templates');
+  if (errors.length > 0) {
+    throw new Error(`PLAN_TEMPLATES_FILE ${file} is invalid: ${errors.join('; ')}`);
+  }
+
+  return templates;
+}
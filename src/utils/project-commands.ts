@@ -0,0 +1,329 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { CodebaseAnalysis, PackageManagerName, SubProject } from '../services/codebase-analysis.service';
+import { toCommand } from './repo-config';
+
+export type CommandStep = 'install' | 'build' | 'test';
+
+export type CommandSource = 'parameter' | 'repository configuration' | 'package.json' | 'composer.json' | 'Makefile' | 'toolchain';
+
+/**
+ * A command to run in the development container and where it came from
+ */
+export interface ResolvedCommand {
+  command: string[];
+  source: CommandSource;
+}
+
+/**
+ * The commands for each step; a step without a command is skipped
+ */
+export type ProjectCommands = Partial<Record<CommandStep, ResolvedCommand>>;
+
+/**
+ * Commands given for a single run; a string is run with sh -c, a list as is
+ */
+export type CommandOverrides = Partial<Record<CommandStep, string | string[]>>;
+
+// Makefile targets tried for each step, in order; "install" usually installs the built program instead
+const MAKEFILE_TARGETS: Record<CommandStep, string[]> = {
+  install: ['deps', 'install-deps', 'dependencies'],
+  build: ['build'],
+  test: ['test', 'check']
+};
+
+const MAKEFILE_NAMES = ['GNUmakefile', 'makefile', 'Makefile'];
+
+// Test script npm init writes, which always fails
+const NPM_PLACEHOLDER_TEST = /no test specified/;
+
+const MAKE_RULE_PATTERN = /^([A-Za-z0-9_][\w.\-/]*(?:[ \t]+[A-Za-z0-9_][\w.\-/]*)*)[ \t]*::?(?!=)/;
+
+/**
+ * Resolve the install, build and test commands for a workspace.
+ *
+ * Each step takes the first command found in: the overrides, the repository
+ * configuration, a command scoped to the plan's target projects, the scripts of
+ * package.json or composer.json, the Makefile's targets and finally the
+ * toolchain's default, which honors the lockfile when there is one.
+ *
+ * @param configured Commands from the repository configuration, as argv
+ */
+export async function resolveProjectCommands(
+  workspacePath: string,
+  analysis: CodebaseAnalysis,
+  targetProjects: SubProject[] = [],
+  configured: Partial<Record<CommandStep, string[]>> = {},
+  overrides: CommandOverrides = {}
+): Promise<ProjectCommands> {
+  const scripts = await readScripts(workspacePath, analysis);
+  const makeTargets = await readMakefileTargets(workspacePath);
+  const commands: ProjectCommands = {};
+
+  for (const step of ['install', 'build', 'test'] as CommandStep[]) {
+    const override = overrides[step];
+    if (override !== undefined && override.length === 0) {
+      throw new Error(`The ${step} command given for this run is empty`);
+    }
+    
+    const candidates: Array<[CommandSource, string[] | undefined]> = [
+      ['parameter', toCommand(override)],
+      ['repository configuration', configured[step]],
+      ['toolchain', getScopedCommand(step, analysis, targetProjects)],
+      [scripts?.source || 'package.json', scripts && getScriptCommand(step, analysis, scripts.names)],
+      ['Makefile', getMakefileCommand(step, makeTargets)],
+      ['toolchain', await getToolchainCommand(step, workspacePath, analysis, scripts?.names)]
+    ];
+    
+    const found = candidates.find(([, command]) => command !== undefined);
+    if (found) {
+      commands[step] = { command: found[1]!, source: found[0] };
+    }
+  }
+
+  return commands;
+}
+
+/**
+ * Describe a resolved command for logs and messages
+ */
+export function formatCommand(resolved: ResolvedCommand): string {
+  return `${resolved.command.join(' ')} (${resolved.source})`;
+}
+
+/**
+ * Install or test command limited to workspace packages or Gradle modules, if the build system supports it
+ */
+function getScopedCommand(step: CommandStep, analysis: CodebaseAnalysis, targetProjects: SubProject[]): string[] | undefined {
+  if (targetProjects.length === 0 || step === 'build') {
+    return undefined;
+  }
+
+  if (step === 'install') {
+    // Scoping the install must not rewrite the lockfile, as the unscoped install would not either
+    const locked = Boolean(analysis.packageManager?.lockfile);
+    
+    switch (analysis.buildSystem) {
+      case 'npm':
+        return ['npm', locked ? 'ci' : 'install', ...targetProjects.map(project => `--workspace=${project.path}`)];
+      case 'pnpm':
+        // The trailing "..." also installs the workspace packages each target depends on
+        return [
+          'pnpm',
+          'install',
+          ...(locked ? ['--frozen-lockfile'] : []),
+          ...targetProjects.flatMap(project => ['--filter', `${project.name}...`])
+        ];
+      case 'gradle':
+        return ['./gradlew', ...targetProjects.map(project => `${project.name}:build`), '-x', 'test'];
+      default:
+        // Yarn installs the whole workspace at once
+        return undefined;
+    }
+  }
+
+  switch (analysis.buildSystem) {
+    case 'npm':
+      return ['npm', 'test', ...targetProjects.map(project => `--workspace=${project.path}`)];
+    case 'pnpm':
+      return ['pnpm', ...targetProjects.flatMap(project => ['--filter', project.name]), 'test'];
+    case 'yarn':
+      if (targetProjects.length === 1) {
+        return ['yarn', 'workspace', targetProjects[0].name, 'test'];
+      }
+      
+      // Only yarn berry can run a script across a chosen set of workspaces
+      return analysis.packageManager?.name === 'yarn-berry'
+        ? ['yarn', 'workspaces', 'foreach', ...targetProjects.flatMap(project => ['--include', project.name]), 'run', 'test']
+        : undefined;
+    case 'gradle':
+      return ['./gradlew', ...targetProjects.map(project => `${project.name}:test`)];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build or test command running a script the project defines
+ */
+function getScriptCommand(step: CommandStep, analysis: CodebaseAnalysis, scripts: string[]): string[] | undefined {
+  const runner = analysis.buildSystem === 'composer' ? 'composer' : analysis.buildSystem;
+
+  if (step === 'test' && scripts.includes('test')) {
+    return [runner, 'test'];
+  }
+  if (step === 'build' && scripts.includes('build')) {
+    return runner === 'composer' ? ['composer', 'run-script', 'build'] : [runner, 'run', 'build'];
+  }
+
+  return undefined;
+}
+
+function getMakefileCommand(step: CommandStep, targets: string[]): string[] | undefined {
+  const target = MAKEFILE_TARGETS[step].find(candidate => targets.includes(candidate));
+  return target ? ['make', target] : undefined;
+}
+
+/**
+ * The toolchain's own command for a step
+ *
+ * @param scripts Scripts of the project's package.json, when it has one
+ */
+async function getToolchainCommand(
+  step: CommandStep,
+  workspacePath: string,
+  analysis: CodebaseAnalysis,
+  scripts?: string[]
+): Promise<string[] | undefined> {
+  const packageManager: PackageManagerName | undefined = analysis.packageManager?.name;
+  const locked = Boolean(analysis.packageManager?.lockfile);
+
+  switch (step) {
+    case 'install':
+      switch (analysis.buildSystem) {
+        case 'npm':
+          // npm ci installs exactly what the lockfile records and fails when it is out of date
+          return locked ? ['npm', 'ci'] : ['npm', 'install'];
+        case 'pnpm':
+          return locked ? ['pnpm', 'install', '--frozen-lockfile'] : ['pnpm', 'install'];
+        case 'yarn':
+          if (!locked) {
+            return ['yarn', 'install'];
+          }
+          return packageManager === 'yarn-berry' ? ['yarn', 'install', '--immutable'] : ['yarn', 'install', '--frozen-lockfile'];
+        case 'poetry':
+          return ['poetry', 'install', '--no-interaction'];
+        case 'uv':
+          return locked ? ['uv', 'sync', '--locked'] : ['uv', 'sync'];
+        case 'pipenv':
+          return locked ? ['pipenv', 'sync', '--dev'] : ['pipenv', 'install', '--dev'];
+        case 'pip':
+          return getPipInstallCommand(workspacePath);
+        case 'go':
+          return ['go', 'mod', 'download'];
+        case 'bundler':
+          return ['bundle', 'install'];
+        case 'maven':
+          return ['mvn', 'install', '-DskipTests'];
+        case 'gradle':
+          return ['./gradlew', 'build', '-x', 'test'];
+        case 'cargo':
+          return ['cargo', 'build'];
+        case 'composer':
+          return ['composer', 'install', '--no-interaction'];
+        case 'dotnet':
+          return locked ? ['dotnet', 'restore', '--locked-mode'] : ['dotnet', 'restore'];
+        default:
+          return undefined;
+      }
+    case 'build':
+      // Other toolchains build while installing or testing
+      switch (analysis.buildSystem) {
+        case 'go':
+          return ['go', 'build', './...'];
+        case 'dotnet':
+          return ['dotnet', 'build', '--no-restore'];
+        default:
+          return undefined;
+      }
+    case 'test':
+      switch (analysis.buildSystem) {
+        case 'npm':
+        case 'yarn':
+        case 'pnpm':
+          // A package.json without a test script has nothing to run
+          return scripts ? undefined : [analysis.buildSystem, 'test'];
+        case 'poetry':
+          return ['poetry', 'run', 'pytest'];
+        case 'uv':
+          return ['uv', 'run', 'pytest'];
+        case 'pipenv':
+          return ['pipenv', 'run', 'pytest'];
+        case 'pip':
+          return ['python', '-m', 'pytest'];
+        case 'go':
+          return ['go', 'test', './...'];
+        case 'bundler':
+          return ['bundle', 'exec', 'rake', 'test'];
+        case 'maven':
+          return ['mvn', 'test'];
+        case 'gradle':
+          return ['./gradlew', 'test'];
+        case 'cargo':
+          return ['cargo', 'test'];
+        case 'composer':
+          return ['vendor/bin/phpunit'];
+        case 'dotnet':
+          return ['dotnet', 'test', '--no-restore'];
+        default:
+          return undefined;
+      }
+  }
+}
+
+/**
+ * Install the requirements files when there are any, otherwise the project itself
+ */
+async function getPipInstallCommand(workspacePath: string): Promise<string[]> {
+  const requirements: string[] = [];
+  for (const file of ['requirements.txt', 'requirements-dev.txt']) {
+    if (await fs.pathExists(path.join(workspacePath, file))) {
+      requirements.push('-r', file);
+    }
+  }
+
+  return requirements.length > 0 ? ['pip', 'install', ...requirements] : ['pip', 'install', '-e', '.'];
+}
+
+/**
+ * Read the script names of the package.json or composer.json at the workspace root
+ */
+async function readScripts(
+  workspacePath: string,
+  analysis: CodebaseAnalysis
+): Promise<{ source: 'package.json' | 'composer.json'; names: string[] } | undefined> {
+  const source = ['npm', 'yarn', 'pnpm'].includes(analysis.buildSystem)
+    ? 'package.json'
+    : analysis.buildSystem === 'composer' ? 'composer.json' : undefined;
+  if (!source || !await fs.pathExists(path.join(workspacePath, source))) {
+    return undefined;
+  }
+
+  let manifest: any;
+  try {
+    manifest = await fs.readJson(path.join(workspacePath, source));
+  } catch (error) {
+    throw new Error(`Failed to read ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const scripts: Record<string, unknown> = manifest?.scripts && typeof manifest.scripts === 'object' ? manifest.scripts : {};
+  const names = Object.keys(scripts).filter(name =>
+    !(source === 'package.json' && name === 'test' && NPM_PLACEHOLDER_TEST.test(String(scripts[name])))
+  );
+
+  return { source, names };
+}
+
+/**
+ * Read the explicit targets of the Makefile at the workspace root, the way make picks the file
+ */
+async function readMakefileTargets(workspacePath: string): Promise<string[]> {
+  for (const name of MAKEFILE_NAMES) {
+    const filePath = path.join(workspacePath, name);
+    if (!await fs.pathExists(filePath)) {
+      continue;
+    }
+    
+    const targets = new Set<string>();
+    for (const line of (await fs.readFile(filePath, 'utf-8')).split('\n')) {
+      // Recipe lines start with a tab and variable assignments use "=", ":=" or "::="
+      const match = line.match(MAKE_RULE_PATTERN);
+      if (match && !/^\s*[:?+!]?=/.test(line.substring(match[0].length))) {
+        match[1].split(/[ \t]+/).forEach(target => targets.add(target));
+      }
+    }
+    return Array.from(targets);
+  }
+
+  return [];
+}
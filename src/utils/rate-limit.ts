@@ -0,0 +1,219 @@
+import config from '../config';
+import logger from './logger';
+
+type HeaderSource = Headers | Record<string, string | number | undefined> | undefined;
+
+export interface RateLimitState {
+  limit?: number;
+  remaining?: number;
+  resetAt?: Date;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Raised when a request cannot be completed within the rate limit budget
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public resetAt?: Date) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+const TRANSIENT_STATUSES = [500, 502, 503, 504];
+
+// Methods that can be sent twice without changing the outcome; a POST or PATCH that failed
+// with a 5xx or a dropped connection may already have been applied
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+/**
+ * Read a header from either a fetch Headers object or a plain header map
+ */
+function getHeader(headers: HeaderSource, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const value = (headers as Record<string, string | number | undefined>)[name];
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Wraps API requests with rate limit tracking and retries.
+ *
+ * Reads `x-ratelimit-*` (GitHub, Gitea) and `ratelimit-*` (GitLab) headers,
+ * honours `retry-after` on secondary/abuse limits, backs off exponentially
+ * on 5xx and network errors for idempotent methods, and refuses to wait
+ * longer than `maxWaitMs`. Requests rejected by a rate limit were never
+ * processed, so they are retried whatever their method.
+ */
+export class RateLimitedRequester {
+  private state: RateLimitState = {};
+  private rateLimitedCount = 0;
+  private options: RetryOptions;
+
+  constructor(options: Partial<RetryOptions> = {}) {
+    this.options = {
+      maxRetries: config.requestMaxRetries,
+      baseDelayMs: 1000,
+      maxWaitMs: config.rateLimitMaxWaitSeconds * 1000,
+      ...options
+    };
+  }
+
+  /**
+   * Latest known rate limit budget
+   */
+  getState(): RateLimitState {
+    return { ...this.state };
+  }
+
+  /**
+   * Number of requests that were abandoned because of rate limiting
+   */
+  getRateLimitedCount(): number {
+    return this.rateLimitedCount;
+  }
+
+  /**
+   * Send a request, retrying transient failures and waiting out short rate limits
+   *
+   * @param method HTTP method of the request; only idempotent methods are retried after transient failures
+   */
+  async execute<T extends { headers?: HeaderSource }>(send: () => Promise<T>, method = 'GET'): Promise<T> {
+    await this.waitForBudget();
+    
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await send();
+        this.updateState(response.headers);
+        return response;
+      } catch (error) {
+        const status = (error as { status?: number }).status;
+        const headers = this.getErrorHeaders(error);
+        this.updateState(headers);
+        
+        // Not Modified is the expected outcome of a conditional request
+        if (status === 304) {
+          throw error;
+        }
+        
+        const rateLimitDelay = this.getRateLimitDelay(status, headers, error);
+        
+        if (rateLimitDelay !== undefined) {
+          if (attempt >= this.options.maxRetries || rateLimitDelay > this.options.maxWaitMs) {
+            this.rateLimitedCount++;
+            throw new RateLimitError(
+              `API rate limit exceeded${this.state.resetAt ? `, resets at ${this.state.resetAt.toISOString()}` : ''}`,
+              this.state.resetAt
+            );
+          }
+          
+          logger.warn('Rate limited, waiting before retrying', { status, delayMs: rateLimitDelay, attempt });
+          await this.sleep(rateLimitDelay);
+          continue;
+        }
+        
+        const isTransient = status === undefined || TRANSIENT_STATUSES.includes(status);
+        const isIdempotent = IDEMPOTENT_METHODS.includes(method.toUpperCase());
+        
+        if (!isTransient || !isIdempotent || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        
+        // Exponential backoff with jitter
+        const delay = this.options.baseDelayMs * Math.pow(2, attempt) * (1 + Math.random() / 2);
+        logger.warn('Transient request failure, retrying', { status, delayMs: Math.round(delay), attempt });
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Wait until the primary rate limit resets when the budget is known to be exhausted
+   */
+  private async waitForBudget(): Promise<void> {
+    const { remaining, resetAt } = this.state;
+    
+    if (remaining !== 0 || !resetAt) {
+      return;
+    }
+    
+    const delay = resetAt.getTime() - Date.now();
+    
+    if (delay <= 0) {
+      return;
+    }
+    
+    if (delay > this.options.maxWaitMs) {
+      this.rateLimitedCount++;
+      throw new RateLimitError(`API rate limit exhausted until ${resetAt.toISOString()}`, resetAt);
+    }
+    
+    logger.warn('Rate limit budget exhausted, waiting for reset', { delayMs: delay });
+    await this.sleep(delay);
+  }
+
+  /**
+   * Determine how long to wait if a failed request was rejected by a rate limit
+   */
+  private getRateLimitDelay(status: number | undefined, headers: HeaderSource, error: unknown): number | undefined {
+    if (status !== 403 && status !== 429) {
+      return undefined;
+    }
+    
+    const retryAfter = getHeader(headers, 'retry-after');
+    if (retryAfter !== undefined) {
+      return Math.max(parseInt(retryAfter, 10) || 0, 1) * 1000;
+    }
+    
+    if (this.state.remaining === 0 && this.state.resetAt) {
+      return Math.max(this.state.resetAt.getTime() - Date.now(), 1000);
+    }
+    
+    // Secondary limits without retry-after should wait at least a minute
+    const message = error instanceof Error ? error.message.toLowerCase() : '';
+    if (status === 429 || message.includes('secondary rate limit') || message.includes('abuse')) {
+      return 60000;
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * Record the rate limit budget reported by the server
+   */
+  private updateState(headers: HeaderSource): void {
+    const limit = getHeader(headers, 'x-ratelimit-limit') ?? getHeader(headers, 'ratelimit-limit');
+    const remaining = getHeader(headers, 'x-ratelimit-remaining') ?? getHeader(headers, 'ratelimit-remaining');
+    const reset = getHeader(headers, 'x-ratelimit-reset') ?? getHeader(headers, 'ratelimit-reset');
+    
+    if (limit !== undefined) this.state.limit = parseInt(limit, 10);
+    if (remaining !== undefined) this.state.remaining = parseInt(remaining, 10);
+    if (reset !== undefined) this.state.resetAt = new Date(parseInt(reset, 10) * 1000);
+  }
+
+  /**
+   * Extract response headers from an Octokit RequestError or HttpError
+   */
+  private getErrorHeaders(error: unknown): HeaderSource {
+    const candidate = error as { headers?: HeaderSource; response?: { headers?: HeaderSource } };
+    return candidate.response?.headers ?? candidate.headers;
+  }
+
+  /**
+   * Wait for the given number of milliseconds
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,146 @@
+import fs from 'fs-extra';
+import path from 'path';
+import logger from './logger';
+import { JsonSchema, validateSchema } from './json-schema';
+import { parsePlanTemplates, PlanTemplate, PLAN_TEMPLATE_SCHEMA } from './plan-templates';
+import { parseYaml } from './yaml';
+
+// Looked up in this order in the root of the target repository
+export const REPO_CONFIG_FILES = ['.github/issue-resolver.yml', '.github/issue-resolver.yaml'];
+
+/**
+ * Settings a repository gives the resolver, overriding what is detected
+ */
+export interface RepoConfig {
+  // File the settings were read from; absent when the repository has none
+  path?: string;
+  // Commands as argv; a string in the file is run with sh -c
+  install?: string[];
+  // Run before every test run
+  build?: string[];
+  test?: string[];
+  lint?: string[];
+  image?: string;
+  // Followed by the issue number and a slug of its title
+  branchPrefix?: string;
+  baseBranch?: string;
+  // Globs of paths the resolver must never change
+  protectedPaths: string[];
+  // Added to every pull request the resolver opens
+  labels: string[];
+  planTemplates: PlanTemplate[];
+}
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+const COMMAND_SCHEMA: JsonSchema = {
+  type: ['string', 'array'],
+  minLength: 1,
+  minItems: 1,
+  items: { type: 'string', minLength: 1 }
+};
+
+/**
+ * JSON Schema for the repository configuration file
+ */
+export const REPO_CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'issue-resolver.schema.json',
+  title: 'Issue resolver repository configuration',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    install: COMMAND_SCHEMA,
+    build: COMMAND_SCHEMA,
+    test: COMMAND_SCHEMA,
+    lint: COMMAND_SCHEMA,
+    image: { type: 'string', minLength: 1 },
+    branchPrefix: { type: 'string', minLength: 1 },
+    baseBranch: { type: 'string', minLength: 1 },
+    protectedPaths: stringList,
+    labels: stringList,
+    planTemplates: { type: 'array', items: PLAN_TEMPLATE_SCHEMA }
+  }
+};
+
+// Characters and sequences git does not allow in branch names
+const INVALID_REF_PATTERN = /[\s~^:?*[\\\x00-\x1f\x7f]|\.\.|@\{|^[-/.]|\/\/|\.lock(\/|$)/;
+
+/**
+ * Raised when the repository configuration cannot be read or does not match the schema
+ */
+export class RepoConfigError extends Error {
+  constructor(public file: string, public errors: string[]) {
+    super(`${file} is invalid: ${errors.join('; ')}`);
+    this.name = 'RepoConfigError';
+  }
+}
+
+/**
+ * Parse and validate the contents of a repository configuration file
+ */
+export function parseRepoConfig(content: string, file: string): RepoConfig {
+  let document: unknown;
+  try {
+    document = parseYaml(content) ?? {};
+  } catch (error) {
+    throw new RepoConfigError(file, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const errors = validateSchema(document, REPO_CONFIG_SCHEMA, 'config');
+  const settings = document as Record<string, any>;
+
+  if (errors.length === 0) {
+    for (const key of ['branchPrefix', 'baseBranch']) {
+      if (typeof settings[key] === 'string' && INVALID_REF_PATTERN.test(settings[key])) {
+        errors.push(`config.${key} "${settings[key]}" cannot be used in a git branch name`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new RepoConfigError(file, errors);
+  }
+
+  return {
+    path: file,
+    install: toCommand(settings.install),
+    build: toCommand(settings.build),
+    test: toCommand(settings.test),
+    lint: toCommand(settings.lint),
+    image: settings.image,
+    branchPrefix: settings.branchPrefix,
+    baseBranch: settings.baseBranch,
+    protectedPaths: settings.protectedPaths || [],
+    labels: settings.labels || [],
+    planTemplates: parsePlanTemplates(settings.planTemplates || [], 'config.planTemplates').templates
+  };
+}
+
+/**
+ * Read the configuration file from a local clone, or empty settings when there is none
+ */
+export async function loadRepoConfig(workspacePath: string): Promise<RepoConfig> {
+  for (const file of REPO_CONFIG_FILES) {
+    const filePath = path.join(workspacePath, file);
+    if (!await fs.pathExists(filePath)) {
+      continue;
+    }
+    
+    const config = parseRepoConfig(await fs.readFile(filePath, 'utf-8'), file);
+    logger.info('Loaded repository configuration', { file });
+    return config;
+  }
+
+  return { protectedPaths: [], labels: [], planTemplates: [] };
+}
+
+/**
+ * Normalize a configured command to argv; strings may use shell syntax
+ */
+export function toCommand(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'string' ? ['sh', '-c', value] : value;
+}
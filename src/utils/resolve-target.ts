@@ -0,0 +1,207 @@
+import { DEFAULT_GITHUB_SERVER_URL, detectForgeType, ForgeType, normalizeServerUrl } from './forge-hosts';
+
+export type TargetKind = 'issue' | 'pull_request';
+
+/**
+ * An issue or pull/merge request to resolve, parsed from a URL or shorthand reference
+ */
+export interface ResolveTarget {
+  forge: ForgeType;
+  serverUrl: string;
+  owner: string;
+  repo: string;
+  number: number;
+  kind: TargetKind;
+  // False for shorthand like owner/repo#12, which may name an issue or a pull request on GitHub and Gitea
+  kindKnown: boolean;
+  // Fragment pointing at a specific comment, e.g. "issuecomment-123" or "note_456"
+  commentAnchor?: string;
+}
+
+export interface RepositoryLocation {
+  forge: ForgeType;
+  serverUrl: string;
+  owner?: string;
+  repo?: string;
+}
+
+const ISSUE_SEGMENTS = ['issues'];
+const PULL_REQUEST_SEGMENTS = ['pull', 'pulls', 'merge_requests'];
+
+// owner/repo#12, group/subgroup/project!34, #12 or !34
+const SHORTHAND_PATTERN = /^(?:([\w.-]+(?:\/[\w.-]+)+))?([#!])(\d+)$/;
+
+const COMMENT_ANCHOR_PATTERN = /^(?:issuecomment-|note_|discussion_r|pullrequestreview-)\d+$/;
+
+/**
+ * Parse a resolve target.
+ *
+ * Accepts issue, pull request and merge request URLs (with trailing paths such
+ * as `/files` and comment fragments such as `#issuecomment-123`), and the
+ * shorthands `owner/repo#123`, `group/project!45`, `#123` and `!45`. Shorthands
+ * without a host resolve against the default repository's host, or github.com.
+ *
+ * @param reference URL or shorthand reference
+ * @param defaultRepository `owner/repo` or repository URL used for `#123` and hostless shorthands
+ */
+export function parseResolveTarget(reference: string, defaultRepository?: string): ResolveTarget {
+  const trimmed = reference.trim();
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    return parseTargetUrl(trimmed);
+  }
+
+  const shorthand = trimmed.match(SHORTHAND_PATTERN);
+  if (!shorthand) {
+    throw new Error(`Unrecognized issue reference: ${reference}. Use an issue or pull request URL, owner/repo#123 or #123`);
+  }
+
+  const [, repositoryPath, sigil, number] = shorthand;
+  const defaults = defaultRepository ? parseRepositoryLocation(defaultRepository) : undefined;
+
+  let owner = defaults?.owner;
+  let repo = defaults?.repo;
+
+  if (repositoryPath) {
+    const separator = repositoryPath.lastIndexOf('/');
+    owner = repositoryPath.substring(0, separator);
+    repo = repositoryPath.substring(separator + 1);
+  }
+
+  if (!owner || !repo) {
+    throw new Error(`The reference ${reference} needs a default repository (owner/repo) to resolve against`);
+  }
+  
+  assertValidPathSegments([...owner.split('/'), repo], reference);
+
+  const forge = defaults?.forge || 'github';
+
+  // "!" is GitLab's merge request sigil; "#" only implies an issue on GitLab
+  return {
+    forge,
+    serverUrl: defaults?.serverUrl || DEFAULT_GITHUB_SERVER_URL,
+    owner,
+    repo,
+    number: parseInt(number, 10),
+    kind: sigil === '!' ? 'pull_request' : 'issue',
+    kindKnown: sigil === '!' || forge === 'gitlab'
+  };
+}
+
+/**
+ * Build the web URL of a target's issue page, in the format the forge providers parse
+ */
+export function formatIssueUrl(target: ResolveTarget): string {
+  const separator = target.forge === 'gitlab' ? '/-/' : '/';
+  return `${target.serverUrl}/${target.owner}/${target.repo}${separator}issues/${target.number}`;
+}
+
+/**
+ * Describe a target in the forge's shorthand notation, e.g. owner/repo#12 or group/project!34
+ */
+export function formatTargetReference(target: ResolveTarget): string {
+  const sigil = target.forge === 'gitlab' && target.kind === 'pull_request' ? '!' : '#';
+  return `${target.owner}/${target.repo}${sigil}${target.number}`;
+}
+
+/**
+ * Parse an issue, pull request or merge request URL
+ */
+function parseTargetUrl(reference: string): ResolveTarget {
+  let url: URL;
+
+  try {
+    url = new URL(reference);
+  } catch (error) {
+    throw new Error(`Invalid issue URL: ${reference}`);
+  }
+
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  // Project paths are at least owner/repo; GitLab may nest groups and insert a "-" separator
+  const index = parts.findIndex((part, i) =>
+    i >= 2 &&
+    (ISSUE_SEGMENTS.includes(part) || PULL_REQUEST_SEGMENTS.includes(part)) &&
+    /^\d+$/.test(parts[i + 1] || '')
+  );
+
+  if (index === -1) {
+    throw new Error(`Not an issue or pull request URL: ${reference}`);
+  }
+
+  const projectParts = parts.slice(0, parts[index - 1] === '-' ? index - 1 : index);
+
+  if (projectParts.length < 2) {
+    throw new Error(`Not an issue or pull request URL: ${reference}`);
+  }
+  
+  assertValidPathSegments(projectParts, reference);
+
+  const anchor = url.hash.replace(/^#/, '');
+
+  return {
+    forge: detectForgeType(url),
+    serverUrl: normalizeServerUrl(url),
+    owner: projectParts.slice(0, -1).join('/'),
+    repo: projectParts[projectParts.length - 1],
+    number: parseInt(parts[index + 1], 10),
+    kind: PULL_REQUEST_SEGMENTS.includes(parts[index]) ? 'pull_request' : 'issue',
+    kindKnown: true,
+    commentAnchor: COMMENT_ANCHOR_PATTERN.test(anchor) ? anchor : undefined
+  };
+}
+
+/**
+ * Parse a default repository given as owner/repo or as a repository URL
+ */
+export function parseRepositoryLocation(repository: string): RepositoryLocation {
+  const trimmed = repository.trim();
+
+  if (!/^https?:\/\//i.test(trimmed)) {
+    const separator = trimmed.lastIndexOf('/');
+    
+    if (separator > 0) {
+      assertValidPathSegments(trimmed.split('/'), repository);
+    }
+    
+    return {
+      forge: 'github',
+      serverUrl: DEFAULT_GITHUB_SERVER_URL,
+      owner: separator > 0 ? trimmed.substring(0, separator) : undefined,
+      repo: separator > 0 ? trimmed.substring(separator + 1) : undefined
+    };
+  }
+
+  const url = new URL(trimmed);
+  const forge = detectForgeType(url);
+
+  // Drop GitLab's "/-/..." suffix and a trailing .git from clone URLs
+  const pathParts = url.pathname
+    .split('/-/')[0]
+    .replace(/\.git$/, '')
+    .split('/')
+    .filter(Boolean)
+    .map(decodeURIComponent);
+
+  // Only GitLab nests namespaces; elsewhere anything after owner/repo is a page path like /tree/main
+  const parts = forge === 'gitlab' ? pathParts : pathParts.slice(0, 2);
+  assertValidPathSegments(parts, repository);
+
+  return {
+    forge,
+    serverUrl: normalizeServerUrl(url),
+    owner: parts.length >= 2 ? parts.slice(0, -1).join('/') : undefined,
+    repo: parts.length >= 2 ? parts[parts.length - 1] : undefined
+  };
+}
+
+/**
+ * Reject owner, group and repository names that are empty, "." or "..", or contain
+ * slashes once decoded; they name directories when plans are stored
+ */
+function assertValidPathSegments(segments: string[], reference: string): void {
+  const invalid = segments.find(segment => segment === '' || segment === '.' || segment === '..' || /[/\\]/.test(segment));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid repository path in ${reference}: "${invalid}" is not an owner, group or repository name`);
+  }
+}
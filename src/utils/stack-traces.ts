@@ -0,0 +1,346 @@
+import type { ErrorLocation } from '../services/planner.service';
+
+export type StackTraceLanguage = 'javascript' | 'python' | 'java' | 'go' | 'rust';
+
+export interface StackFrame {
+  // Path as printed; for JVM frames, derived from the package and file name
+  file: string;
+  line?: number;
+  column?: number;
+  function?: string;
+}
+
+/**
+ * A stack trace found in issue text
+ */
+export interface StackTrace {
+  language: StackTraceLanguage;
+  // Exception class or error name; 'panic' for Go and Rust panics
+  exceptionType?: string;
+  message?: string;
+  // Innermost frame, where the error was raised, first
+  frames: StackFrame[];
+}
+
+// V8: "    at fn (/app/src/file.ts:12:5)" or "    at /app/src/file.js:3:1"
+const JS_FRAME = /^\s*at\s+(?:async\s+)?(?:(.*?)\s+\()?(?:file:\/\/)?((?:[A-Za-z]:)?[^\s()]+?\.(?:[cm]?[jt]sx?|vue|svelte)):(\d+):(\d+)\)?\s*$/;
+const JS_HEADER = /^\s*(?:Uncaught\s+)?(?:\(in promise\)\s+)?([A-Z]\w*(?:Error|Exception)|Error)(?:\s*\[\w+\])?(?::\s*(.*))?$/;
+
+// Python: '  File "/app/pkg/module.py", line 10, in handler'
+const PYTHON_FRAME = /^\s*File "([^"]+)", line (\d+)(?:, in (.+))?$/;
+// Names without a message must look like exceptions, so prose after a traceback is not taken for one
+const PYTHON_EXCEPTION = /^((?:[A-Za-z_]\w*\.)*[A-Z]\w*(?:Error|Exception|Warning|Interrupt|Exit)|(?:[A-Za-z_]\w*\.)*[A-Z]\w*(?=:))(?::\s*(.*))?$/;
+
+// JVM: "	at com.example.Foo.bar(Foo.java:42)"; "Caused by: java.io.IOException: ..."
+const JAVA_FRAME = /^\s*at\s+((?:[\w$]+\.)+)([\w$<>]+)\(([\w$-]+\.(?:java|kt|scala|groovy)):(\d+)\)\s*$/;
+const JAVA_CONTINUATION = /^\s*(?:at\s+[\w$.<>]+\((?:Native Method|Unknown Source)\)|\.\.\. \d+ (?:more|common frames omitted))\s*$/;
+const JAVA_HEADER = /^\s*(?:Exception in thread "[^"]*"\s+)?(?:Caused by:\s+|Suppressed:\s+)?((?:[a-z_$][\w$]*\.)+[A-Z][\w$]*)(?::\s*(.*))?$/;
+
+// Go: "main.process(0x1)" followed by "	/home/u/proj/main.go:12 +0x1d"
+const GO_FUNCTION = /^(?:created by\s+)?([\w./*()\[\]{}-]+?)(?:\([^()]*\))?(?:\s+in goroutine \d+)?$/;
+const GO_LOCATION = /^\s+(\S+\.go):(\d+)(?:\s+\+0x[0-9a-f]+)?\s*$/;
+const GO_PANIC = /^(?:panic|fatal error):\s*(.*)$/;
+
+// Rust: "thread 'main' panicked at src/main.rs:5:10:" (1.73+) or "... at 'message', src/main.rs:5:10"
+const RUST_PANIC = /^\s*thread '[^']*' panicked at (?:'(.*)', )?(\S+\.rs):(\d+):(\d+):?\s*$/;
+const RUST_BACKTRACE_FUNCTION = /^\s*\d+:\s+(?:0x[0-9a-f]+\s+-\s+)?(.+)$/;
+const RUST_BACKTRACE_LOCATION = /^\s*at\s+(\S+\.rs):(\d+)(?::(\d+))?\s*$/;
+
+// Frames in runtimes, standard libraries and dependencies are never the code to fix
+const LIBRARY_PATHS = [
+  /^node:/, /(^|\/)node_modules\//, /^internal\//,
+  /(^|\/)(site|dist)-packages\//, /(^|\/)lib\/python\d/, /^<frozen /,
+  /^\/rustc\//, /\/\.cargo\/registry\//, /(^|\/)library\/(std|core|alloc)\//,
+  /\/usr\/(local\/)?go\/src\//, /\/go\/pkg\/mod\//,
+  /^(java|javax|jdk|sun|kotlin|scala)\//
+];
+
+// Lines above the first frame searched for the error header
+const HEADER_LOOKBACK = 5;
+
+interface FoundTrace {
+  start: number;
+  trace: StackTrace;
+}
+
+/**
+ * Find the stack traces in issue text, in the order they appear.
+ *
+ * Recognizes V8 (Node.js, Chrome, Deno, Bun), Python tracebacks, JVM
+ * exceptions including "Caused by" chains, Go panics and Rust panics with
+ * their backtraces. Frames in runtimes and dependencies are dropped.
+ */
+export function extractStackTraces(text: string): StackTrace[] {
+  // Comments often quote traces from earlier replies
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => line.replace(/^>\s?/, ''));
+
+  return [
+    ...parseJavaScript(lines),
+    ...parsePython(lines),
+    ...parseJava(lines),
+    ...parseGo(lines),
+    ...parseRust(lines)
+  ]
+    .sort((a, b) => a.start - b.start)
+    .map(found => found.trace);
+}
+
+/**
+ * Map the frames of stack traces to files of the repository.
+ *
+ * Printed paths are usually absolute paths on another machine, and JVM
+ * frames only give the package, so a repository file matches when one
+ * path ends with the other; the longest match wins. Frames outside the
+ * repository are dropped, and each location is reported once.
+ */
+export function locateStackFrames(traces: StackTrace[], repositoryPaths: string[]): ErrorLocation[] {
+  const locations: ErrorLocation[] = [];
+
+  for (const trace of traces) {
+    for (const frame of trace.frames) {
+      const path = findRepositoryPath(frame.file, repositoryPaths);
+      if (!path || locations.some(location => location.path === path && location.line === frame.line)) {
+        continue;
+      }
+      
+      locations.push({
+        path,
+        line: frame.line,
+        function: frame.function,
+        exceptionType: trace.exceptionType,
+        message: trace.message
+      });
+    }
+  }
+
+  return locations;
+}
+
+function parseJavaScript(lines: string[]): FoundTrace[] {
+  const found: FoundTrace[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!/^\s*at\s/.test(lines[i]) || JAVA_FRAME.test(lines[i]) || JAVA_CONTINUATION.test(lines[i])) continue;
+    
+    // Internal frames like "at node:internal/..." continue the trace without adding a frame
+    const start = i;
+    const frames: StackFrame[] = [];
+    for (; i < lines.length && /^\s*at\s/.test(lines[i]) && !JAVA_FRAME.test(lines[i]); i++) {
+      const match = lines[i].match(JS_FRAME);
+      if (match && !isLibraryPath(match[2])) {
+        frames.push({ file: normalizePath(match[2]), line: Number(match[3]), column: Number(match[4]), function: match[1] || undefined });
+      }
+    }
+    
+    if (frames.length === 0 && !lines.slice(start, i).some(line => JS_FRAME.test(line))) continue;
+    
+    const header = findHeader(lines, start, JS_HEADER);
+    found.push({
+      start,
+      trace: { language: 'javascript', exceptionType: header?.[1], message: header?.[2]?.trim() || undefined, frames }
+    });
+  }
+
+  return found;
+}
+
+function parsePython(lines: string[]): FoundTrace[] {
+  const found: FoundTrace[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!PYTHON_FRAME.test(lines[i])) continue;
+    
+    const start = i;
+    const frames: StackFrame[] = [];
+    
+    // Each frame may be followed by its source line and caret markers, indented deeper
+    for (; i < lines.length; i++) {
+      const match = lines[i].match(PYTHON_FRAME);
+      if (match) {
+        if (!isLibraryPath(match[1])) {
+          frames.push({ file: normalizePath(match[1]), line: Number(match[2]), function: match[3]?.trim() });
+        }
+      } else if (!/^\s{2,}\S/.test(lines[i]) && !/^\s*\.\.\./.test(lines[i])) {
+        break;
+      }
+    }
+    
+    // The exception follows the frames; tracebacks list the innermost frame last
+    const exception = lines.slice(i, i + 2).map(line => line.match(PYTHON_EXCEPTION)).find(Boolean);
+    found.push({
+      start,
+      trace: {
+        language: 'python',
+        exceptionType: exception?.[1],
+        message: exception?.[2]?.trim() || undefined,
+        frames: frames.reverse()
+      }
+    });
+    i--;
+  }
+
+  return found;
+}
+
+function parseJava(lines: string[]): FoundTrace[] {
+  const found: FoundTrace[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!JAVA_FRAME.test(lines[i])) continue;
+    
+    const start = i;
+    const frames: StackFrame[] = [];
+    
+    for (; i < lines.length && (JAVA_FRAME.test(lines[i]) || JAVA_CONTINUATION.test(lines[i])); i++) {
+      const match = lines[i].match(JAVA_FRAME);
+      if (!match) continue;
+      
+      // The file lives in the directory of its package: com.example.Foo.bar → com/example/Foo.java
+      const qualifiedClass = match[1].replace(/\.$/, '');
+      const packagePath = qualifiedClass.split('.').filter(part => /^[a-z_]/.test(part)).join('/');
+      const file = packagePath ? `${packagePath}/${match[3]}` : match[3];
+      
+      if (!isLibraryPath(file)) {
+        frames.push({ file, line: Number(match[4]), function: `${qualifiedClass}.${match[2]}` });
+      }
+    }
+    
+    const header = start > 0 ? lines[start - 1].match(JAVA_HEADER) : null;
+    found.push({
+      start,
+      trace: { language: 'java', exceptionType: header?.[1], message: header?.[2]?.trim() || undefined, frames }
+    });
+    i--;
+  }
+
+  return found;
+}
+
+function parseGo(lines: string[]): FoundTrace[] {
+  const found: FoundTrace[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!GO_LOCATION.test(lines[i]) || !GO_FUNCTION.test(lines[i - 1].trim())) continue;
+    
+    const start = i - 1;
+    const frames: StackFrame[] = [];
+    
+    // Frames are function and location line pairs, innermost first
+    for (; i < lines.length && GO_LOCATION.test(lines[i]) && GO_FUNCTION.test(lines[i - 1].trim()); i += 2) {
+      const location = lines[i].match(GO_LOCATION)!;
+      const name = lines[i - 1].trim().match(GO_FUNCTION)![1];
+      
+      if (!isLibraryPath(location[1])) {
+        frames.push({ file: normalizePath(location[1]), line: Number(location[2]), function: name });
+      }
+    }
+    
+    const panic = findHeader(lines, start, GO_PANIC, HEADER_LOOKBACK + 2);
+    found.push({
+      start,
+      trace: { language: 'go', exceptionType: panic ? 'panic' : undefined, message: panic?.[1]?.trim() || undefined, frames }
+    });
+    i--;
+  }
+
+  return found;
+}
+
+function parseRust(lines: string[]): FoundTrace[] {
+  const found: FoundTrace[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const panic = lines[i].match(RUST_PANIC);
+    if (!panic) continue;
+    
+    const start = i;
+    const frames: StackFrame[] = [];
+    
+    if (!isLibraryPath(panic[2])) {
+      frames.push({ file: normalizePath(panic[2]), line: Number(panic[3]), column: Number(panic[4]) });
+    }
+    
+    // Since Rust 1.73 the message is on the line after the location
+    const message = panic[1] ?? (lines[i + 1]?.trim() && !/^note:|^stack backtrace:/.test(lines[i + 1].trim()) ? lines[i + 1].trim() : undefined);
+    
+    // A backtrace, when RUST_BACKTRACE is set, lists numbered functions with "at" locations
+    const backtrace = lines.slice(i + 1, i + 4).findIndex(line => /^\s*stack backtrace:/.test(line));
+    if (backtrace !== -1) {
+      let name: string | undefined;
+      for (i = i + backtrace + 2; i < lines.length; i++) {
+        const location = lines[i].match(RUST_BACKTRACE_LOCATION);
+        const functionLine = lines[i].match(RUST_BACKTRACE_FUNCTION);
+        
+        if (location) {
+          const frame = { file: normalizePath(location[1]), line: Number(location[2]), column: location[3] ? Number(location[3]) : undefined, function: name };
+          const duplicate = frames.find(existing => existing.file === frame.file && existing.line === frame.line);
+          
+          // The panic location repeats as a backtrace frame, which names its function
+          if (duplicate) {
+            duplicate.function = duplicate.function || name;
+          } else if (!isLibraryPath(location[1])) {
+            frames.push(frame);
+          }
+        } else if (functionLine) {
+          name = functionLine[1].trim().replace(/::h[0-9a-f]{16}$/, '');
+        } else {
+          break;
+        }
+      }
+      i--;
+    }
+    
+    found.push({ start, trace: { language: 'rust', exceptionType: 'panic', message, frames } });
+  }
+
+  return found;
+}
+
+/**
+ * Search the lines just above a trace for its header
+ */
+function findHeader(lines: string[], start: number, pattern: RegExp, lookback = HEADER_LOOKBACK): RegExpMatchArray | undefined {
+  for (let i = start - 1; i >= Math.max(0, start - lookback); i--) {
+    const match = lines[i].match(pattern);
+    if (match) {
+      return match;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the repository file a printed path refers to.
+ *
+ * An absolute path from another machine matches the longest repository path
+ * it ends with; a partial path, like a JVM package path or a bare file name,
+ * only matches when exactly one repository file ends with it.
+ */
+function findRepositoryPath(printedPath: string, repositoryPaths: string[]): string | undefined {
+  const path = printedPath.replace(/^\/+/, '');
+
+  const suffixes = repositoryPaths.filter(candidate => candidate === path || path.endsWith(`/${candidate}`));
+  if (suffixes.length > 0) {
+    return suffixes.reduce((best, candidate) => candidate.length > best.length ? candidate : best);
+  }
+
+  const extensions = repositoryPaths.filter(candidate => candidate.endsWith(`/${path}`));
+  return extensions.length === 1 ? extensions[0] : undefined;
+}
+
+/**
+ * Normalize a printed path: forward slashes, no file:// scheme, drive letter or leading ./
+ */
+function normalizePath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .replace(/^file:\/\//, '')
+    .replace(/^[A-Za-z]:\//, '/')
+    .replace(/^(\.\/)+/, '');
+}
+
+function isLibraryPath(path: string): boolean {
+  const normalized = normalizePath(path);
+  return LIBRARY_PATHS.some(pattern => pattern.test(normalized));
+}
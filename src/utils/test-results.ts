@@ -0,0 +1,319 @@
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export type TestFormat = 'junit' | 'tap' | 'jest' | 'pytest' | 'go';
+
+/**
+ * The outcome of one test
+ */
+export interface TestCase {
+  name: string;
+  // File, class or package the test belongs to
+  suite?: string;
+  status: TestStatus;
+  // First line of the failure message
+  message?: string;
+  // Seconds
+  duration?: number;
+}
+
+export interface TestSummary {
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * How the tests after a change differ from the tests before it, by test id
+ */
+export interface TestComparison {
+  // Failing now, but passing or absent before
+  newFailures: string[];
+  // Passing now, but failing or absent before
+  newPasses: string[];
+  // Failing before and after
+  preExistingFailures: string[];
+  // Run before, but not after: deleted, renamed or no longer collected
+  removedTests: string[];
+}
+
+const PYTEST_VERBOSE_PATTERN = /^(\S+::\S.*?) (PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)\b/;
+const PYTEST_SUMMARY_PATTERN = /^(PASSED|FAILED|ERROR|XFAIL|XPASS) (\S+::\S+)(?: - (.*))?$/;
+const TAP_LINE_PATTERN = /^\s*(not )?ok\b(?:\s+\d+)?(?:\s*-)?\s*([^#]*?)\s*(?:#\s*(\w+)(.*))?$/;
+
+/**
+ * Parse test results from a test runner's output, detecting the format.
+ *
+ * Recognizes `go test -json` events, Jest and Vitest JSON reports, JUnit XML,
+ * TAP and pytest's verbose or `-rA` summary lines.
+ *
+ * @param root Path prefix stripped from file names in suites, e.g. the workspace
+ * @returns The format and tests, or undefined when no test results were found
+ */
+export function parseTestOutput(output: string, root?: string): { format: TestFormat; tests: TestCase[] } | undefined {
+  const parsers: Array<[TestFormat, (text: string) => TestCase[]]> = [
+    ['go', parseGoTestJson],
+    ['jest', text => parseJestJson(text, root)],
+    ['junit', parseJUnitXml],
+    ['tap', parseTap],
+    ['pytest', parsePytest]
+  ];
+
+  for (const [format, parse] of parsers) {
+    const tests = parse(output);
+    if (tests.length > 0) {
+      return { format, tests };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse the test cases of a JUnit XML report, as written by Maven, Gradle, pytest and many others
+ */
+export function parseJUnitXml(xml: string): TestCase[] {
+  const tests: TestCase[] = [];
+  const testCasePattern = /<testcase\b([^>]*?)(\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const match of xml.matchAll(testCasePattern)) {
+    const attributes = parseXmlAttributes(match[1]);
+    const body = match[3] || '';
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    const time = parseFloat(attributes.time);
+    
+    tests.push({
+      name: attributes.name || '(unnamed)',
+      suite: attributes.classname || attributes.file || undefined,
+      status: failure ? 'failed' : /<skipped\b/.test(body) ? 'skipped' : 'passed',
+      message: failure ? firstLine(parseXmlAttributes(failure[2]).message || decodeXmlEntities(failure[3] || '')) : undefined,
+      duration: isNaN(time) ? undefined : time
+    });
+  }
+
+  return tests;
+}
+
+/**
+ * Summarize test outcomes by status
+ */
+export function summarizeTests(tests: TestCase[]): TestSummary {
+  return {
+    passed: tests.filter(test => test.status === 'passed').length,
+    failed: tests.filter(test => test.status === 'failed').length,
+    skipped: tests.filter(test => test.status === 'skipped').length
+  };
+}
+
+/**
+ * Identify a test across runs by its suite and name
+ */
+export function getTestId(test: TestCase): string {
+  return test.suite ? `${test.suite} > ${test.name}` : test.name;
+}
+
+/**
+ * Compare the tests after a change with a baseline run from before it
+ */
+export function compareTestRuns(baseline: TestCase[], current: TestCase[]): TestComparison {
+  const before = new Map(baseline.map(test => [getTestId(test), test.status]));
+  const after = new Set(current.map(getTestId));
+  const comparison: TestComparison = {
+    newFailures: [],
+    newPasses: [],
+    preExistingFailures: [],
+    removedTests: Array.from(before.keys()).filter(id => !after.has(id))
+  };
+
+  for (const test of current) {
+    const id = getTestId(test);
+    const previous = before.get(id);
+    
+    if (test.status === 'failed') {
+      (previous === 'failed' ? comparison.preExistingFailures : comparison.newFailures).push(id);
+    } else if (test.status === 'passed' && previous !== 'passed' && previous !== 'skipped') {
+      comparison.newPasses.push(id);
+    }
+  }
+
+  return comparison;
+}
+
+/**
+ * Parse `go test -json` events; subtests keep their full slash-separated names
+ */
+function parseGoTestJson(output: string): TestCase[] {
+  const tests = new Map<string, TestCase>();
+  const outputs = new Map<string, string[]>();
+
+  for (const line of output.split('\n')) {
+    if (!line.startsWith('{')) {
+      continue;
+    }
+    
+    let event: any;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    
+    if (typeof event.Action !== 'string' || typeof event.Test !== 'string') {
+      continue;
+    }
+    
+    const key = `${event.Package}\u0000${event.Test}`;
+    if (event.Action === 'output') {
+      outputs.set(key, [...(outputs.get(key) || []), String(event.Output || '')]);
+    } else if (['pass', 'fail', 'skip'].includes(event.Action)) {
+      const status: TestStatus = event.Action === 'pass' ? 'passed' : event.Action === 'fail' ? 'failed' : 'skipped';
+      // Go prints the failure's file:line and message indented under the test
+      const message = status === 'failed'
+        ? (outputs.get(key) || []).map(text => text.trim()).find(text => text && !/^(=== |--- )/.test(text))
+        : undefined;
+      
+      tests.set(key, {
+        name: event.Test,
+        suite: event.Package,
+        status,
+        message,
+        duration: typeof event.Elapsed === 'number' ? event.Elapsed : undefined
+      });
+    }
+  }
+
+  return Array.from(tests.values());
+}
+
+/**
+ * Parse a Jest or Vitest JSON report, which may follow other output
+ */
+function parseJestJson(output: string, root?: string): TestCase[] {
+  const start = output.indexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start === -1 || end < start || !output.includes('"testResults"')) {
+    return [];
+  }
+
+  let report: any;
+  try {
+    report = JSON.parse(output.substring(start, end + 1));
+  } catch {
+    return [];
+  }
+
+  if (!Array.isArray(report?.testResults)) {
+    return [];
+  }
+
+  const tests: TestCase[] = [];
+  for (const file of report.testResults) {
+    const suite = typeof file.name === 'string' ? stripRoot(file.name, root) : undefined;
+    
+    for (const assertion of file.assertionResults || []) {
+      const status: TestStatus = assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped';
+      tests.push({
+        name: assertion.fullName || [...(assertion.ancestorTitles || []), assertion.title].join(' '),
+        suite,
+        status,
+        message: status === 'failed' ? firstLine((assertion.failureMessages || [])[0] || '') : undefined,
+        duration: typeof assertion.duration === 'number' ? assertion.duration / 1000 : undefined
+      });
+    }
+    
+    // A file that fails to load has no assertions, only a message
+    if ((file.assertionResults || []).length === 0 && file.status === 'failed') {
+      tests.push({ name: '(test file)', suite, status: 'failed', message: firstLine(file.message || '') });
+    }
+  }
+
+  return tests;
+}
+
+/**
+ * Parse TAP, including indented subtests; SKIP and TODO directives count as skipped
+ */
+function parseTap(output: string): TestCase[] {
+  const tests: TestCase[] = [];
+  const lines = output.split('\n');
+
+  if (!lines.some(line => /^\s*(TAP version \d+|1\.\.\d+)\s*$/.test(line))) {
+    return [];
+  }
+
+  for (const line of lines) {
+    const match = line.match(TAP_LINE_PATTERN);
+    if (!match) {
+      continue;
+    }
+    
+    const [, notOk, name, directive, reason] = match;
+    const skipped = directive && /^(skip|todo)$/i.test(directive);
+    
+    tests.push({
+      name: name || '(unnamed)',
+      status: skipped ? 'skipped' : notOk ? 'failed' : 'passed',
+      message: notOk && !skipped && reason ? reason.trim() : undefined
+    });
+  }
+
+  return tests;
+}
+
+/**
+ * Parse pytest's verbose result lines and `-rA` short summary
+ */
+function parsePytest(output: string): TestCase[] {
+  const tests = new Map<string, TestCase>();
+
+  for (const line of output.split('\n').map(text => text.trimEnd())) {
+    const verbose = line.match(PYTEST_VERBOSE_PATTERN);
+    const summary = line.match(PYTEST_SUMMARY_PATTERN);
+    const [nodeId, outcome, message] = verbose ? [verbose[1], verbose[2], undefined] : summary ? [summary[2], summary[1], summary[3]] : [];
+    if (!nodeId || !outcome) {
+      continue;
+    }
+    
+    const separator = nodeId.indexOf('::');
+    const status: TestStatus = ['PASSED', 'XPASS'].includes(outcome) ? 'passed' : ['FAILED', 'ERROR'].includes(outcome) ? 'failed' : 'skipped';
+    
+    // The summary repeats the verbose lines with the failure message
+    tests.set(nodeId, {
+      name: nodeId.substring(separator + 2),
+      suite: nodeId.substring(0, separator),
+      status,
+      message: message || tests.get(nodeId)?.message
+    });
+  }
+
+  return Array.from(tests.values());
+}
+
+function parseXmlAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+  }
+
+  return attributes;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+function firstLine(text: string): string | undefined {
+  return text.split('\n').map(line => line.trim()).find(Boolean);
+}
+
+function stripRoot(file: string, root?: string): string {
+  return root && file.startsWith(`${root}/`) ? file.substring(root.length + 1) : file;
+}
@@ -0,0 +1,90 @@
+// Words too common in issue text and code to say anything about relevance
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'doesn', 'don', 'for', 'from', 'had', 'has', 'have', 'how', 'if', 'in', 'into', 'is', 'isn', 'it',
+  'its', 'just', 'like', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so', 'some', 'than', 'that',
+  'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'too', 'us', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+  'should', 'also', 'any', 'all', 'after', 'before', 'about', 'only', 'other', 'same', 'seems', 'still',
+  'expected', 'actual', 'behavior', 'behaviour', 'issue', 'bug', 'problem', 'please', 'thanks', 'thank',
+  'hi', 'hello', 'works', 'working', 'happens', 'reproduce', 'steps', 'version', 'using', 'used', 'use',
+  'way', 'want', 'need', 'try', 'tried', 'get', 'got', 'one', 'new', 'now', 'see', 'think', 'instead'
+]);
+
+// Identifier-like runs of letters, digits and underscores starting with a letter
+const IDENTIFIER_PATTERN = /[A-Za-z][A-Za-z0-9_]*/g;
+
+// Declarations across the supported languages: function/class/def/fn/func/struct/...
+const DECLARATION_PATTERNS = [
+  /\b(?:function|class|interface|type|enum|def|fn|func|struct|trait|module|impl|object|record)\s+([A-Za-z_]\w*)/g,
+  /\b(?:const|let|var|val)\s+([A-Za-z_]\w*)\s*[:=]/g,
+  // Go methods: func (r *Receiver) Name(
+  /\bfunc\s*\([^)]*\)\s*([A-Za-z_]\w*)/g,
+  // Java, C#, Kotlin and TypeScript class members with a modifier
+  /\b(?:public|private|protected|internal|static|override|async)\s+(?:[\w<>[\],.?]+\s+)*([A-Za-z_]\w*)\s*(?:<[^>]*>)?\s*\(/g
+];
+
+/**
+ * Split an identifier into its words: `parseHTTPResponse` → parse, HTTP, Response;
+ * `max_retry_count` → max, retry, count; `kebab-case` → kebab, case
+ */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_\-.]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Tokenize text or code into lowercase search terms.
+ *
+ * Compound identifiers yield their words and the whole identifier, so
+ * `parseConfig` matches both "parse config" and an exact `parseconfig`.
+ * Stopwords, single characters and numbers are dropped.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const match of text.matchAll(IDENTIFIER_PATTERN)) {
+    const words = splitIdentifier(match[0]);
+    
+    for (const word of words) {
+      const token = word.toLowerCase();
+      if (isSearchTerm(token)) {
+        tokens.push(token);
+      }
+    }
+    
+    if (words.length > 1) {
+      const whole = match[0].replace(/_/g, '').toLowerCase();
+      if (isSearchTerm(whole)) {
+        tokens.push(whole);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Find the names of functions, classes, types and variables declared in source code
+ */
+export function extractSymbols(content: string): string[] {
+  const symbols = new Set<string>();
+
+  for (const pattern of DECLARATION_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      symbols.add(match[1]);
+    }
+  }
+
+  return Array.from(symbols);
+}
+
+/**
+ * Check whether a lowercase token is worth searching for
+ */
+function isSearchTerm(token: string): boolean {
+  return token.length > 1 && !STOPWORDS.has(token) && !/^\d+$/.test(token);
+}
@@ -0,0 +1,97 @@
+/**
+ * One hunk of a file's diff
+ */
+export interface DiffHunk {
+  // The "@@ -a,b +c,d @@" line
+  header: string;
+  lines: string[];
+  added: number;
+  removed: number;
+}
+
+/**
+ * The changes to one file in a git diff
+ */
+export interface FileDiff {
+  path: string;
+  status: 'added' | 'deleted' | 'modified';
+  binary: boolean;
+  // Lines from "diff --git" up to the first hunk, needed to apply the hunks again
+  header: string[];
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+}
+
+/**
+ * Parse the output of `git diff` without rename detection into files and hunks
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | undefined;
+  let hunk: DiffHunk | undefined;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      hunk = undefined;
+      file = { path: parseDiffPath(line), status: 'modified', binary: false, header: [line], hunks: [], added: 0, removed: 0 };
+      files.push(file);
+    } else if (!file) {
+      continue;
+    } else if (line.startsWith('@@')) {
+      hunk = { header: line, lines: [], added: 0, removed: 0 };
+      file.hunks.push(hunk);
+    } else if (!hunk) {
+      file.header.push(line);
+      if (line.startsWith('new file mode')) {
+        file.status = 'added';
+      } else if (line.startsWith('deleted file mode')) {
+        file.status = 'deleted';
+      } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.binary = true;
+      }
+    } else if (line.startsWith('+') || line.startsWith('-') || line.startsWith(' ') || line.startsWith('\\')) {
+      hunk.lines.push(line);
+      if (line.startsWith('+')) {
+        hunk.added++;
+        file.added++;
+      } else if (line.startsWith('-')) {
+        hunk.removed++;
+        file.removed++;
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Render a file's header and some of its hunks as a patch `git apply` accepts
+ *
+ * @param hunkIndexes Zero-based indexes of the hunks to include; all when omitted
+ */
+export function formatFilePatch(file: FileDiff, hunkIndexes?: number[]): string {
+  const hunks = hunkIndexes ? file.hunks.filter((_, index) => hunkIndexes.includes(index)) : file.hunks;
+  return [...file.header, ...hunks.flatMap(hunk => [hunk.header, ...hunk.lines])].join('\n') + '\n';
+}
+
+/**
+ * Read the path from a "diff --git a/<path> b/<path>" line; without renames both sides
+ * name the same file, so paths with spaces split at the middle
+ */
+function parseDiffPath(line: string): string {
+  const names = line.substring('diff --git '.length);
+
+  // Paths with control characters, quotes or backslashes are quoted C-style
+  const quoted = names.match(/^"((?:[^"\\]|\\.)*)"/);
+  if (quoted) {
+    try {
+      return JSON.parse(`"${quoted[1]}"`).substring(2);
+    } catch {
+      // Octal escapes are not JSON; keep the path as git printed it
+      return quoted[1].substring(2);
+    }
+  }
+
+  return names.substring(2, 2 + (names.length - 5) / 2);
+}
@@ -0,0 +1,29 @@
+import { LineCounter, parseDocument } from 'yaml';
+
+/**
+ * Raised for YAML that cannot be read, with the 1-based line of the first problem
+ */
+export class YamlError extends Error {
+  constructor(message: string, public line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+/**
+ * Parse a YAML 1.2 document, as used by configuration files.
+ *
+ * Duplicate keys and files holding several documents are rejected rather
+ * than half read. An empty document parses to null.
+ */
+export function parseYaml(content: string): unknown {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(content, { lineCounter, prettyErrors: false });
+
+  const [error] = document.errors;
+  if (error) {
+    throw new YamlError(error.message, lineCounter.linePos(error.pos[0]).line);
+  }
+
+  return document.toJS();
+}
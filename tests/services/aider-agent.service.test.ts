@@ -0,0 +1,22 @@
+import { AiderAgent } from '../../src/services/aider-agent.service';
+import { AgentEnvironment } from '../../src/services/coding-agent.service';
+
+describe('AiderAgent', () => {
+  it('passes the target files after "--" so they are never read as options', async () => {
+    const exec = jest.fn().mockResolvedValue({ exitCode: 0, stdout: 'Applied edit to src/app.ts', stderr: '' });
+    const environment: AgentEnvironment = { workspacePath: '/workspace', exec };
+
+    await new AiderAgent('gpt-4o').implementStep(environment, {
+      issueNumber: 7,
+      stepNumber: 1,
+      totalSteps: 1,
+      description: 'Fix the crash',
+      targetFiles: ['src/app.ts', '--read=/etc/passwd'],
+      prompt: 'Fix the crash in src/app.ts'
+    });
+
+    const argv: string[] = exec.mock.calls[0][0];
+    expect(argv.slice(argv.indexOf('--'))).toEqual(['--', 'src/app.ts', '--read=/etc/passwd']);
+    expect(argv.slice(argv.indexOf('--message'), argv.indexOf('--message') + 2)).toEqual(['--message', 'Fix the crash in src/app.ts']);
+  });
+});
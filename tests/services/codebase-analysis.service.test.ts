@@ -0,0 +1,83 @@
+import { CodebaseAnalysisService } from '../../src/services/codebase-analysis.service';
+import { FileStructure } from '../../src/services/forge.service';
+import cache from '../../src/utils/cache';
+
+describe('CodebaseAnalysisService.readBlob', () => {
+  const service = new CodebaseAnalysisService();
+  const file = (): FileStructure => ({ type: 'file', path: 'README.md', name: 'README.md', sha: 'abc123', size: 10 });
+
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  it('fetches a blob once per host', async () => {
+    const fetchBlob = jest.fn().mockResolvedValue('# App');
+
+    expect(await service.readBlob(file(), 'github.com', fetchBlob)).toBe('# App');
+    expect(await service.readBlob(file(), 'github.com', fetchBlob)).toBe('# App');
+
+    expect(fetchBlob).toHaveBeenCalledTimes(1);
+  });
+
+  it('never answers one host from another host\'s cache', async () => {
+    await service.readBlob(file(), 'github.com', jest.fn().mockResolvedValue('# Public'));
+    const fetchBlob = jest.fn().mockResolvedValue('# Enterprise');
+
+    expect(await service.readBlob(file(), 'ghe.example.com', fetchBlob)).toBe('# Enterprise');
+    expect(fetchBlob).toHaveBeenCalledWith('abc123');
+  });
+});
+
+describe('CodebaseAnalysisService JavaScript package manager detection', () => {
+  const service = new CodebaseAnalysisService();
+
+  const analyze = (files: Record<string, string>) => service.analyze(
+    Object.keys(files).map(path => ({ path, type: 'blob', sha: path, size: files[path].length })),
+    async file => files[file.path]
+  );
+
+  const packageJson = (fields: Record<string, unknown> = {}) => JSON.stringify({ name: 'app', ...fields });
+
+  it('treats a package.json without a lockfile as npm', async () => {
+    const analysis = await analyze({ 'package.json': packageJson() });
+
+    expect(analysis.buildSystem).toBe('npm');
+    expect(analysis.packageManager).toEqual({ name: 'npm', version: undefined, lockfile: undefined });
+  });
+
+  it('detects the package manager from its lockfile', async () => {
+    expect((await analyze({ 'package.json': packageJson(), 'package-lock.json': '{}' })).packageManager)
+      .toEqual({ name: 'npm', version: undefined, lockfile: 'package-lock.json' });
+    expect((await analyze({ 'package.json': packageJson(), 'pnpm-lock.yaml': 'lockfileVersion: 6.0' })).packageManager)
+      .toEqual({ name: 'pnpm', version: undefined, lockfile: 'pnpm-lock.yaml' });
+  });
+
+  it('tells yarn berry from yarn classic by the lockfile metadata or .yarnrc.yml', async () => {
+    const classic = await analyze({ 'package.json': packageJson(), 'yarn.lock': '# yarn lockfile v1\n' });
+    const berryLockfile = await analyze({ 'package.json': packageJson(), 'yarn.lock': '__metadata:\n  version: 8\n' });
+    const berryConfig = await analyze({ 'package.json': packageJson(), 'yarn.lock': '# yarn lockfile v1\n', '.yarnrc.yml': 'nodeLinker: node-modules\n' });
+
+    expect(classic.buildSystem).toBe('yarn');
+    expect(classic.packageManager?.name).toBe('yarn-classic');
+    expect(berryLockfile.packageManager?.name).toBe('yarn-berry');
+    expect(berryConfig.packageManager?.name).toBe('yarn-berry');
+  });
+
+  it('prefers the packageManager field over lockfiles and takes the yarn major version from it', async () => {
+    const pinnedPnpm = await analyze({ 'package.json': packageJson({ packageManager: 'pnpm@8.15.4' }), 'package-lock.json': '{}' });
+    const pinnedClassic = await analyze({
+      'package.json': packageJson({ packageManager: 'yarn@1.22.19' }),
+      'yarn.lock': '__metadata:\n  version: 8\n',
+      '.yarnrc.yml': ''
+    });
+    const pinnedBerry = await analyze({ 'package.json': packageJson({ packageManager: 'yarn@4.1.0+sha256.abc' }), 'yarn.lock': '# yarn lockfile v1\n' });
+    const pinnedNpm = await analyze({ 'package.json': packageJson({ packageManager: 'npm@10.2.0' }), 'yarn.lock': '' });
+
+    expect(pinnedPnpm.buildSystem).toBe('pnpm');
+    expect(pinnedPnpm.packageManager).toEqual({ name: 'pnpm', version: '8.15.4', lockfile: undefined });
+    expect(pinnedClassic.packageManager).toEqual({ name: 'yarn-classic', version: '1.22.19', lockfile: 'yarn.lock' });
+    expect(pinnedBerry.packageManager).toEqual({ name: 'yarn-berry', version: '4.1.0', lockfile: 'yarn.lock' });
+    expect(pinnedNpm.buildSystem).toBe('npm');
+    expect(pinnedNpm.packageManager).toEqual({ name: 'npm', version: '10.2.0', lockfile: undefined });
+  });
+});
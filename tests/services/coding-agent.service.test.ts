@@ -0,0 +1,109 @@
+import config from '../../src/config';
+import { AiderAgent } from '../../src/services/aider-agent.service';
+import { CodemcpAgent } from '../../src/services/codemcp-agent.service';
+import { AgentEnvironment, AgentStepRequest, createCodingAgent, getCodingAgentSettings } from '../../src/services/coding-agent.service';
+import { CommandAgent } from '../../src/services/command-agent.service';
+import { FakeAgent } from '../../src/services/fake-agent.service';
+
+const request: AgentStepRequest = {
+  issueNumber: 7,
+  stepNumber: 2,
+  totalSteps: 3,
+  description: 'Fix the crash',
+  targetFiles: ['src/app.ts', 'src/config.ts'],
+  prompt: 'Fix the crash in src/app.ts'
+};
+
+const environment = (...results: Array<{ exitCode: number; stdout?: string; stderr?: string }>): AgentEnvironment & { exec: jest.Mock } => {
+  const exec = jest.fn();
+  results.forEach(result => exec.mockResolvedValueOnce({ stdout: '', stderr: '', ...result }));
+  return { workspacePath: '/workspace', exec };
+};
+
+describe('getCodingAgentSettings', () => {
+  const original = { ...config };
+
+  afterEach(() => {
+    Object.assign(config, original);
+  });
+
+  it('reads the agent, its command and model', () => {
+    Object.assign(config, { codingAgent: 'command', codingAgentCommand: '  my-agent  --message {prompt} ', codingAgentModel: '' });
+
+    expect(getCodingAgentSettings()).toEqual({ type: 'command', command: ['my-agent', '--message', '{prompt}'], model: undefined });
+  });
+
+  it('reads a command given as a JSON array', () => {
+    Object.assign(config, { codingAgent: 'aider', codingAgentCommand: '["my agent", "{files}"]', codingAgentModel: 'gpt-4o' });
+
+    expect(getCodingAgentSettings()).toEqual({ type: 'aider', command: ['my agent', '{files}'], model: 'gpt-4o' });
+  });
+
+  it.each([
+    [{ codingAgent: 'cursor' }, 'Unknown CODING_AGENT: cursor. Use one of codemcp, aider, command, fake'],
+    [{ codingAgent: 'command', codingAgentCommand: ' ' }, 'CODING_AGENT_COMMAND is required for the command coding agent'],
+    [{ codingAgent: 'command', codingAgentCommand: '["my-agent"' }, /^CODING_AGENT_COMMAND is not valid JSON: /],
+    [{ codingAgent: 'command', codingAgentCommand: '["my-agent", 1]' }, 'CODING_AGENT_COMMAND must be an array of strings']
+  ])('rejects %j', (settings, message) => {
+    Object.assign(config, { codingAgentCommand: '', ...settings });
+
+    expect(() => getCodingAgentSettings()).toThrow(message);
+  });
+});
+
+describe('createCodingAgent', () => {
+  it('creates the configured agent', () => {
+    expect(createCodingAgent({ type: 'codemcp', command: [] })).toBeInstanceOf(CodemcpAgent);
+    expect(createCodingAgent({ type: 'aider', command: [] })).toBeInstanceOf(AiderAgent);
+    expect(createCodingAgent({ type: 'command', command: ['my-agent'] })).toBeInstanceOf(CommandAgent);
+    expect(createCodingAgent({ type: 'fake', command: [] })).toBeInstanceOf(FakeAgent);
+  });
+});
+
+describe('CommandAgent', () => {
+  it('fills the placeholders of the command', async () => {
+    const env = environment({ exitCode: 0, stdout: '\x1b[32mDone\x1b[0m\n' });
+
+    const output = await new CommandAgent(['my-agent', '--issue={issue}', '--step', '{step}', '--in={workspace}', '{files}', '--all={files}', '{unknown}', '{description}'])
+      .implementStep(env, request);
+
+    expect(env.exec).toHaveBeenCalledWith([
+      'my-agent', '--issue=7', '--step', '2', '--in=/workspace', 'src/app.ts', 'src/config.ts',
+      '--all=src/app.ts src/config.ts', '{unknown}', 'Fix the crash'
+    ]);
+    expect(output).toEqual({ success: true, summary: 'Done', errors: [] });
+  });
+
+  it('reports the exit code and the error lines of a failed step', async () => {
+    const lines = ['Reading files', ...Array.from({ length: 6 }, (_, index) => `Error ${index + 1}: cannot parse`)];
+    const env = environment({ exitCode: 2, stdout: lines.join('\n'), stderr: 'fatal: giving up' });
+
+    const output = await new CommandAgent(['my-agent', '{prompt}']).implementStep(env, request);
+
+    expect(output.success).toBe(false);
+    expect(output.errors).toEqual(['my-agent exited with code 2', 'Error 3: cannot parse', 'Error 4: cannot parse', 'Error 5: cannot parse', 'Error 6: cannot parse', 'fatal: giving up']);
+  });
+});
+
+describe('CodemcpAgent', () => {
+  it('registers the workspace as a project, even if that fails', async () => {
+    const env = environment({ exitCode: 0 }, { exitCode: 1 });
+
+    await new CodemcpAgent().prepare(env);
+
+    expect(env.exec.mock.calls).toEqual([[['codemcp', '--help']], [['codemcp', 'InitProject', '/workspace']]]);
+  });
+
+  it('fails with a hint when codemcp is not installed', async () => {
+    await expect(new CodemcpAgent().prepare(environment({ exitCode: 127 })))
+      .rejects.toThrow('codemcp is not installed in the development container. Use an image that provides it');
+  });
+
+  it('implements a step in the chat of the issue', async () => {
+    const env = environment({ exitCode: 0 });
+
+    await new CodemcpAgent().implementStep(env, request);
+
+    expect(env.exec).toHaveBeenCalledWith(['codemcp', 'ImplementStep', 'Fix the crash in src/app.ts', '--chat_id=issue-7', '--description=Fix the crash']);
+  });
+});
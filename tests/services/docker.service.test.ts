@@ -0,0 +1,71 @@
+import { PassThrough } from 'stream';
+import { DockerService } from '../../src/services/docker.service';
+import { parseTestOutput } from '../../src/utils/test-results';
+
+// A frame of Docker's multiplexed exec stream: stream type, three zero bytes, then the length
+function frame(streamType: 1 | 2, text: string): Buffer {
+  const payload = Buffer.from(text, 'utf-8');
+  const header = Buffer.alloc(8);
+  header.writeUInt8(streamType, 0);
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+}
+
+// Without an exit code, the stream stays open like a command that never finishes
+function fakeContainer(chunks: Buffer[], exitCode?: number) {
+  return {
+    id: 'test-container',
+    restart: jest.fn().mockResolvedValue(undefined),
+    exec: async () => ({
+      start: (_options: unknown, callback: (err: Error | null, stream: PassThrough) => void) => {
+        const stream = new PassThrough();
+        callback(null, stream);
+        chunks.forEach(chunk => stream.write(chunk));
+        if (exitCode !== undefined) {
+          stream.end();
+        }
+      },
+      inspect: async () => ({ ExitCode: exitCode })
+    })
+  };
+}
+
+describe('DockerService.execInContainer', () => {
+  const events = [
+    { Action: 'run', Package: 'example.com/app', Test: 'TestParse' },
+    { Action: 'output', Package: 'example.com/app', Test: 'TestParse', Output: '    parse_test.go:12: got “2”, want 3\n' },
+    { Action: 'fail', Package: 'example.com/app', Test: 'TestParse', Elapsed: 0.01 },
+    { Action: 'pass', Package: 'example.com/app', Test: 'TestFormat', Elapsed: 0 }
+  ].map(event => JSON.stringify(event) + '\n');
+
+  it('separates stdout and stderr and strips the frame headers, even when frames and lines are split across chunks', async () => {
+    // Each event line is written in two frames, and the stream is read in chunks that cut through headers and characters
+    const framed = Buffer.concat([
+      frame(2, 'go: downloading example.com/dep v1.0.0\n'),
+      ...events.flatMap(line => [frame(1, line.substring(0, 40)), frame(1, line.substring(40))]),
+      frame(2, 'FAIL\texample.com/app\n')
+    ]);
+    const chunks = Array.from({ length: Math.ceil(framed.length / 13) }, (_, index) => framed.subarray(index * 13, (index + 1) * 13));
+
+    const result = await new DockerService().execInContainer(fakeContainer(chunks, 1) as any, ['go', 'test', '-json', './...']);
+
+    expect(result).toEqual({
+      stdout: events.join(''),
+      stderr: 'go: downloading example.com/dep v1.0.0\nFAIL\texample.com/app\n',
+      exitCode: 1
+    });
+    expect(parseTestOutput(`${result.stdout}\n${result.stderr}`)?.tests.map(test => [test.name, test.status, test.message])).toEqual([
+      ['TestParse', 'failed', 'parse_test.go:12: got “2”, want 3'],
+      ['TestFormat', 'passed', undefined]
+    ]);
+  });
+
+  it('restarts the container to stop a command that runs past its timeout, keeping the output so far', async () => {
+    const container = fakeContainer([frame(1, 'waiting for the lock\n')]);
+
+    const result = await new DockerService().execInContainer(container as any, ['sleep', 'infinity'], 50);
+
+    expect(container.restart).toHaveBeenCalled();
+    expect(result).toEqual({ stdout: 'waiting for the lock\n', stderr: expect.stringContaining('Timed out after'), exitCode: 124 });
+  });
+});
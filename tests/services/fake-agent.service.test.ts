@@ -0,0 +1,73 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+import { AgentEnvironment, AgentStepRequest } from '../../src/services/coding-agent.service';
+import { FakeAgent } from '../../src/services/fake-agent.service';
+
+const request = (stepNumber: number): AgentStepRequest => ({
+  issueNumber: 7,
+  stepNumber,
+  totalSteps: 3,
+  description: `Step ${stepNumber}`,
+  targetFiles: [],
+  prompt: `Implement step ${stepNumber}`
+});
+
+describe('FakeAgent', () => {
+  let environment: AgentEnvironment;
+
+  beforeEach(async () => {
+    const workspacePath = await fs.mkdtemp(path.join(os.tmpdir(), 'fake-agent-test-'));
+    await fs.outputFile(path.join(workspacePath, 'app.txt'), 'one\ntwo\n');
+    await fs.outputFile(path.join(workspacePath, 'old.txt'), 'obsolete\n');
+    await simpleGit(workspacePath).init();
+    environment = { workspacePath, exec: jest.fn() };
+  });
+
+  afterEach(async () => {
+    await fs.remove(environment.workspacePath);
+  });
+
+  const read = (file: string) => fs.readFile(path.join(environment.workspacePath, file), 'utf-8');
+
+  it('writes and deletes files, applies patches and then changes nothing', async () => {
+    const agent = new FakeAgent([
+      { files: { 'src/new.txt': 'added\n', 'old.txt': null }, summary: 'Added a file' },
+      request => ({ patch: '--- a/app.txt\n+++ b/app.txt\n@@ -1,2 +1,2 @@\n one\n-two\n+two of ' + request.totalSteps })
+    ]);
+
+    expect(await agent.implementStep(environment, request(1))).toEqual({ success: true, summary: 'Added a file', errors: [] });
+    expect(await read('src/new.txt')).toBe('added\n');
+    expect(await fs.pathExists(path.join(environment.workspacePath, 'old.txt'))).toBe(false);
+
+    expect(await agent.implementStep(environment, request(2))).toEqual({ success: true, summary: 'Applied scripted changes for step 2', errors: [] });
+    expect(await read('app.txt')).toBe('one\ntwo of 3\n');
+
+    expect(await agent.implementStep(environment, request(3))).toEqual({ success: true, summary: 'No changes scripted for this step', errors: [] });
+    expect(agent.requests.map(recorded => recorded.stepNumber)).toEqual([1, 2, 3]);
+  });
+
+  it('fails a step with the scripted error after making its changes', async () => {
+    const output = await new FakeAgent([{ files: { 'app.txt': 'changed\n' }, error: 'Ran out of turns' }]).implementStep(environment, request(1));
+
+    expect(output).toEqual({ success: false, summary: 'Applied scripted changes for step 1', errors: ['Ran out of turns'] });
+    expect(await read('app.txt')).toBe('changed\n');
+  });
+
+  it('never writes outside the workspace', async () => {
+    const output = await new FakeAgent([{ files: { '../escaped.txt': 'x' } }]).implementStep(environment, request(1));
+
+    expect(output).toEqual({ success: false, summary: '', errors: ['Failed to apply scripted changes: ../escaped.txt is outside the workspace'] });
+    expect(await fs.pathExists(path.join(environment.workspacePath, '..', 'escaped.txt'))).toBe(false);
+  });
+
+  it('reports a patch that does not apply', async () => {
+    const output = await new FakeAgent([{ patch: '--- a/app.txt\n+++ b/app.txt\n@@ -1 +1 @@\n-three\n+four\n', summary: 'Patched' }])
+      .implementStep(environment, request(1));
+
+    expect(output.success).toBe(false);
+    expect(output.summary).toBe('Patched');
+    expect(output.errors[0]).toMatch(/^Failed to apply scripted changes: /);
+  });
+});
@@ -0,0 +1,102 @@
+import { FileRelevanceService } from '../../src/services/file-relevance.service';
+import { FileStructure } from '../../src/services/forge.service';
+
+function repository(files: Record<string, string>): FileStructure[] {
+  return Object.entries(files).map(([path, content]) => ({
+    type: 'file',
+    path,
+    name: path.substring(path.lastIndexOf('/') + 1),
+    size: content.length,
+    content
+  }));
+}
+
+// Many files log errors, so "error" alone says little about which file an issue is about
+const LOGGING_FILES = Object.fromEntries(Array.from({ length: 8 }, (_, index) => [
+  `src/jobs/job${index + 1}.ts`,
+  `export function runJob${index + 1}() {\n  console.error('error while running');\n}\n`
+]));
+
+const FILES = {
+  ...LOGGING_FILES,
+  'src/auth/login.ts': [
+    'export function validatePassword(password: string): boolean {',
+    '  return password.length >= 8;',
+    '}',
+    'export async function submitLogin(user: string, password: string) {',
+    '  if (!validatePassword(password)) return { error: \'Wrong password\' };',
+    '}'
+  ].join('\n'),
+  'src/billing/invoice.py': 'def total(items):\n    return sum(item.price for item in items)\n',
+  'src/utils/format-date.ts': 'export const formatDate = (date: Date) => date.toISOString();\n',
+  'README.md': 'You should read the docs before you start.\n'
+};
+
+describe('FileRelevanceService.rank', () => {
+  const rank = (title: string, text: string, files: Record<string, string> = FILES) =>
+    new FileRelevanceService().rank(repository(files), { title, text });
+
+  it('ranks the file matching the issue first and leaves out files that only share a common word', async () => {
+    const ranked = await rank(
+      'Login should show an error for a wrong password',
+      'When I log in with a wrong password nothing happens. It should show an error.'
+    );
+
+    expect(ranked[0].file.path).toBe('src/auth/login.ts');
+    expect(ranked[0].reasons).toEqual([
+      'path matches "login"',
+      'defines validatePassword, submitLogin',
+      expect.stringMatching(/^content mentions /)
+    ]);
+    expect(ranked.map(result => result.file.path)).not.toContain('README.md');
+    expect(ranked.filter(result => result.file.path.startsWith('src/jobs/'))).toEqual([]);
+  });
+
+  it('matches the words of camelCase and snake_case identifiers', async () => {
+    const ranked = await rank('Dates are formatted in UTC', 'The `format_date` helper ignores the time zone');
+
+    expect(ranked[0].file.path).toBe('src/utils/format-date.ts');
+    expect(ranked[0].reasons[0]).toBe('path matches "format", "date"');
+  });
+
+  it('boosts a file named in a stack trace, with its line', async () => {
+    const ranked = await rank('Checkout crashes', [
+      'Traceback (most recent call last):',
+      '  File "/srv/app/src/billing/invoice.py", line 2, in total',
+      'TypeError: unsupported operand type(s) for +: \'int\' and \'NoneType\''
+    ].join('\n'));
+
+    expect(ranked[0].file.path).toBe('src/billing/invoice.py');
+    expect(ranked[0].reasons[0]).toBe('named in a stack trace (line 2)');
+  });
+
+  it('boosts files named in a code block more than files named in prose', async () => {
+    const ranked = await rank('Broken imports', [
+      'See README.md for the setup.',
+      '```ts',
+      'import { formatDate } from \'./src/utils/format-date.ts\';',
+      '```'
+    ].join('\n'));
+
+    expect(ranked.map(result => [result.file.path, result.reasons[0]])).toEqual([
+      ['src/utils/format-date.ts', 'named in a code block'],
+      ['README.md', 'mentioned in the issue']
+    ]);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it('returns nothing for an issue without search terms', async () => {
+    expect(await rank('It should work', 'Please help, thanks!')).toEqual([]);
+  });
+
+  it('loads the contents of the most promising files only', async () => {
+    const load = jest.fn(async (file: FileStructure) => FILES[file.path as keyof typeof FILES]);
+    const files = repository(FILES).map(({ content, ...file }) => file);
+
+    const ranked = await new FileRelevanceService(load, 2).rank(files, { title: 'Wrong password on login', text: '' });
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(load.mock.calls[0][0].path).toBe('src/auth/login.ts');
+    expect(ranked[0].reasons).toContain('defines validatePassword, submitLogin');
+  });
+});
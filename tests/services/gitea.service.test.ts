@@ -0,0 +1,316 @@
+import { GiteaService } from '../../src/services/gitea.service';
+
+const API = 'https://gitea.example.com/api/v1';
+const REPO = '/api/v1/repos/octo/app';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+type Responder = unknown | ((request: RecordedRequest) => unknown);
+
+/**
+ * Answer fetch requests to the API by "METHOD /path" (without the query), recording each request
+ */
+function mockApi(routes: Record<string, Responder>): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+
+  jest.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    const url = new URL(String(input));
+    const request: RecordedRequest = {
+      method: init?.method || 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(Object.entries(init?.headers || {}).map(([name, value]) => [name.toLowerCase(), String(value)])),
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined
+    };
+    requests.push(request);
+
+    const route = `${request.method} ${request.path}`;
+    if (!(route in routes)) {
+      return new Response(JSON.stringify({ message: 'Not Found' }), { status: 404, headers: { 'content-type': 'application/json' } });
+    }
+
+    const responder = routes[route];
+    const body = typeof responder === 'function' ? responder(request) : responder;
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+  });
+
+  return requests;
+}
+
+const comment = (id: number, body: string) => ({
+  id,
+  body,
+  user: { login: 'alice' },
+  created_at: '2024-05-01T10:00:00Z',
+  html_url: `https://gitea.example.com/octo/app/issues/3#issuecomment-${id}`
+});
+
+// 50 comments fill the first page, so the client asks for a second one
+const COMMENTS = [
+  ...Array.from({ length: 50 }, (_, index) => comment(index + 1, `Comment ${index + 1}`)),
+  comment(51, 'Same as octo/lib#4')
+];
+
+const ISSUE_ROUTES: Record<string, Responder> = {
+  [`GET ${REPO}/issues/3`]: {
+    number: 3,
+    title: 'Dates are shown in UTC',
+    body: 'The header shows UTC',
+    html_url: 'https://gitea.example.com/octo/app/issues/3',
+    labels: [{ name: 'bug' }],
+    state: 'open',
+    user: { login: 'carol' },
+    assignees: [{ login: 'dave' }],
+    is_locked: false
+  },
+  [`GET ${REPO}`]: { name: 'app', full_name: 'octo/app', default_branch: 'main', has_issues: true },
+  [`GET ${REPO}/languages`]: { Go: 52000, Shell: 800 },
+  [`GET ${REPO}/issues/3/comments`]: (request: RecordedRequest) => request.query.page === '1' ? COMMENTS.slice(0, 50) : COMMENTS.slice(50),
+  [`GET ${REPO}/issues/3/reactions`]: [{ content: 'heart' }, { content: '+1' }, { content: '+1' }],
+  [`GET ${REPO}/issues/3/timeline`]: [
+    { type: 'comment', user: { login: 'alice' }, created_at: '2024-05-01T10:00:00Z' },
+    { type: 'label', user: { login: 'bob' }, created_at: '2024-05-01T11:00:00Z', label: { name: 'bug' } },
+    {
+      type: 'pull_ref',
+      user: { login: 'frank' },
+      created_at: '2024-05-02T09:00:00Z',
+      ref_issue: {
+        number: 8,
+        title: 'Use the local time zone',
+        body: 'Fixes #3',
+        html_url: 'https://gitea.example.com/octo/app/pulls/8',
+        state: 'closed',
+        pull_request: { merged: true, draft: false },
+        repository: { full_name: 'octo/app' }
+      }
+    },
+    {
+      type: 'issue_ref',
+      user: { login: 'erin' },
+      created_at: '2024-05-03T09:00:00Z',
+      ref_issue: {
+        number: 12,
+        title: 'Time zone setting',
+        html_url: 'https://gitea.example.com/octo/web/issues/12',
+        state: 'open',
+        repository: { full_name: 'octo/web' }
+      }
+    }
+  ]
+};
+
+describe('GiteaService', () => {
+  let service: GiteaService;
+
+  beforeEach(() => {
+    service = new GiteaService('gitea-token', 'https://gitea.example.com', API);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getIssueInfo', () => {
+    it('maps the issue, its comments across pages, reactions and the timeline', async () => {
+      const requests = mockApi(ISSUE_ROUTES);
+
+      const info = await service.getIssueInfo('https://gitea.example.com/octo/app/issues/3', { analyzeCodebase: false });
+
+      expect(info).toMatchObject({
+        forge: 'gitea',
+        serverUrl: 'https://gitea.example.com',
+        owner: 'octo',
+        repo: 'app',
+        issueNumber: 3,
+        labels: ['bug'],
+        state: 'open',
+        author: 'carol',
+        assignees: ['dave'],
+        locked: false,
+        reactions: { heart: 1, '+1': 2 },
+        repoInfo: { name: 'app', fullName: 'octo/app', language: 'Go', defaultBranch: 'main', hasIssues: true }
+      });
+      expect(info.comments).toHaveLength(51);
+      expect(info.comments[50]).toEqual({
+        author: 'alice',
+        body: 'Same as octo/lib#4',
+        createdAt: '2024-05-01T10:00:00Z',
+        url: 'https://gitea.example.com/octo/app/issues/3#issuecomment-51',
+        reactions: {}
+      });
+      expect(info.timeline.map(event => [event.event, event.actor, event.details])).toEqual([
+        ['label', 'bob', 'bug'],
+        ['pull_ref', 'frank', 'https://gitea.example.com/octo/app/pulls/8'],
+        ['issue_ref', 'erin', 'https://gitea.example.com/octo/web/issues/12']
+      ]);
+      expect(info.linkedPullRequests).toEqual([{
+        repository: 'octo/app',
+        number: 8,
+        title: 'Use the local time zone',
+        url: 'https://gitea.example.com/octo/app/pulls/8',
+        state: 'merged',
+        draft: false,
+        closesIssue: true
+      }]);
+      expect(info.referencedIssues).toEqual([
+        expect.objectContaining({ owner: 'octo', repo: 'web', issueNumber: 12, direction: 'incoming' }),
+        expect.objectContaining({ owner: 'octo', repo: 'lib', issueNumber: 4, direction: 'outgoing' })
+      ]);
+
+      const commentPages = requests.filter(request => request.path === `${REPO}/issues/3/comments`);
+      expect(commentPages.map(request => [request.query.page, request.query.limit])).toEqual([['1', '50'], ['2', '50']]);
+      expect(requests.every(request => request.headers.authorization === 'token gitea-token')).toBe(true);
+    });
+
+    it('works without a timeline on Gitea versions that have none', async () => {
+      mockApi(Object.fromEntries(Object.entries(ISSUE_ROUTES).filter(([route]) => !route.endsWith('/timeline'))));
+
+      const info = await service.getIssueInfo('https://gitea.example.com/octo/app/issues/3', { analyzeCodebase: false });
+
+      expect(info.timeline).toEqual([]);
+      expect(info.linkedPullRequests).toEqual([]);
+    });
+
+    it('analyzes every page of the repository tree', async () => {
+      const requests = mockApi({
+        ...ISSUE_ROUTES,
+        [`GET ${REPO}/git/trees/main`]: (request: RecordedRequest) => request.query.page === '1'
+          ? { tree: [{ path: 'cmd', type: 'tree', sha: 'a1' }, { path: 'cmd/main.go', type: 'blob', sha: 'b1', size: 20 }], truncated: true }
+          : { tree: [{ path: 'README.md', type: 'blob', sha: 'c1', size: 10 }], truncated: false }
+      });
+
+      const info = await service.getIssueInfo('https://gitea.example.com/octo/app/issues/3');
+
+      expect(requests.filter(request => request.path === `${REPO}/git/trees/main`).map(request => request.query.page)).toEqual(['1', '2']);
+      expect(info.codebaseAnalysis.fileStructure.map(entry => entry.path)).toEqual(expect.arrayContaining(['cmd', 'README.md']));
+    });
+  });
+
+  it('tells pull requests from issues', async () => {
+    mockApi({
+      [`GET ${REPO}/issues/3`]: { number: 3 },
+      [`GET ${REPO}/issues/8`]: { number: 8, pull_request: { merged: false } }
+    });
+
+    expect(await service.isPullRequest('octo', 'app', 3)).toBe(false);
+    expect(await service.isPullRequest('octo', 'app', 8)).toBe(true);
+  });
+
+  describe('getPullRequestInfo', () => {
+    it('collects review bodies and inline review comments and works on the head repository', async () => {
+      mockApi({
+        ...ISSUE_ROUTES,
+        [`GET ${REPO}/issues/8`]: { ...(ISSUE_ROUTES[`GET ${REPO}/issues/3`] as object), number: 8, title: 'WIP: Use the local time zone' },
+        [`GET ${REPO}/issues/8/comments`]: [],
+        [`GET ${REPO}/issues/8/reactions`]: [],
+        [`GET ${REPO}/issues/8/timeline`]: [],
+        [`GET ${REPO}/pulls/8`]: {
+          number: 8,
+          title: 'WIP: Use the local time zone',
+          html_url: 'https://gitea.example.com/octo/app/pulls/8',
+          head: { ref: 'local-time', repo: { name: 'app', owner: { login: 'frank' } } },
+          base: { ref: 'main' },
+          merged: false
+        },
+        [`GET ${REPO}/pulls/8/reviews`]: [
+          { id: 1, body: 'Almost there', user: { login: 'bob' }, submitted_at: '2024-05-04T09:00:00Z', html_url: 'https://gitea.example.com/octo/app/pulls/8#review-1', comments_count: 1 },
+          { id: 2, body: '', user: { login: 'carol' }, comments_count: 0 }
+        ],
+        [`GET ${REPO}/pulls/8/reviews/1/comments`]: [{
+          body: 'Use time.Local here',
+          user: { login: 'bob' },
+          created_at: '2024-05-04T09:00:00Z',
+          html_url: 'https://gitea.example.com/octo/app/pulls/8/files#issuecomment-90',
+          path: 'date.go',
+          position: 0,
+          original_position: 14
+        }]
+      });
+
+      const info = await service.getPullRequestInfo('octo', 'app', 8, { analyzeCodebase: false });
+
+      expect(info.url).toBe('https://gitea.example.com/octo/app/pulls/8');
+      expect(info.pullRequest).toEqual({
+        headOwner: 'frank',
+        headRepo: 'app',
+        headBranch: 'local-time',
+        baseBranch: 'main',
+        draft: true,
+        merged: false,
+        reviewComments: [
+          expect.objectContaining({ author: 'bob', body: 'Almost there' }),
+          expect.objectContaining({ author: 'bob', body: 'Use time.Local here', path: 'date.go', line: 14 })
+        ]
+      });
+    });
+  });
+
+  describe('createPullRequest', () => {
+    it('creates a draft pull request with label and milestone IDs and requests reviewers', async () => {
+      const requests = mockApi({
+        [`GET ${REPO}/labels`]: [{ id: 1, name: 'bug' }, { id: 2, name: 'frontend' }],
+        [`GET ${REPO}/milestones`]: [{ id: 5, title: 'v2.0' }, { id: 6, title: 'v2.1' }],
+        [`POST ${REPO}/pulls`]: { number: 9, html_url: 'https://gitea.example.com/octo/app/pulls/9' },
+        [`POST ${REPO}/pulls/9/requested_reviewers`]: {}
+      });
+
+      const created = await service.createPullRequest('octo', 'app', {
+        issueNumber: 3,
+        title: 'Fix #3: Dates are shown in UTC',
+        head: 'fix/issue-3',
+        base: 'main',
+        body: 'Closes #3',
+        draft: true,
+        labels: ['bug', 'triaged'],
+        assignees: ['dave'],
+        reviewers: ['erin'],
+        milestone: 'v2.1'
+      });
+
+      expect(created).toEqual({ url: 'https://gitea.example.com/octo/app/pulls/9', number: 9, warnings: ['Label not found: triaged'] });
+      expect(requests.find(request => request.path === `${REPO}/milestones`)?.query.state).toBe('all');
+      expect(requests.filter(request => request.method === 'POST').map(request => request.body)).toEqual([
+        {
+          title: 'WIP: Fix #3: Dates are shown in UTC',
+          head: 'fix/issue-3',
+          base: 'main',
+          body: 'Closes #3',
+          labels: [1],
+          assignees: ['dave'],
+          milestone: 6
+        },
+        { reviewers: ['erin'], team_reviewers: [] }
+      ]);
+    });
+
+    it('keeps the pull request when reviewers cannot be requested', async () => {
+      mockApi({ [`POST ${REPO}/pulls`]: { number: 9, html_url: 'https://gitea.example.com/octo/app/pulls/9' } });
+
+      const created = await service.createPullRequest('octo', 'app', {
+        issueNumber: 3,
+        title: 'Fix #3',
+        head: 'fix/issue-3',
+        base: 'main',
+        body: '',
+        reviewers: ['erin'],
+        milestone: '4'
+      });
+
+      expect(created.number).toBe(9);
+      expect(created.warnings).toEqual([expect.stringMatching(/^Failed to request reviewers: .*404/)]);
+    });
+
+    it('reports a pull request that could not be created', async () => {
+      mockApi({});
+
+      await expect(service.createPullRequest('octo', 'app', { issueNumber: 3, title: 'Fix #3', head: 'fix/issue-3', base: 'main', body: '' }))
+        .rejects.toThrow(/^Failed to create pull request: .*404/);
+    });
+  });
+});
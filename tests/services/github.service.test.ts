@@ -0,0 +1,350 @@
+import { GitHubAppAuthService } from '../../src/services/github-app.service';
+import { GitHubService } from '../../src/services/github.service';
+
+const API = 'https://api.github.com';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+type Responder = unknown | ((request: RecordedRequest) => unknown);
+
+/**
+ * Answer fetch requests to the API by "METHOD /path" (without the query), recording each request
+ */
+function mockApi(routes: Record<string, Responder>): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+
+  jest.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    const url = new URL(String(input));
+    const request: RecordedRequest = {
+      method: init?.method || 'GET',
+      path: url.pathname,
+      headers: Object.fromEntries(Object.entries(init?.headers || {}).map(([name, value]) => [name.toLowerCase(), String(value)])),
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined
+    };
+    requests.push(request);
+
+    const route = `${request.method} ${request.path}`;
+    if (!(route in routes)) {
+      return new Response(JSON.stringify({ message: 'Not Found' }), { status: 404, headers: { 'content-type': 'application/json' } });
+    }
+
+    const responder = routes[route];
+    const body = typeof responder === 'function' ? responder(request) : responder;
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+  });
+
+  return requests;
+}
+
+// What getIssueInfo requests for an issue without comments or timeline events
+const ISSUE_ROUTES: Record<string, Responder> = {
+  'GET /repos/octo/app/issues/7': {
+    number: 7,
+    title: 'Crash on start',
+    body: '',
+    html_url: 'https://github.com/octo/app/issues/7',
+    labels: [],
+    state: 'open',
+    locked: false
+  },
+  'GET /repos/octo/app': { name: 'app', full_name: 'octo/app', language: 'TypeScript', default_branch: 'main', has_issues: true },
+  'GET /repos/octo/app/issues/7/comments': [],
+  'GET /repos/octo/app/issues/7/timeline': [],
+  'POST /graphql': { data: { repository: { issue: { closedByPullRequestsReferences: { nodes: [] } } } } }
+};
+
+describe('GitHubService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('with GitHub App authentication', () => {
+    it('authenticates REST and GraphQL requests with the installation token of the repository', async () => {
+      const appAuth = { getInstallationToken: jest.fn().mockResolvedValue('installation-token') } as unknown as GitHubAppAuthService;
+      const requests = mockApi(ISSUE_ROUTES);
+
+      await new GitHubService('', API, 'https://github.com', appAuth).getIssueInfo('https://github.com/octo/app/issues/7', { analyzeCodebase: false });
+
+      expect(requests.map(request => [`${request.method} ${request.path}`, request.headers.authorization])).toEqual([
+        ['GET /repos/octo/app/issues/7', 'token installation-token'],
+        ['GET /repos/octo/app', 'token installation-token'],
+        ['GET /repos/octo/app/issues/7/comments', 'token installation-token'],
+        ['GET /repos/octo/app/issues/7/timeline', 'token installation-token'],
+        ['POST /graphql', 'token installation-token']
+      ]);
+      expect(requests[4].body.variables).toEqual({ owner: 'octo', repo: 'app', number: 7 });
+      expect(appAuth.getInstallationToken).toHaveBeenCalledWith('octo', 'app');
+    });
+  });
+
+  describe('getIssueInfo', () => {
+    const crossReference = (issue: Record<string, unknown>) => ({
+      event: 'cross-referenced',
+      actor: { login: 'bob' },
+      created_at: '2024-05-02T09:00:00Z',
+      source: { issue: { repository: { full_name: 'octo/app' }, state: 'open', ...issue } }
+    });
+
+    const routes: Record<string, Responder> = {
+      ...ISSUE_ROUTES,
+      'GET /repos/octo/app/issues/7': {
+        number: 7,
+        title: 'Crash on start',
+        body: 'Started after octo/lib#12 was released, see also #3',
+        html_url: 'https://github.com/octo/app/issues/7',
+        labels: ['bug', { name: 'crash' }],
+        state: 'open',
+        locked: false,
+        user: { login: 'carol' },
+        assignees: [{ login: 'dave' }],
+        reactions: { url: 'https://api.github.com/...', total_count: 3, '+1': 2, heart: 1, laugh: 0 }
+      },
+      'GET /repos/octo/app/issues/7/comments': [{
+        user: { login: 'erin' },
+        body: 'Same here, probably related to #5',
+        created_at: '2024-05-01T12:00:00Z',
+        html_url: 'https://github.com/octo/app/issues/7#issuecomment-1',
+        reactions: { total_count: 0 }
+      }],
+      'GET /repos/octo/app/issues/7/timeline': [
+        { event: 'labeled', actor: { login: 'carol' }, created_at: '2024-05-01T10:00:00Z', label: { name: 'bug' } },
+        { event: 'commented', actor: { login: 'erin' }, created_at: '2024-05-01T12:00:00Z' },
+        crossReference({ number: 5, title: 'Startup is slow', html_url: 'https://github.com/octo/app/issues/5' }),
+        crossReference({
+          number: 8,
+          title: 'Guard against a missing config',
+          html_url: 'https://github.com/octo/app/pull/8',
+          body: 'Fixes #7',
+          draft: true,
+          pull_request: { merged_at: null }
+        }),
+        crossReference({
+          repository: { full_name: 'octo/docs' },
+          number: 2,
+          title: 'Document the crash',
+          html_url: 'https://github.com/octo/docs/pull/2',
+          body: 'Mentions octo/app#7',
+          state: 'closed',
+          pull_request: { merged_at: '2024-05-03T10:00:00Z' }
+        })
+      ],
+      'POST /graphql': {
+        data: {
+          repository: {
+            issue: {
+              closedByPullRequestsReferences: {
+                nodes: [{
+                  number: 9,
+                  title: 'Fix the crash on start',
+                  url: 'https://github.com/octo/app/pull/9',
+                  state: 'OPEN',
+                  isDraft: false,
+                  repository: { nameWithOwner: 'octo/app' }
+                }]
+              }
+            }
+          }
+        }
+      }
+    };
+
+    it('collects comments, reactions, timeline events and references to and from other issues', async () => {
+      mockApi(routes);
+
+      const info = await new GitHubService('token', API).getIssueInfo('https://github.com/octo/app/issues/7', { analyzeCodebase: false });
+
+      expect(info).toMatchObject({
+        labels: ['bug', 'crash'],
+        author: 'carol',
+        assignees: ['dave'],
+        reactions: { '+1': 2, heart: 1 },
+        comments: [{ author: 'erin', body: 'Same here, probably related to #5', reactions: {} }]
+      });
+      expect(info.timeline.map(event => [event.event, event.actor, event.details])).toEqual([
+        ['labeled', 'carol', 'bug'],
+        ['cross-referenced', 'bob', 'https://github.com/octo/app/issues/5'],
+        ['cross-referenced', 'bob', 'https://github.com/octo/app/pull/8'],
+        ['cross-referenced', 'bob', 'https://github.com/octo/docs/pull/2']
+      ]);
+
+      // #5 is mentioned in a comment too, but is only reported once, as incoming
+      expect(info.referencedIssues).toEqual([
+        {
+          owner: 'octo',
+          repo: 'app',
+          issueNumber: 5,
+          url: 'https://github.com/octo/app/issues/5',
+          title: 'Startup is slow',
+          state: 'open',
+          direction: 'incoming'
+        },
+        expect.objectContaining({ owner: 'octo', repo: 'lib', issueNumber: 12, direction: 'outgoing' }),
+        expect.objectContaining({ owner: 'octo', repo: 'app', issueNumber: 3, direction: 'outgoing' })
+      ]);
+    });
+
+    it('finds linked pull requests from cross-references and closing references', async () => {
+      mockApi(routes);
+
+      const info = await new GitHubService('token', API).getIssueInfo('https://github.com/octo/app/issues/7', { analyzeCodebase: false });
+
+      expect(info.linkedPullRequests).toEqual([
+        {
+          repository: 'octo/app',
+          number: 8,
+          title: 'Guard against a missing config',
+          url: 'https://github.com/octo/app/pull/8',
+          state: 'open',
+          draft: true,
+          closesIssue: true
+        },
+        expect.objectContaining({ repository: 'octo/docs', number: 2, state: 'merged', draft: false, closesIssue: false }),
+        {
+          repository: 'octo/app',
+          number: 9,
+          title: 'Fix the crash on start',
+          url: 'https://github.com/octo/app/pull/9',
+          state: 'open',
+          draft: false,
+          closesIssue: true
+        }
+      ]);
+    });
+
+    it('keeps the cross-referenced pull requests when closing references are not available', async () => {
+      mockApi({ ...routes, 'POST /graphql': { errors: [{ message: "Field 'closedByPullRequestsReferences' doesn't exist on type 'Issue'" }] } });
+
+      const info = await new GitHubService('token', API).getIssueInfo('https://github.com/octo/app/issues/7', { analyzeCodebase: false });
+
+      expect(info.linkedPullRequests.map(pullRequest => pullRequest.number)).toEqual([8, 2]);
+    });
+
+    it('rejects URLs that do not point to an issue', async () => {
+      await expect(new GitHubService('token', API).getIssueInfo('https://github.com/octo/app/pull/8'))
+        .rejects.toThrow('Invalid GitHub issue URL: https://github.com/octo/app/pull/8');
+    });
+
+    it('reports the failing request', async () => {
+      mockApi(Object.fromEntries(Object.entries(routes).filter(([route]) => !route.endsWith('/comments'))));
+
+      await expect(new GitHubService('token', API).getIssueInfo('https://github.com/octo/app/issues/7', { analyzeCodebase: false }))
+        .rejects.toThrow(/^Failed to fetch issue information: Not Found/);
+    });
+  });
+
+  describe('getPullRequestInfo', () => {
+    it('adds the branches and review feedback of a pull request from a fork', async () => {
+      mockApi({
+        ...ISSUE_ROUTES,
+        'GET /repos/octo/app/pulls/7': {
+          html_url: 'https://github.com/octo/app/pull/7',
+          head: { ref: 'fix-crash', repo: { name: 'app-fork', owner: { login: 'frank' } } },
+          base: { ref: 'main' },
+          draft: false,
+          merged: false
+        },
+        'GET /repos/octo/app/pulls/7/reviews': [
+          { user: { login: 'carol' }, body: 'Please add a test', submitted_at: '2024-05-04T10:00:00Z', html_url: 'https://github.com/octo/app/pull/7#pullrequestreview-1' },
+          { user: { login: 'dave' }, body: '', submitted_at: '2024-05-04T11:00:00Z', html_url: 'https://github.com/octo/app/pull/7#pullrequestreview-2' }
+        ],
+        'GET /repos/octo/app/pulls/7/comments': [{
+          user: { login: 'carol' },
+          body: 'This can be null',
+          created_at: '2024-05-04T10:00:00Z',
+          html_url: 'https://github.com/octo/app/pull/7#discussion_r1',
+          path: 'src/start.ts',
+          line: null,
+          original_line: 12
+        }]
+      });
+
+      const info = await new GitHubService('token', API).getPullRequestInfo('octo', 'app', 7, { analyzeCodebase: false });
+
+      expect(info.url).toBe('https://github.com/octo/app/pull/7');
+      expect(info.pullRequest).toEqual({
+        headOwner: 'frank',
+        headRepo: 'app-fork',
+        headBranch: 'fix-crash',
+        baseBranch: 'main',
+        draft: false,
+        merged: false,
+        reviewComments: [
+          expect.objectContaining({ author: 'carol', body: 'Please add a test' }),
+          expect.objectContaining({ author: 'carol', body: 'This can be null', path: 'src/start.ts', line: 12 })
+        ]
+      });
+    });
+  });
+
+  describe('createPullRequest', () => {
+    const options = { issueNumber: 7, title: 'Fix #7: Crash on start', head: 'fix/issue-7-crash-on-start', base: 'main', body: 'Closes #7' };
+
+    it('creates the pull request and applies its labels, assignees, milestone and reviewers', async () => {
+      const requests = mockApi({
+        'POST /repos/octo/app/pulls': { number: 8, html_url: 'https://github.com/octo/app/pull/8' },
+        'POST /repos/octo/app/issues/8/labels': [],
+        'POST /repos/octo/app/issues/8/assignees': {},
+        'GET /repos/octo/app/milestones': [{ number: 1, title: 'v1' }, { number: 3, title: 'v2' }],
+        'PATCH /repos/octo/app/issues/8': {},
+        'POST /repos/octo/app/pulls/8/requested_reviewers': {}
+      });
+
+      const created = await new GitHubService('token', API).createPullRequest('octo', 'app', {
+        ...options,
+        draft: true,
+        labels: ['bug'],
+        assignees: ['dave'],
+        reviewers: ['erin'],
+        teamReviewers: ['web'],
+        milestone: 'v2'
+      });
+
+      expect(created).toEqual({ url: 'https://github.com/octo/app/pull/8', number: 8, warnings: [] });
+      expect(requests.map(request => [`${request.method} ${request.path}`, request.body])).toEqual([
+        ['POST /repos/octo/app/pulls', { title: options.title, head: options.head, base: 'main', body: 'Closes #7', draft: true }],
+        ['POST /repos/octo/app/issues/8/labels', { labels: ['bug'] }],
+        ['POST /repos/octo/app/issues/8/assignees', { assignees: ['dave'] }],
+        ['GET /repos/octo/app/milestones', undefined],
+        ['PATCH /repos/octo/app/issues/8', { milestone: 3 }],
+        ['POST /repos/octo/app/pulls/8/requested_reviewers', { reviewers: ['erin'], team_reviewers: ['web'] }]
+      ]);
+    });
+
+    it('uses a milestone number as is and keeps the pull request when metadata fails', async () => {
+      const requests = mockApi({
+        'POST /repos/octo/app/pulls': { number: 8, html_url: 'https://github.com/octo/app/pull/8' },
+        'PATCH /repos/octo/app/issues/8': {}
+      });
+
+      const created = await new GitHubService('token', API).createPullRequest('octo', 'app', { ...options, labels: ['bug'], milestone: '4' });
+
+      expect(created.url).toBe('https://github.com/octo/app/pull/8');
+      expect(created.warnings).toEqual([expect.stringMatching(/^Failed to add labels: Not Found/)]);
+      expect(requests.find(request => request.method === 'PATCH')?.body).toEqual({ milestone: 4 });
+      expect(requests.some(request => request.path.endsWith('/milestones'))).toBe(false);
+    });
+
+    it('warns about a milestone that does not exist', async () => {
+      mockApi({
+        'POST /repos/octo/app/pulls': { number: 8, html_url: 'https://github.com/octo/app/pull/8' },
+        'GET /repos/octo/app/milestones': [{ number: 1, title: 'v1' }]
+      });
+
+      const created = await new GitHubService('token', API).createPullRequest('octo', 'app', { ...options, milestone: 'v9' });
+
+      expect(created.warnings).toEqual(['Failed to set milestone: Milestone not found: v9']);
+    });
+
+    it('fails when the pull request cannot be created', async () => {
+      mockApi({});
+
+      await expect(new GitHubService('token', API).createPullRequest('octo', 'app', options))
+        .rejects.toThrow(/^Failed to create pull request: Not Found/);
+    });
+  });
+});
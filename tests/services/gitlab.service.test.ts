@@ -0,0 +1,292 @@
+import { GitLabService } from '../../src/services/gitlab.service';
+
+const API = 'https://gitlab.example.com/api/v4';
+const PROJECT = '/api/v4/projects/group%2Fsub%2Fapp';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+type Responder = unknown | ((request: RecordedRequest) => unknown);
+
+/**
+ * Answer fetch requests to the API by "METHOD /path" (without the query), recording each request
+ */
+function mockApi(routes: Record<string, Responder>): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+
+  jest.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    const url = new URL(String(input));
+    const request: RecordedRequest = {
+      method: init?.method || 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(Object.entries(init?.headers || {}).map(([name, value]) => [name.toLowerCase(), String(value)])),
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined
+    };
+    requests.push(request);
+
+    const route = `${request.method} ${request.path}`;
+    if (!(route in routes)) {
+      return new Response(JSON.stringify({ message: '404 Not Found' }), { status: 404, headers: { 'content-type': 'application/json' } });
+    }
+
+    const responder = routes[route];
+    const body = typeof responder === 'function' ? responder(request) : responder;
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+  });
+
+  return requests;
+}
+
+const user = (username: string, id = 1) => ({ id, username });
+
+const note = (id: number, body: string, system = false) => ({
+  id,
+  body,
+  created_at: '2024-05-01T10:00:00Z',
+  author: user(system ? 'bot' : 'alice'),
+  system
+});
+
+const mergeRequest = (id: number, iid: number, state: string, draft = false) => ({
+  id,
+  iid,
+  title: `Merge request ${iid}`,
+  state,
+  draft,
+  web_url: `https://gitlab.example.com/group/sub/app/-/merge_requests/${iid}`,
+  references: { full: `group/sub/app!${iid}` }
+});
+
+describe('GitLabService', () => {
+  let service: GitLabService;
+
+  beforeEach(() => {
+    service = new GitLabService('gitlab-token', 'https://gitlab.example.com', API);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getIssueInfo', () => {
+    // 100 notes fill the first page, so the client asks for a second one
+    const notes = [
+      ...Array.from({ length: 99 }, (_, index) => note(index + 1, `Comment ${index + 1}`)),
+      note(100, 'added ~bug label', true),
+      note(101, 'Also broken on group/sub/app#2')
+    ];
+
+    const routes: Record<string, Responder> = {
+      [`GET ${PROJECT}/issues/3`]: {
+        id: 300,
+        iid: 3,
+        title: 'Dates are shown in UTC',
+        description: 'The header shows UTC',
+        state: 'opened',
+        labels: ['bug', 'frontend'],
+        author: user('carol'),
+        assignees: [user('dave'), user('erin')],
+        discussion_locked: null,
+        web_url: 'https://gitlab.example.com/group/sub/app/-/issues/3'
+      },
+      [`GET ${PROJECT}`]: { id: 9, path: 'app', path_with_namespace: 'group/sub/app', default_branch: 'main', issues_enabled: true },
+      [`GET ${PROJECT}/languages`]: { CSS: 12.5, TypeScript: 80.1, JavaScript: 7.4 },
+      [`GET ${PROJECT}/issues/3/notes`]: (request: RecordedRequest) => request.query.page === '1' ? notes.slice(0, 100) : notes.slice(100),
+      [`GET ${PROJECT}/issues/3/award_emoji`]: [{ name: 'thumbsup' }, { name: 'thumbsup' }, { name: 'eyes' }],
+      [`GET ${PROJECT}/issues/3/related_merge_requests`]: [mergeRequest(41, 5, 'opened', true), mergeRequest(42, 6, 'merged')],
+      [`GET ${PROJECT}/issues/3/closed_by`]: [mergeRequest(42, 6, 'merged')],
+      [`GET ${PROJECT}/issues/3/links`]: [{
+        id: 100,
+        iid: 1,
+        title: 'Time zone setting',
+        state: 'closed',
+        web_url: 'https://gitlab.example.com/group/other/-/issues/1',
+        references: { full: 'group/other#1' }
+      }]
+    };
+
+    it('maps the issue, its notes across pages, award emoji and linked merge requests and issues', async () => {
+      const requests = mockApi(routes);
+
+      const info = await service.getIssueInfo('https://gitlab.example.com/group/sub/app/-/issues/3', { analyzeCodebase: false });
+
+      expect(info).toMatchObject({
+        forge: 'gitlab',
+        serverUrl: 'https://gitlab.example.com',
+        owner: 'group/sub',
+        repo: 'app',
+        issueNumber: 3,
+        title: 'Dates are shown in UTC',
+        body: 'The header shows UTC',
+        labels: ['bug', 'frontend'],
+        state: 'open',
+        author: 'carol',
+        assignees: ['dave', 'erin'],
+        locked: false,
+        reactions: { thumbsup: 2, eyes: 1 },
+        repoInfo: { name: 'app', fullName: 'group/sub/app', language: 'TypeScript', defaultBranch: 'main', hasIssues: true }
+      });
+      expect(info.comments).toHaveLength(100);
+      expect(info.comments[99]).toEqual({
+        author: 'alice',
+        body: 'Also broken on group/sub/app#2',
+        createdAt: '2024-05-01T10:00:00Z',
+        url: 'https://gitlab.example.com/group/sub/app/-/issues/3#note_101',
+        reactions: {}
+      });
+      expect(info.timeline).toEqual([{ event: 'system_note', actor: 'bot', createdAt: '2024-05-01T10:00:00Z', details: 'added ~bug label' }]);
+      expect(info.linkedPullRequests).toEqual([
+        {
+          repository: 'group/sub/app',
+          number: 5,
+          title: 'Merge request 5',
+          url: 'https://gitlab.example.com/group/sub/app/-/merge_requests/5',
+          state: 'open',
+          draft: true,
+          closesIssue: false
+        },
+        expect.objectContaining({ number: 6, state: 'merged', draft: false, closesIssue: true })
+      ]);
+      expect(info.referencedIssues).toEqual([
+        expect.objectContaining({ owner: 'group', repo: 'other', issueNumber: 1, state: 'closed', direction: 'incoming' }),
+        expect.objectContaining({ owner: 'group/sub', repo: 'app', issueNumber: 2, direction: 'outgoing' })
+      ]);
+
+      const notePages = requests.filter(request => request.path === `${PROJECT}/issues/3/notes`);
+      expect(notePages.map(request => [request.query.page, request.query.per_page, request.query.sort])).toEqual([['1', '100', 'asc'], ['2', '100', 'asc']]);
+      expect(requests.every(request => request.headers['private-token'] === 'gitlab-token')).toBe(true);
+    });
+
+    it('reports the failing request', async () => {
+      mockApi(Object.fromEntries(Object.entries(routes).filter(([route]) => !route.endsWith('/award_emoji'))));
+
+      await expect(service.getIssueInfo('https://gitlab.example.com/group/sub/app/-/issues/3', { analyzeCodebase: false }))
+        .rejects.toThrow(/^Failed to fetch issue information: .*404/);
+    });
+  });
+
+  describe('getPullRequestInfo', () => {
+    it('maps a merge request from a fork with its diff notes as review comments', async () => {
+      mockApi({
+        [`GET ${PROJECT}/merge_requests/8`]: {
+          id: 800,
+          iid: 8,
+          title: 'Use the local time zone',
+          description: 'Closes #3',
+          state: 'opened',
+          labels: [],
+          author: user('frank'),
+          web_url: 'https://gitlab.example.com/group/sub/app/-/merge_requests/8',
+          source_branch: 'local-time',
+          target_branch: 'main',
+          source_project_id: 12,
+          target_project_id: 9,
+          work_in_progress: true
+        },
+        [`GET ${PROJECT}`]: { id: 9, path: 'app', path_with_namespace: 'group/sub/app', default_branch: 'main' },
+        [`GET ${PROJECT}/languages`]: {},
+        [`GET ${PROJECT}/merge_requests/8/notes`]: [
+          note(1, 'Looks good overall'),
+          { ...note(2, 'Use Intl.DateTimeFormat here'), type: 'DiffNote', position: { new_path: 'src/date.ts', new_line: 14 } },
+          { ...note(3, 'This line was removed on purpose?'), type: 'DiffNote', position: { old_path: 'src/old.ts', new_line: null, old_line: 3 } }
+        ],
+        [`GET ${PROJECT}/merge_requests/8/award_emoji`]: [],
+        'GET /api/v4/projects/12': { id: 12, path: 'app', path_with_namespace: 'frank/app', default_branch: 'main' }
+      });
+
+      const info = await service.getPullRequestInfo('group/sub', 'app', 8, { analyzeCodebase: false });
+
+      expect(info.comments.map(comment => comment.body)).toEqual(['Looks good overall']);
+      expect(info.pullRequest).toEqual({
+        headOwner: 'frank',
+        headRepo: 'app',
+        headBranch: 'local-time',
+        baseBranch: 'main',
+        draft: true,
+        merged: false,
+        reviewComments: [
+          expect.objectContaining({ body: 'Use Intl.DateTimeFormat here', path: 'src/date.ts', line: 14 }),
+          expect.objectContaining({ body: 'This line was removed on purpose?', path: 'src/old.ts', line: 3 })
+        ]
+      });
+      expect(info.repoInfo.language).toBe('Unknown');
+    });
+  });
+
+  describe('createPullRequest', () => {
+    it('creates a draft merge request, resolving users and the milestone to IDs', async () => {
+      const requests = mockApi({
+        'GET /api/v4/users': (request: RecordedRequest) => request.query.username === 'ghost' ? [] : [user(request.query.username, request.query.username.length)],
+        [`GET ${PROJECT}/milestones`]: [{ id: 77 }],
+        [`POST ${PROJECT}/merge_requests`]: { id: 900, iid: 9, web_url: 'https://gitlab.example.com/group/sub/app/-/merge_requests/9' }
+      });
+
+      const created = await service.createPullRequest('group/sub', 'app', {
+        issueNumber: 3,
+        title: 'Fix #3: Dates are shown in UTC',
+        head: 'fix/issue-3',
+        base: 'main',
+        body: 'Closes #3',
+        draft: true,
+        labels: ['bug', 'frontend'],
+        assignees: ['dave'],
+        reviewers: ['erin', 'ghost'],
+        teamReviewers: ['web-team'],
+        milestone: 'v2.1'
+      });
+
+      expect(created).toEqual({
+        url: 'https://gitlab.example.com/group/sub/app/-/merge_requests/9',
+        number: 9,
+        warnings: ['Unknown reviewer: ghost', 'GitLab does not support team reviewers; ignored: web-team']
+      });
+      expect(requests.find(request => request.path === `${PROJECT}/milestones`)?.query.title).toBe('v2.1');
+      expect(requests.find(request => request.method === 'POST')?.body).toEqual({
+        title: 'Draft: Fix #3: Dates are shown in UTC',
+        source_branch: 'fix/issue-3',
+        target_branch: 'main',
+        description: 'Closes #3',
+        remove_source_branch: true,
+        labels: 'bug,frontend',
+        assignee_ids: [4],
+        reviewer_ids: [4],
+        milestone_id: 77
+      });
+    });
+
+    it('looks up a milestone given by number by its IID and keeps an existing draft prefix', async () => {
+      const requests = mockApi({
+        [`GET ${PROJECT}/milestones`]: [],
+        [`POST ${PROJECT}/merge_requests`]: { id: 900, iid: 9, web_url: 'https://gitlab.example.com/group/sub/app/-/merge_requests/9' }
+      });
+
+      const created = await service.createPullRequest('group/sub', 'app', {
+        issueNumber: 3,
+        title: 'Draft: Fix #3',
+        head: 'fix/issue-3',
+        base: 'main',
+        body: '',
+        draft: true,
+        milestone: '4'
+      });
+
+      expect(created.warnings).toEqual(['Milestone not found: 4']);
+      expect(requests[0].query['iids[]']).toBe('4');
+      expect(requests[1].body.title).toBe('Draft: Fix #3');
+    });
+  });
+
+  it('links comments to their note', async () => {
+    mockApi({ [`POST ${PROJECT}/issues/3/notes`]: { id: 55 } });
+
+    expect(await service.commentOnIssue('group/sub', 'app', 3, 'Plan approved')).toEqual({
+      url: 'https://gitlab.example.com/group/sub/app/-/issues/3#note_55'
+    });
+  });
+});
@@ -0,0 +1,678 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+import { ImplementationService, RepairOptions, Workspace } from '../../src/services/implementation.service';
+import { FakeAgent } from '../../src/services/fake-agent.service';
+import { FakeModelProvider } from '../../src/services/fake-model.service';
+import { ForgeProvider, IssueInfo, PullRequestMetadata } from '../../src/services/forge.service';
+import { PlannerService } from '../../src/services/planner.service';
+import { RepoConfig } from '../../src/utils/repo-config';
+import { FileDiff } from '../../src/utils/unified-diff';
+
+// The "container" runs commands on this machine, in the workspace
+jest.mock('../../src/services/docker.service', () => ({
+  DockerService: jest.fn().mockImplementation(() => ({
+    determineDockerImage: () => 'node:20',
+    createContainer: async (options: { workdir: string }) => ({ workdir: options.workdir }),
+    execInContainer: async (container: { workdir: string }, command: string[]) => {
+      const result = require('child_process').spawnSync(command[0], command.slice(1), { cwd: container.workdir, encoding: 'utf-8' });
+      return { exitCode: result.status ?? 1, stdout: result.stdout, stderr: result.stderr };
+    }
+  }))
+}));
+
+const LINES = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`);
+
+describe('ImplementationService.rejectChanges', () => {
+  let workspacePath: string;
+  let startCommit: string;
+  let service: any;
+
+  const read = (file: string) => fs.readFile(path.join(workspacePath, file), 'utf-8');
+  const diff = (): Promise<FileDiff[]> => service.getWorkspaceDiff(workspacePath, startCommit);
+
+  beforeEach(async () => {
+    workspacePath = await fs.mkdtemp(path.join(os.tmpdir(), 'reject-changes-'));
+    const git = simpleGit(workspacePath);
+    await git.init();
+    await git.addConfig('user.name', 'Test');
+    await git.addConfig('user.email', 'test@example.com');
+
+    await fs.writeFile(path.join(workspacePath, 'app.txt'), LINES.join('\n') + '\n');
+    await fs.writeFile(path.join(workspacePath, 'old.txt'), 'obsolete\n');
+    await git.add('.');
+    await git.commit('Initial commit');
+    startCommit = (await git.revparse(['HEAD'])).trim();
+
+    // Two changes far enough apart to be separate hunks, a new file and a deleted one
+    const changed = [...LINES];
+    changed[1] = 'line 2 changed';
+    changed[27] = 'line 28 changed';
+    await fs.writeFile(path.join(workspacePath, 'app.txt'), changed.join('\n') + '\n');
+    await fs.writeFile(path.join(workspacePath, 'new.txt'), 'added\n');
+    await fs.remove(path.join(workspacePath, 'old.txt'));
+
+    service = new ImplementationService(new FakeAgent([]));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspacePath);
+  });
+
+  it('rejects one hunk of a file with several hunks and keeps the others', async () => {
+    const files = await diff();
+    expect(files.map(file => [file.path, file.hunks.length])).toEqual([['app.txt', 2], ['new.txt', 1], ['old.txt', 1]]);
+
+    const result = await service.rejectChanges(workspacePath, startCommit, files, '1.2');
+
+    expect(result).toEqual({ rejected: ['app.txt (hunk 2)'], unknown: [] });
+    const content = (await read('app.txt')).split('\n');
+    expect(content[1]).toBe('line 2 changed');
+    expect(content[27]).toBe('line 28');
+
+    const remaining = await diff();
+    expect(remaining.map(file => file.path)).toEqual(['app.txt', 'new.txt', 'old.txt']);
+    expect(remaining[0].hunks).toHaveLength(1);
+  });
+
+  it('rejects a file when all of its hunks are rejected', async () => {
+    const result = await service.rejectChanges(workspacePath, startCommit, await diff(), '1.1 1.2');
+
+    expect(result.rejected).toEqual(['app.txt']);
+    expect(await read('app.txt')).toBe(LINES.join('\n') + '\n');
+  });
+
+  it('rejects a new file and a deleted file', async () => {
+    const result = await service.rejectChanges(workspacePath, startCommit, await diff(), 'new.txt, 3');
+
+    expect(result).toEqual({ rejected: ['new.txt', 'old.txt'], unknown: [] });
+    expect(await fs.pathExists(path.join(workspacePath, 'new.txt'))).toBe(false);
+    expect(await read('old.txt')).toBe('obsolete\n');
+    expect((await diff()).map(file => file.path)).toEqual(['app.txt']);
+  });
+
+  it('reports files and hunks that do not exist', async () => {
+    const result = await service.rejectChanges(workspacePath, startCommit, await diff(), '4 1.3 missing.txt 2');
+
+    expect(result).toEqual({ rejected: ['new.txt'], unknown: ['4', '1.3', 'missing.txt'] });
+  });
+});
+
+describe('ImplementationService.prepareWorkspace', () => {
+  let root: string;
+  let originPath: string;
+  let forge: ForgeProvider;
+
+  const issue = (title: string, defaultBranch = 'main', pullRequest?: IssueInfo['pullRequest']) => ({
+    owner: 'octo/tools',
+    repo: 'app',
+    issueNumber: 7,
+    title,
+    repoInfo: { defaultBranch },
+    pullRequest
+  }) as unknown as IssueInfo;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'prepare-workspace-'));
+    originPath = path.join(root, 'origin.git');
+    const seedPath = path.join(root, 'seed');
+
+    await simpleGit().init(['--bare', originPath]);
+    await fs.outputFile(path.join(seedPath, 'README.md'), '# app\n');
+
+    const git = simpleGit(seedPath);
+    await git.init();
+    await git.addConfig('user.name', 'Test');
+    await git.addConfig('user.email', 'test@example.com');
+    await git.checkoutLocalBranch('main');
+    await git.add('.');
+    await git.commit('Initial commit');
+    await git.checkoutLocalBranch('develop');
+    await fs.outputFile(path.join(seedPath, '.github/issue-resolver.yml'), 'branchPrefix: bot/\nbaseBranch: release\n');
+    await git.add('.');
+    await git.commit('Configure the resolver');
+    await git.checkoutLocalBranch('release');
+    await git.commit('Prepare the release', ['--allow-empty']);
+    await git.checkoutLocalBranch('fix-crash');
+    await git.addRemote('origin', originPath);
+    await git.push('origin', '--all');
+
+    forge = { getCloneUrl: async () => originPath } as unknown as ForgeProvider;
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  it('names the branch after the issue number and title', async () => {
+    const title = 'Crash when the "Save" button is clicked twice in an editor (Windows & macOS)';
+
+    const workspace = await new ImplementationService(new FakeAgent()).prepareWorkspace(issue(title), root, forge);
+
+    expect(workspace.workspacePath).toBe(path.join(root, 'octo-tools-app-issue-7'));
+    expect(workspace.branchName).toBe('fix/issue-7-crash-when-the-save-button-is-clicked-twice-in-an');
+    expect(workspace.baseBranch).toBe('main');
+    expect((await simpleGit(workspace.workspacePath).revparse(['--abbrev-ref', 'HEAD'])).trim()).toBe(workspace.branchName);
+  });
+
+  it('uses the configured branch prefix and base branch unless a base branch is given', async () => {
+    const service = new ImplementationService(new FakeAgent());
+
+    const configured = await service.prepareWorkspace(issue('Crash on start', 'develop'), root, forge);
+    expect([configured.branchName, configured.baseBranch]).toEqual(['bot/7-crash-on-start', 'release']);
+    expect((await simpleGit(configured.workspacePath).raw(['log', '-1', '--format=%s'])).trim()).toBe('Prepare the release');
+
+    const given = await service.prepareWorkspace(issue('Crash on start', 'develop'), root, forge, 'develop');
+    expect([given.branchName, given.baseBranch]).toEqual(['bot/7-crash-on-start', 'develop']);
+    expect((await simpleGit(given.workspacePath).raw(['log', '-1', '--format=%s'])).trim()).toBe('Configure the resolver');
+  });
+
+  it('checks out the branch of a pull request', async () => {
+    const pullRequest = { headOwner: 'octo/tools', headRepo: 'app', headBranch: 'fix-crash', baseBranch: 'main', draft: false, merged: false, reviewComments: [] };
+
+    const workspace = await new ImplementationService(new FakeAgent()).prepareWorkspace(issue('Fix the crash', 'main', pullRequest), root, forge);
+
+    expect(workspace).toMatchObject({ workspacePath: path.join(root, 'octo-tools-app-pr-7'), branchName: 'fix-crash', baseBranch: 'main' });
+    expect((await simpleGit(workspace.workspacePath).revparse(['--abbrev-ref', 'HEAD'])).trim()).toBe('fix-crash');
+  });
+});
+
+describe('ImplementationService test runs', () => {
+  let workspacePath: string;
+  let service: any;
+
+  const analysis = (dependencies: string[] = []) => ({ dependencies: dependencies.map(name => ({ name })) });
+  const node = (script: string) => ['node', '-e', script];
+  const run = (commands: object) => service.runTests({ workdir: workspacePath }, workspacePath, commands, analysis());
+
+  // Writes a JUnit XML report with one passing and one failing test to the given file
+  const writeJUnit = (file: string) => node([
+    `require('fs').mkdirSync(require('path').dirname(${JSON.stringify(file)}), { recursive: true });`,
+    `require('fs').writeFileSync(${JSON.stringify(file)}, '<testsuite><testcase classname="SumTest" name="adds"/>' +`,
+    `'<testcase classname="SumTest" name="subtracts"><failure message="expected 1"/></testcase></testsuite>');`,
+    'process.exit(1);'
+  ].join(' '));
+
+  beforeEach(async () => {
+    workspacePath = await fs.mkdtemp(path.join(os.tmpdir(), 'test-runs-'));
+    service = new ImplementationService(new FakeAgent());
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspacePath);
+  });
+
+  it.each([
+    [['python', '-m', 'pytest'], [], ['python', '-m', 'pytest', '-rA', '--junitxml=reports/pytest.xml']],
+    [['go', 'test', './...'], [], ['go', 'test', '-json', './...']],
+    [['go', 'test', '-json', './...'], [], ['go', 'test', '-json', './...']],
+    [['npm', 'test'], ['jest'], ['npm', 'test', '--', '--json', '--outputFile=reports/report.json']],
+    [['pnpm', 'test'], ['vitest'], ['pnpm', 'test', '--reporter=json', '--outputFile=reports/report.json']],
+    [['yarn', 'test'], [], ['yarn', 'test']],
+    [['make', 'test'], ['jest'], ['make', 'test']]
+  ])('asks %j for a parseable report', (command, dependencies, expected) => {
+    expect(service.withTestReporter(command, analysis(dependencies), 'reports')).toEqual(expected);
+  });
+
+  it('stops at a failing build', async () => {
+    const result = await run({ build: { command: node('process.exit(2)'), source: 'config' }, test: { command: node(''), source: 'config' } });
+
+    expect(result).toEqual({ success: false, output: 'Build failed: node -e process.exit(2)\n\n', tests: [] });
+  });
+
+  it('skips the tests without a test command', async () => {
+    expect(await run({})).toEqual({ success: true, output: 'Tests skipped: no test command for this project', tests: [] });
+  });
+
+  it('reads the results from the report directory', async () => {
+    const result = await run({ test: { command: writeJUnit('.git/issue-resolver/results.xml'), source: 'config' } });
+
+    expect(result.success).toBe(false);
+    expect(result.format).toBe('junit');
+    expect(result.tests.map((test: { name: string; status: string }) => [test.name, test.status])).toEqual([['adds', 'passed'], ['subtracts', 'failed']]);
+  });
+
+  it('finds JUnit reports written into the build directories during the run', async () => {
+    await fs.outputFile(path.join(workspacePath, 'node_modules/dep/TEST-dep.xml'), '<testcase name="ignored"/>');
+
+    const result = await run({ test: { command: writeJUnit('target/surefire-reports/TEST-SumTest.xml'), source: 'config' } });
+
+    expect(result.format).toBe('junit');
+    expect(result.tests).toHaveLength(2);
+  });
+
+  it('reports a test command that cannot be run', async () => {
+    const result = await service.runTests(undefined, path.join(workspacePath, 'missing'), { test: { command: node(''), source: 'config' } }, analysis());
+
+    expect(result).toMatchObject({ success: false, output: expect.stringMatching(/^Error running tests: /), tests: [] });
+  });
+
+  describe('reporting', () => {
+    const failing = { name: 'subtracts', suite: 'SumTest', status: 'failed', message: 'expected 1' };
+    const report = (overrides: object) => ({
+      format: 'junit',
+      success: false,
+      summary: { passed: 1, failed: 1, skipped: 0 },
+      baseline: { success: false, summary: { passed: 1, failed: 1, skipped: 0 } },
+      newFailures: [],
+      removedTests: [],
+      newPasses: [],
+      preExistingFailures: [],
+      ...overrides
+    });
+
+    it('shows the end of the output when the results could not be parsed', () => {
+      const output = `${'x'.repeat(1000)}\ncompile error`;
+
+      expect(service.formatTestReport({ output, tests: [] }, report({ format: undefined, baseline: { success: true, summary: {} } })))
+        .toBe(`⚠️ Tests fail since this change\n\n\`\`\`\n${output.slice(-1000)}\n\`\`\``);
+      expect(service.formatTestReport({ output: 'error', tests: [] }, report({ format: undefined })))
+        .toMatch(/^⚠️ Tests failed, as they did before this change/);
+    });
+
+    it('lists failures that were already there with their messages', () => {
+      const text = service.formatTestReport({ output: '', tests: [failing] }, report({ preExistingFailures: ['SumTest > subtracts'] }));
+
+      expect(text).toBe([
+        '⚠️ Some tests fail, as they did before this change',
+        '',
+        '**After:** 1 passed, 1 failed, 0 skipped (junit) · **Before:** 1 passed, 1 failed, 0 skipped',
+        '',
+        '#### Failing before this change',
+        '- `SumTest > subtracts`: expected 1'
+      ].join('\n'));
+    });
+
+    it('shortens long lists and names tests that no longer run', () => {
+      const removedTests = Array.from({ length: 22 }, (_, index) => `test ${index + 1}`);
+
+      const text = service.formatTestReport({ output: '', tests: [] }, report({ success: true, summary: { passed: 0, failed: 0, skipped: 0 }, removedTests }));
+
+      expect(text).toMatch(/^⚠️ 22 test\(s\) no longer run since this change/);
+      expect(text).toContain('- `test 20`\n- ...and 2 more');
+      expect(service.describeTestFailures({ newFailures: [], removedTests })).toBe(`${removedTests.slice(0, 20).map(id => `${id} (missing)`).join(', ')} and 2 more`);
+      expect(service.describeTestFailures({ newFailures: [], removedTests: [] })).toBe('the test command fails');
+    });
+  });
+});
+
+describe('planning and implementing an issue with the fake model and agent', () => {
+  // A TAP test script with one test per check
+  const testScript = (checks: Record<string, string>) => [
+    'const sum = require(\'./src/sum\');',
+    'const results = [',
+    ...Object.entries(checks).map(([name, check]) => `  [${JSON.stringify(name)}, ${check}],`),
+    '];',
+    'console.log(\'TAP version 13\');',
+    'results.forEach(([name, ok], index) => console.log(`${ok ? \'ok\' : \'not ok\'} ${index + 1} - ${name}`));',
+    'console.log(`1..${results.length}`);',
+    'process.exit(results.every(([, ok]) => ok) ? 0 : 1);',
+    ''
+  ].join('\n');
+
+  const FIXED_SUM = 'module.exports = (a, b) => a + b;\n';
+
+  const PLAN = {
+    problemSummary: 'sum subtracts instead of adding',
+    proposedSolution: 'Add the numbers in src/sum.js',
+    targetProjects: [],
+    filesToModify: ['src/sum.js'],
+    implementationSteps: [
+      {
+        description: 'Add the numbers in src/sum.js',
+        targetFiles: ['src/sum.js'],
+        changeType: 'modify',
+        risk: 'low',
+        size: 'trivial',
+        acceptanceChecks: ['sum(1, 2) is 3']
+      },
+      {
+        description: 'Test adding negative numbers',
+        targetFiles: ['test.js'],
+        changeType: 'test',
+        risk: 'low',
+        size: 'trivial',
+        acceptanceChecks: ['The test covers negative numbers']
+      }
+    ],
+    testingStrategy: 'Run node test.js',
+    successCriteria: 'The tests pass'
+  };
+
+  let root: string;
+  let workspacePath: string;
+  let originPath: string;
+  let issueInfo: IssueInfo;
+  let forge: ForgeProvider & { createPullRequest: jest.Mock };
+  let context: { progress: jest.Mock; requestUserInput: jest.Mock };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'fake-pipeline-'));
+    workspacePath = path.join(root, 'workspace');
+    originPath = path.join(root, 'origin.git');
+
+    await simpleGit().init(['--bare', originPath]);
+    await fs.outputFile(path.join(workspacePath, 'src/sum.js'), 'module.exports = (a, b) => a - b;\n');
+    await fs.outputFile(path.join(workspacePath, 'test.js'), testScript({ 'adds two numbers': 'sum(1, 2) === 3' }));
+
+    const git = simpleGit(workspacePath);
+    await git.init();
+    await git.addConfig('user.name', 'Test');
+    await git.addConfig('user.email', 'test@example.com');
+    await git.add('.');
+    await git.commit('Initial commit');
+    await git.addRemote('origin', originPath);
+    await git.checkoutLocalBranch('fix/issue-7');
+
+    issueInfo = {
+      forge: 'github',
+      serverUrl: 'https://github.com',
+      owner: 'octo',
+      repo: 'app',
+      issueNumber: 7,
+      url: 'https://github.com/octo/app/issues/7',
+      title: 'sum subtracts',
+      body: 'sum(1, 2) returns -1 instead of 3',
+      labels: [],
+      comments: [],
+      repoInfo: { name: 'app', fullName: 'octo/app', language: 'JavaScript', defaultBranch: 'main', hasIssues: true },
+      codebaseAnalysis: {
+        fileStructure: [
+          { type: 'dir', path: 'src', name: 'src', children: [{ type: 'file', path: 'src/sum.js', name: 'sum.js' }] },
+          { type: 'file', path: 'test.js', name: 'test.js' }
+        ],
+        buildSystem: 'unknown',
+        mainLanguage: 'JavaScript',
+        languages: [],
+        ecosystems: [],
+        dependencies: [],
+        subProjects: []
+      }
+    } as unknown as IssueInfo;
+
+    forge = {
+      type: 'github',
+      getToken: async () => 'token',
+      getCloneUrl: async () => originPath,
+      createPullRequest: jest.fn().mockResolvedValue({ url: 'https://github.com/octo/app/pull/8', warnings: [] })
+    } as unknown as ForgeProvider & { createPullRequest: jest.Mock };
+
+    context = { progress: jest.fn(), requestUserInput: jest.fn().mockResolvedValue('Accept all') };
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  const implement = async (agent: FakeAgent, repairOptions?: RepairOptions, pullRequestMetadata: PullRequestMetadata = {}, repoConfig: Partial<RepoConfig> = {}) => {
+    const model = new FakeModelProvider([JSON.stringify(PLAN)]);
+    const plan = await new PlannerService(undefined, model).createResolutionPlan(issueInfo);
+
+    expect(model.requests).toHaveLength(1);
+    expect(plan.implementationSteps.map(step => step.description)).toEqual(PLAN.implementationSteps.map(step => step.description));
+
+    const workspace: Workspace = {
+      workspacePath,
+      branchName: 'fix/issue-7',
+      baseBranch: 'main',
+      repoConfig: { test: ['node', 'test.js'], protectedPaths: [], labels: [], planTemplates: [], ...repoConfig }
+    };
+    const service = new ImplementationService(agent);
+    const devEnv = await service.setupDevEnvironment(issueInfo, workspace, forge, plan);
+
+    return service.implementSolution(devEnv, plan, issueInfo, forge, context, pullRequestMetadata, repairOptions);
+  };
+
+  it('implements the planned steps, pushes the branch and opens a pull request', async () => {
+    const agent = new FakeAgent([
+      { files: { 'src/sum.js': FIXED_SUM } },
+      { files: { 'test.js': testScript({ 'adds two numbers': 'sum(1, 2) === 3 && sum(-1, -2) === -3' }) } }
+    ]);
+
+    const result = await implement(agent);
+
+    expect(agent.requests.map(request => request.targetFiles)).toEqual([['src/sum.js'], ['test.js']]);
+    expect(result.stepResults.map(step => step.success)).toEqual([true, true]);
+    expect(result.testReport.newPasses).toEqual(['adds two numbers']);
+    expect(result.testReport.newFailures).toEqual([]);
+    expect(result.pullRequestUrl).toBe('https://github.com/octo/app/pull/8');
+    expect(forge.createPullRequest).toHaveBeenCalledWith('octo', 'app', expect.objectContaining({ head: 'fix/issue-7', base: 'main' }));
+
+    const pushed = simpleGit(originPath);
+    expect((await pushed.raw(['log', '-1', '--format=%s', 'fix/issue-7'])).trim()).toBe('Fix #7: sum subtracts');
+    expect(await pushed.raw(['show', 'fix/issue-7:src/sum.js'])).toBe(FIXED_SUM);
+  });
+
+  it('opens the pull request with the requested metadata and the configured labels', async () => {
+    const agent = new FakeAgent([{ files: { 'src/sum.js': FIXED_SUM } }]);
+
+    await implement(agent, {}, { draft: true, labels: ['bug', 'automated'], reviewers: ['carol'], milestone: 'v2' }, { labels: ['automated'] });
+
+    expect(forge.createPullRequest).toHaveBeenCalledWith('octo', 'app', expect.objectContaining({
+      issueNumber: 7,
+      title: 'Fix #7: sum subtracts',
+      head: 'fix/issue-7',
+      base: 'main',
+      draft: true,
+      labels: ['automated', 'bug'],
+      reviewers: ['carol'],
+      milestone: 'v2',
+      body: expect.stringContaining('#7')
+    }));
+  });
+
+  it('undoes changes to protected paths and reports the lint results', async () => {
+    const agent = new FakeAgent([{ files: { 'src/sum.js': FIXED_SUM, '.github/workflows/ci.yml': 'on: push\n' } }]);
+
+    const result = await implement(agent, {}, {}, {
+      protectedPaths: ['.github/**'],
+      lint: ['node', '-e', 'console.log("2 problems"); process.exit(1)']
+    });
+
+    expect(agent.requests[0].prompt).toMatch(/ Do not modify \.github\/\*\*\.$/);
+    expect(result.revertedProtectedPaths).toEqual(['.github/workflows/ci.yml']);
+    expect(await fs.pathExists(path.join(workspacePath, '.github/workflows/ci.yml'))).toBe(false);
+
+    const body = forge.createPullRequest.mock.calls[0][2].body;
+    expect(body).toContain('### Lint Results\n⚠️ Lint reported problems\n\n```\n2 problems');
+    expect(body).toContain('> Changes to protected paths were undone: .github/workflows/ci.yml');
+  });
+
+  it('runs the tests after test steps only and warns about nothing while they pass', async () => {
+    const runTests = jest.spyOn(ImplementationService.prototype as any, 'runTests');
+    const agent = new FakeAgent([
+      { files: { 'src/sum.js': FIXED_SUM } },
+      { files: { 'test.js': testScript({ 'adds two numbers': 'sum(1, 2) === 3', 'adds negative numbers': 'sum(-1, -2) === -3' }) } }
+    ]);
+
+    try {
+      await implement(agent);
+
+      // Before the changes, after the test step and after the last step
+      expect(runTests).toHaveBeenCalledTimes(3);
+      expect(context.progress).not.toHaveBeenCalledWith({ message: expect.stringMatching(/^Warning/) });
+    } finally {
+      runTests.mockRestore();
+    }
+  });
+
+  it('warns about a failed step and continues with the next one', async () => {
+    const agent = new FakeAgent([
+      { error: 'The agent ran out of turns' },
+      { files: { 'src/sum.js': FIXED_SUM, 'test.js': testScript({ 'adds two numbers': 'sum(1, 2) === 3' }) } }
+    ]);
+
+    const result = await implement(agent);
+
+    expect(context.progress).toHaveBeenCalledWith({ message: 'Warning: step 1 failed: The agent ran out of turns' });
+    expect(result.stepResults.map(step => step.success)).toEqual([false, true]);
+    expect(result.testReport.newFailures).toEqual([]);
+    expect(result.pullRequestUrl).toBe('https://github.com/octo/app/pull/8');
+  });
+
+  it('warns when the tests fail after a test step and repairs them', async () => {
+    const agent = new FakeAgent([
+      { files: { 'src/sum.js': FIXED_SUM } },
+      { files: { 'test.js': testScript({ 'adds two numbers': 'sum(1, 2) === 3', 'adds negative numbers': 'sum(-1, -2) === -4' }) } },
+      { files: { 'test.js': testScript({ 'adds two numbers': 'sum(1, 2) === 3', 'adds negative numbers': 'sum(-1, -2) === -3' }) } }
+    ]);
+
+    const result = await implement(agent);
+
+    expect(context.progress).toHaveBeenCalledWith({ message: 'Warning: tests fail after step 2: adds negative numbers' });
+    expect(result.repairAttempts.map(attempt => attempt.testsPass)).toEqual([true]);
+    expect(result.testReport.newFailures).toEqual([]);
+  });
+
+  it('does not count deleting a failing test as fixing it', async () => {
+    const agent = new FakeAgent([{ files: { 'test.js': testScript({ 'loads the module': 'typeof sum === \'function\'' }) } }]);
+
+    await expect(implement(agent)).rejects.toThrow('Tests fail since the change and the failures were not accepted');
+
+    expect(context.progress).toHaveBeenCalledWith({ message: expect.stringContaining('Repair attempt 1/') });
+    expect(context.progress).toHaveBeenCalledWith({ message: expect.stringContaining('adds two numbers (missing)') });
+    expect(agent.requests[2].prompt).toContain('Tests that ran before the changes but no longer run; restore them:\n- adds two numbers');
+    expect(forge.createPullRequest).not.toHaveBeenCalled();
+  });
+
+  it('stops repairing after maxIterations attempts', async () => {
+    const broken = testScript({ 'adds two numbers': 'sum(1, 2) === 3', 'adds negative numbers': 'sum(-1, -2) === -4' });
+    const agent = new FakeAgent([
+      { files: { 'src/sum.js': FIXED_SUM } },
+      { files: { 'test.js': broken } },
+      { files: { 'test.js': broken } },
+      { files: { 'test.js': broken } }
+    ]);
+
+    await expect(implement(agent, { maxIterations: 1 })).rejects.toThrow('Tests fail since the change and the failures were not accepted');
+
+    expect(agent.requests).toHaveLength(3);
+    expect(context.progress).toHaveBeenCalledWith({ message: expect.stringMatching(/^Repair attempt 1\/1: /) });
+  });
+
+  it('starts no repair attempt once the time budget is used up', async () => {
+    const agent = new FakeAgent([
+      { files: { 'src/sum.js': FIXED_SUM } },
+      { files: { 'test.js': testScript({ 'adds two numbers': 'sum(1, 2) === 3', 'adds negative numbers': 'sum(-1, -2) === -4' }) } }
+    ]);
+
+    await expect(implement(agent, { maxIterations: 3, timeBudgetSeconds: 0 })).rejects.toThrow('Tests fail since the change and the failures were not accepted');
+
+    expect(agent.requests).toHaveLength(2);
+    expect(context.progress).toHaveBeenCalledWith({ message: 'Repair time budget used up' });
+    expect(context.progress).not.toHaveBeenCalledWith({ message: expect.stringContaining('Repair attempt') });
+  });
+
+  it('pushes failing tests when the user accepts them and reports the repair attempts', async () => {
+    const agent = new FakeAgent([
+      { files: { 'src/sum.js': FIXED_SUM } },
+      { files: { 'test.js': testScript({ 'adds two numbers': 'sum(1, 2) === 3', 'adds negative numbers': 'sum(-1, -2) === -4' }) } },
+      { error: 'The agent gave up' }
+    ]);
+    context.requestUserInput.mockResolvedValueOnce('Accept all').mockResolvedValueOnce('Push anyway');
+
+    const result = await implement(agent, { maxIterations: 1 });
+
+    expect(context.progress).toHaveBeenCalledWith({ message: 'Repair attempt 1: 1 test(s) still failing' });
+    expect(context.requestUserInput.mock.calls[1][0]).toMatchObject({
+      message: expect.stringMatching(/^Tests fail since the change after 1 repair attempt\(s\):/),
+      options: ['Push anyway', 'Abort']
+    });
+    expect(result.failuresAccepted).toBe(true);
+    expect(result.repairAttempts).toEqual([expect.objectContaining({ success: false, remainingFailures: ['adds negative numbers'], testsPass: false })]);
+
+    const body = forge.createPullRequest.mock.calls[0][2].body;
+    expect(body).toContain('> Pushed with failing tests at the requester\'s request\n\n⚠️ 1 test(s) fail since this change');
+    expect(body).toContain('#### New failures\n- `adds negative numbers`');
+    expect(body).toContain('#### Newly passing\n- `adds two numbers`');
+    expect(body).toContain('### Repair Attempts\n1. 1 test(s) still failing (no files changed) ⚠️ The agent gave up');
+  });
+
+  it('undoes rejected files before committing and reports them in the pull request', async () => {
+    const agent = new FakeAgent([{ files: { 'src/sum.js': FIXED_SUM, 'notes.txt': 'scratch\n' } }]);
+    context.requestUserInput
+      .mockResolvedValueOnce('Reject files or hunks')
+      .mockResolvedValueOnce('notes.txt 9')
+      .mockResolvedValueOnce('Accept all');
+
+    const result = await implement(agent);
+
+    expect(result.review.rejected).toEqual(['notes.txt']);
+    expect(context.progress).toHaveBeenCalledWith({ message: 'Warning: no such file or hunk in the diff: 9' });
+    expect(context.progress).toHaveBeenCalledWith({ message: 'Rejected notes.txt' });
+    expect((await simpleGit(originPath).raw(['ls-tree', '--name-only', 'fix/issue-7'])).split('\n').filter(Boolean)).toEqual(['src', 'test.js']);
+    expect(forge.createPullRequest.mock.calls[0][2].body).toContain('> Left out at the reviewer\'s request: notes.txt');
+  });
+
+  it('hands review feedback to the coding agent and shows the updated diff', async () => {
+    const documented = `// Adds two numbers\n${FIXED_SUM}`;
+    const agent = new FakeAgent([{ files: { 'src/sum.js': FIXED_SUM } }, {}, { files: { 'src/sum.js': documented } }]);
+    context.requestUserInput
+      .mockResolvedValueOnce('Request changes')
+      .mockResolvedValueOnce('   ')
+      .mockResolvedValueOnce('Request changes')
+      .mockResolvedValueOnce('Document sum\nin one line')
+      .mockResolvedValueOnce('Accept all');
+
+    const result = await implement(agent);
+
+    expect(agent.requests[2]).toMatchObject({ stepNumber: 3, description: 'Revise on review feedback: Document sum', targetFiles: ['src/sum.js'] });
+    expect(agent.requests[2].prompt).toContain('according to this review feedback: Document sum\nin one line');
+    expect(context.requestUserInput.mock.calls[4][0].message).toMatch(/^## Review the changes before they are committed \(updated\)/);
+    expect(result.review.revisions.map(revision => revision.filesChanged)).toEqual([['src/sum.js']]);
+    expect(await simpleGit(originPath).raw(['show', 'fix/issue-7:src/sum.js'])).toBe(documented);
+    expect(forge.createPullRequest.mock.calls[0][2].body).toContain('### Review Revisions\n3. Revise on review feedback: Document sum (`src/sum.js`)');
+  });
+
+  it('commits nothing when the changes are not accepted in review', async () => {
+    const agent = new FakeAgent([{ files: { 'src/sum.js': FIXED_SUM } }]);
+    context.requestUserInput.mockResolvedValueOnce('Abort');
+
+    await expect(implement(agent)).rejects.toThrow('The changes were not accepted in review; nothing was committed or pushed');
+    expect(forge.createPullRequest).not.toHaveBeenCalled();
+  });
+
+  it('commits nothing when the review rejects every change', async () => {
+    const agent = new FakeAgent([{ files: { 'src/sum.js': FIXED_SUM } }]);
+    context.requestUserInput.mockResolvedValueOnce('Reject files or hunks').mockResolvedValueOnce('1');
+
+    await expect(implement(agent)).rejects.toThrow('No changes are left after the review; nothing was committed or pushed');
+  });
+
+  it('commits nothing when the coding agent changes nothing', async () => {
+    await expect(implement(new FakeAgent(), { maxIterations: 0 })).rejects.toThrow('The coding agent made no changes; there is nothing to commit');
+    expect(context.requestUserInput).not.toHaveBeenCalled();
+  });
+
+  it('pushes review fixes to the branch of a pull request without opening another one', async () => {
+    issueInfo.url = 'https://github.com/octo/app/pull/7';
+    issueInfo.pullRequest = { headOwner: 'fork', headRepo: 'app-fork', headBranch: 'fix/issue-7', baseBranch: 'main', draft: false, merged: false, reviewComments: [] };
+    const getCloneUrl = jest.fn(async () => originPath);
+    forge.getCloneUrl = getCloneUrl;
+
+    const result = await implement(new FakeAgent([{ files: { 'src/sum.js': FIXED_SUM } }]));
+
+    expect(result.pullRequestUrl).toBe('https://github.com/octo/app/pull/7');
+    expect(getCloneUrl).toHaveBeenCalledWith('fork', 'app-fork');
+    expect(forge.createPullRequest).not.toHaveBeenCalled();
+    expect((await simpleGit(originPath).raw(['log', '-1', '--format=%s', 'fix/issue-7'])).trim()).toBe('Address review feedback on #7');
+  });
+
+  it('commits as the identity the forge gives', async () => {
+    forge.getCommitIdentity = async () => ({ name: 'resolver[bot]', email: '42+resolver[bot]@users.noreply.github.com' });
+
+    await implement(new FakeAgent([{ files: { 'src/sum.js': FIXED_SUM } }]));
+
+    expect((await simpleGit(originPath).raw(['log', '-1', '--format=%an <%ae>', 'fix/issue-7'])).trim())
+      .toBe('resolver[bot] <42+resolver[bot]@users.noreply.github.com>');
+  });
+
+  it('does not open a pull request when the push is rejected', async () => {
+    forge.getCloneUrl = async () => path.join(root, 'missing.git');
+    const agent = new FakeAgent([{ files: { 'src/sum.js': FIXED_SUM } }]);
+
+    await expect(implement(agent)).rejects.toThrow(/Failed to push fix\/issue-7 \(git exited with \d+\)/);
+    expect(forge.createPullRequest).not.toHaveBeenCalled();
+  });
+});
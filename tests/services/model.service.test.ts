@@ -0,0 +1,209 @@
+import config from '../../src/config';
+import { AnthropicModelProvider } from '../../src/services/anthropic-model.service';
+import { FakeModelProvider } from '../../src/services/fake-model.service';
+import { createModelProvider, getModelSettings, ModelSettings } from '../../src/services/model.service';
+import { OllamaModelProvider } from '../../src/services/ollama-model.service';
+import { OpenAIModelProvider } from '../../src/services/openai-model.service';
+
+interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Answer every fetch with the given status and JSON body, recording the requests
+ */
+function mockFetch(status: number, body: unknown): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+
+  jest.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    requests.push({
+      url: String(input),
+      headers: Object.fromEntries(Object.entries(init?.headers || {}).map(([name, value]) => [name.toLowerCase(), String(value)])),
+      body: JSON.parse(String(init?.body))
+    });
+    return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+  });
+
+  return requests;
+}
+
+const settings = (overrides: Partial<ModelSettings> = {}): ModelSettings => ({
+  provider: 'openai',
+  model: 'test-model',
+  maxTokens: 1000,
+  temperature: 0.2,
+  timeoutSeconds: 300,
+  ...overrides
+});
+
+const REQUEST = {
+  system: 'You plan fixes for issues',
+  messages: [{ role: 'user' as const, content: 'Plan issue #7' }],
+  json: true
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('OpenAIModelProvider', () => {
+  it('sends the conversation to the chat completions endpoint in JSON mode', async () => {
+    const requests = mockFetch(200, { choices: [{ message: { role: 'assistant', content: '{"plan": true}' } }] });
+
+    const reply = await new OpenAIModelProvider(settings({ apiKey: 'sk-test' })).complete(REQUEST);
+
+    expect(reply).toBe('{"plan": true}');
+    expect(requests).toEqual([{
+      url: 'https://api.openai.com/v1/chat/completions',
+      headers: expect.objectContaining({ authorization: 'Bearer sk-test', 'content-type': 'application/json' }),
+      body: {
+        model: 'test-model',
+        messages: [{ role: 'system', content: 'You plan fixes for issues' }, { role: 'user', content: 'Plan issue #7' }],
+        max_tokens: 1000,
+        temperature: 0.2,
+        response_format: { type: 'json_object' }
+      }
+    }]);
+  });
+
+  it('talks to compatible servers without an API key', async () => {
+    const requests = mockFetch(200, { choices: [{ message: { content: 'Done' } }] });
+
+    await new OpenAIModelProvider(settings({ apiUrl: 'http://localhost:8080/v1/' })).complete({ ...REQUEST, json: false });
+
+    expect(requests[0].url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body.response_format).toBeUndefined();
+  });
+
+  it('fails on an empty reply or an error response', async () => {
+    mockFetch(200, { choices: [{ message: { content: null }, finish_reason: 'content_filter' }] });
+    await expect(new OpenAIModelProvider(settings()).complete(REQUEST))
+      .rejects.toThrow('Failed to get completion: The response contained no message content');
+
+    mockFetch(400, { error: { message: 'Unknown model' } });
+    await expect(new OpenAIModelProvider(settings()).complete(REQUEST))
+      .rejects.toThrow(/^Failed to get completion: POST \/v1\/chat\/completions failed with status 400: .*Unknown model/);
+  });
+});
+
+describe('AnthropicModelProvider', () => {
+  it('sends the system prompt separately to the Messages API and joins the text blocks', async () => {
+    const requests = mockFetch(200, {
+      content: [{ type: 'text', text: '{"plan": ' }, { type: 'tool_use', id: 'x' }, { type: 'text', text: 'true}' }],
+      stop_reason: 'end_turn'
+    });
+
+    const reply = await new AnthropicModelProvider(settings({ provider: 'anthropic', apiKey: 'sk-ant' })).complete(REQUEST);
+
+    expect(reply).toBe('{"plan": true}');
+    expect(requests).toEqual([{
+      url: 'https://api.anthropic.com/v1/messages',
+      headers: expect.objectContaining({ 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' }),
+      body: {
+        model: 'test-model',
+        system: 'You plan fixes for issues',
+        messages: [{ role: 'user', content: 'Plan issue #7' }],
+        max_tokens: 1000,
+        temperature: 0.2
+      }
+    }]);
+  });
+
+  it('reports the stop reason of a reply without text', async () => {
+    mockFetch(200, { content: [], stop_reason: 'max_tokens' });
+
+    await expect(new AnthropicModelProvider(settings({ provider: 'anthropic' })).complete(REQUEST))
+      .rejects.toThrow('Failed to get completion: The response contained no text (stop reason: max_tokens)');
+  });
+});
+
+describe('OllamaModelProvider', () => {
+  it('sends the conversation to the native chat API without streaming', async () => {
+    const requests = mockFetch(200, { message: { role: 'assistant', content: '{"plan": true}' }, done: true });
+
+    const reply = await new OllamaModelProvider(settings({ provider: 'ollama' })).complete(REQUEST);
+
+    expect(reply).toBe('{"plan": true}');
+    expect(requests).toEqual([{
+      url: 'http://localhost:11434/api/chat',
+      headers: expect.not.objectContaining({ authorization: expect.anything() }),
+      body: {
+        model: 'test-model',
+        messages: [{ role: 'system', content: 'You plan fixes for issues' }, { role: 'user', content: 'Plan issue #7' }],
+        stream: false,
+        format: 'json',
+        options: { temperature: 0.2, num_predict: 1000 }
+      }
+    }]);
+  });
+
+  it('authenticates to a proxied server and fails on an empty reply', async () => {
+    const requests = mockFetch(200, { message: { role: 'assistant', content: '' }, done: true });
+
+    await expect(new OllamaModelProvider(settings({ provider: 'ollama', apiUrl: 'https://ollama.example.com', apiKey: 'secret' })).complete(REQUEST))
+      .rejects.toThrow('Failed to get completion: The response contained no message content');
+    expect(requests[0].url).toBe('https://ollama.example.com/api/chat');
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+  });
+});
+
+describe('getModelSettings', () => {
+  const original = { ...config };
+
+  afterEach(() => {
+    Object.assign(config, original);
+  });
+
+  it('returns nothing when no provider is configured', () => {
+    config.modelProvider = '';
+
+    expect(getModelSettings()).toBeUndefined();
+  });
+
+  it('reads the settings of the configured provider', () => {
+    Object.assign(config, {
+      modelProvider: 'anthropic',
+      modelName: 'test-model',
+      modelApiUrl: '',
+      modelApiKey: 'sk-ant',
+      modelMaxTokens: 4096,
+      modelTemperature: 0,
+      modelTimeoutSeconds: 120
+    });
+
+    const modelSettings = getModelSettings()!;
+
+    expect(modelSettings).toEqual({
+      provider: 'anthropic',
+      model: 'test-model',
+      apiUrl: undefined,
+      apiKey: 'sk-ant',
+      maxTokens: 4096,
+      temperature: 0,
+      timeoutSeconds: 120
+    });
+    expect(createModelProvider(modelSettings)).toBeInstanceOf(AnthropicModelProvider);
+  });
+
+  it('rejects an unknown provider and a missing model name', () => {
+    Object.assign(config, { modelProvider: 'gemini', modelName: 'test-model' });
+    expect(() => getModelSettings()).toThrow('Unknown MODEL_PROVIDER: gemini. Use one of openai, anthropic, ollama, fake');
+
+    Object.assign(config, { modelProvider: 'ollama', modelName: '' });
+    expect(() => getModelSettings()).toThrow('MODEL_NAME is required for the ollama model provider');
+  });
+
+  it('needs no model name for the fake provider', () => {
+    Object.assign(config, { modelProvider: 'fake', modelName: '' });
+
+    const modelSettings = getModelSettings()!;
+
+    expect(modelSettings.model).toBe('fake');
+    expect(createModelProvider(modelSettings)).toBeInstanceOf(FakeModelProvider);
+    expect(createModelProvider({ ...modelSettings, provider: 'ollama' })).toBeInstanceOf(OllamaModelProvider);
+    expect(createModelProvider({ ...modelSettings, provider: 'openai' })).toBeInstanceOf(OpenAIModelProvider);
+  });
+});
@@ -0,0 +1,154 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ResolutionPlan } from '../../src/services/planner.service';
+import { PlanKey, PlanStoreService } from '../../src/services/plan-store.service';
+import { ResolveTarget } from '../../src/utils/resolve-target';
+
+const key: PlanKey = { serverUrl: 'https://github.com', owner: 'octo', repo: 'app', number: 12, kind: 'issue' };
+const issue = { url: 'https://github.com/octo/app/issues/12', title: 'Crash on start' };
+
+const plan: ResolutionPlan = {
+  problemSummary: 'The app crashes on start',
+  proposedSolution: 'Check the config before reading it',
+  targetProjects: [],
+  filesToModify: ['src/app.ts'],
+  relevantFiles: [],
+  errorLocations: [],
+  implementationSteps: [{
+    description: 'Check the config in src/app.ts',
+    targetFiles: ['src/app.ts'],
+    changeType: 'modify',
+    risk: 'medium',
+    size: 'small',
+    acceptanceChecks: ['The app starts without a config file']
+  }],
+  testingStrategy: 'Start the app without a config file',
+  successCriteria: 'The app starts'
+};
+
+describe('PlanStoreService.getVersion', () => {
+  let rootPath: string;
+  let store: PlanStoreService;
+
+  beforeEach(async () => {
+    rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-store-'));
+    store = new PlanStoreService(rootPath);
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootPath);
+  });
+
+  it('returns the requested version, or the latest one', async () => {
+    await store.addVersion(key, issue, plan, 'planner');
+    await store.addVersion(key, issue, { ...plan, testingStrategy: 'Run the unit tests' }, 'user', 'Run the unit tests');
+
+    expect((await store.getVersion(key, 1))?.stored.plan.testingStrategy).toBe('Start the app without a config file');
+    expect((await store.getVersion(key))?.stored.version).toBe(2);
+    expect(await store.getVersion(key, 3)).toBeUndefined();
+    expect(await store.getVersion({ ...key, number: 13 })).toBeUndefined();
+  });
+
+  it('fails with the file path when the stored plan no longer matches the schema', async () => {
+    await store.addVersion(key, issue, plan, 'planner');
+
+    const filePath = path.join(rootPath, 'github.com', 'octo', 'app', 'issue-12.json');
+    const record = await fs.readJson(filePath);
+    record.versions[0].plan.implementationSteps[0].risk = 'extreme';
+    await fs.writeJson(filePath, record);
+
+    await expect(store.getVersion(key, 1)).rejects.toThrow(
+      `Plan version 1 stored in ${filePath} is invalid: Plan does not match the schema: ` +
+      'plan.implementationSteps[0].risk must be one of low, medium, high'
+    );
+  });
+});
+
+describe('PlanStoreService', () => {
+  let rootPath: string;
+  let store: PlanStoreService;
+
+  beforeEach(async () => {
+    rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-store-'));
+    store = new PlanStoreService(rootPath);
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootPath);
+  });
+
+  it('records versions and what happened to them', async () => {
+    expect(await store.addVersion(key, issue, plan, 'planner')).toBe(1);
+    expect(await store.addVersion(key, { ...issue, title: 'Crash on first start' }, plan, 'alice', 'Keep it small')).toBe(2);
+    await store.recordEvent(key, 'approved', 2, 'alice');
+    await store.recordEvent(key, 'implemented', 2, 'alice', 'https://github.com/octo/app/pull/13');
+
+    const record = await store.get(key);
+
+    expect(record).toMatchObject({ key, url: issue.url, title: 'Crash on first start', approvedVersion: 2 });
+    expect(record?.versions.map(stored => [stored.version, stored.createdBy, stored.modifications])).toEqual([[1, 'planner', undefined], [2, 'alice', 'Keep it small']]);
+    expect(record?.history.map(event => [event.action, event.version, event.actor, event.details])).toEqual([
+      ['created', 1, 'planner', undefined],
+      ['modified', 2, 'alice', undefined],
+      ['approved', 2, 'alice', undefined],
+      ['implemented', 2, 'alice', 'https://github.com/octo/app/pull/13']
+    ]);
+    expect(await fs.readdir(path.join(rootPath, 'github.com', 'octo', 'app'))).toEqual(['issue-12.json']);
+  });
+
+  it('records events only for stored versions', async () => {
+    await expect(store.recordEvent(key, 'approved', 1, 'alice')).rejects.toThrow('Failed to save plan record: No plan is stored for octo/app#12');
+
+    await store.addVersion(key, issue, plan, 'planner');
+    await expect(store.recordEvent(key, 'rejected', 2, 'alice')).rejects.toThrow('Failed to save plan record: Plan version 2 does not exist');
+  });
+
+  it('refuses to store an invalid plan', async () => {
+    await expect(store.addVersion(key, issue, { ...plan, implementationSteps: [] }, 'planner')).rejects.toThrow('Plan does not match the schema');
+    expect(await store.get(key)).toBeUndefined();
+  });
+
+  it('reports a record that cannot be read', async () => {
+    await fs.outputFile(path.join(rootPath, 'github.com', 'octo', 'app', 'issue-12.json'), '{');
+
+    await expect(store.get(key)).rejects.toThrow(/^Failed to read plan record: /);
+    await expect(store.list()).rejects.toThrow(/^Failed to list plan records: /);
+  });
+
+  it('lists the stored records, optionally of one repository', async () => {
+    const nested: PlanKey = { ...key, owner: 'octo/app', repo: 'cli', number: 3 };
+    const pullRequest: PlanKey = { ...key, number: 14, kind: 'pull_request' };
+    await store.addVersion(key, issue, plan, 'planner');
+    await store.addVersion(nested, issue, plan, 'planner');
+    await store.addVersion(pullRequest, issue, plan, 'planner');
+    await fs.outputFile(path.join(rootPath, 'github.com', 'octo', 'app', 'notes.txt'), 'not a record');
+
+    expect(await store.list({ serverUrl: 'https://gitlab.com', owner: 'octo', repo: 'app' })).toEqual([]);
+    expect((await store.list()).map(record => record.key.number).sort((a, b) => a - b)).toEqual([3, 12, 14]);
+    expect((await store.list({ serverUrl: key.serverUrl, owner: 'octo', repo: 'app' })).map(record => record.key.number).sort((a, b) => a - b)).toEqual([12, 14]);
+    expect(await new PlanStoreService(path.join(rootPath, 'missing')).list()).toEqual([]);
+  });
+
+  it('finds the plan of a shorthand reference under either kind', async () => {
+    const target: ResolveTarget = { forge: 'github', ...key, number: 14, kindKnown: false };
+    await store.addVersion({ ...key, number: 14, kind: 'pull_request' }, issue, plan, 'planner');
+
+    expect((await store.find(target))?.key.kind).toBe('pull_request');
+    expect(await store.find({ ...target, kindKnown: true })).toBeUndefined();
+  });
+
+  it('never reads or writes records outside the store', async () => {
+    const rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-store-'));
+    const store = new PlanStoreService(path.join(rootPath, 'plans'));
+    const escaping: PlanKey = { ...key, owner: '../../..', repo: 'outside' };
+
+    try {
+      await expect(store.get(escaping)).rejects.toThrow('Invalid repository ../../../outside: its plans would be stored outside');
+      await expect(store.addVersion(escaping, issue, plan, 'planner')).rejects.toThrow('its plans would be stored outside');
+      expect(await fs.readdir(rootPath)).toEqual([]);
+    } finally {
+      await fs.remove(rootPath);
+    }
+  });
+});
@@ -0,0 +1,331 @@
+import { FakeModelProvider } from '../../src/services/fake-model.service';
+import { IssueInfo } from '../../src/services/forge.service';
+import { PlannerService, ResolutionPlan } from '../../src/services/planner.service';
+import { PlanTemplate } from '../../src/utils/plan-templates';
+
+const PLAN: ResolutionPlan = {
+  problemSummary: 'Dates are shown in UTC',
+  proposedSolution: 'Format dates in the user\'s time zone',
+  targetProjects: ['packages/web'],
+  filesToModify: ['packages/web/src/date.ts'],
+  relevantFiles: [{ path: 'packages/web/src/date.ts', score: 4, reasons: ['Named in the issue'] }],
+  errorLocations: [],
+  implementationSteps: [
+    {
+      description: 'Format dates in the user\'s time zone',
+      targetFiles: ['packages/web/src/date.ts'],
+      changeType: 'modify',
+      risk: 'low',
+      size: 'small',
+      acceptanceChecks: ['Dates use the browser time zone']
+    }
+  ],
+  testingStrategy: 'Run the web package tests',
+  successCriteria: 'Dates are shown in local time'
+};
+
+function monorepoIssue(): IssueInfo {
+  return {
+    forge: 'github',
+    serverUrl: 'https://github.com',
+    owner: 'octo',
+    repo: 'app',
+    issueNumber: 3,
+    url: 'https://github.com/octo/app/issues/3',
+    title: 'Dates are shown in UTC',
+    body: 'The date in the header is in UTC instead of my time zone',
+    labels: [],
+    comments: [],
+    timeline: [],
+    linkedPullRequests: [],
+    referencedIssues: [],
+    repoInfo: { name: 'app', fullName: 'octo/app', language: 'TypeScript', defaultBranch: 'main', hasIssues: true },
+    codebaseAnalysis: {
+      fileStructure: [
+        { type: 'file', path: 'packages/web/src/date.ts', name: 'date.ts', content: 'export const formatDate = (date: Date) => date.toISOString();\n' },
+        { type: 'file', path: 'packages/api/src/server.ts', name: 'server.ts', content: 'export {};\n' }
+      ],
+      buildSystem: 'npm',
+      mainLanguage: 'TypeScript',
+      languages: [],
+      ecosystems: [],
+      dependencies: [],
+      subProjects: [
+        { name: '@app/web', path: 'packages/web', buildSystem: 'npm' },
+        { name: '@app/api', path: 'packages/api', buildSystem: 'npm' }
+      ]
+    }
+  } as unknown as IssueInfo;
+}
+
+describe('PlannerService with a model', () => {
+  it('drops target projects the model made up from a new plan', async () => {
+    const model = new FakeModelProvider([JSON.stringify({ ...PLAN, targetProjects: ['packages/web', 'packages/ui'] })]);
+
+    const plan = await new PlannerService(undefined, model).createResolutionPlan(monorepoIssue());
+
+    expect(plan.targetProjects).toEqual(['packages/web']);
+  });
+
+  it('drops target projects the model made up from a revised plan', async () => {
+    const issue = monorepoIssue();
+    const revised = { ...PLAN, targetProjects: ['packages/api', 'packages/shared'], testingStrategy: 'Run the web and api tests' };
+    const model = new FakeModelProvider([JSON.stringify(revised)]);
+
+    const plan = await new PlannerService(undefined, model)
+      .updatePlanWithModifications(PLAN, 'Also check the API serializes dates', issue.codebaseAnalysis.subProjects);
+
+    expect(model.requests).toHaveLength(1);
+    expect(plan.targetProjects).toEqual(['packages/api']);
+    expect(plan.testingStrategy).toBe('Run the web and api tests');
+  });
+
+  it('applies a JSON patch without asking the model', async () => {
+    const model = new FakeModelProvider();
+
+    const plan = await new PlannerService(undefined, model).updatePlanWithModifications(
+      PLAN,
+      '[{"op": "replace", "path": "/testingStrategy", "value": "npm test --workspace=packages/web"}]',
+      monorepoIssue().codebaseAnalysis.subProjects
+    );
+
+    expect(model.requests).toHaveLength(0);
+    expect(plan.testingStrategy).toBe('npm test --workspace=packages/web');
+  });
+  it('retries a reply it cannot use, saying what was wrong', async () => {
+    const model = new FakeModelProvider(['I would change the date formatter', JSON.stringify(PLAN)]);
+
+    const plan = await new PlannerService(undefined, model).createResolutionPlan(monorepoIssue());
+
+    expect(model.requests).toHaveLength(2);
+    expect(model.requests[1].messages.slice(1)).toEqual([
+      { role: 'assistant', content: 'I would change the date formatter' },
+      { role: 'user', content: 'That reply could not be used: No JSON object found in the model response. Reply with only the JSON object.' }
+    ]);
+    expect(plan.problemSummary).toBe(PLAN.problemSummary);
+  });
+
+  it('falls back to the heuristic plan when the model keeps failing', async () => {
+    const model = new FakeModelProvider(['no plan', 'still no plan']);
+
+    const plan = await new PlannerService(undefined, model).createResolutionPlan(monorepoIssue());
+
+    expect(model.requests).toHaveLength(2);
+    expect(plan.problemSummary).toBe('Issue #3: Dates are shown in UTC');
+  });
+
+  it('loads the contents of candidate files for the prompt', async () => {
+    const issue = monorepoIssue();
+    delete issue.codebaseAnalysis.fileStructure[0].content;
+    const loadFileContent = jest.fn(async () => 'export const formatDate = (date: Date) => date.toUTCString();\n');
+    const model = new FakeModelProvider();
+
+    await new PlannerService(loadFileContent, model).createResolutionPlan(issue);
+
+    expect(loadFileContent).toHaveBeenCalledWith(expect.objectContaining({ path: 'packages/web/src/date.ts' }));
+    expect(model.requests[0].messages[0].content).toContain('date.toUTCString()');
+  });
+});
+
+describe('PlannerService with resolution templates', () => {
+  const migration: PlanTemplate = {
+    name: 'migration',
+    description: 'Change the database schema',
+    labels: ['database'],
+    classes: ['chore'],
+    steps: [
+      { description: 'Write the migration', changeType: 'add', files: 'source' },
+      { description: 'Test the migration', changeType: 'test', files: 'tests', acceptanceChecks: ['The migration runs twice without errors'] }
+    ],
+    testingStrategy: 'Run the migration against a copy of the database'
+  };
+
+  it('builds the plan from the template chosen by label', async () => {
+    const plan = await new PlannerService(undefined, undefined, { planTemplates: [migration] })
+      .createResolutionPlan({ ...monorepoIssue(), labels: ['Database'] });
+
+    expect(plan.proposedSolution).toBe('Follow the "migration" resolution template (chosen by label "database"): Change the database schema');
+    expect(plan.testingStrategy).toBe('Run the migration against a copy of the database');
+    expect(plan.implementationSteps.map(step => [step.description, step.changeType])).toEqual([
+      ['Understand the issue by analyzing the code', 'none'],
+      ['Write the migration', 'add'],
+      ['Test the migration', 'test'],
+      ['Verify the fix resolves the issue', 'none']
+    ]);
+    expect(plan.implementationSteps[2].acceptanceChecks).toEqual(['The migration runs twice without errors']);
+  });
+
+  it('chooses a template by triage class when no label matches', async () => {
+    const plan = await new PlannerService(undefined, undefined, { planTemplates: [migration] })
+      .createResolutionPlan(monorepoIssue(), 'chore');
+
+    expect(plan.proposedSolution).toMatch(/^Follow the "migration" resolution template \(chosen by triage class chore\)/);
+  });
+
+  it('plans a generic fix when no template matches', async () => {
+    const plan = await new PlannerService(undefined, undefined, { planTemplates: [migration] })
+      .createResolutionPlan(monorepoIssue(), 'bug');
+
+    expect(plan.proposedSolution).not.toMatch(/template/);
+    expect(plan.implementationSteps.map(step => step.changeType)).toEqual(['none', 'modify', 'test', 'none']);
+  });
+});
+
+
+describe('PlannerService with stack traces', () => {
+  it('targets where each error was raised', async () => {
+    const issue = monorepoIssue();
+    issue.body = [
+      'Saving fails:',
+      '```',
+      'TypeError: Cannot read properties of undefined (reading \'id\')',
+      '    at saveUser (/app/packages/api/src/server.ts:12:5)',
+      '    at node:internal/process/task_queues:95:5',
+      '```'
+    ].join('\n');
+
+    const plan = await new PlannerService().createResolutionPlan(issue);
+
+    expect(plan.problemSummary).toBe('Issue #3: Dates are shown in UTC (TypeError raised at packages/api/src/server.ts:12)');
+    expect(plan.filesToModify[0]).toBe('packages/api/src/server.ts');
+    expect(plan.errorLocations).toEqual([expect.objectContaining({ path: 'packages/api/src/server.ts', line: 12, function: 'saveUser' })]);
+    expect(plan.relevantFiles[0].reasons[0]).toBe('raises TypeError (line 12)');
+    expect(plan.implementationSteps[1]).toMatchObject({
+      description: 'Fix the TypeError raised in saveUser (packages/api/src/server.ts:12)',
+      targetFiles: ['packages/api/src/server.ts'],
+      acceptanceChecks: ['TypeError is no longer raised at packages/api/src/server.ts:12']
+    });
+  });
+});
+
+describe('PlannerService with a pull request', () => {
+  const reviewComment = (index: number, path?: string) => ({
+    author: 'alice',
+    body: `Comment ${index}\nmore detail`,
+    createdAt: '2024-05-01T10:00:00Z',
+    url: `https://github.com/octo/app/pull/3#discussion_r${index}`,
+    reactions: {},
+    path,
+    line: path ? index : undefined
+  });
+
+  function pullRequestIssue(reviewComments: ReturnType<typeof reviewComment>[]): IssueInfo {
+    return {
+      ...monorepoIssue(),
+      pullRequest: { headOwner: 'octo', headRepo: 'app', headBranch: 'local-time', baseBranch: 'main', draft: false, merged: false, reviewComments }
+    };
+  }
+
+  it('plans one step for review feedback without inline comments', async () => {
+    const plan = await new PlannerService().createResolutionPlan(pullRequestIssue([reviewComment(1)]));
+
+    expect(plan.problemSummary).toBe('Pull request #3: Dates are shown in UTC (review feedback to address)');
+    expect(plan.proposedSolution).toBe('Address the review feedback with additional commits on local-time');
+    expect(plan.successCriteria).toBe('All tests pass and every review comment is addressed');
+    expect(plan.implementationSteps.map(step => step.description)).toEqual([
+      'Address the review feedback',
+      'Add or update tests in @app/web',
+      'Verify the changes address the review feedback'
+    ]);
+  });
+
+  it('plans a step per inline comment and groups the ones past the tenth', async () => {
+    const comments = Array.from({ length: 12 }, (_, index) => reviewComment(index + 1, index < 11 ? 'packages/web/src/date.ts' : 'packages/web/src/header.ts'));
+
+    const plan = await new PlannerService().createResolutionPlan(pullRequestIssue(comments));
+
+    expect(plan.filesToModify.slice(0, 2)).toEqual(['packages/web/src/date.ts', 'packages/web/src/header.ts']);
+    expect(plan.relevantFiles[1]).toEqual({ path: 'packages/web/src/header.ts', score: 0, reasons: ['has inline review comments'] });
+    expect(plan.implementationSteps[0]).toMatchObject({
+      description: 'Address review comment by alice on packages/web/src/date.ts:1: Comment 1',
+      targetFiles: ['packages/web/src/date.ts'],
+      acceptanceChecks: ['The review comment by alice on packages/web/src/date.ts:1 is resolved']
+    });
+    expect(plan.implementationSteps[10]).toMatchObject({
+      description: 'Address the remaining 2 review comment(s)',
+      targetFiles: ['packages/web/src/date.ts', 'packages/web/src/header.ts']
+    });
+    expect(plan.implementationSteps).toHaveLength(13);
+  });
+});
+
+describe('PlannerService in a monorepo', () => {
+  it('targets the package the issue names', async () => {
+    const issue = { ...monorepoIssue(), body: 'The api package returns dates in UTC' };
+
+    const plan = await new PlannerService().createResolutionPlan(issue);
+
+    expect(plan.targetProjects).toEqual(['packages/api']);
+    expect(plan.implementationSteps[1].description).toBe('Implement necessary changes in @app/api');
+  });
+
+  it('keeps every package the issue points at about as strongly', async () => {
+    const issue = { ...monorepoIssue(), body: 'Both packages/web and packages/api show dates in UTC' };
+
+    const plan = await new PlannerService().createResolutionPlan(issue);
+
+    expect(plan.targetProjects.sort()).toEqual(['packages/api', 'packages/web']);
+  });
+
+  it('falls back to entry points when nothing in the issue matches the repository', async () => {
+    const issue = monorepoIssue();
+    issue.title = 'Crashes on startup';
+    issue.body = 'It crashes right away';
+    issue.codebaseAnalysis.subProjects = [];
+    issue.codebaseAnalysis.fileStructure = [
+      { type: 'file', path: 'src/index.ts', name: 'index.ts', content: 'export {};\n' },
+      { type: 'file', path: 'src/util.ts', name: 'util.ts', content: 'export {};\n' }
+    ];
+
+    const plan = await new PlannerService().createResolutionPlan(issue);
+
+    expect(plan.targetProjects).toEqual([]);
+    expect(plan.relevantFiles).toEqual([{ path: 'src/index.ts', score: 0, reasons: ['entry point; nothing in the issue matched the repository'] }]);
+  });
+});
+
+describe('PlannerService.updatePlanWithModifications by section', () => {
+  const subProjects = monorepoIssue().codebaseAnalysis.subProjects;
+
+  it('replaces the sections named by headings', async () => {
+    const plan = await new PlannerService().updatePlanWithModifications(PLAN, [
+      '## Testing Strategy:',
+      'Run the web package tests in a browser',
+      'Target Projects',
+      'Implementation Steps:',
+      '1. Investigate how date.ts formats dates',
+      '2) Format dates in local time in date.ts',
+      'Files to Modify:',
+      '- packages/web/src/date.ts',
+      '* packages/web/src/header.ts'
+    ].join('\n'), subProjects);
+
+    expect(plan.testingStrategy).toBe('Run the web package tests in a browser');
+    expect(plan.targetProjects).toEqual([]);
+    expect(plan.filesToModify).toEqual(['packages/web/src/date.ts', 'packages/web/src/header.ts']);
+    expect(plan.implementationSteps.map(step => [step.description, step.changeType, step.targetFiles])).toEqual([
+      ['Investigate how date.ts formats dates', 'none', ['packages/web/src/date.ts']],
+      ['Format dates in local time in date.ts', 'modify', ['packages/web/src/date.ts']]
+    ]);
+    expect(plan.problemSummary).toBe(PLAN.problemSummary);
+  });
+
+  it('applies sections when the model cannot revise the plan', async () => {
+    const model = new FakeModelProvider(['no plan', 'still no plan']);
+
+    const plan = await new PlannerService(undefined, model)
+      .updatePlanWithModifications(PLAN, 'Success Criteria: dates follow the browser time zone', subProjects);
+
+    expect(model.requests).toHaveLength(2);
+    expect(plan.successCriteria).toBe('dates follow the browser time zone');
+  });
+
+  it.each([
+    ['without headings', 'Please also test the API', /^Failed to update plan: No plan sections found\. Start each change with a heading such as "Problem Summary:"/],
+    ['with text before the first heading', 'Also:\nTesting Strategy: run everything', 'Failed to update plan: Text before the first section heading cannot be applied: "Also:"'],
+    ['with an empty section', 'Testing Strategy:\nSuccess Criteria: dates are local', 'Failed to update plan: The "Testing Strategy" section is empty'],
+    ['given as an invalid JSON patch', '[{"op": "remove", "path": "/problemSummary"}]', /^Failed to update plan: Plan does not match the schema: /]
+  ])('rejects modifications %s', async (_name, modifications, message) => {
+    await expect(new PlannerService().updatePlanWithModifications(PLAN, modifications, subProjects)).rejects.toThrow(message);
+  });
+});
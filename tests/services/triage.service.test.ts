@@ -0,0 +1,194 @@
+import config from '../../src/config';
+import { IssueInfo } from '../../src/services/forge.service';
+import { getTriageRules, TriageRules, TriageService } from '../../src/services/triage.service';
+
+const rules: TriageRules = {
+  allowLabels: [],
+  denyLabels: [],
+  allowedClasses: ['bug', 'feature', 'docs', 'chore'],
+  maxScope: 'medium'
+};
+
+function issue(title: string, body = '', overrides: Partial<IssueInfo> = {}): IssueInfo {
+  return {
+    title,
+    body,
+    url: 'https://github.com/owner/repo/issues/1',
+    labels: [],
+    state: 'open',
+    locked: false,
+    assignees: [],
+    timeline: [],
+    linkedPullRequests: [],
+    referencedIssues: [],
+    ...overrides
+  } as unknown as IssueInfo;
+}
+
+describe('TriageService classification', () => {
+  const triage = new TriageService();
+
+  it.each([
+    'Can\'t save files on Windows',
+    'Does not work with Node 20',
+    'Should not crash on empty input',
+    'Is broken after upgrading to 2.0'
+  ])('classifies "%s" as a bug', title => {
+    const result = triage.triage(issue(title), rules);
+
+    expect(result.classification).toBe('bug');
+    expect(result.proceed).toBe(true);
+  });
+
+  it.each([
+    'How do I configure the cache?',
+    'Is there a way to disable retries?',
+    'Why does the build take so long'
+  ])('classifies "%s" as a question', title => {
+    const result = triage.triage(issue(title), rules);
+
+    expect(result.classification).toBe('question');
+    expect(result.proceed).toBe(false);
+  });
+});
+
+describe('TriageService signals', () => {
+  const triage = new TriageService();
+
+  it.each([
+    ['feat(cli): add a --json flag', [], 'feature'],
+    ['[Docs] Explain the cache settings', [], 'docs'],
+    ['chore: bump typescript', [], 'chore'],
+    ['Output is misaligned', ['regression'], 'bug'],
+    ['Would be nice to have ability to export', [], 'feature'],
+    ['Fix the typo in the README', [], 'docs'],
+    ['Upgrade deprecated APIs', [], 'chore'],
+    ['Something about colors', [], 'bug']
+  ])('classifies "%s" with labels %j as %s', (title, labels, expected) => {
+    expect(triage.triage(issue(title, '', { labels: labels as string[] }), rules).classification).toBe(expected);
+  });
+
+  it('counts a stack trace in the body as a sign of a bug and explains the classification', () => {
+    const result = triage.triage(issue('Add retries to the uploader', [
+      'Uploading fails with:',
+      'Error: socket hang up',
+      '    at upload (/app/src/uploader.ts:12:7)'
+    ].join('\n')), rules);
+
+    expect(result.classification).toBe('bug');
+    expect(result.reasons[0]).toBe('Classified as bug from stack trace, mentions "fails"');
+  });
+
+  it('explains a classification without signals', () => {
+    expect(triage.triage(issue('Colors'), rules).reasons[0]).toBe('No clear signals; classified as bug');
+  });
+
+  it.each([
+    ['Crash on save', '', [], 'small'],
+    ['Rewrite the storage layer', '', [], 'medium'],
+    ['Redesign the settings page', '', ['epic'], 'large'],
+    ['Crash on save', Array.from({ length: 6 }, (_, index) => `- [ ] Part ${index + 1}`).join('\n'), [], 'medium'],
+    ['Crash on save', 'x'.repeat(4001), [], 'medium'],
+    ['Rewrite the parser', '', ['good first issue'], 'medium'],
+    ['Migrate to ESM', 'x'.repeat(2000), ['good first issue'], 'medium']
+  ])('estimates the scope of "%s"', (title, body, labels, expected) => {
+    expect(triage.triage(issue(title, body, { labels: labels as string[] }), rules).scope).toBe(expected);
+  });
+
+  it('estimates a large scope for an issue linking many others and blocks it above the maximum', () => {
+    const referencedIssues = Array.from({ length: 5 }, (_, index) => ({ owner: 'o', repo: 'r', issueNumber: index + 2, direction: 'outgoing' }));
+    const body = Array.from({ length: 3 }, (_, index) => `- [x] Step ${index + 1}`).join('\n');
+
+    const result = triage.triage(issue('Rework the cache', body, { referencedIssues } as Partial<IssueInfo>), rules);
+
+    expect(result.scope).toBe('large');
+    expect(result.reasons[1]).toBe('Estimated large scope from title mentions "rework", 3 checklist items, links 5 other issues');
+    expect(result.blockers).toEqual(['Estimated scope is large, above the maximum of medium; consider splitting the issue']);
+  });
+});
+
+describe('TriageService checks', () => {
+  const triage = new TriageService();
+
+  it('blocks closed, locked and duplicate issues', () => {
+    const result = triage.triage(issue('Crash on save', '', {
+      state: 'closed',
+      stateReason: 'not_planned',
+      locked: true,
+      timeline: [{ event: 'marked_as_duplicate', actor: 'carol', createdAt: '' }]
+    }), rules);
+
+    expect(result.proceed).toBe(false);
+    expect(result.blockers).toEqual([
+      'Issue is closed (not planned)',
+      'Issue conversation is locked',
+      'Issue is marked as a duplicate'
+    ]);
+  });
+
+  it('recognizes duplicates recorded as GitLab system notes, unless closed as one', () => {
+    const timeline = [{ event: 'system_note', actor: 'carol', createdAt: '', details: 'marked this issue as a duplicate of #3' }];
+
+    expect(triage.triage(issue('Crash on save', '', { timeline }), rules).blockers).toEqual(['Issue is marked as a duplicate']);
+    expect(triage.triage(issue('Crash on save', '', { timeline, state: 'closed', stateReason: 'duplicate' }), rules).blockers)
+      .toEqual(['Issue is closed (duplicate)']);
+  });
+
+  it('weighs linked pull requests and assignees', () => {
+    const pullRequest = (number: number, state: string, closesIssue: boolean) =>
+      ({ repository: 'octo/app', number, title: `Change ${number}`, url: '', state, draft: false, closesIssue });
+
+    const result = triage.triage(issue('Crash on save', '', {
+      assignees: ['dave'],
+      linkedPullRequests: [pullRequest(4, 'open', true), pullRequest(5, 'open', false), pullRequest(6, 'merged', true), pullRequest(7, 'closed', true)]
+    } as Partial<IssueInfo>), rules);
+
+    expect(result.blockers).toEqual(['Open pull request octo/app#4 (Change 4) already closes this issue']);
+    expect(result.warnings).toEqual([
+      'Assigned to dave; someone may already be working on it',
+      'Open pull request octo/app#5 (Change 5) references this issue',
+      'Merged pull request octo/app#6 was meant to close this issue; the fix may be incomplete'
+    ]);
+  });
+
+  it('applies the allow and deny labels, ignoring case', () => {
+    const labelRules = { ...rules, allowLabels: ['autofix'], denyLabels: ['wontfix'] };
+
+    expect(triage.triage(issue('Crash on save', '', { labels: ['AutoFix'] }), labelRules).proceed).toBe(true);
+    expect(triage.triage(issue('Crash on save', '', { labels: ['WontFix'] }), labelRules).blockers).toEqual([
+      'Labelled "WontFix", which triage denies',
+      'Has none of the allowed labels: autofix'
+    ]);
+  });
+
+  it('only checks state and labels of pull requests', () => {
+    const pullRequest = { headOwner: 'octo', headRepo: 'app', headBranch: 'fix', baseBranch: 'main', draft: false, merged: true, reviewComments: [] };
+
+    const result = triage.triage(issue('How do I rewrite the cache?', '', { pullRequest, labels: ['epic'] }), rules);
+
+    expect(result.classification).toBe('question');
+    expect(result.blockers).toEqual(['Pull request is already merged']);
+  });
+});
+
+describe('getTriageRules', () => {
+  const original = { ...config };
+
+  afterEach(() => {
+    Object.assign(config, original);
+  });
+
+  it('reads the rules from the configuration', () => {
+    Object.assign(config, { triageAllowLabels: ['autofix'], triageDenyLabels: [], triageAllowedClasses: ['bug', 'docs'], triageMaxScope: 'small' });
+
+    expect(getTriageRules()).toEqual({ allowLabels: ['autofix'], denyLabels: [], allowedClasses: ['bug', 'docs'], maxScope: 'small' });
+  });
+
+  it('rejects unknown classes and scopes', () => {
+    Object.assign(config, { triageAllowedClasses: ['bug', 'security'], triageMaxScope: 'small' });
+    expect(() => getTriageRules()).toThrow('Unknown TRIAGE_ALLOWED_CLASSES: security. Use any of bug, feature, docs, question, chore');
+
+    Object.assign(config, { triageAllowedClasses: ['bug'], triageMaxScope: 'huge' });
+    expect(() => getTriageRules()).toThrow('Unknown TRIAGE_MAX_SCOPE: huge. Use one of small, medium, large');
+  });
+});
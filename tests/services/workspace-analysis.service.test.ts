@@ -0,0 +1,72 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+import { FileStructure } from '../../src/services/forge.service';
+import { WorkspaceAnalysisService } from '../../src/services/workspace-analysis.service';
+
+function listPaths(fileStructure: FileStructure[]): string[] {
+  return fileStructure.flatMap(entry => [entry.path, ...listPaths(entry.children || [])]);
+}
+
+describe('WorkspaceAnalysisService', () => {
+  let workspacePath: string;
+
+  beforeEach(async () => {
+    workspacePath = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-analysis-'));
+
+    await fs.outputFile(path.join(workspacePath, '.gitignore'), 'dist/\n*.log\n');
+    await fs.outputFile(path.join(workspacePath, 'package.json'), JSON.stringify({ name: 'app', dependencies: { express: '^4.18.0' } }));
+    await fs.outputFile(path.join(workspacePath, 'src/index.ts'), 'export const main = () => 1;\n');
+    await fs.outputFile(path.join(workspacePath, 'src/legacy/ignored.ts'), 'export {};\n');
+    await fs.outputFile(path.join(workspacePath, 'src/legacy/.gitignore'), 'ignored.ts\n');
+
+    const git = simpleGit(workspacePath);
+    await git.init();
+    await git.addConfig('user.name', 'Test');
+    await git.addConfig('user.email', 'test@example.com');
+    await git.add('.');
+    await git.commit('Initial commit');
+
+    // Ignored build output, an ignored log, an untracked source file and a binary file
+    await fs.outputFile(path.join(workspacePath, 'dist/index.js'), 'exports.main = () => 1;\n');
+    await fs.outputFile(path.join(workspacePath, 'debug.log'), 'starting\n');
+    await fs.outputFile(path.join(workspacePath, 'src/new-feature.ts'), 'export const feature = true;\n');
+    await fs.outputFile(path.join(workspacePath, 'src/logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspacePath);
+  });
+
+  it('lists tracked and untracked files, leaving out ignored ones at any depth', async () => {
+    const analysis = await new WorkspaceAnalysisService().analyze(workspacePath);
+    const paths = listPaths(analysis.fileStructure);
+
+    expect(paths).toEqual(expect.arrayContaining(['package.json', 'src', 'src/index.ts', 'src/new-feature.ts', 'src/legacy/.gitignore']));
+    expect(paths).not.toContain('dist');
+    expect(paths).not.toContain('dist/index.js');
+    expect(paths).not.toContain('debug.log');
+    expect(paths).not.toContain('src/legacy/ignored.ts');
+    expect(analysis.buildSystem).toBe('npm');
+    expect(analysis.dependencies.map(dependency => dependency.name)).toEqual(['express']);
+    expect(analysis.commitSha).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('reads text files from the workspace but not binary ones', async () => {
+    const service = new WorkspaceAnalysisService();
+    const analysis = await service.analyze(workspacePath);
+    const files = analysis.fileStructure.flatMap(entry => [entry, ...(entry.children || [])]);
+
+    expect(await service.getFileContent(workspacePath, files.find(file => file.path === 'src/new-feature.ts')!))
+      .toBe('export const feature = true;\n');
+    expect(await service.getFileContent(workspacePath, files.find(file => file.path === 'src/logo.png')!)).toBeUndefined();
+  });
+
+  it('reports a directory that is not a git repository as an incomplete analysis', async () => {
+    const analysis = await new WorkspaceAnalysisService().analyze(path.join(workspacePath, 'missing'));
+
+    expect(analysis.fileStructure).toEqual([]);
+    expect(analysis.incomplete).toBeDefined();
+  });
+});
@@ -0,0 +1,58 @@
+import config from '../../src/config';
+import { resolveForgeHost } from '../../src/utils/forge-hosts';
+
+describe('resolveForgeHost', () => {
+  const original = { ...config };
+
+  beforeEach(() => {
+    Object.assign(config, {
+      githubToken: 'github-token',
+      gitlabToken: 'gitlab-token',
+      giteaToken: 'gitea-token',
+      githubAppId: '',
+      githubAppPrivateKey: '',
+      hostTokens: {},
+      hostApiUrls: {}
+    });
+  });
+
+  afterAll(() => {
+    Object.assign(config, original);
+  });
+
+  it('uses GITHUB_TOKEN for github.com', () => {
+    const host = resolveForgeHost('https://www.github.com', 'github');
+
+    expect(host.apiUrl).toBe('https://api.github.com');
+    expect(host.token).toBe('github-token');
+  });
+
+  it('never sends GITHUB_TOKEN to another host', () => {
+    expect(() => resolveForgeHost('https://evil.example.com', 'github')).toThrow(/No token is configured for evil\.example\.com/);
+  });
+
+  it('uses the host token or an explicit token for GitHub Enterprise Server', () => {
+    config.hostTokens = { 'ghe.example.com': 'ghe-token' };
+
+    expect(resolveForgeHost('https://ghe.example.com', 'github').token).toBe('ghe-token');
+    expect(resolveForgeHost('https://other.example.com', 'github', 'explicit').token).toBe('explicit');
+    expect(resolveForgeHost('https://ghe.example.com', 'github').apiUrl).toBe('https://ghe.example.com/api/v3');
+  });
+
+  it('only sends GITLAB_TOKEN and GITEA_TOKEN to gitlab.com and gitea.com', () => {
+    expect(resolveForgeHost('https://gitlab.com', 'gitlab').token).toBe('gitlab-token');
+    expect(resolveForgeHost('https://gitea.com', 'gitea').token).toBe('gitea-token');
+
+    // Detected from the URL shape or a known Gitea host, but never configured
+    expect(() => resolveForgeHost('https://evil.example.com', 'gitlab')).toThrow(/No token is configured/);
+    expect(() => resolveForgeHost('https://codeberg.org', 'gitea')).toThrow(/No token is configured/);
+  });
+
+  it('uses per-host tokens for self-hosted GitLab and Gitea', () => {
+    config.hostTokens = { 'gitlab.example.com': 'own-token' };
+
+    const host = resolveForgeHost('https://gitlab.example.com', 'gitlab');
+    expect(host.token).toBe('own-token');
+    expect(host.apiUrl).toBe('https://gitlab.example.com/api/v4');
+  });
+});
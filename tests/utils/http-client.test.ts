@@ -0,0 +1,31 @@
+import { HttpClient } from '../../src/utils/http-client';
+import { RateLimitedRequester } from '../../src/utils/rate-limit';
+
+describe('HttpClient', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    // Resolves only when the request is aborted
+    fetchMock = jest.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+    }));
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('abandons a request without a response after its timeout and retries it once more when idempotent', async () => {
+    const client = new HttpClient('https://gitlab.example.com/api/v4', {}, new RateLimitedRequester({ maxRetries: 1, baseDelayMs: 0 }));
+
+    await expect(client.request('/projects/1', { timeoutMs: 20 })).rejects.toThrow('GET /api/v4/projects/1 timed out after 0.02 seconds');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a request that is not idempotent', async () => {
+    const client = new HttpClient('https://gitlab.example.com/api/v4', {}, new RateLimitedRequester({ maxRetries: 1, baseDelayMs: 0 }));
+
+    await expect(client.request('/projects/1/merge_requests', { method: 'POST', body: {}, timeoutMs: 20 })).rejects.toThrow('timed out');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
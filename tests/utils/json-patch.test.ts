@@ -0,0 +1,125 @@
+import { applyJsonPatch, JsonPatchError, parseJsonPatch } from '../../src/utils/json-patch';
+
+describe('applyJsonPatch', () => {
+  it('adds object members and array elements, with - appending', () => {
+    const document = { foo: ['bar', 'baz'] };
+
+    expect(applyJsonPatch(document, [
+      { op: 'add', path: '/baz', value: 'qux' },
+      { op: 'add', path: '/foo/1', value: 'qux' },
+      { op: 'add', path: '/foo/-', value: 'end' }
+    ])).toEqual({ foo: ['bar', 'qux', 'baz', 'end'], baz: 'qux' });
+  });
+
+  it('removes object members and array elements', () => {
+    expect(applyJsonPatch({ baz: 'qux', foo: ['bar', 'qux', 'baz'] }, [
+      { op: 'remove', path: '/baz' },
+      { op: 'remove', path: '/foo/1' }
+    ])).toEqual({ foo: ['bar', 'baz'] });
+  });
+
+  it('replaces values in place, keeping the key order', () => {
+    const result = applyJsonPatch({ first: 1, second: 2, third: 3 }, [{ op: 'replace', path: '/second', value: 'two' }]);
+
+    expect(Object.entries(result)).toEqual([['first', 1], ['second', 'two'], ['third', 3]]);
+  });
+
+  it('replaces the whole document with an empty path', () => {
+    expect(applyJsonPatch({ a: 1 }, [{ op: 'replace', path: '', value: ['b'] }])).toEqual(['b']);
+  });
+
+  it('moves and copies values', () => {
+    const document = { foo: { bar: 'baz', waldo: 'fred' }, qux: { corge: 'grault' }, list: ['all', 'grass', 'cows', 'eat'] };
+
+    expect(applyJsonPatch(document, [
+      { op: 'move', from: '/foo/waldo', path: '/qux/thud' },
+      { op: 'move', from: '/list/1', path: '/list/3' },
+      { op: 'copy', from: '/qux', path: '/copied' }
+    ])).toEqual({
+      foo: { bar: 'baz' },
+      qux: { corge: 'grault', thud: 'fred' },
+      list: ['all', 'cows', 'eat', 'grass'],
+      copied: { corge: 'grault', thud: 'fred' }
+    });
+  });
+
+  it('copies by value, so later operations do not change the source', () => {
+    expect(applyJsonPatch({ a: { list: [1] } }, [
+      { op: 'copy', from: '/a', path: '/b' },
+      { op: 'add', path: '/b/list/-', value: 2 }
+    ])).toEqual({ a: { list: [1] }, b: { list: [1, 2] } });
+  });
+
+  it('unescapes ~0 and ~1 in pointers', () => {
+    expect(applyJsonPatch({ 'a/b': 1, 'm~n': 2 }, [
+      { op: 'replace', path: '/a~1b', value: 'slash' },
+      { op: 'replace', path: '/m~0n', value: 'tilde' }
+    ])).toEqual({ 'a/b': 'slash', 'm~n': 'tilde' });
+  });
+
+  it('passes tests that match, whatever the order of object members', () => {
+    const document = { baz: 'qux', foo: ['a', 2, 'c'], nested: { x: 1, y: 2 } };
+
+    expect(applyJsonPatch(document, [
+      { op: 'test', path: '/baz', value: 'qux' },
+      { op: 'test', path: '/foo/1', value: 2 },
+      { op: 'test', path: '/nested', value: { y: 2, x: 1 } }
+    ])).toEqual(document);
+  });
+
+  it('fails the whole patch when a test does not match', () => {
+    expect(() => applyJsonPatch({ baz: 'qux' }, [
+      { op: 'replace', path: '/baz', value: 'changed' },
+      { op: 'test', path: '/baz', value: 'bar' }
+    ])).toThrow(new JsonPatchError('Operation 2 (test /baz) failed: value does not match'));
+  });
+
+  it('leaves the original document untouched', () => {
+    const document = { list: ['a'] };
+
+    applyJsonPatch(document, [{ op: 'add', path: '/list/-', value: 'b' }]);
+
+    expect(document).toEqual({ list: ['a'] });
+  });
+
+  it.each([
+    [{ op: 'remove', path: '/missing' }, 'Operation 1 (remove /missing) failed: /missing does not exist'],
+    [{ op: 'add', path: '/list/5', value: 'x' }, 'Operation 1 (add /list/5) failed: index 5 is out of bounds'],
+    [{ op: 'add', path: '/missing/child', value: 'x' }, 'Operation 1 (add /missing/child) failed: /missing does not exist'],
+    [{ op: 'replace', path: '/list/01', value: 'x' }, 'Operation 1 (replace /list/01) failed: /list/01 does not exist'],
+    [{ op: 'move', from: '/list', path: '/list/0' }, 'Operation 1 (move /list/0) failed: cannot move a value into itself'],
+    [{ op: 'remove', path: '' }, 'Operation 1 (remove ) failed: cannot remove the whole document'],
+    [{ op: 'add', path: 'list', value: 'x' }, 'Operation 1 (add list) failed: "list" is not a JSON Pointer; paths start with /']
+  ] as const)('rejects %j', (operation, message) => {
+    expect(() => applyJsonPatch({ list: ['a'] }, [operation])).toThrow(new JsonPatchError(message));
+  });
+});
+
+describe('parseJsonPatch', () => {
+  it('reads a patch, optionally in a code fence', () => {
+    const patch = [{ op: 'replace', path: '/testingStrategy', value: 'Run the unit tests' }];
+
+    expect(parseJsonPatch(JSON.stringify(patch))).toEqual(patch);
+    expect(parseJsonPatch('```json\n' + JSON.stringify(patch) + '\n```')).toEqual(patch);
+  });
+
+  it('accepts a single operation', () => {
+    expect(parseJsonPatch('{"op": "remove", "path": "/errorLocations/0"}')).toEqual([{ op: 'remove', path: '/errorLocations/0' }]);
+  });
+
+  it('returns undefined for text that is not a patch', () => {
+    expect(parseJsonPatch('Also update the README')).toBeUndefined();
+    expect(parseJsonPatch('[not json')).toBeUndefined();
+    expect(parseJsonPatch('[]')).toBeUndefined();
+    expect(parseJsonPatch('{"testingStrategy": "Run the unit tests"}')).toBeUndefined();
+  });
+
+  it.each([
+    ['[{"op": "append", "path": "/a"}]', 'Operation 1 has unknown op "append"; use one of add, remove, replace, move, copy, test'],
+    ['[{"op": "remove"}]', 'Operation 1 (remove) needs a "path"'],
+    ['[{"op": "remove", "path": "/a"}, {"op": "copy", "path": "/b"}]', 'Operation 2 (copy) needs a "from" path'],
+    ['[{"op": "add", "path": "/a"}]', 'Operation 1 (add) needs a "value"']
+  ])('rejects invalid operations in %s', (text, message) => {
+    expect(() => parseJsonPatch(text)).toThrow(new JsonPatchError(message));
+  });
+});
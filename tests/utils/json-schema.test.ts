@@ -0,0 +1,61 @@
+import { JsonSchema, validateSchema } from '../../src/utils/json-schema';
+
+describe('validateSchema', () => {
+  it('checks types, including lists of types and integers', () => {
+    expect(validateSchema('npm test', { type: ['string', 'array'] })).toEqual([]);
+    expect(validateSchema(3, { type: ['string', 'array'] }, 'config.test')).toEqual(['config.test must be a string or an array']);
+    expect(validateSchema(1.5, { type: 'integer' }, 'line')).toEqual(['line must be an integer']);
+    expect(validateSchema(NaN, { type: 'number' }, 'score')).toEqual(['score must be a number']);
+    expect(validateSchema(null, { type: 'object' }, 'plan')).toEqual(['plan must be an object']);
+    expect(validateSchema([], { type: 'object' }, 'plan')).toEqual(['plan must be an object']);
+  });
+
+  it('checks enums and numeric bounds', () => {
+    const risk: JsonSchema = { type: 'string', enum: ['low', 'medium', 'high'] };
+
+    expect(validateSchema('extreme', risk, 'risk')).toEqual(['risk must be one of low, medium, high']);
+    expect(validateSchema(-1, { type: 'number', minimum: 0, maximum: 1 }, 'score')).toEqual(['score must be at least 0']);
+    expect(validateSchema(2, { type: 'number', minimum: 0, maximum: 1 }, 'score')).toEqual(['score must be at most 1']);
+  });
+
+  it('counts minLength in characters without trimming, as the specification does', () => {
+    expect(validateSchema('', { type: 'string', minLength: 1 }, 'name')).toEqual(['name must not be empty']);
+    expect(validateSchema(' ', { type: 'string', minLength: 1 }, 'name')).toEqual([]);
+    expect(validateSchema('ab', { type: 'string', minLength: 3 }, 'name')).toEqual(['name must be at least 3 characters long']);
+    // One character outside the Basic Multilingual Plane is two UTF-16 units
+    expect(validateSchema('😀', { type: 'string', minLength: 2 }, 'name')).toEqual(['name must be at least 2 characters long']);
+  });
+
+  it('checks array length and every item', () => {
+    const schema: JsonSchema = { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } };
+
+    expect(validateSchema([], schema, 'files')).toEqual(['files must have at least 1 item(s)']);
+    expect(validateSchema(['a.ts', '', 2], schema, 'files')).toEqual(['files[1] must not be empty', 'files[2] must be a string']);
+  });
+
+  it('checks required and additional properties, naming the nested location', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      required: ['steps'],
+      additionalProperties: false,
+      properties: {
+        steps: {
+          type: 'array',
+          items: { type: 'object', required: ['description'], properties: { description: { type: 'string' } } }
+        }
+      }
+    };
+
+    expect(validateSchema({ steps: [{ description: 'Fix it' }, {}], extra: true }, schema, 'plan')).toEqual([
+      'plan.steps[1].description is required',
+      'plan.extra is not allowed'
+    ]);
+    expect(validateSchema({}, schema, 'plan')).toEqual(['plan.steps is required']);
+  });
+
+  it('treats undefined properties as absent', () => {
+    const schema: JsonSchema = { type: 'object', additionalProperties: false, properties: {} };
+
+    expect(validateSchema({ note: undefined }, schema)).toEqual([]);
+  });
+});
@@ -0,0 +1,431 @@
+import {
+  parseCargoToml,
+  parseComposerJson,
+  parseDotnetProject,
+  parseGemfile,
+  parseGoMod,
+  parseGradleBuild,
+  parseGradleSettings,
+  parsePackageJson,
+  parsePackageJsonWorkspaces,
+  parsePipfile,
+  parsePnpmWorkspace,
+  parsePomXml,
+  parsePyprojectToml,
+  parseRequirementsTxt,
+  parseToml
+} from '../../src/utils/manifest-parsers';
+
+describe('parseToml', () => {
+  it('parses tables, inline tables, multi-line arrays and comments', () => {
+    const document = parseToml([
+      'title = "Example # not a comment"  # a comment',
+      '',
+      '[tool.poetry]',
+      'name = \'app\'',
+      'authors = [',
+      '  "Ada <ada@example.com>",  # first',
+      '  "Grace",',
+      ']',
+      '',
+      '[[bin]]',
+      'name = "cli"',
+      '',
+      '["quoted.table"]',
+      'serde = { version = "1.0", default-features = false }',
+      'count = 3'
+    ].join('\n'));
+
+    expect(document).toEqual({
+      '': { title: 'Example # not a comment' },
+      'tool.poetry': { name: 'app', authors: ['Ada <ada@example.com>', 'Grace'] },
+      bin: { name: 'cli' },
+      'quoted.table': { serde: { version: '1.0', 'default-features': 'false' }, count: '3' }
+    });
+  });
+});
+
+describe('parsePackageJson', () => {
+  it('reads runtime, development and optional dependencies', () => {
+    const { dependencies, manifest } = parsePackageJson(JSON.stringify({
+      name: 'app',
+      dependencies: { express: '^4.18.0' },
+      devDependencies: { jest: '^29.0.0' },
+      optionalDependencies: { fsevents: '^2.3.0' }
+    }));
+
+    expect(manifest.name).toBe('app');
+    expect(dependencies).toEqual([
+      { name: 'express', version: '^4.18.0', dev: false },
+      { name: 'jest', version: '^29.0.0', dev: true },
+      { name: 'fsevents', version: '^2.3.0', dev: false }
+    ]);
+  });
+});
+
+describe('parseComposerJson', () => {
+  it('skips PHP and extension requirements', () => {
+    const { dependencies } = parseComposerJson(JSON.stringify({
+      require: { php: '>=8.1', 'ext-json': '*', 'laravel/framework': '^10.0' },
+      'require-dev': { 'phpunit/phpunit': '^10.0' }
+    }));
+
+    expect(dependencies).toEqual([
+      { name: 'laravel/framework', version: '^10.0', dev: false },
+      { name: 'phpunit/phpunit', version: '^10.0', dev: true }
+    ]);
+  });
+});
+
+describe('parseRequirementsTxt', () => {
+  it('reads requirements, skipping comments, options and includes', () => {
+    const content = [
+      '# Web',
+      'Django>=4.2,<5',
+      'requests[socks]==2.31.0 ; python_version >= "3.8"',
+      '-r base.txt',
+      '--index-url https://pypi.example.com/simple',
+      'gunicorn',
+      ''
+    ].join('\n');
+
+    expect(parseRequirementsTxt(content, true)).toEqual([
+      { name: 'Django', version: '>=4.2,<5', dev: true },
+      { name: 'requests', version: '==2.31.0', dev: true },
+      { name: 'gunicorn', version: undefined, dev: true }
+    ]);
+  });
+});
+
+describe('parsePyprojectToml', () => {
+  it('reads Poetry dependencies, groups and the Python version', () => {
+    const result = parsePyprojectToml([
+      '[tool.poetry]',
+      'name = "service"',
+      'version = "0.3.0"',
+      '',
+      '[tool.poetry.dependencies]',
+      'python = "^3.11"',
+      'fastapi = "^0.110"',
+      'sqlalchemy = { version = "^2.0", extras = ["asyncio"] }',
+      '',
+      '[tool.poetry.group.test.dependencies]',
+      'pytest = "^8.0"',
+      '',
+      '[tool.poetry.dev-dependencies]',
+      'black = "^24.0"'
+    ].join('\n'));
+
+    expect(result).toEqual({
+      usesPoetry: true,
+      pythonVersion: '^3.11',
+      coordinates: { name: 'service', version: '0.3.0' },
+      dependencies: [
+        { name: 'fastapi', version: '^0.110', dev: false },
+        { name: 'sqlalchemy', version: '^2.0', dev: false },
+        { name: 'pytest', version: '^8.0', dev: true },
+        { name: 'black', version: '^24.0', dev: true }
+      ]
+    });
+  });
+
+  it('reads PEP 621 dependencies and optional dependencies', () => {
+    const result = parsePyprojectToml([
+      '[project]',
+      'name = "tool"',
+      'version = "1.2.0"',
+      'requires-python = ">=3.9"',
+      'dependencies = [',
+      '  "click>=8",',
+      '  "rich",',
+      ']',
+      '',
+      '[project.optional-dependencies]',
+      'test = ["pytest>=7", "coverage[toml]"]'
+    ].join('\n'));
+
+    expect(result).toEqual({
+      usesPoetry: false,
+      pythonVersion: '>=3.9',
+      coordinates: { name: 'tool', version: '1.2.0' },
+      dependencies: [
+        { name: 'click', version: '>=8', dev: false },
+        { name: 'rich', version: undefined, dev: false },
+        { name: 'pytest', version: '>=7', dev: true },
+        { name: 'coverage', version: undefined, dev: true }
+      ]
+    });
+  });
+});
+
+describe('parsePipfile', () => {
+  it('reads packages, dev packages and the Python version', () => {
+    const result = parsePipfile([
+      '[[source]]',
+      'url = "https://pypi.org/simple"',
+      '',
+      '[packages]',
+      'flask = "*"',
+      'psycopg2 = { version = "==2.9.9" }',
+      '',
+      '[dev-packages]',
+      'pytest = "*"',
+      '',
+      '[requires]',
+      'python_version = "3.12"'
+    ].join('\n'));
+
+    expect(result).toEqual({
+      pythonVersion: '3.12',
+      dependencies: [
+        { name: 'flask', version: '*', dev: false },
+        { name: 'psycopg2', version: '==2.9.9', dev: false },
+        { name: 'pytest', version: '*', dev: true }
+      ]
+    });
+  });
+});
+
+describe('parseGoMod', () => {
+  it('reads the module, Go version and both require forms', () => {
+    const result = parseGoMod([
+      'module example.com/app',
+      '',
+      'go 1.22',
+      '',
+      'require github.com/google/uuid v1.6.0',
+      '',
+      'require (',
+      '\tgithub.com/stretchr/testify v1.9.0 // indirect',
+      '\tgolang.org/x/sync v0.7.0',
+      ')'
+    ].join('\n'));
+
+    expect(result).toEqual({
+      module: 'example.com/app',
+      goVersion: '1.22',
+      dependencies: [
+        { name: 'github.com/google/uuid', version: 'v1.6.0', dev: false },
+        { name: 'github.com/stretchr/testify', version: 'v1.9.0', dev: false },
+        { name: 'golang.org/x/sync', version: 'v0.7.0', dev: false }
+      ]
+    });
+  });
+});
+
+describe('parseCargoToml', () => {
+  it('reads package metadata and dependency tables', () => {
+    const result = parseCargoToml([
+      '[package]',
+      'name = "cli"',
+      'version = "0.4.1"',
+      'rust-version = "1.74"',
+      '',
+      '[dependencies]',
+      'serde = { version = "1.0", features = ["derive"] }',
+      'anyhow = "1"',
+      '',
+      '[build-dependencies]',
+      'cc = "1.0"',
+      '',
+      '[dev-dependencies]',
+      'proptest = "1.4"'
+    ].join('\n'));
+
+    expect(result).toEqual({
+      rustVersion: '1.74',
+      coordinates: { name: 'cli', version: '0.4.1' },
+      dependencies: [
+        { name: 'serde', version: '1.0', dev: false },
+        { name: 'anyhow', version: '1', dev: false },
+        { name: 'cc', version: '1.0', dev: false },
+        { name: 'proptest', version: '1.4', dev: true }
+      ]
+    });
+  });
+});
+
+describe('parseGemfile', () => {
+  it('treats development and test groups as dev, including nested blocks', () => {
+    const result = parseGemfile([
+      'source "https://rubygems.org"',
+      'ruby "3.3.0"',
+      '',
+      'gem "rails", "~> 7.1"',
+      'gem \'pg\'',
+      'gem "debug", group: [:development, :test]',
+      '',
+      'group :development, :test do',
+      '  gem "rspec-rails"',
+      '  platforms :mri do',
+      '    gem "byebug"',
+      '  end',
+      'end',
+      '',
+      'group :production do',
+      '  gem "lograge"',
+      'end'
+    ].join('\n'));
+
+    expect(result).toEqual({
+      rubyVersion: '3.3.0',
+      dependencies: [
+        { name: 'rails', version: '~> 7.1', dev: false },
+        { name: 'pg', version: undefined, dev: false },
+        { name: 'debug', version: undefined, dev: true },
+        { name: 'rspec-rails', version: undefined, dev: true },
+        { name: 'byebug', version: undefined, dev: true },
+        { name: 'lograge', version: undefined, dev: false }
+      ]
+    });
+  });
+});
+
+describe('parsePomXml', () => {
+  it('reads coordinates outside the parent, managed dependencies and test scope', () => {
+    const result = parsePomXml(`<?xml version="1.0" encoding="UTF-8"?>
+<project>
+  <parent>
+    <groupId>org.springframework.boot</groupId>
+    <artifactId>spring-boot-starter-parent</artifactId>
+    <version>3.2.0</version>
+  </parent>
+  <artifactId>orders</artifactId>
+  <version>1.0.0-SNAPSHOT</version>
+  <properties>
+    <maven.compiler.release>21</maven.compiler.release>
+  </properties>
+  <dependencyManagement>
+    <dependencies>
+      <dependency>
+        <groupId>com.example</groupId>
+        <artifactId>bom</artifactId>
+        <version>2.0</version>
+      </dependency>
+    </dependencies>
+  </dependencyManagement>
+  <dependencies>
+    <dependency>
+      <groupId>org.springframework.boot</groupId>
+      <artifactId>spring-boot-starter-web</artifactId>
+    </dependency>
+    <dependency>
+      <groupId>org.junit.jupiter</groupId>
+      <artifactId>junit-jupiter</artifactId>
+      <version>5.10.1</version>
+      <scope>test</scope>
+    </dependency>
+  </dependencies>
+  <build>
+    <plugins>
+      <plugin>
+        <groupId>org.apache.maven.plugins</groupId>
+        <artifactId>maven-surefire-plugin</artifactId>
+      </plugin>
+    </plugins>
+  </build>
+</project>`);
+
+    expect(result).toEqual({
+      javaVersion: '21',
+      coordinates: { group: 'org.springframework.boot', name: 'orders', version: '1.0.0-SNAPSHOT' },
+      dependencies: [
+        { name: 'org.springframework.boot:spring-boot-starter-web', version: undefined, dev: false },
+        { name: 'org.junit.jupiter:junit-jupiter', version: '5.10.1', dev: true }
+      ]
+    });
+  });
+});
+
+describe('parseGradleBuild', () => {
+  it('reads Groovy and Kotlin DSL declarations, skipping non-dependency configurations', () => {
+    const result = parseGradleBuild([
+      'plugins {',
+      '  id \'java\'',
+      '}',
+      '',
+      'group = \'com.example\'',
+      'version = "2.3.0"',
+      '',
+      'dependencies {',
+      '  implementation \'com.google.guava:guava:33.0.0-jre\'',
+      '  api("org.slf4j:slf4j-api:2.0.9")',
+      '  testImplementation "org.junit.jupiter:junit-jupiter:5.10.1"',
+      '  androidTestImplementation("androidx.test:runner:1.5.2")',
+      '  kapt "com.google.dagger:dagger-compiler"',
+      '  classpath "com.android.tools.build:gradle:8.2.0"',
+      '}'
+    ].join('\n'));
+
+    expect(result).toEqual({
+      coordinates: { group: 'com.example', version: '2.3.0' },
+      dependencies: [
+        { name: 'com.google.guava:guava', version: '33.0.0-jre', dev: false },
+        { name: 'org.slf4j:slf4j-api', version: '2.0.9', dev: false },
+        { name: 'org.junit.jupiter:junit-jupiter', version: '5.10.1', dev: true },
+        { name: 'androidx.test:runner', version: '1.5.2', dev: true },
+        { name: 'com.google.dagger:dagger-compiler', version: undefined, dev: false }
+      ]
+    });
+  });
+});
+
+describe('parseDotnetProject', () => {
+  it('reads package references with attribute or element versions and the target framework', () => {
+    const result = parseDotnetProject(`<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="Newtonsoft.Json" Version="13.0.3" />
+    <PackageReference Include="Serilog">
+      <Version>3.1.1</Version>
+    </PackageReference>
+    <PackageReference Include="xunit" Version="2.6.2" />
+    <PackageReference Include="StyleCop.Analyzers" Version="1.1.118" PrivateAssets="all" />
+  </ItemGroup>
+</Project>`);
+
+    expect(result).toEqual({
+      targetFramework: 'net8.0',
+      dependencies: [
+        { name: 'Newtonsoft.Json', version: '13.0.3', dev: false },
+        { name: 'Serilog', version: '3.1.1', dev: false },
+        { name: 'xunit', version: '2.6.2', dev: true },
+        { name: 'StyleCop.Analyzers', version: '1.1.118', dev: true }
+      ]
+    });
+  });
+});
+
+describe('workspace manifests', () => {
+  it('reads package.json workspaces in the array and packages forms', () => {
+    expect(parsePackageJsonWorkspaces({ workspaces: ['packages/*', 42] })).toEqual(['packages/*']);
+    expect(parsePackageJsonWorkspaces({ workspaces: { packages: ['apps/*'], nohoist: ['**/react'] } })).toEqual(['apps/*']);
+    expect(parsePackageJsonWorkspaces({})).toEqual([]);
+  });
+
+  it('reads the packages list of pnpm-workspace.yaml', () => {
+    expect(parsePnpmWorkspace([
+      'packages:',
+      '  - "packages/*"  # libraries',
+      '  - \'apps/*\'',
+      '  - \'!**/test/**\'',
+      'catalog:',
+      '  - react: ^18.2.0'
+    ].join('\n'))).toEqual(['packages/*', 'apps/*', '!**/test/**']);
+  });
+
+  it('reads included Gradle projects with their directories', () => {
+    expect(parseGradleSettings([
+      'rootProject.name = "shop"',
+      'include \'app\', \':lib:core\'',
+      'include(":legacy")',
+      'project(\':legacy\').projectDir = file(\'old/legacy/\')'
+    ].join('\n'))).toEqual([
+      { projectPath: ':app', directory: 'app' },
+      { projectPath: ':lib:core', directory: 'lib/core' },
+      { projectPath: ':legacy', directory: 'old/legacy' }
+    ]);
+  });
+});
@@ -0,0 +1,210 @@
+import { IssueInfo } from '../../src/services/forge.service';
+import { ResolutionPlan } from '../../src/services/planner.service';
+import { buildPlanPrompt, buildRevisionPrompt, formatErrorLocation, parsePlanResponse } from '../../src/utils/plan-prompt';
+
+const DRAFT: ResolutionPlan = {
+  problemSummary: 'Dates are shown in UTC',
+  proposedSolution: 'Format dates in the user\'s time zone',
+  targetProjects: [],
+  filesToModify: ['src/date.ts'],
+  relevantFiles: [{ path: 'src/date.ts', score: 2, reasons: ['matches "date"'] }],
+  errorLocations: [],
+  implementationSteps: [
+    {
+      description: 'Update src/date.ts',
+      targetFiles: ['src/date.ts'],
+      changeType: 'modify',
+      risk: 'medium',
+      size: 'small',
+      acceptanceChecks: []
+    }
+  ],
+  testingStrategy: 'Run the tests',
+  successCriteria: 'Dates are shown in local time'
+};
+
+function issue(overrides: Partial<IssueInfo> = {}): IssueInfo {
+  return {
+    forge: 'github',
+    serverUrl: 'https://github.com',
+    owner: 'octo',
+    repo: 'app',
+    issueNumber: 3,
+    url: 'https://github.com/octo/app/issues/3',
+    title: 'Dates are shown in UTC',
+    body: '',
+    state: 'open',
+    labels: [],
+    comments: [],
+    timeline: [],
+    linkedPullRequests: [],
+    referencedIssues: [],
+    repoInfo: { name: 'app', fullName: 'octo/app', language: 'TypeScript', defaultBranch: 'main', hasIssues: true },
+    codebaseAnalysis: {
+      fileStructure: [
+        { type: 'file', path: 'README.md', name: 'README.md' },
+        { type: 'directory', path: 'src', name: 'src', children: [{ type: 'file', path: 'src/date.ts', name: 'date.ts' }] }
+      ],
+      buildSystem: 'npm',
+      mainLanguage: 'TypeScript',
+      languages: [],
+      ecosystems: [],
+      dependencies: [],
+      subProjects: []
+    },
+    ...overrides
+  } as unknown as IssueInfo;
+}
+
+describe('buildPlanPrompt', () => {
+  it('describes a plain issue with its files and the draft plan', () => {
+    const prompt = buildPlanPrompt(issue(), DRAFT, [{ path: 'src/date.ts' }]);
+
+    expect(prompt).toContain('# Repository octo/app\nMain language: TypeScript\nBuild system: npm');
+    expect(prompt).toContain('# Issue #3: Dates are shown in UTC\nState: open\n\n(no description)');
+    expect(prompt).toContain('# Repository files\nREADME.md\nsrc/date.ts');
+    expect(prompt).toContain('# Draft plan from keyword matching (improve or replace it)\n{\n  "problemSummary"');
+    expect(prompt).not.toContain('# Discussion');
+    expect(prompt).not.toContain('# Candidate files');
+    expect(prompt).not.toContain('# Error locations');
+  });
+
+  it('includes languages, labels, the discussion, error locations and loaded files', () => {
+    const base = issue();
+    const info = issue({
+      body: 'x'.repeat(8001),
+      labels: ['bug', 'ui'],
+      comments: Array.from({ length: 21 }, (_, index) => ({ author: `user${index}`, body: `Comment ${index}`, createdAt: '', url: '', reactions: {} })),
+      codebaseAnalysis: {
+        ...base.codebaseAnalysis,
+        languages: [{ language: 'TypeScript', bytes: 900, percentage: 90 }, { language: 'CSS', bytes: 100, percentage: 10 }],
+        packageManager: { name: 'pnpm' },
+        subProjects: [{ name: '@app/web', path: 'packages/web', buildSystem: 'npm' }]
+      } as any
+    });
+    const draft = { ...DRAFT, errorLocations: [{ path: 'src/date.ts', line: 12, function: 'formatDate', exceptionType: 'RangeError', message: 'Invalid time value' }] };
+
+    const prompt = buildPlanPrompt(info, draft, [{ path: 'src/date.ts', content: 'export {};' }, { path: 'src/missing.ts' }]);
+
+    expect(prompt).toContain('Main language: TypeScript (TypeScript 90%, CSS 10%)\nBuild system: npm (pnpm)\nWorkspace packages:\n- packages/web (@app/web)');
+    expect(prompt).toContain('State: open, labels: bug, ui');
+    expect(prompt).toContain(`${'x'.repeat(8000)}\n[... truncated]`);
+    expect(prompt).not.toContain('## user0\n');
+    expect(prompt).toContain('## user20\nComment 20');
+    expect(prompt).toContain('# Error locations from stack traces (innermost frame first)\n- src/date.ts:12 in formatDate (RangeError: Invalid time value)');
+    expect(prompt).toContain('## src/date.ts\n```\nexport {};\n```');
+    expect(prompt).not.toContain('## src/missing.ts');
+  });
+
+  it('includes the review feedback on a pull request', () => {
+    const info = issue({
+      pullRequest: {
+        headOwner: 'octo',
+        headRepo: 'app',
+        headBranch: 'local-time',
+        baseBranch: 'main',
+        draft: false,
+        merged: false,
+        reviewComments: [
+          { author: 'alice', body: 'Use Intl here', createdAt: '', url: '', reactions: {}, path: 'src/date.ts', line: 14 },
+          { author: 'bob', body: 'Rename this file', createdAt: '', url: '', reactions: {}, path: 'src/util.ts' },
+          { author: 'carol', body: 'Add a test', createdAt: '', url: '', reactions: {} }
+        ]
+      }
+    } as any);
+
+    const prompt = buildPlanPrompt(info, DRAFT, []);
+
+    expect(prompt).toContain('# Pull request #3: Dates are shown in UTC');
+    expect(prompt).toContain([
+      '# Review feedback on local-time (address it with additional commits)',
+      '## alice on src/date.ts:14\nUse Intl here',
+      '## bob on src/util.ts\nRename this file',
+      '## carol\nAdd a test'
+    ].join('\n\n'));
+  });
+
+  it('lists only the first 300 repository files', () => {
+    const base = issue();
+    const fileStructure = Array.from({ length: 301 }, (_, index) => ({ type: 'file', path: `src/file${index}.ts`, name: `file${index}.ts` }));
+
+    const prompt = buildPlanPrompt(issue({ codebaseAnalysis: { ...base.codebaseAnalysis, fileStructure } as any }), DRAFT, []);
+
+    expect(prompt).toContain('# Repository files (first 300 of 301)\nsrc/file0.ts');
+    expect(prompt).toContain('src/file299.ts');
+    expect(prompt).not.toContain('src/file300.ts');
+  });
+});
+
+describe('buildRevisionPrompt', () => {
+  it('asks for the complete plan with the modifications applied', () => {
+    const prompt = buildRevisionPrompt(DRAFT, 'Also update the docs');
+
+    expect(prompt).toMatch(/^# Current plan\n\n\{/);
+    expect(prompt).toContain('# Requested modifications\n\nAlso update the docs');
+  });
+});
+
+describe('parsePlanResponse', () => {
+  it('reads a fenced plan, estimating the fields steps leave out', () => {
+    const response = [
+      'Here is the plan:',
+      '```json',
+      JSON.stringify({
+        problemSummary: '  The header formats dates in UTC  ',
+        targetProjects: ['./packages/web'],
+        filesToModify: ['/src/date.ts', 'src/header.ts', 7],
+        implementationSteps: [
+          'Use the local time zone in date.ts',
+          '   ',
+          { title: 'Add a test for header.ts', files: ['tests/header.test.ts'], risk: 'LOW', size: ' Small ' },
+          { description: 'Update the header', changeType: 'Modify', acceptanceChecks: ['Header shows local time', ''] },
+          { description: '' },
+          42
+        ]
+      }),
+      '```',
+      'Let me know!'
+    ].join('\n');
+
+    const plan = parsePlanResponse(response, DRAFT);
+
+    expect(plan.problemSummary).toBe('The header formats dates in UTC');
+    expect(plan.proposedSolution).toBe(DRAFT.proposedSolution);
+    expect(plan.targetProjects).toEqual(['packages/web']);
+    expect(plan.filesToModify).toEqual(['src/date.ts', 'src/header.ts', '7']);
+    expect(plan.relevantFiles).toBe(DRAFT.relevantFiles);
+    expect(plan.testingStrategy).toBe(DRAFT.testingStrategy);
+    expect(plan.implementationSteps).toEqual([
+      { description: 'Use the local time zone in date.ts', targetFiles: ['src/date.ts'], changeType: 'modify', risk: 'medium', size: 'small', acceptanceChecks: [] },
+      { description: 'Add a test for header.ts', targetFiles: ['tests/header.test.ts'], changeType: 'test', risk: 'low', size: 'small', acceptanceChecks: [] },
+      { description: 'Update the header', targetFiles: [], changeType: 'modify', risk: 'medium', size: 'small', acceptanceChecks: ['Header shows local time'] }
+    ]);
+  });
+
+  it('reads an unfenced object surrounded by prose and falls back to the draft for missing lists', () => {
+    const plan = parsePlanResponse(`Sure. {"implementationSteps": ["Fix it"], "filesToModify": "src/date.ts"} Done.`, DRAFT);
+
+    expect(plan.filesToModify).toEqual(DRAFT.filesToModify);
+    expect(plan.targetProjects).toEqual(DRAFT.targetProjects);
+    expect(plan.implementationSteps.map(step => step.description)).toEqual(['Fix it']);
+  });
+
+  it.each([
+    ['no JSON object', 'I could not make a plan', 'No JSON object found in the model response'],
+    ['invalid JSON', '{"problemSummary": }', /^Model response is not valid JSON: /],
+    ['no implementation steps', '{"problemSummary": "x", "implementationSteps": []}', 'Model response has no implementation steps'],
+    ['steps that are not a list', '{"implementationSteps": "Fix it"}', 'Model response has no implementation steps']
+  ])('rejects a response with %s', (_name, response, message) => {
+    expect(() => parsePlanResponse(response, DRAFT)).toThrow(message);
+  });
+});
+
+describe('formatErrorLocation', () => {
+  it('describes the location with whatever is known', () => {
+    expect(formatErrorLocation({ path: 'src/app.ts' })).toBe('src/app.ts');
+    expect(formatErrorLocation({ path: 'src/app.ts', line: 3, exceptionType: 'TypeError' })).toBe('src/app.ts:3 (TypeError)');
+    expect(formatErrorLocation({ path: 'src/app.ts', exceptionType: 'Error', message: `${'m'.repeat(130)}\nsecond line` }))
+      .toBe(`src/app.ts (Error: ${'m'.repeat(120)})`);
+  });
+});
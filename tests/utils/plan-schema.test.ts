@@ -0,0 +1,93 @@
+import { ResolutionPlan } from '../../src/services/planner.service';
+import { createPlanStep, findMentionedFiles, PlanValidationError, summarizePlanScope, validatePlan } from '../../src/utils/plan-schema';
+
+const PLAN: ResolutionPlan = {
+  problemSummary: 'Dates are shown in UTC',
+  proposedSolution: 'Format dates in the user\'s time zone',
+  targetProjects: [],
+  filesToModify: ['src/date.ts'],
+  relevantFiles: [{ path: 'src/date.ts', score: 2, reasons: ['matches "date"'] }],
+  errorLocations: [{ path: 'src/date.ts', line: 12 }],
+  implementationSteps: [createPlanStep('Update src/date.ts', { targetFiles: ['src/date.ts'] })],
+  testingStrategy: 'Run the tests',
+  successCriteria: 'Dates are shown in local time'
+};
+
+describe('validatePlan', () => {
+  it('accepts a valid plan', () => {
+    expect(() => validatePlan(PLAN)).not.toThrow();
+  });
+
+  it('lists every violation', () => {
+    const plan = {
+      ...PLAN,
+      problemSummary: '',
+      implementationSteps: [{ ...PLAN.implementationSteps[0], risk: 'extreme' }],
+      notes: 'extra'
+    };
+
+    let error: unknown;
+    try {
+      validatePlan(plan);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PlanValidationError);
+    expect((error as PlanValidationError).errors).toHaveLength(3);
+    expect((error as PlanValidationError).message).toMatch(/^Plan does not match the schema: /);
+  });
+});
+
+describe('createPlanStep', () => {
+  it.each([
+    ['Add tests for the date formatter', 'test', 'low', 'small'],
+    ['Update the README', 'docs', 'low', 'small'],
+    ['Investigate why dates are wrong', 'none', 'low', 'trivial'],
+    ['Rename formatDate', 'refactor', 'high', 'medium'],
+    ['Remove the UTC fallback', 'delete', 'medium', 'small'],
+    ['Bump the build settings', 'config', 'medium', 'small'],
+    ['Create a time zone helper', 'add', 'low', 'small'],
+    ['Format dates in local time', 'modify', 'medium', 'small']
+  ])('estimates "%s" as %s with %s risk and %s size', (description, changeType, risk, size) => {
+    expect(createPlanStep(description)).toEqual({ description, targetFiles: [], changeType, risk, size, acceptanceChecks: [] });
+  });
+
+  it('estimates risk and size from how many files a step touches', () => {
+    expect(createPlanStep('Format dates', { targetFiles: ['a.ts', 'b.ts'] })).toMatchObject({ risk: 'medium', size: 'medium' });
+    expect(createPlanStep('Format dates', { targetFiles: ['a.ts', 'b.ts', 'c.ts', 'd.ts'] })).toMatchObject({ risk: 'high', size: 'large' });
+    expect(createPlanStep('Review the callers', { targetFiles: ['a.ts', 'b.ts', 'c.ts', 'd.ts'] })).toMatchObject({ risk: 'low', size: 'trivial' });
+  });
+
+  it('keeps the fields it is given', () => {
+    expect(createPlanStep('Add tests', { changeType: 'modify', risk: 'low', size: 'large', acceptanceChecks: ['Tests pass'] }))
+      .toMatchObject({ changeType: 'modify', risk: 'low', size: 'large', acceptanceChecks: ['Tests pass'] });
+  });
+});
+
+describe('findMentionedFiles', () => {
+  it('finds files named by path or by file name', () => {
+    const files = ['src/date.ts', 'src/utils/format.ts', 'src/header.tsx'];
+
+    expect(findMentionedFiles('Change src/date.ts and format.ts', files)).toEqual(['src/date.ts', 'src/utils/format.ts']);
+    expect(findMentionedFiles('Check header.ts and my-format.ts', files)).toEqual([]);
+  });
+});
+
+describe('summarizePlanScope', () => {
+  it('reports the riskiest and largest step and the files touched', () => {
+    const plan = {
+      ...PLAN,
+      implementationSteps: [
+        createPlanStep('Rename formatDate', { targetFiles: ['src/date.ts', 'src/header.ts'] }),
+        createPlanStep('Add tests', { targetFiles: ['tests/date.test.ts'], size: 'large' })
+      ]
+    };
+
+    expect(summarizePlanScope(plan)).toEqual({ risk: 'high', size: 'large', files: 3 });
+  });
+
+  it('treats a plan without steps as low risk and trivial', () => {
+    expect(summarizePlanScope({ ...PLAN, filesToModify: [], implementationSteps: [] })).toEqual({ risk: 'low', size: 'trivial', files: 0 });
+  });
+});
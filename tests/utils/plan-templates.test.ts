@@ -0,0 +1,126 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import config from '../../src/config';
+import { BUILTIN_PLAN_TEMPLATES, getPlanTemplates, parsePlanTemplates, PlanTemplate, selectPlanTemplate } from '../../src/utils/plan-templates';
+
+const template = (name: string, labels: string[] = [], classes: PlanTemplate['classes'] = []): PlanTemplate => ({
+  name,
+  labels,
+  classes,
+  steps: [{ description: `Follow ${name}` }]
+});
+
+describe('selectPlanTemplate', () => {
+  const templates = [template('docs', ['Documentation'], ['docs']), template('feature', ['enhancement'], ['feature'])];
+
+  it('chooses by label, ignoring case, before the triage class', () => {
+    expect(selectPlanTemplate(templates, ['bug', 'documentation'], 'feature')).toEqual({
+      template: templates[0],
+      reason: 'label "Documentation"'
+    });
+  });
+
+  it('falls back to the triage class when no label matches', () => {
+    expect(selectPlanTemplate(templates, ['bug'], 'feature')).toEqual({ template: templates[1], reason: 'triage class feature' });
+  });
+
+  it('lets the earlier template win when several labels match', () => {
+    expect(selectPlanTemplate(templates, ['enhancement', 'documentation'])?.template.name).toBe('docs');
+  });
+
+  it('chooses nothing when neither labels nor class match', () => {
+    expect(selectPlanTemplate(templates, ['bug'], 'bug')).toBeUndefined();
+    expect(selectPlanTemplate(templates, [])).toBeUndefined();
+  });
+
+  it('chooses the built-in dependency template for a renovate pull request label', () => {
+    expect(selectPlanTemplate(BUILTIN_PLAN_TEMPLATES, ['renovate'])?.template.name).toBe('dependency-update');
+  });
+});
+
+describe('parsePlanTemplates', () => {
+  it('fills in defaults and turns plain step descriptions into steps', () => {
+    expect(parsePlanTemplates([{ name: 'security', steps: ['Patch the vulnerability', { description: 'Add a regression test', changeType: 'test' }] }], 'templates'))
+      .toEqual({
+        templates: [{
+          name: 'security',
+          labels: [],
+          classes: [],
+          steps: [{ description: 'Patch the vulnerability' }, { description: 'Add a regression test', changeType: 'test' }]
+        }],
+        errors: []
+      });
+  });
+
+  it('reports schema violations with their path', () => {
+    const { templates, errors } = parsePlanTemplates([{ name: 'security', steps: [], classes: ['cleanup'] }], 'config.planTemplates');
+
+    expect(templates).toEqual([]);
+    expect(errors).toEqual(expect.arrayContaining([expect.stringMatching(/^config\.planTemplates\[0\]\.(steps|classes)/)]));
+    expect(errors).toHaveLength(2);
+  });
+});
+
+describe('getPlanTemplates', () => {
+  const original = config.planTemplatesFile;
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-templates-'));
+  });
+
+  afterEach(async () => {
+    config.planTemplatesFile = original;
+    await fs.remove(directory);
+  });
+
+  it('offers the built-in templates when no custom ones are configured', () => {
+    config.planTemplatesFile = '';
+
+    expect(getPlanTemplates()).toEqual(BUILTIN_PLAN_TEMPLATES);
+  });
+
+  it('puts repository templates before server templates, and both before the built-in ones they replace', async () => {
+    config.planTemplatesFile = path.join(directory, 'templates.yml');
+    await fs.writeFile(config.planTemplatesFile, [
+      '- name: feature',
+      '  labels: [enhancement]',
+      '  steps:',
+      '    - Write an RFC before implementing',
+      '- name: security',
+      '  labels: [security]',
+      '  steps:',
+      '    - Patch the vulnerability',
+      ''
+    ].join('\n'));
+
+    const templates = getPlanTemplates([template('security', ['security', 'cve'])]);
+
+    expect(templates.map(candidate => candidate.name)).toEqual([
+      'security',
+      'feature',
+      ...BUILTIN_PLAN_TEMPLATES.map(builtin => builtin.name).filter(name => name !== 'feature')
+    ]);
+    expect(templates[0].labels).toEqual(['security', 'cve']);
+    expect(templates[1].steps).toEqual([{ description: 'Write an RFC before implementing' }]);
+    expect(selectPlanTemplate(templates, ['enhancement'])?.template).toBe(templates[1]);
+  });
+
+  it('reads a JSON file', async () => {
+    config.planTemplatesFile = path.join(directory, 'templates.json');
+    await fs.writeJson(config.planTemplatesFile, [{ name: 'release', classes: ['chore'], steps: ['Bump the version'] }]);
+
+    expect(getPlanTemplates()[0]).toMatchObject({ name: 'release', classes: ['chore'] });
+  });
+
+  it('rejects an invalid or missing server file', async () => {
+    config.planTemplatesFile = path.join(directory, 'templates.yml');
+    await fs.writeFile(config.planTemplatesFile, '- name: empty\n  steps: []\n');
+
+    expect(() => getPlanTemplates()).toThrow(/^PLAN_TEMPLATES_FILE .*templates\.yml is invalid: templates\[0\]\.steps/);
+
+    config.planTemplatesFile = path.join(directory, 'missing.yml');
+    expect(() => getPlanTemplates()).toThrow(/^Failed to read PLAN_TEMPLATES_FILE .*missing\.yml: /);
+  });
+});
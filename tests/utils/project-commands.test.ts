@@ -0,0 +1,204 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { BuildSystem, CodebaseAnalysis, PackageManager, SubProject } from '../../src/services/codebase-analysis.service';
+import { CommandOverrides, CommandStep, formatCommand, resolveProjectCommands } from '../../src/utils/project-commands';
+
+function analysis(buildSystem: BuildSystem, packageManager?: PackageManager): CodebaseAnalysis {
+  return {
+    fileStructure: [],
+    buildSystem,
+    packageManager,
+    mainLanguage: 'JavaScript',
+    languages: [],
+    ecosystems: [],
+    dependencies: [],
+    subProjects: []
+  };
+}
+
+const api: SubProject = { name: '@app/api', path: 'packages/api', buildSystem: 'npm' };
+const web: SubProject = { name: '@app/web', path: 'packages/web', buildSystem: 'npm' };
+
+describe('resolveProjectCommands', () => {
+  let workspacePath: string;
+
+  beforeEach(async () => {
+    workspacePath = await fs.mkdtemp(path.join(os.tmpdir(), 'project-commands-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspacePath);
+  });
+
+  const commandsOf = async (
+    projectAnalysis: CodebaseAnalysis,
+    targetProjects?: SubProject[],
+    configured?: Partial<Record<CommandStep, string[]>>,
+    overrides?: CommandOverrides
+  ) => {
+    const commands = await resolveProjectCommands(workspacePath, projectAnalysis, targetProjects, configured, overrides);
+    return Object.fromEntries(Object.entries(commands).map(([step, resolved]) => [step, formatCommand(resolved!)]));
+  };
+
+  it('installs from the lockfile and runs the package.json scripts', async () => {
+    await fs.writeJson(path.join(workspacePath, 'package.json'), { scripts: { build: 'tsc', test: 'jest' } });
+
+    expect(await commandsOf(analysis('npm', { name: 'npm', lockfile: 'package-lock.json' }))).toEqual({
+      install: 'npm ci (toolchain)',
+      build: 'npm run build (package.json)',
+      test: 'npm test (package.json)'
+    });
+  });
+
+  it.each<[PackageManager, string]>([
+    [{ name: 'npm' }, 'npm install'],
+    [{ name: 'pnpm', lockfile: 'pnpm-lock.yaml' }, 'pnpm install --frozen-lockfile'],
+    [{ name: 'yarn-classic', lockfile: 'yarn.lock' }, 'yarn install --frozen-lockfile'],
+    [{ name: 'yarn-berry', lockfile: 'yarn.lock' }, 'yarn install --immutable'],
+    [{ name: 'yarn-berry' }, 'yarn install']
+  ])('installs %j with %s', async (packageManager, install) => {
+    const buildSystem = packageManager.name.startsWith('yarn') ? 'yarn' : packageManager.name as BuildSystem;
+
+    expect((await commandsOf(analysis(buildSystem, packageManager))).install).toBe(`${install} (toolchain)`);
+  });
+
+  it('skips the tests of a package.json without a test script or with the npm init placeholder', async () => {
+    await fs.writeJson(path.join(workspacePath, 'package.json'), { scripts: { test: 'echo "Error: no test specified" && exit 1' } });
+
+    expect((await commandsOf(analysis('npm'))).test).toBeUndefined();
+  });
+
+  it('runs npm test when there is no package.json at the root', async () => {
+    expect((await commandsOf(analysis('npm'))).test).toBe('npm test (toolchain)');
+  });
+
+  describe('scoped to target projects', () => {
+    it('honors the lockfile when installing npm workspaces', async () => {
+      expect(await commandsOf(analysis('npm', { name: 'npm', lockfile: 'package-lock.json' }), [api, web])).toEqual({
+        install: 'npm ci --workspace=packages/api --workspace=packages/web (toolchain)',
+        test: 'npm test --workspace=packages/api --workspace=packages/web (toolchain)'
+      });
+    });
+
+    it('lets npm update the lockfile only when there is none', async () => {
+      expect((await commandsOf(analysis('npm', { name: 'npm' }), [api])).install)
+        .toBe('npm install --workspace=packages/api (toolchain)');
+    });
+
+    it('honors the lockfile when installing pnpm packages and their dependencies', async () => {
+      expect(await commandsOf(analysis('pnpm', { name: 'pnpm', lockfile: 'pnpm-lock.yaml' }), [api])).toEqual({
+        install: 'pnpm install --frozen-lockfile --filter @app/api... (toolchain)',
+        test: 'pnpm --filter @app/api test (toolchain)'
+      });
+      expect((await commandsOf(analysis('pnpm', { name: 'pnpm' }), [api])).install).toBe('pnpm install --filter @app/api... (toolchain)');
+    });
+
+    it('runs yarn workspace tests, across several workspaces only with yarn berry', async () => {
+      const classic = analysis('yarn', { name: 'yarn-classic', lockfile: 'yarn.lock' });
+      const berry = analysis('yarn', { name: 'yarn-berry', lockfile: 'yarn.lock' });
+
+      expect(await commandsOf(classic, [api])).toEqual({
+        install: 'yarn install --frozen-lockfile (toolchain)',
+        test: 'yarn workspace @app/api test (toolchain)'
+      });
+      expect((await commandsOf(classic, [api, web])).test).toBe('yarn test (toolchain)');
+      expect((await commandsOf(berry, [api, web])).test)
+        .toBe('yarn workspaces foreach --include @app/api --include @app/web run test (toolchain)');
+    });
+
+    it('builds and tests Gradle modules', async () => {
+      const lib: SubProject = { name: ':lib:core', path: 'lib/core', buildSystem: 'gradle' };
+
+      expect(await commandsOf(analysis('gradle', { name: 'gradle' }), [lib])).toEqual({
+        install: './gradlew :lib:core:build -x test (toolchain)',
+        test: './gradlew :lib:core:test (toolchain)'
+      });
+    });
+  });
+
+  it('prefers parameters, then the repository configuration, over detected commands', async () => {
+    await fs.writeJson(path.join(workspacePath, 'package.json'), { scripts: { build: 'tsc', test: 'jest' } });
+
+    expect(await commandsOf(
+      analysis('npm', { name: 'npm', lockfile: 'package-lock.json' }),
+      [api],
+      { install: ['npm', 'install'], test: ['npm', 'run', 'test:unit'] },
+      { test: 'npm run test:ci -- --silent' }
+    )).toEqual({
+      install: 'npm install (repository configuration)',
+      build: 'npm run build (package.json)',
+      test: 'sh -c npm run test:ci -- --silent (parameter)'
+    });
+  });
+
+  it('rejects an empty command given for the run', async () => {
+    await expect(resolveProjectCommands(workspacePath, analysis('npm'), [], {}, { test: '' }))
+      .rejects.toThrow('The test command given for this run is empty');
+  });
+
+  it('uses Makefile targets before the toolchain defaults, ignoring variable assignments', async () => {
+    await fs.writeFile(path.join(workspacePath, 'Makefile'), [
+      'CFLAGS := -O2',
+      'deps:',
+      '\tgo mod download',
+      'build test: deps',
+      '\tgo build ./...',
+      'check::',
+      '\tgo vet ./...',
+      ''
+    ].join('\n'));
+
+    expect(await commandsOf(analysis('go', { name: 'go' }))).toEqual({
+      install: 'make deps (Makefile)',
+      build: 'make build (Makefile)',
+      test: 'make test (Makefile)'
+    });
+  });
+
+  it('installs pip requirements files, or the project itself without them', async () => {
+    expect((await commandsOf(analysis('pip', { name: 'pip' }))).install).toBe('pip install -e . (toolchain)');
+
+    await fs.writeFile(path.join(workspacePath, 'requirements.txt'), 'requests\n');
+    await fs.writeFile(path.join(workspacePath, 'requirements-dev.txt'), 'pytest\n');
+
+    expect(await commandsOf(analysis('pip', { name: 'pip' }))).toEqual({
+      install: 'pip install -r requirements.txt -r requirements-dev.txt (toolchain)',
+      test: 'python -m pytest (toolchain)'
+    });
+  });
+
+  it.each<[BuildSystem, PackageManager, Record<string, string>]>([
+    ['uv', { name: 'uv', lockfile: 'uv.lock' }, { install: 'uv sync --locked', test: 'uv run pytest' }],
+    ['pipenv', { name: 'pipenv', lockfile: 'Pipfile.lock' }, { install: 'pipenv sync --dev', test: 'pipenv run pytest' }],
+    ['pipenv', { name: 'pipenv' }, { install: 'pipenv install --dev', test: 'pipenv run pytest' }],
+    ['poetry', { name: 'poetry' }, { install: 'poetry install --no-interaction', test: 'poetry run pytest' }],
+    ['go', { name: 'go' }, { install: 'go mod download', build: 'go build ./...', test: 'go test ./...' }],
+    ['cargo', { name: 'cargo' }, { install: 'cargo build', test: 'cargo test' }],
+    ['bundler', { name: 'bundler' }, { install: 'bundle install', test: 'bundle exec rake test' }],
+    ['maven', { name: 'maven' }, { install: 'mvn install -DskipTests', test: 'mvn test' }],
+    ['dotnet', { name: 'dotnet', lockfile: 'packages.lock.json' }, {
+      install: 'dotnet restore --locked-mode',
+      build: 'dotnet build --no-restore',
+      test: 'dotnet test --no-restore'
+    }]
+  ])('uses the %s toolchain defaults for %j', async (buildSystem, packageManager, expected) => {
+    const toolchain = Object.fromEntries(Object.entries(expected).map(([step, command]) => [step, `${command} (toolchain)`]));
+
+    expect(await commandsOf(analysis(buildSystem, packageManager))).toEqual(toolchain);
+  });
+
+  it('runs composer.json scripts', async () => {
+    await fs.writeJson(path.join(workspacePath, 'composer.json'), { scripts: { build: 'php build.php', test: 'phpunit' } });
+
+    expect(await commandsOf(analysis('composer', { name: 'composer' }))).toEqual({
+      install: 'composer install --no-interaction (toolchain)',
+      build: 'composer run-script build (composer.json)',
+      test: 'composer test (composer.json)'
+    });
+  });
+
+  it('has no commands for an unknown build system', async () => {
+    expect(await commandsOf(analysis('unknown'))).toEqual({});
+  });
+});
@@ -0,0 +1,154 @@
+import { RateLimitedRequester, RateLimitError } from '../../src/utils/rate-limit';
+
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`Request failed with status ${status}`), { status, headers });
+}
+
+describe('RateLimitedRequester', () => {
+  let requester: RateLimitedRequester;
+
+  beforeEach(() => {
+    requester = new RateLimitedRequester({ maxRetries: 2, baseDelayMs: 0, maxWaitMs: 60000 });
+    // Rate limit waits are at least a second
+    (requester as any).sleep = jest.fn().mockResolvedValue(undefined);
+  });
+
+  it('retries idempotent requests after server errors', async () => {
+    const send = jest.fn()
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValueOnce({ headers: {} });
+
+    await requester.execute(send, 'GET');
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries idempotent requests after network errors', async () => {
+    const send = jest.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce({ headers: {} });
+
+    await requester.execute(send, 'put');
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it.each(['POST', 'PATCH'])('does not retry %s requests after server errors or network errors', async method => {
+    const serverError = jest.fn().mockRejectedValue(httpError(503));
+    const networkError = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(requester.execute(serverError, method)).rejects.toThrow('status 503');
+    await expect(requester.execute(networkError, method)).rejects.toThrow('fetch failed');
+
+    expect(serverError).toHaveBeenCalledTimes(1);
+    expect(networkError).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries POST requests rejected by a rate limit', async () => {
+    const send = jest.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }))
+      .mockResolvedValueOnce({ headers: {} });
+
+    await requester.execute(send, 'POST');
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect((requester as any).sleep).toHaveBeenCalledWith(2000);
+  });
+
+  it('does not retry client errors', async () => {
+    const send = jest.fn().mockRejectedValue(httpError(404));
+
+    await expect(requester.execute(send)).rejects.toThrow('status 404');
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('tracks the budget from GitHub and GitLab headers', async () => {
+    await requester.execute(async () => ({ headers: new Headers({ 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4999', 'x-ratelimit-reset': '1700000000' }) }));
+    expect(requester.getState()).toEqual({ limit: 5000, remaining: 4999, resetAt: new Date(1700000000 * 1000) });
+
+    await requester.execute(async () => ({ headers: { 'ratelimit-remaining': 10 } }));
+    expect(requester.getState().remaining).toBe(10);
+
+    await requester.execute(async () => ({}));
+    expect(requester.getState().limit).toBe(5000);
+  });
+
+  it('waits for the reset when the budget is used up', async () => {
+    const resetAt = Math.ceil((Date.now() + 30000) / 1000);
+    await requester.execute(async () => ({ headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt) } }));
+
+    await requester.execute(async () => ({ headers: {} }));
+
+    expect((requester as any).sleep).toHaveBeenCalledWith(expect.any(Number));
+    expect((requester as any).sleep.mock.calls[0][0]).toBeGreaterThan(20000);
+  });
+
+  it('does not wait for a reset that has passed', async () => {
+    await requester.execute(async () => ({ headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1' } }));
+
+    await requester.execute(async () => ({ headers: {} }));
+
+    expect((requester as any).sleep).not.toHaveBeenCalled();
+  });
+
+  it('refuses to wait longer than allowed for the reset', async () => {
+    const resetAt = Math.ceil((Date.now() + 3600000) / 1000);
+    await requester.execute(async () => ({ headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt) } }));
+    const send = jest.fn();
+
+    await expect(requester.execute(send)).rejects.toThrow(RateLimitError);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(requester.getRateLimitedCount()).toBe(1);
+  });
+
+  it('waits until the reset when a request is rejected with the budget used up', async () => {
+    const resetAt = Math.ceil((Date.now() + 30000) / 1000);
+    const send = jest.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('API rate limit exceeded'), {
+        status: 403,
+        response: { headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt) } }
+      }))
+      .mockResolvedValueOnce({ headers: { 'x-ratelimit-remaining': '4999' } });
+
+    await requester.execute(send);
+
+    expect((requester as any).sleep.mock.calls[0][0]).toBeGreaterThan(20000);
+  });
+
+  it('waits a minute on secondary rate limits without retry-after', async () => {
+    const send = jest.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('You have exceeded a secondary rate limit'), { status: 403 }))
+      .mockResolvedValueOnce({ headers: {} });
+
+    await requester.execute(send);
+
+    expect((requester as any).sleep).toHaveBeenCalledWith(60000);
+  });
+
+  it('does not retry a 403 that is not a rate limit, or a 304', async () => {
+    await expect(requester.execute(jest.fn().mockRejectedValue(httpError(403)))).rejects.toThrow('status 403');
+    await expect(requester.execute(jest.fn().mockRejectedValue(httpError(304)))).rejects.toThrow('status 304');
+
+    expect((requester as any).sleep).not.toHaveBeenCalled();
+  });
+
+  it('gives up after the retries allowed and reports when the limit resets', async () => {
+    const send = jest.fn().mockRejectedValue(httpError(429, { 'retry-after': '0', 'x-ratelimit-reset': '1700000000' }));
+
+    await expect(requester.execute(send)).rejects.toThrow(`API rate limit exceeded, resets at ${new Date(1700000000 * 1000).toISOString()}`);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect((requester as any).sleep).toHaveBeenCalledWith(1000);
+    expect(requester.getRateLimitedCount()).toBe(1);
+  });
+
+  it('gives up on server errors after the retries allowed', async () => {
+    const send = jest.fn().mockRejectedValue(httpError(500));
+
+    await expect(requester.execute(send)).rejects.toThrow('status 500');
+
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,40 @@
+import { parseRepoConfig, RepoConfigError } from '../../src/utils/repo-config';
+
+describe('parseRepoConfig', () => {
+  it('reports YAML errors for the file', () => {
+    expect(() => parseRepoConfig('test: [npm', '.github/issue-resolver.yml')).toThrow(RepoConfigError);
+    expect(() => parseRepoConfig('test: [npm', '.github/issue-resolver.yml')).toThrow(/^\.github\/issue-resolver\.yml is invalid: line 1: /);
+  });
+
+  it('treats an empty file as no settings', () => {
+    expect(parseRepoConfig('# nothing yet\n', '.github/issue-resolver.yml').test).toBeUndefined();
+  });
+
+  it('reads custom plan templates', () => {
+    const repoConfig = parseRepoConfig([
+      'planTemplates:',
+      '  - name: migration',
+      '    labels: [database]',
+      '    steps:',
+      '      - Write the migration',
+      '      - description: Test the migration on a copy of production data',
+      '        changeType: test',
+      ''
+    ].join('\n'), '.github/issue-resolver.yml');
+
+    expect(repoConfig.planTemplates).toEqual([{
+      name: 'migration',
+      labels: ['database'],
+      classes: [],
+      steps: [
+        { description: 'Write the migration' },
+        { description: 'Test the migration on a copy of production data', changeType: 'test' }
+      ]
+    }]);
+  });
+
+  it('rejects invalid plan templates', () => {
+    expect(() => parseRepoConfig('planTemplates:\n  - name: migration\n', '.github/issue-resolver.yml'))
+      .toThrow(/^\.github\/issue-resolver\.yml is invalid: config\.planTemplates\[0\]/);
+  });
+});
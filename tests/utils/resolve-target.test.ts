@@ -0,0 +1,112 @@
+import { formatIssueUrl, formatTargetReference, parseRepositoryLocation, parseResolveTarget } from '../../src/utils/resolve-target';
+
+describe('parseResolveTarget', () => {
+  it.each([
+    ['https://github.com/octo/app/issues/12', { forge: 'github', serverUrl: 'https://github.com', owner: 'octo', repo: 'app', number: 12, kind: 'issue' }],
+    ['https://www.github.com/octo/app/pull/34/files', { forge: 'github', serverUrl: 'https://github.com', owner: 'octo', repo: 'app', number: 34, kind: 'pull_request' }],
+    ['https://gitlab.com/group/sub/project/-/merge_requests/5', { forge: 'gitlab', owner: 'group/sub', repo: 'project', number: 5, kind: 'pull_request' }],
+    ['https://git.example.com/group/project/-/issues/6', { forge: 'gitlab', serverUrl: 'https://git.example.com', owner: 'group', repo: 'project', kind: 'issue' }],
+    ['https://codeberg.org/forgejo/forgejo/pulls/7', { forge: 'gitea', owner: 'forgejo', repo: 'forgejo', number: 7, kind: 'pull_request' }],
+    ['https://GHE.example.com/octo/app/issues/8', { forge: 'github', serverUrl: 'https://ghe.example.com', number: 8 }]
+  ])('parses the URL %s', (reference, expected) => {
+    expect(parseResolveTarget(reference)).toMatchObject({ ...expected, kindKnown: true });
+  });
+
+  it('keeps comment anchors and ignores other fragments', () => {
+    expect(parseResolveTarget('https://github.com/octo/app/issues/12#issuecomment-345').commentAnchor).toBe('issuecomment-345');
+    expect(parseResolveTarget('https://gitlab.com/group/project/-/issues/6#note_78').commentAnchor).toBe('note_78');
+    expect(parseResolveTarget('https://github.com/octo/app/issues/12#top').commentAnchor).toBeUndefined();
+  });
+
+  it.each([
+    'https://github.com/octo/app',
+    'https://github.com/octo/app/issues/new',
+    'https://github.com/issues/12',
+    'not a url',
+    'octo/app',
+    'octo/app#twelve'
+  ])('rejects %s', reference => {
+    expect(() => parseResolveTarget(reference)).toThrow(/^(Not an issue or pull request URL|Unrecognized issue reference): /);
+  });
+
+  it('reads a shorthand without a host as a GitHub reference of unknown kind', () => {
+    expect(parseResolveTarget(' octo/app#12 ')).toEqual({
+      forge: 'github',
+      serverUrl: 'https://github.com',
+      owner: 'octo',
+      repo: 'app',
+      number: 12,
+      kind: 'issue',
+      kindKnown: false
+    });
+  });
+
+  it('resolves shorthands against the default repository and its host', () => {
+    expect(parseResolveTarget('#12', 'octo/app')).toMatchObject({ owner: 'octo', repo: 'app', number: 12, kindKnown: false });
+    expect(parseResolveTarget('!5', 'https://gitlab.example.com/group/sub/project/-/tree/main')).toMatchObject({
+      forge: 'gitlab',
+      serverUrl: 'https://gitlab.example.com',
+      owner: 'group/sub',
+      repo: 'project',
+      number: 5,
+      kind: 'pull_request',
+      kindKnown: true
+    });
+    expect(parseResolveTarget('other/lib#3', 'https://gitlab.com/group/project')).toMatchObject({
+      forge: 'gitlab',
+      owner: 'other',
+      repo: 'lib',
+      kind: 'issue',
+      kindKnown: true
+    });
+  });
+
+  it('needs a default repository for #123', () => {
+    expect(() => parseResolveTarget('#12')).toThrow('The reference #12 needs a default repository (owner/repo) to resolve against');
+    expect(() => parseResolveTarget('#12', 'https://github.com')).toThrow(/needs a default repository/);
+  });
+
+  it.each([
+    'https://github.com/octo/..%2F..%2Fetc/issues/1',
+    'https://github.com/octo%2F..%2F..%2Ftmp/app/issues/1',
+    'https://gitlab.com/group/..%5C..%5Cx/-/issues/1',
+    '../app#1',
+    'octo/.#1',
+    'octo/../../tmp/app#1'
+  ])('rejects the repository path of %s', reference => {
+    expect(() => parseResolveTarget(reference)).toThrow(/Invalid repository path in .*is not an owner, group or repository name/);
+  });
+
+  it('rejects a default repository that is not a valid path', () => {
+    expect(() => parseResolveTarget('#1', '../app')).toThrow('Invalid repository path in ../app');
+    expect(() => parseResolveTarget('#1', 'https://github.com/octo/..%2Fapp')).toThrow('Invalid repository path');
+  });
+});
+
+describe('parseRepositoryLocation', () => {
+  it('ignores page paths and .git suffixes', () => {
+    expect(parseRepositoryLocation('https://github.com/octo/app/tree/main/src')).toEqual({
+      forge: 'github',
+      serverUrl: 'https://github.com',
+      owner: 'octo',
+      repo: 'app'
+    });
+    expect(parseRepositoryLocation('https://gitlab.com/group/sub/project.git')).toMatchObject({ owner: 'group/sub', repo: 'project' });
+  });
+
+  it.each(['octo//app', 'https://gitlab.com/group/%2E%2E%2Fproject'])('rejects %s', repository => {
+    expect(() => parseRepositoryLocation(repository)).toThrow('Invalid repository path');
+  });
+});
+
+describe('formatting targets', () => {
+  it('builds issue URLs and references in the notation of the forge', () => {
+    const mergeRequest = parseResolveTarget('https://gitlab.com/group/sub/project/-/merge_requests/5');
+    const pullRequest = parseResolveTarget('https://github.com/octo/app/pull/34');
+
+    expect(formatIssueUrl(mergeRequest)).toBe('https://gitlab.com/group/sub/project/-/issues/5');
+    expect(formatTargetReference(mergeRequest)).toBe('group/sub/project!5');
+    expect(formatIssueUrl(pullRequest)).toBe('https://github.com/octo/app/issues/34');
+    expect(formatTargetReference(pullRequest)).toBe('octo/app#34');
+  });
+});
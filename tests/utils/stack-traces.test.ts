@@ -0,0 +1,152 @@
+import { extractStackTraces, locateStackFrames } from '../../src/utils/stack-traces';
+
+const JAVA_TRACE = `Saving an order fails:
+
+\`\`\`
+Exception in thread "main" java.lang.IllegalStateException: Order already saved
+	at com.shop.orders.OrderService.save(OrderService.java:42)
+	at com.shop.orders.OrderController.create(OrderController.java:17)
+	at java.base/java.lang.Thread.run(Thread.java:833)
+Caused by: java.sql.SQLException: Duplicate key
+	at com.shop.db.Repository.insert(Repository.java:88)
+	at java.sql.DriverManager.execute(DriverManager.java:10)
+	... 2 more
+\`\`\``;
+
+const GO_TRACE = `panic: runtime error: index out of range [3] with length 3
+
+goroutine 1 [running]:
+main.parseArgs(...)
+	/home/dev/tool/cmd/args.go:27 +0x1d
+main.main()
+	/home/dev/tool/main.go:12 +0x45
+runtime.main()
+	/usr/local/go/src/runtime/proc.go:267 +0x2bb
+exit status 2`;
+
+const RUST_TRACE = `thread 'main' panicked at src/config.rs:14:38:
+called \`Option::unwrap()\` on a \`None\` value
+stack backtrace:
+   0: rust_begin_unwind
+             at /rustc/90c541806f23a127002de5b4038be731ba1458ca/library/std/src/panicking.rs:645:5
+   1: app::config::load::h1a2b3c4d5e6f7a8b
+             at ./src/config.rs:14:38
+   2: app::main
+             at ./src/main.rs:6:18
+note: Some details are omitted, run with \`RUST_BACKTRACE=full\` for a verbose backtrace.`;
+
+describe('extractStackTraces', () => {
+  it('reads a JVM exception and its "Caused by" chain, deriving paths from the package', () => {
+    expect(extractStackTraces(JAVA_TRACE)).toEqual([
+      {
+        language: 'java',
+        exceptionType: 'java.lang.IllegalStateException',
+        message: 'Order already saved',
+        frames: [
+          { file: 'com/shop/orders/OrderService.java', line: 42, function: 'com.shop.orders.OrderService.save' },
+          { file: 'com/shop/orders/OrderController.java', line: 17, function: 'com.shop.orders.OrderController.create' }
+        ]
+      },
+      {
+        language: 'java',
+        exceptionType: 'java.sql.SQLException',
+        message: 'Duplicate key',
+        frames: [{ file: 'com/shop/db/Repository.java', line: 88, function: 'com.shop.db.Repository.insert' }]
+      }
+    ]);
+  });
+
+  it('reads a Go panic and drops runtime frames', () => {
+    expect(extractStackTraces(GO_TRACE)).toEqual([{
+      language: 'go',
+      exceptionType: 'panic',
+      message: 'runtime error: index out of range [3] with length 3',
+      frames: [
+        { file: '/home/dev/tool/cmd/args.go', line: 27, function: 'main.parseArgs' },
+        { file: '/home/dev/tool/main.go', line: 12, function: 'main.main' }
+      ]
+    }]);
+  });
+
+  it('reads a Rust panic with its backtrace, naming the panicking function', () => {
+    expect(extractStackTraces(RUST_TRACE)).toEqual([{
+      language: 'rust',
+      exceptionType: 'panic',
+      message: 'called `Option::unwrap()` on a `None` value',
+      frames: [
+        { file: 'src/config.rs', line: 14, column: 38, function: 'app::config::load' },
+        { file: 'src/main.rs', line: 6, column: 18, function: 'app::main' }
+      ]
+    }]);
+  });
+
+  it('reads the message of a panic printed by Rust before 1.73', () => {
+    expect(extractStackTraces("thread 'worker' panicked at 'queue is empty', src/queue.rs:9:5")).toEqual([{
+      language: 'rust',
+      exceptionType: 'panic',
+      message: 'queue is empty',
+      frames: [{ file: 'src/queue.rs', line: 9, column: 5 }]
+    }]);
+  });
+
+  it('returns the traces of several languages in the order they appear', () => {
+    const traces = extractStackTraces(`${RUST_TRACE}\n\nThe Go service then fails:\n\n${GO_TRACE}\n\n> ${JAVA_TRACE.split('\n').join('\n> ')}`);
+
+    expect(traces.map(trace => trace.language)).toEqual(['rust', 'go', 'java', 'java']);
+  });
+
+  it('finds nothing in prose', () => {
+    expect(extractStackTraces('The app panicked at startup. Looking at main.go it seems the config is missing.')).toEqual([]);
+  });
+});
+
+describe('locateStackFrames', () => {
+  const repositoryPaths = [
+    'services/orders/src/main/java/com/shop/orders/OrderService.java',
+    'services/orders/src/main/java/com/shop/orders/OrderController.java',
+    'services/orders/src/main/java/com/shop/db/Repository.java',
+    'tool/cmd/args.go',
+    'tool/main.go',
+    'main.go',
+    'src/config.rs',
+    'src/main.rs'
+  ];
+
+  it('maps JVM package paths to the source files under their source root', () => {
+    expect(locateStackFrames(extractStackTraces(JAVA_TRACE), repositoryPaths)).toEqual([
+      {
+        path: 'services/orders/src/main/java/com/shop/orders/OrderService.java',
+        line: 42,
+        function: 'com.shop.orders.OrderService.save',
+        exceptionType: 'java.lang.IllegalStateException',
+        message: 'Order already saved'
+      },
+      expect.objectContaining({ path: 'services/orders/src/main/java/com/shop/orders/OrderController.java', line: 17 }),
+      expect.objectContaining({ path: 'services/orders/src/main/java/com/shop/db/Repository.java', line: 88, exceptionType: 'java.sql.SQLException' })
+    ]);
+  });
+
+  it('maps absolute paths from another machine to the longest matching repository path', () => {
+    expect(locateStackFrames(extractStackTraces(GO_TRACE), repositoryPaths).map(location => [location.path, location.line])).toEqual([
+      ['tool/cmd/args.go', 27],
+      ['tool/main.go', 12]
+    ]);
+  });
+
+  it('reports each location once', () => {
+    const traces = extractStackTraces(`${RUST_TRACE}\n\n${RUST_TRACE}`);
+
+    expect(traces).toHaveLength(2);
+    expect(locateStackFrames(traces, repositoryPaths).map(location => [location.path, location.line, location.function])).toEqual([
+      ['src/config.rs', 14, 'app::config::load'],
+      ['src/main.rs', 6, 'app::main']
+    ]);
+  });
+
+  it('drops frames that match no repository file, or more than one', () => {
+    const traces = extractStackTraces(GO_TRACE);
+
+    expect(locateStackFrames(traces, ['tools/other.go'])).toEqual([]);
+    expect(locateStackFrames([{ language: 'go', frames: [{ file: 'args.go', line: 1 }] }], ['a/args.go', 'b/args.go'])).toEqual([]);
+  });
+});
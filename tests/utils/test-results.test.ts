@@ -0,0 +1,260 @@
+import { compareTestRuns, parseJUnitXml, parseTestOutput, summarizeTests, TestCase } from '../../src/utils/test-results';
+
+const JUNIT_REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="com.example.CalculatorTest" tests="3" failures="1" skipped="1">
+    <testcase name="adds" classname="com.example.CalculatorTest" time="0.012"/>
+    <testcase name="divides" classname="com.example.CalculatorTest" time="0.003">
+      <failure message="expected: &lt;1&gt; but was: &lt;0&gt;" type="org.opentest4j.AssertionFailedError">stack trace</failure>
+    </testcase>
+    <testcase name="multiplies" classname="com.example.CalculatorTest">
+      <skipped/>
+    </testcase>
+  </testsuite>
+  <testsuite name="com.example.ParserTest" tests="1" errors="1">
+    <testcase name="parses &quot;empty&quot; input" classname="com.example.ParserTest" time="0.001">
+      <error type="java.lang.NullPointerException"><![CDATA[java.lang.NullPointerException
+	at com.example.Parser.parse(Parser.java:12)]]></error>
+    </testcase>
+  </testsuite>
+</testsuites>
+`;
+
+const TAP_OUTPUT = `TAP version 13
+# Subtest: math
+    ok 1 - adds numbers
+    not ok 2 - divides by zero
+      ---
+      operator: equal
+      ...
+    1..2
+not ok 1 - math
+ok 2 - handles null # SKIP not implemented
+ok 3 - parses dates # TODO
+1..3
+`;
+
+const JEST_OUTPUT = `Determining test suites to run...
+${JSON.stringify({
+  numFailedTests: 2,
+  testResults: [
+    {
+      name: '/work/src/sum.test.ts',
+      status: 'failed',
+      message: '',
+      assertionResults: [
+        { ancestorTitles: ['sum'], title: 'adds', fullName: 'sum adds', status: 'passed', duration: 5, failureMessages: [] },
+        {
+          ancestorTitles: ['sum'],
+          title: 'subtracts',
+          fullName: 'sum subtracts',
+          status: 'failed',
+          duration: 3,
+          failureMessages: ['Error: expect(received).toBe(expected)\n\nExpected: 1\nReceived: 2']
+        },
+        { ancestorTitles: ['sum'], title: 'overflows', fullName: 'sum overflows', status: 'pending', failureMessages: [] }
+      ]
+    },
+    {
+      name: '/work/src/broken.test.ts',
+      status: 'failed',
+      message: '\n  ● Test suite failed to run\n\n    Cannot find module \'./missing\'',
+      assertionResults: []
+    }
+  ]
+})}
+`;
+
+const PYTEST_OUTPUT = `============================= test session starts ==============================
+collected 3 items
+
+tests/test_api.py::test_get PASSED                                       [ 33%]
+tests/test_api.py::TestAuth::test_login FAILED                           [ 66%]
+tests/test_api.py::test_retry SKIPPED (needs network)                    [100%]
+
+=========================== short test summary info ============================
+FAILED tests/test_api.py::TestAuth::test_login - AssertionError: assert 401 == 200
+==================== 1 failed, 1 passed, 1 skipped in 0.12s ====================
+`;
+
+const GO_OUTPUT = [
+  'go: downloading example.com/dep v1.0.0',
+  { Action: 'run', Package: 'example.com/app', Test: 'TestParse' },
+  { Action: 'output', Package: 'example.com/app', Test: 'TestParse', Output: '=== RUN   TestParse\n' },
+  { Action: 'output', Package: 'example.com/app', Test: 'TestParse', Output: '    parse_test.go:12: got 2, want 3\n' },
+  { Action: 'output', Package: 'example.com/app', Test: 'TestParse', Output: '--- FAIL: TestParse (0.01s)\n' },
+  { Action: 'fail', Package: 'example.com/app', Test: 'TestParse', Elapsed: 0.01 },
+  { Action: 'pass', Package: 'example.com/app', Test: 'TestParse/empty', Elapsed: 0 },
+  { Action: 'skip', Package: 'example.com/app', Test: 'TestSlow', Elapsed: 0 },
+  { Action: 'fail', Package: 'example.com/app', Elapsed: 0.02 }
+].map(line => typeof line === 'string' ? line : JSON.stringify(line)).join('\n');
+
+describe('parseJUnitXml', () => {
+  it('reads each test case with its class, status, duration and first line of the failure', () => {
+    expect(parseJUnitXml(JUNIT_REPORT)).toEqual([
+      { name: 'adds', suite: 'com.example.CalculatorTest', status: 'passed', message: undefined, duration: 0.012 },
+      {
+        name: 'divides',
+        suite: 'com.example.CalculatorTest',
+        status: 'failed',
+        message: 'expected: <1> but was: <0>',
+        duration: 0.003
+      },
+      { name: 'multiplies', suite: 'com.example.CalculatorTest', status: 'skipped', message: undefined, duration: undefined },
+      {
+        name: 'parses "empty" input',
+        suite: 'com.example.ParserTest',
+        status: 'failed',
+        message: 'java.lang.NullPointerException',
+        duration: 0.001
+      }
+    ]);
+  });
+});
+
+describe('parseTestOutput', () => {
+  it('detects JUnit XML', () => {
+    const result = parseTestOutput(JUNIT_REPORT);
+
+    expect(result?.format).toBe('junit');
+    expect(summarizeTests(result!.tests)).toEqual({ passed: 1, failed: 2, skipped: 1 });
+  });
+
+  it('parses TAP, including subtests and SKIP and TODO directives', () => {
+    const result = parseTestOutput(TAP_OUTPUT);
+
+    expect(result?.format).toBe('tap');
+    expect(result?.tests.map(test => [test.name, test.status])).toEqual([
+      ['adds numbers', 'passed'],
+      ['divides by zero', 'failed'],
+      ['math', 'failed'],
+      ['handles null', 'skipped'],
+      ['parses dates', 'skipped']
+    ]);
+  });
+
+  it('parses a Jest JSON report after other output, relative to the root', () => {
+    const result = parseTestOutput(JEST_OUTPUT, '/work');
+
+    expect(result?.format).toBe('jest');
+    expect(result?.tests).toEqual([
+      { name: 'sum adds', suite: 'src/sum.test.ts', status: 'passed', message: undefined, duration: 0.005 },
+      {
+        name: 'sum subtracts',
+        suite: 'src/sum.test.ts',
+        status: 'failed',
+        message: 'Error: expect(received).toBe(expected)',
+        duration: 0.003
+      },
+      { name: 'sum overflows', suite: 'src/sum.test.ts', status: 'skipped', message: undefined, duration: undefined },
+      { name: '(test file)', suite: 'src/broken.test.ts', status: 'failed', message: '● Test suite failed to run' }
+    ]);
+  });
+
+  it('parses pytest verbose lines and takes failure messages from the short summary', () => {
+    const result = parseTestOutput(PYTEST_OUTPUT);
+
+    expect(result?.format).toBe('pytest');
+    expect(result?.tests).toEqual([
+      { name: 'test_get', suite: 'tests/test_api.py', status: 'passed', message: undefined },
+      {
+        name: 'TestAuth::test_login',
+        suite: 'tests/test_api.py',
+        status: 'failed',
+        message: 'AssertionError: assert 401 == 200'
+      },
+      { name: 'test_retry', suite: 'tests/test_api.py', status: 'skipped', message: undefined }
+    ]);
+  });
+
+  it('parses go test -json events, keeping subtest names and the failure output', () => {
+    const result = parseTestOutput(GO_OUTPUT);
+
+    expect(result?.format).toBe('go');
+    expect(result?.tests).toEqual([
+      { name: 'TestParse', suite: 'example.com/app', status: 'failed', message: 'parse_test.go:12: got 2, want 3', duration: 0.01 },
+      { name: 'TestParse/empty', suite: 'example.com/app', status: 'passed', message: undefined, duration: 0 },
+      { name: 'TestSlow', suite: 'example.com/app', status: 'skipped', message: undefined, duration: 0 }
+    ]);
+  });
+
+  it('fills in what reports leave out', () => {
+    expect(parseJUnitXml([
+      '<testcase file="spec/a_spec.rb"><error><![CDATA[\n  Expected &#x41;&#66; &quot;x&quot; &apos;y&apos; &amp; z\n]]></error></testcase>',
+      '<testcase time="soon"/>'
+    ].join(''))).toEqual([
+      { name: '(unnamed)', suite: 'spec/a_spec.rb', status: 'failed', message: 'Expected AB "x" \'y\' & z', duration: undefined },
+      { name: '(unnamed)', suite: undefined, status: 'passed', message: undefined, duration: undefined }
+    ]);
+
+    const jest = JSON.stringify({
+      testResults: [
+        { assertionResults: [{ ancestorTitles: ['sum'], title: 'adds', status: 'failed' }] },
+        { name: '/elsewhere/broken.test.ts', status: 'failed', assertionResults: [] }
+      ]
+    });
+    expect(parseTestOutput(jest, '/work')?.tests).toEqual([
+      { name: 'sum adds', suite: undefined, status: 'failed', message: undefined, duration: undefined },
+      { name: '(test file)', suite: '/elsewhere/broken.test.ts', status: 'failed', message: undefined }
+    ]);
+
+    expect(parseTestOutput('TAP version 13\nnot ok 1\nok 2 # SKIP no network')?.tests).toEqual([
+      { name: '(unnamed)', status: 'failed', message: undefined },
+      { name: '(unnamed)', status: 'skipped', message: undefined }
+    ]);
+
+    const go = [
+      'not json',
+      JSON.stringify({ Action: 'output', Package: 'example.com/app', Test: 'TestRun' }),
+      JSON.stringify({ Action: 'fail', Package: 'example.com/app', Test: 'TestRun' })
+    ].join('\n');
+    expect(parseTestOutput(go)?.tests).toEqual([
+      { name: 'TestRun', suite: 'example.com/app', status: 'failed', message: undefined, duration: undefined }
+    ]);
+  });
+
+  it('ignores JSON that is not a test report', () => {
+    expect(parseTestOutput('{"testResults": 3}')).toBeUndefined();
+    expect(parseTestOutput('{"testResults": [}')).toBeUndefined();
+  });
+
+  it('returns undefined when the output has no test results', () => {
+    expect(parseTestOutput('> build\ncompiled successfully\n')).toBeUndefined();
+  });
+});
+
+describe('compareTestRuns', () => {
+  const run = (results: Record<string, TestCase['status']>): TestCase[] =>
+    Object.entries(results).map(([name, status]) => ({ name, suite: 'suite', status }));
+
+  it('separates new failures and passes from failures that were already there', () => {
+    const baseline = run({ stable: 'passed', broken: 'failed', fixed: 'failed', flaky: 'passed', ignored: 'skipped' });
+    const current = run({ stable: 'passed', broken: 'failed', fixed: 'passed', flaky: 'failed', ignored: 'passed', added: 'failed', covered: 'passed' });
+
+    expect(compareTestRuns(baseline, current)).toEqual({
+      newFailures: ['suite > flaky', 'suite > added'],
+      newPasses: ['suite > fixed', 'suite > covered'],
+      preExistingFailures: ['suite > broken'],
+      removedTests: []
+    });
+  });
+
+  it('reports tests from the baseline that no longer run', () => {
+    const baseline = run({ kept: 'passed', deleted: 'failed', skippedBefore: 'skipped' });
+    const current = run({ kept: 'passed' });
+
+    expect(compareTestRuns(baseline, current)).toEqual({
+      newFailures: [],
+      newPasses: [],
+      preExistingFailures: [],
+      removedTests: ['suite > deleted', 'suite > skippedBefore']
+    });
+  });
+
+  it('matches tests by suite as well as name', () => {
+    const baseline: TestCase[] = [{ name: 'parses', suite: 'a', status: 'failed' }];
+    const current: TestCase[] = [{ name: 'parses', suite: 'b', status: 'failed' }];
+
+    expect(compareTestRuns(baseline, current).newFailures).toEqual(['b > parses']);
+  });
+});
@@ -0,0 +1,49 @@
+import { extractSymbols, splitIdentifier, tokenize } from '../../src/utils/tokenize';
+
+describe('splitIdentifier', () => {
+  it.each([
+    ['parseHTTPResponse', ['parse', 'HTTP', 'Response']],
+    ['max_retry_count', ['max', 'retry', 'count']],
+    ['kebab-case.name', ['kebab', 'case', 'name']],
+    ['XMLParser', ['XML', 'Parser']],
+    ['getUser2FA', ['get', 'User2', 'FA']]
+  ])('splits %s', (identifier, words) => {
+    expect(splitIdentifier(identifier)).toEqual(words);
+  });
+});
+
+describe('tokenize', () => {
+  it('yields the words of camelCase and snake_case identifiers and the whole identifier', () => {
+    expect(tokenize('Call parseConfig with MAX_RETRY_COUNT')).toEqual([
+      'call', 'parse', 'config', 'parseconfig', 'max', 'retry', 'count', 'maxretrycount'
+    ]);
+  });
+
+  it('drops stopwords, single characters and numbers', () => {
+    expect(tokenize('It should fail with error 404 after a x retry')).toEqual(['fail', 'error', 'retry']);
+  });
+
+  it('keeps a compound identifier whose words are stopwords as a whole', () => {
+    expect(tokenize('should_be')).toEqual(['shouldbe']);
+    expect(tokenize('isValid')).toEqual(['valid', 'isvalid']);
+  });
+});
+
+describe('extractSymbols', () => {
+  it('finds declarations across languages', () => {
+    const source = [
+      'export function parseConfig(text: string) {}',
+      'class ConfigLoader {}',
+      'const DEFAULT_TIMEOUT = 30;',
+      'def load_settings(path):',
+      'pub fn read_manifest() -> Manifest {}',
+      'func (s *Server) ServeHTTP(w http.ResponseWriter, r *http.Request) {}',
+      'public static Map<String, String> readHeaders(Request request) {',
+      'interface Options {}'
+    ].join('\n');
+
+    expect(extractSymbols(source).sort()).toEqual([
+      'ConfigLoader', 'DEFAULT_TIMEOUT', 'Options', 'ServeHTTP', 'load_settings', 'parseConfig', 'readHeaders', 'read_manifest'
+    ]);
+  });
+});
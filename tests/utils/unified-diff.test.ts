@@ -0,0 +1,108 @@
+import { formatFilePatch, parseUnifiedDiff } from '../../src/utils/unified-diff';
+
+const DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,2 +1,2 @@
+ import config from './config';
+-const port = 80;
++const port = config.port;
+@@ -20,2 +20,3 @@ export function start() {
+   listen(port);
++  log('started');
+ }
+diff --git a/docs/new guide.md b/docs/new guide.md
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/docs/new guide.md
+@@ -0,0 +1,2 @@
++# Guide
++Start the app with npm start
+diff --git a/old.txt b/old.txt
+deleted file mode 100644
+index 4444444..0000000
+--- a/old.txt
++++ /dev/null
+@@ -1 +0,0 @@
+-obsolete
+\\ No newline at end of file
+diff --git a/logo.png b/logo.png
+index 5555555..6666666 100644
+Binary files a/logo.png and b/logo.png differ
+diff --git "a/caf\\303\\251.txt" "b/caf\\303\\251.txt"
+index 7777777..8888888 100644
+--- "a/caf\\303\\251.txt"
++++ "b/caf\\303\\251.txt"
+@@ -1 +1 @@
+-tea
++coffee
+`;
+
+describe('parseUnifiedDiff', () => {
+  const files = parseUnifiedDiff(DIFF);
+
+  it('splits the diff into files and hunks with their line counts', () => {
+    expect(files.map(file => [file.path, file.status, file.hunks.length, file.added, file.removed])).toEqual([
+      ['src/app.ts', 'modified', 2, 2, 1],
+      ['docs/new guide.md', 'added', 1, 2, 0],
+      ['old.txt', 'deleted', 1, 0, 1],
+      ['logo.png', 'modified', 0, 0, 0],
+      ['caf\\303\\251.txt', 'modified', 1, 1, 1]
+    ]);
+
+    expect(files[0].hunks.map(hunk => [hunk.header, hunk.added, hunk.removed])).toEqual([
+      ['@@ -1,2 +1,2 @@', 1, 1],
+      ['@@ -20,2 +20,3 @@ export function start() {', 1, 0]
+    ]);
+  });
+
+  it('keeps the header lines needed to apply the hunks again', () => {
+    expect(files[1].header).toEqual([
+      'diff --git a/docs/new guide.md b/docs/new guide.md',
+      'new file mode 100644',
+      'index 0000000..3333333',
+      '--- /dev/null',
+      '+++ b/docs/new guide.md'
+    ]);
+  });
+
+  it('keeps "no newline" markers with their hunk', () => {
+    expect(files[2].hunks[0].lines).toEqual(['-obsolete', '\\ No newline at end of file']);
+  });
+
+  it('marks binary files', () => {
+    expect(files.map(file => file.binary)).toEqual([false, false, false, true, false]);
+  });
+
+  it('returns nothing for an empty diff', () => {
+    expect(parseUnifiedDiff('')).toEqual([]);
+  });
+});
+
+describe('formatFilePatch', () => {
+  const [app] = parseUnifiedDiff(DIFF);
+
+  it('renders the header with only the chosen hunks', () => {
+    expect(formatFilePatch(app, [1])).toBe([
+      'diff --git a/src/app.ts b/src/app.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -20,2 +20,3 @@ export function start() {',
+      '   listen(port);',
+      '+  log(\'started\');',
+      ' }',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders every hunk when none are chosen', () => {
+    const patch = formatFilePatch(app);
+
+    expect(DIFF.startsWith(patch)).toBe(true);
+    expect(patch).toContain('@@ -1,2 +1,2 @@');
+    expect(patch).toContain('@@ -20,2 +20,3 @@');
+  });
+});
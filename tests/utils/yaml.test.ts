@@ -0,0 +1,86 @@
+import { parseYaml, YamlError } from '../../src/utils/yaml';
+
+describe('parseYaml', () => {
+  it('parses mappings, lists and scalars', () => {
+    expect(parseYaml([
+      'test: npm test',
+      'retries: 3',
+      'draft: false',
+      'reviewers:',
+      '  - alice',
+      '  - bob',
+      'labels: [bug, "needs review"]',
+      'env: {CI: true, NODE_ENV: test}'
+    ].join('\n'))).toEqual({
+      test: 'npm test',
+      retries: 3,
+      draft: false,
+      reviewers: ['alice', 'bob'],
+      labels: ['bug', 'needs review'],
+      env: { CI: true, NODE_ENV: 'test' }
+    });
+  });
+
+  it('parses literal and folded block scalars', () => {
+    expect(parseYaml([
+      'script: |',
+      '  npm ci',
+      '  npm test',
+      'summary: >',
+      '  Fix the crash',
+      '  on start',
+      'trimmed: |-',
+      '  no trailing newline'
+    ].join('\n'))).toEqual({
+      script: 'npm ci\nnpm test\n',
+      summary: 'Fix the crash on start\n',
+      trimmed: 'no trailing newline'
+    });
+  });
+
+  it('keeps quoted strings as written', () => {
+    expect(parseYaml([
+      'version: "1.10"',
+      'answer: \'no\'',
+      'escaped: "tab\\there"',
+      'quote: \'it\'\'s\'',
+      'hash: "# not a comment"'
+    ].join('\n'))).toEqual({
+      version: '1.10',
+      answer: 'no',
+      escaped: 'tab\there',
+      quote: 'it\'s',
+      hash: '# not a comment'
+    });
+  });
+
+  it('ignores comments', () => {
+    expect(parseYaml([
+      '# Resolver settings',
+      'test: make check # runs the unit tests',
+      'protectedPaths:',
+      '  # generated',
+      '  - dist/**'
+    ].join('\n'))).toEqual({ test: 'make check', protectedPaths: ['dist/**'] });
+  });
+
+  it('parses an empty document to null', () => {
+    expect(parseYaml('')).toBeNull();
+    expect(parseYaml('# nothing configured\n')).toBeNull();
+  });
+
+  it('reports the line of the first problem', () => {
+    const parse = () => parseYaml('test: npm test\nlabels: [bug\nlint: npm run lint\n');
+
+    expect(parse).toThrow(YamlError);
+    expect(parse).toThrow(/^line \d+: /);
+  });
+
+  it('rejects duplicate keys', () => {
+    expect(() => parseYaml('test: npm test\ntest: make test\n')).toThrow(new YamlError('Map keys must be unique', 2));
+  });
+
+  it('rejects several documents', () => {
+    expect(() => parseYaml('test: npm test\n---\ntest: make test\n')).toThrow(YamlError);
+  });
+});